@@ -0,0 +1,43 @@
+export class {{ name | pascal }}Error extends Error {
+  constructor(
+    message: string,
+    public readonly cause?: Error,
+    public readonly context?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = '{{ name | pascal }}Error';
+  }
+}
+
+export interface {{ name | pascal }}Options {
+  // Add configuration here
+}
+
+/**
+ * {{ description }}
+ *
+ * @example
+ * ```typescript
+ * const {{ name | camel }} = new {{ name | pascal }}({});
+ * await {{ name | camel }}.run('input');
+ * ```
+ */
+export class {{ name | pascal }} {
+  constructor(private readonly options: {{ name | pascal }}Options) {
+    if (!options) {
+      throw new {{ name | pascal }}Error('options are required');
+    }
+  }
+
+  /**
+   * @param input - Value to process
+   * @throws {{{ name | pascal }}Error} When the input is empty
+   */
+  async run(input: string): Promise<string> {
+    if (!input) {
+      throw new {{ name | pascal }}Error('Input cannot be empty');
+    }
+
+    return input;
+  }
+}
@@ -0,0 +1,25 @@
+export class {{ name | pascal }}Error extends Error {
+  constructor(message: string, public readonly cause?: Error) {
+    super(message);
+    this.name = '{{ name | pascal }}Error';
+  }
+}
+
+/**
+ * {{ description }}
+ *
+ * @param input - Value to process
+ * @throws {{{ name | pascal }}Error} When the input is empty
+ *
+ * @example
+ * ```typescript
+ * const result = await {{ name | camel }}('input');
+ * ```
+ */
+export async function {{ name | camel }}(input: string): Promise<string> {
+  if (!input) {
+    throw new {{ name | pascal }}Error('Input cannot be empty');
+  }
+
+  return input;
+}
@@ -0,0 +1,18 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { {{ name | pascal }}, {{ name | pascal }}Error } from './{{ name | pascal }}';
+
+describe('{{ name | pascal }}', () => {
+  let instance: {{ name | pascal }};
+
+  beforeEach(() => {
+    instance = new {{ name | pascal }}({});
+  });
+
+  it('should process valid input successfully', async () => {
+    await expect(instance.run('valid')).resolves.toBe('valid');
+  });
+
+  it('should throw {{ name | pascal }}Error for empty input', async () => {
+    await expect(instance.run('')).rejects.toThrow({{ name | pascal }}Error);
+  });
+});
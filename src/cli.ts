@@ -8,6 +8,16 @@ import path from 'path';
 import fs from 'fs/promises';
 import { getLLMConfigManager } from './lib/config/LLMConfig';
 import inquirer from 'inquirer';
+import { listTrusted, addTrusted, removeTrusted, ensureFolderTrusted, realpathDeep } from './lib/trust';
+import { SnapshotStore, listSnapshotSessions, describeUndo, describeEdits } from './lib/snapshots/SnapshotStore';
+import { GitWorkspace } from './lib/executor/git-workspace';
+import { PlanExecutionError, CheckpointValidationError } from './lib/executor/plan-executor';
+import { formatTimeline } from './lib/executor/step-scheduler';
+import { formatDryRun } from './lib/executor/dry-run';
+import { getAgentTypeRegistry } from './lib/agents/agent-types';
+import { validateAgentDefinitions, formatAgentIssue } from './lib/agents/agent-definition';
+import { AgentManager } from './lib/agents/AgentManager';
+import { checkLLMHealth, describeLLM } from './lib/providers/ProviderFactory';
 
 // Load environment variables
 dotenv.config();
@@ -19,29 +29,75 @@ program
   .description('Selek - Systematic Multi-Agent AI Platform')
   .version('2.0.0');
 
+// Commands that run agents or tools in the current folder
+const TRUST_REQUIRED = ['init', 'spawn', 'execute'];
+
+/**
+ * Orchestrator on Ollama when --endpoint or --model is given, otherwise on
+ * the default provider from the LLM config (`selek config`)
+ */
+function createOrchestrator(options: { endpoint?: string; model?: string }): MultiAgentOrchestrator {
+  if (!options.endpoint && !options.model) {
+    return new MultiAgentOrchestrator();
+  }
+  return MultiAgentOrchestrator.forOllama(
+    options.endpoint || process.env.OLLAMA_ENDPOINT || 'http://localhost:11434',
+    options.model || process.env.OLLAMA_MODEL || 'llama3.1:latest'
+  );
+}
+
+/**
+ * Ask "trust this folder?" the first time an agent command runs in a project
+ */
+program.hook('preAction', async (_program, actionCommand) => {
+  if (!TRUST_REQUIRED.includes(actionCommand.name())) {
+    return;
+  }
+
+  const trusted = await ensureFolderTrusted(process.cwd(), async (dir) => {
+    if (!process.stdin.isTTY) {
+      console.error(chalk.red(`✗ ${dir} is not a trusted folder.`));
+      console.error(chalk.gray('  Run "selek trust add ." to allow agents to work here.'));
+      return false;
+    }
+
+    console.log(chalk.yellow(`\nSelek has not been used in ${dir} before.`));
+    console.log(chalk.gray('Agents can read, change and run commands in trusted folders only.\n'));
+    const answer = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'trust',
+        message: 'Trust this folder?',
+        default: false,
+      },
+    ]);
+    return answer.trust;
+  });
+
+  if (!trusted) {
+    process.exit(1);
+  }
+});
+
 /**
  * Initialize orchestrator command
  */
 program
   .command('init')
   .description('Initialize the multi-agent system')
-  .option('-e, --endpoint <url>', 'Ollama endpoint URL', process.env.OLLAMA_ENDPOINT || 'http://localhost:11434')
-  .option('-m, --model <name>', 'Ollama model name', process.env.OLLAMA_MODEL || 'llama3.1:latest')
+  .option('-e, --endpoint <url>', 'Use Ollama at this URL instead of the default provider')
+  .option('-m, --model <name>', 'Use this Ollama model instead of the default provider')
   .action(async (options) => {
     const spinner = ora('Initializing orchestrator...').start();
 
     try {
-      const orchestrator = new MultiAgentOrchestrator(
-        options.endpoint,
-        options.model
-      );
+      const orchestrator = createOrchestrator(options);
 
       await orchestrator.initialize();
       
       spinner.succeed('Orchestrator initialized successfully');
       console.log(chalk.green('\n✓ System ready to use'));
-      console.log(chalk.gray(`  Endpoint: ${options.endpoint}`));
-      console.log(chalk.gray(`  Model: ${options.model}`));
+      console.log(chalk.gray(`  LLM: ${describeLLM(await orchestrator.getLLMClient())}`));
     } catch (error: any) {
       spinner.fail('Initialization failed');
       console.error(chalk.red('\n✗ Error:'), error.message);
@@ -57,29 +113,39 @@ program
   .description('Spawn specialized agents to create implementation plans')
   .requiredOption('-t, --task <description>', 'Task description')
   .requiredOption('-d, --domain <domain>', 'Domain expertise (e.g., "Python Backend Development")')
-  .requiredOption('-a, --agents <types>', 'Comma-separated agent types (implementation,security,performance)')
-  .option('-e, --endpoint <url>', 'Ollama endpoint URL', process.env.OLLAMA_ENDPOINT || 'http://localhost:11434')
-  .option('-m, --model <name>', 'Ollama model name', process.env.OLLAMA_MODEL || 'llama3.1:latest')
+  .requiredOption('-a, --agents <types>', `Comma-separated agent types (${getAgentTypeRegistry().names().join(',')})`)
+  .option('-e, --endpoint <url>', 'Use Ollama at this URL instead of the default provider')
+  .option('-m, --model <name>', 'Use this Ollama model instead of the default provider')
   .option('--auto-execute', 'Automatically execute the implementation plan', false)
+  .option('--review-rounds <n>', 'Most security/performance reviews of the implementation plan', '3')
   .action(async (options) => {
+    const agentTypes: string[] = options.agents.split(',').map((a: string) => a.trim()).filter(Boolean);
+    try {
+      getAgentTypeRegistry().validate(agentTypes);
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+    const reviewRounds = parseInt(options.reviewRounds, 10);
+    if (!Number.isInteger(reviewRounds) || reviewRounds < 1) {
+      console.error(chalk.red('✗ Error:'), '--review-rounds must be a positive integer');
+      process.exit(1);
+    }
+
     const spinner = ora('Initializing orchestrator...').start();
 
     try {
-      const orchestrator = new MultiAgentOrchestrator(
-        options.endpoint,
-        options.model
-      );
+      const orchestrator = createOrchestrator(options);
 
       await orchestrator.initialize();
       spinner.succeed('Orchestrator initialized');
 
-      const agentTypes = options.agents.split(',').map((a: string) => a.trim());
-
       const taskRequest: TaskRequest = {
         description: options.task,
         domain: options.domain,
         requiredAgents: agentTypes,
         autoExecute: options.autoExecute,
+        reviewRounds,
       };
 
       console.log(chalk.cyan('\n🚀 Starting multi-agent execution'));
@@ -95,6 +161,16 @@ program
         console.log(chalk.gray(`  • ${agentType}: ${planFile}`));
       }
 
+      if (result.review) {
+        const count = (status: string) => result.review!.findings.filter(f => f.status === status).length;
+        console.log(chalk.bold('\nReview:'));
+        console.log(chalk.gray(`  Rounds: ${result.review.rounds.length}`));
+        console.log(chalk.gray(`  Findings: ${count('resolved')} resolved, ${count('accepted')} accepted, ${count('deferred')} deferred`));
+        if (!result.review.converged) {
+          console.log(chalk.yellow(`  ${result.review.blockingOpen} blocking finding(s) still open`));
+        }
+      }
+
       if (result.execution) {
         console.log(chalk.bold('\nExecution Results:'));
         console.log(chalk.gray(`  Status: ${result.execution.success ? '✅ Success' : '❌ Failed'}`));
@@ -124,17 +200,21 @@ program
   .command('execute')
   .description('Execute an implementation plan')
   .argument('<planFile>', 'Path to the plan file')
-  .option('-e, --endpoint <url>', 'Ollama endpoint URL', process.env.OLLAMA_ENDPOINT || 'http://localhost:11434')
-  .option('-m, --model <name>', 'Ollama model name', process.env.OLLAMA_MODEL || 'llama3.1:latest')
-  .option('--dry-run', 'Perform a dry run without making changes', false)
+  .option('-e, --endpoint <url>', 'Use Ollama at this URL instead of the default provider')
+  .option('-m, --model <name>', 'Use this Ollama model instead of the default provider')
+  .option('--dry-run', 'Show the diff the plan would make (in a scratch worktree), then ask to run it', false)
+  .option('--no-isolate', 'Change the working tree directly instead of a separate git branch')
+  .option('--accept', 'Merge the result into the working tree without asking', false)
+  .option('--resume', 'Continue the last run of this plan, skipping completed steps', false)
+  .option('--from <step>', 'Run from this step to the end of the plan (e.g. 2.1)')
+  .option('--only <step>', 'Run just this step')
+  .option('-p, --parallel <n>', 'Steps that may run at once (1 = one after the other)', '3')
+  .option('--timeline', 'Show when each step ran and what ran alongside it', false)
   .action(async (planFile, options) => {
     const spinner = ora('Initializing executor...').start();
 
     try {
-      const orchestrator = new MultiAgentOrchestrator(
-        options.endpoint,
-        options.model
-      );
+      const orchestrator = createOrchestrator(options);
 
       await orchestrator.initialize();
       spinner.succeed('Executor initialized');
@@ -143,11 +223,44 @@ program
         console.log(chalk.yellow('\n⚠️  DRY RUN MODE - No changes will be made\n'));
       }
 
-      spinner.start('Executing plan...');
-      const result = await orchestrator.executePlan(planFile, options.dryRun);
+      const execute = (dryRun: boolean) => orchestrator.executePlan(planFile, dryRun, {
+        isolate: options.isolate,
+        resume: options.resume,
+        fromStep: options.from,
+        onlyStep: options.only,
+        parallel: parseInt(options.parallel, 10) || 1,
+      });
+      spinner.start(options.dryRun ? 'Previewing plan...' : 'Executing plan...');
+      let result = await execute(options.dryRun);
       spinner.stop();
 
-      if (result.success) {
+      if (result.dryRun) {
+        console.log();
+        for (const line of formatDryRun(result.dryRun).split('\n')) {
+          if (line.startsWith('===') || line.startsWith('$ ')) console.log(chalk.cyan(line));
+          else if (line.startsWith('+') && !line.startsWith('+++')) console.log(chalk.green(line));
+          else if (line.startsWith('-') && !line.startsWith('---')) console.log(chalk.red(line));
+          else console.log(chalk.gray(line));
+        }
+
+        const proceed = result.success && process.stdin.isTTY && (await inquirer.prompt([{
+          type: 'confirm',
+          name: 'proceed',
+          message: 'Run the plan for real?',
+          default: false,
+        }])).proceed;
+        if (proceed) {
+          spinner.start('Executing plan...');
+          result = await execute(false);
+          spinner.stop();
+        }
+      }
+
+      if (result.success && result.dryRun) {
+        console.log(chalk.green('\n✓ Dry run finished'));
+        console.log(chalk.gray(`  Steps previewed: ${result.completedSteps.length}`));
+        console.log(chalk.gray(`  Run it with: selek execute ${planFile}`));
+      } else if (result.success) {
         console.log(chalk.green('\n✓ Plan executed successfully'));
         console.log(chalk.gray(`  Steps completed: ${result.completedSteps.length}`));
         console.log(chalk.gray(`  Checkpoints reached: ${result.checkpointsReached.length}`));
@@ -157,6 +270,53 @@ program
         console.log(chalk.gray(`  Steps completed: ${result.completedSteps.length}`));
         console.log(chalk.gray(`  Failed at: ${result.failedStep}`));
         console.log(chalk.red(`  Error: ${result.error?.message}`));
+        if (result.rolledBackTo) {
+          console.log(chalk.yellow(`  Rolled back to: ${result.rolledBackTo}`));
+        }
+        if (!result.dryRun && (result.error instanceof PlanExecutionError || result.error instanceof CheckpointValidationError)) {
+          console.log(chalk.gray(`  Continue with: selek execute ${planFile} --resume`));
+        }
+      }
+
+      for (const verification of result.verifications ?? []) {
+        const failed = verification.checks.filter(check => !check.passed);
+        if (failed.length === 0) continue;
+        console.log(chalk.red(`\n  Checkpoint ${verification.checkpoint}: ${failed.length} check(s) failed`));
+        for (const check of failed) {
+          const exit = check.exitCode !== undefined ? ` (exit ${check.exitCode})` : '';
+          console.log(chalk.red(`    ✗ ${check.description}${exit}`));
+          if (check.output) {
+            console.log(chalk.gray(check.output.split('\n').slice(-10).map(line => `      ${line}`).join('\n')));
+          }
+        }
+      }
+
+      if (options.timeline && result.timeline) {
+        console.log(chalk.cyan('\nTimeline:'));
+        console.log(chalk.gray(formatTimeline(result.timeline)));
+      }
+
+      if (result.workspace) {
+        const { runId, branch } = result.workspace;
+        console.log(chalk.gray(`  Branch: ${branch} (your working tree is unchanged)`));
+
+        const accept = result.success && (options.accept || (process.stdin.isTTY && (await inquirer.prompt([{
+          type: 'confirm',
+          name: 'accept',
+          message: `Merge ${branch} into your working tree?`,
+          default: false,
+        }])).accept));
+
+        if (accept) {
+          await (await GitWorkspace.open(runId)).accept();
+          console.log(chalk.green(`✓ Merged ${branch}`));
+        } else {
+          console.log(chalk.gray(`  Apply later with: selek runs accept ${runId}`));
+          console.log(chalk.gray(`  Drop with:        selek runs discard ${runId}`));
+        }
+      }
+
+      if (!result.success) {
         process.exit(1);
       }
     } catch (error: any) {
@@ -173,14 +333,11 @@ program
   .command('list')
   .description('List all agent executions')
   .option('-s, --status <status>', 'Filter by status (active/completed/failed)')
-  .option('-e, --endpoint <url>', 'Ollama endpoint URL', process.env.OLLAMA_ENDPOINT || 'http://localhost:11434')
-  .option('-m, --model <name>', 'Ollama model name', process.env.OLLAMA_MODEL || 'llama3.1:latest')
+  .option('-e, --endpoint <url>', 'Use Ollama at this URL instead of the default provider')
+  .option('-m, --model <name>', 'Use this Ollama model instead of the default provider')
   .action(async (options) => {
     try {
-      const orchestrator = new MultiAgentOrchestrator(
-        options.endpoint,
-        options.model
-      );
+      const orchestrator = createOrchestrator(options);
 
       await orchestrator.initialize();
 
@@ -222,14 +379,11 @@ program
   .command('search')
   .description('Search for agents by task keywords')
   .argument('<keywords>', 'Keywords to search for in task descriptions')
-  .option('-e, --endpoint <url>', 'Ollama endpoint URL', process.env.OLLAMA_ENDPOINT || 'http://localhost:11434')
-  .option('-m, --model <name>', 'Ollama model name', process.env.OLLAMA_MODEL || 'llama3.1:latest')
+  .option('-e, --endpoint <url>', 'Use Ollama at this URL instead of the default provider')
+  .option('-m, --model <name>', 'Use this Ollama model instead of the default provider')
   .action(async (keywords, options) => {
     try {
-      const orchestrator = new MultiAgentOrchestrator(
-        options.endpoint,
-        options.model
-      );
+      const orchestrator = createOrchestrator(options);
 
       await orchestrator.initialize();
 
@@ -260,25 +414,21 @@ program
 program
   .command('health')
   .description('Check system health')
-  .option('-e, --endpoint <url>', 'Ollama endpoint URL', process.env.OLLAMA_ENDPOINT || 'http://localhost:11434')
-  .option('-m, --model <name>', 'Ollama model name', process.env.OLLAMA_MODEL || 'llama3.1:latest')
+  .option('-e, --endpoint <url>', 'Use Ollama at this URL instead of the default provider')
+  .option('-m, --model <name>', 'Use this Ollama model instead of the default provider')
   .action(async (options) => {
     const spinner = ora('Checking system health...').start();
 
     try {
-      const orchestrator = new MultiAgentOrchestrator(
-        options.endpoint,
-        options.model
-      );
+      const orchestrator = createOrchestrator(options);
 
-      const llm = orchestrator.getLLMClient();
-      const health = await llm.healthCheck();
+      const llm = await orchestrator.getLLMClient();
+      const health = await checkLLMHealth(llm);
 
       if (health.healthy) {
         spinner.succeed('System is healthy');
         console.log(chalk.green('\n✓ All systems operational'));
-        console.log(chalk.gray(`  Endpoint: ${options.endpoint}`));
-        console.log(chalk.gray(`  Model: ${options.model}`));
+        console.log(chalk.gray(`  LLM: ${describeLLM(llm)}`));
       } else {
         spinner.fail('System is unhealthy');
         console.log(chalk.red('\n✗ Health check failed'));
@@ -486,7 +636,311 @@ configCmd
     }
   });
 
-program.parse(process.argv);
+/**
+ * Trusted folder commands
+ */
+const trustCmd = program
+  .command('trust')
+  .description('Manage the folders agents may read, change and run commands in');
+
+// List trusted folders
+trustCmd
+  .command('list')
+  .description('List trusted folders')
+  .action(async () => {
+    try {
+      const dirs = await listTrusted();
+
+      if (dirs.length === 0) {
+        console.log(chalk.yellow('\nNo trusted folders'));
+        console.log(chalk.gray('  Agents are limited to the folder they are started in.'));
+        return;
+      }
+
+      const cwd = await realpathDeep(process.cwd());
+      console.log(chalk.bold(`\nTrusted folders (${dirs.length}):\n`));
+      for (const dir of dirs) {
+        console.log(`  • ${dir}${dir === cwd ? chalk.cyan(' (current)') : ''}`);
+      }
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// Trust a folder
+trustCmd
+  .command('add')
+  .description('Trust a folder and everything below it')
+  .argument('[dir]', 'Folder to trust', '.')
+  .action(async (dir) => {
+    try {
+      const stat = await fs.stat(dir).catch(() => null);
+      if (!stat?.isDirectory()) {
+        throw new Error(`${dir} is not a directory`);
+      }
+
+      await addTrusted(dir);
+      console.log(chalk.green(`✓ Trusted ${await realpathDeep(dir)}`));
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// Stop trusting a folder
+trustCmd
+  .command('remove')
+  .description('Stop trusting a folder')
+  .argument('[dir]', 'Folder to remove', '.')
+  .action(async (dir) => {
+    try {
+      const before = await listTrusted();
+      const after = await removeTrusted(dir);
+
+      if (after.length === before.length) {
+        console.log(chalk.yellow(`${dir} is not in the trusted list`));
+        return;
+      }
+      console.log(chalk.green(`✓ Removed ${await realpathDeep(dir)}`));
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Plan run commands (git branches created by execute)
+ */
+const runsCmd = program
+  .command('runs')
+  .description('Review, accept or discard plan runs executed on their own git branch');
+
+// List runs
+runsCmd
+  .command('list')
+  .description('List plan runs that have not been accepted or discarded')
+  .action(async () => {
+    try {
+      const runIds = await GitWorkspace.list();
+
+      if (runIds.length === 0) {
+        console.log(chalk.yellow('\nNo plan runs'));
+        return;
+      }
+
+      console.log(chalk.bold(`\nPlan runs (${runIds.length}):\n`));
+      for (const runId of runIds) {
+        const workspace = await GitWorkspace.open(runId);
+        const checkpoints = (await workspace.getCheckpoints()).map(c => c.name).filter(name => name !== 'start');
+        console.log(`  • ${runId}` + chalk.gray(` [${workspace.getBranch()}]`));
+        console.log(chalk.gray(`    Checkpoints: ${checkpoints.length > 0 ? checkpoints.join(', ') : 'none'}`));
+        const stat = await workspace.diffStat();
+        console.log(chalk.gray(`    ${stat ? stat.split('\n').pop()!.trim() : 'No changes'}`));
+      }
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// Merge a run into the working tree
+runsCmd
+  .command('accept')
+  .description('Merge a plan run into the current branch and remove its worktree')
+  .argument('<runId>', 'Run id (see "selek runs list")')
+  .action(async (runId) => {
+    try {
+      const workspace = await GitWorkspace.open(runId);
+      await workspace.accept();
+      console.log(chalk.green(`✓ Merged ${workspace.getBranch()}`));
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// Drop a run
+runsCmd
+  .command('discard')
+  .description('Delete a plan run, its branch and worktree')
+  .argument('<runId>', 'Run id (see "selek runs list")')
+  .action(async (runId) => {
+    try {
+      const workspace = await GitWorkspace.open(runId);
+      await workspace.discard();
+      console.log(chalk.green(`✓ Discarded ${workspace.getBranch()}`));
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * AGENT.md agent commands
+ */
+const agentsCmd = program
+  .command('agents')
+  .description('Validate AGENT.md agents and manage their version history');
+
+const parseVersion = (value: string): number => {
+  const version = Number(value.replace(/^v/, ''));
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid version: ${value}`);
+  }
+  return version;
+};
+
+// Validate agents
+agentsCmd
+  .command('validate')
+  .description('Check AGENT.md front-matter against the schema and resolve extends')
+  .argument('[ids...]', 'Agents to validate (default: all)')
+  .option('-d, --dir <path>', 'Agents directory', './agents')
+  .action(async (ids: string[], options) => {
+    try {
+      const results = await validateAgentDefinitions(path.resolve(options.dir), ids.length > 0 ? ids : undefined);
+      const invalid = results.filter(r => r.issues.length > 0);
+
+      for (const result of results) {
+        if (result.issues.length === 0) {
+          console.log(chalk.green(`✓ ${result.agentId}`));
+          continue;
+        }
+        console.log(chalk.red(`✗ ${result.agentId}`));
+        for (const issue of result.issues) {
+          console.log(`  ${formatAgentIssue({ ...issue, file: path.relative(process.cwd(), issue.file) })}`);
+        }
+      }
+
+      console.log();
+      if (invalid.length > 0) {
+        console.log(chalk.red(`✗ ${invalid.length} of ${results.length} agent(s) invalid`));
+        process.exit(1);
+      }
+      console.log(chalk.green(`✓ ${results.length} agent(s) valid`));
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// List saved versions
+agentsCmd
+  .command('history')
+  .description('List saved versions of an agent')
+  .argument('<id>', 'Agent id')
+  .option('-d, --dir <path>', 'Agents directory', './agents')
+  .action(async (id, options) => {
+    try {
+      const versions = await new AgentManager(options.dir).getHistory(id).list();
+
+      if (versions.length === 0) {
+        console.log(chalk.yellow(`\nNo saved versions of ${id}`));
+        console.log(chalk.gray('  Versions are saved when the agent is created or updated through selek.'));
+        return;
+      }
+
+      console.log(chalk.bold(`\nVersions of ${id} (${versions.length}):\n`));
+      for (const version of versions) {
+        console.log(`  v${version.version}  ${chalk.gray(new Date(version.savedAt).toLocaleString())}  ${version.reason}`);
+      }
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// Diff two versions
+agentsCmd
+  .command('diff')
+  .description('Show changes between two versions of an agent')
+  .argument('<id>', 'Agent id')
+  .argument('<from>', 'Version to compare from, e.g. 2 or v2')
+  .argument('[to]', 'Version to compare to (default: the current AGENT.md)')
+  .option('-d, --dir <path>', 'Agents directory', './agents')
+  .action(async (id, from, to, options) => {
+    try {
+      const history = new AgentManager(options.dir).getHistory(id);
+      const diff = await history.diff(parseVersion(from), to === undefined ? undefined : parseVersion(to));
+
+      if (!diff) {
+        console.log(chalk.yellow('No changes'));
+        return;
+      }
+      for (const line of diff.split('\n')) {
+        console.log(line.startsWith('+') ? chalk.green(line) : line.startsWith('-') ? chalk.red(line) : line.startsWith('@@') ? chalk.cyan(line) : line);
+      }
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+// Restore a version
+agentsCmd
+  .command('rollback')
+  .description('Restore a saved version of an agent (saved as a new version)')
+  .argument('<id>', 'Agent id')
+  .argument('<version>', 'Version to restore, e.g. 2 or v2')
+  .option('-d, --dir <path>', 'Agents directory', './agents')
+  .action(async (id, version, options) => {
+    try {
+      await new AgentManager(options.dir).rollbackAgent(id, parseVersion(version));
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Undo agent file edits
+ */
+program
+  .command('undo')
+  .description('Undo file edits made by the agent in a TUI or chat session')
+  .argument('[count]', 'Number of edits to undo', '1')
+  .option('-s, --session <id>', 'Session or conversation id (default: most recent)')
+  .option('-t, --turn <n>', 'Restore files to their state at the start of conversation turn n')
+  .option('-l, --list', 'List recorded edits instead of undoing')
+  .option('-f, --force', 'Overwrite files that changed since the agent edited them')
+  .action(async (countArg, options) => {
+    try {
+      const sessionId = options.session ?? (await listSnapshotSessions())[0]?.sessionId;
+      if (!sessionId) {
+        console.log(chalk.yellow('\nNo recorded edits'));
+        return;
+      }
+
+      const snapshots = await SnapshotStore.load(sessionId);
+      if (options.list) {
+        console.log(chalk.bold(`\nEdits in session ${sessionId}:\n`));
+        console.log(describeEdits(snapshots));
+        return;
+      }
+
+      const turn = options.turn !== undefined ? parseInt(options.turn, 10) : undefined;
+      const count = parseInt(countArg, 10);
+      if ((turn !== undefined && !(turn > 0)) || !(count > 0)) {
+        throw new Error('count and --turn must be positive integers');
+      }
+
+      const result = turn !== undefined
+        ? await snapshots.restoreToTurn(turn, { force: options.force })
+        : await snapshots.undoLast(count, { force: options.force });
+
+      if (result.blocked) {
+        console.error(chalk.yellow(`⚠ ${describeUndo(result)}`));
+        process.exit(1);
+      }
+      console.log(chalk.green(`✓ ${describeUndo(result)}`));
+    } catch (error: any) {
+      console.error(chalk.red('✗ Error:'), error.message);
+      process.exit(1);
+    }
+  });
+
+program.parseAsync(process.argv);
 
 // Show help if no command provided
 if (!process.argv.slice(2).length) {
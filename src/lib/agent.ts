@@ -1,5 +1,16 @@
-import { Message, Tool, ToolCall, OllamaClient } from './llm/ollama-client';
+import { Message, Tool, ToolCall, ToolCallRecord, ToolContext, OllamaClient } from './llm/ollama-client';
+import { LLMSource } from './providers/ProviderFactory';
+import { ModelInfo } from './providers/types';
+import { ProviderLLMAdapter } from './providers/ProviderLLMAdapter';
 import { MCPClientManager, MCPServerConfig } from '../mcp/mcp-client';
+import { PermissionManager } from './permissions/PermissionManager';
+import { SnapshotStore } from './snapshots/SnapshotStore';
+import {
+  ContextManager,
+  ContextEventListener,
+  ConversationTurn,
+  buildSummaryPrompt,
+} from './context/ContextManager';
 import path from 'path';
 import fs from 'fs/promises';
 
@@ -52,6 +63,17 @@ export class MaxIterationsExceededError extends Error {
   }
 }
 
+export class AgentAbortedError extends Error {
+  constructor(
+    public readonly agentName: string,
+    public readonly reason: string
+  ) {
+    super(`Agent "${agentName}" was aborted: ${reason}`);
+    this.name = 'AgentAbortedError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
 /**
  * Agent role types
  */
@@ -65,90 +87,115 @@ export interface AgentMeta {
   role: Role;
   allowedTools?: string[];
   systemPrompt?: string;
+  toolConcurrency?: number; // Max read-only tool calls run at once (default AGENT_TOOL_CONCURRENCY or 4, 1 = sequential)
+  contextWindow?: number; // Overrides the context window reported by the model
+  runTimeoutMs?: number; // Default time limit for a run (no limit if unset)
+  requiresApproval?: boolean; // Tool calls with side effects need approval (AGENT.md requires_approval)
 }
 
 /**
- * Tool function signature
+ * Per-run options
  */
-export type ToolFunction = (params: Record<string, any>) => Promise<any>;
+export interface RunOptions {
+  signal?: AbortSignal; // Aborts the model call, running tools and the loop
+  timeoutMs?: number; // Aborts the run after this long (overrides meta.runTimeoutMs)
+  onToolResult?: (record: ToolCallRecord) => void; // Called for every finished tool call, even if the run fails later
+}
+
+const DEFAULT_TOOL_CONCURRENCY = 4;
 
 /**
- * Conversation turn tracking with enhanced context
+ * Concurrency limit for agents that do not set one:
+ * AGENT_TOOL_CONCURRENCY when it is a positive integer, otherwise 4
  */
-export interface ConversationTurn {
-  messages: Message[];
-  toolCalls: ToolCall[];
-  toolResults: Record<string, any>;
-  timestamp: Date;
-  summary?: string; // For context compression
+function defaultToolConcurrency(): number {
+  const value = Number(process.env.AGENT_TOOL_CONCURRENCY);
+  return Number.isInteger(value) && value >= 1 ? value : DEFAULT_TOOL_CONCURRENCY;
 }
 
 /**
- * Context Manager for sliding window and summarization
+ * Chat surface the agent loop drives. OllamaClient implements it directly,
+ * other providers are wrapped in a ProviderLLMAdapter.
  */
-class ContextManager {
-  private turns: ConversationTurn[] = [];
-  private contextSummary: string = '';
-  private readonly maxTurns = 10; // Keep last 10 turns
-  private readonly summaryThreshold = 15; // Summarize after 15 turns
-
-  addTurn(turn: ConversationTurn) {
-    this.turns.push(turn);
-    
-    // Trigger summarization if needed
-    if (this.turns.length > this.summaryThreshold && !this.contextSummary) {
-      this.contextSummary = this.generateSummary();
-      // Keep only recent turns after summarization
-      this.turns = this.turns.slice(-this.maxTurns);
-    }
-  }
+interface AgentLLM {
+  chat(messages: Message[], options?: { signal?: AbortSignal }): Promise<string>;
+  chatWithTools(
+    messages: Message[],
+    tools: Tool[],
+    options?: { signal?: AbortSignal }
+  ): Promise<{ content: string; toolCalls: ToolCall[] }>;
+  getModelInfo?(): Promise<ModelInfo>;
+}
 
-  getTurns(): ConversationTurn[] {
-    return this.turns;
-  }
+/**
+ * Tool function signature
+ */
+export type ToolFunction = (params: Record<string, any>, context?: ToolContext) => Promise<any>;
 
-  getContextSummary(): string {
-    return this.contextSummary;
-  }
+export type { ConversationTurn, ContextEvent, ContextEventListener } from './context/ContextManager';
 
-  private generateSummary(): string {
-    const oldTurns = this.turns.slice(0, -this.maxTurns);
-    
-    let summary = "# Previous Conversation Summary\n\n";
-    
-    // Summarize tool usage
-    const toolsUsed = new Set<string>();
-    oldTurns.forEach(turn => {
-      turn.toolCalls.forEach(tc => toolsUsed.add(tc.name));
-    });
-    
-    if (toolsUsed.size > 0) {
-      summary += `Tools used: ${Array.from(toolsUsed).join(', ')}\n\n`;
+/**
+ * Run a worker over items with at most `limit` in flight
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
     }
-    
-    // Key decisions/actions
-    summary += "Key actions taken:\n";
-    oldTurns.forEach((turn, i) => {
-      if (turn.toolCalls.length > 0) {
-        summary += `- Turn ${i + 1}: ${turn.toolCalls.map(tc => tc.name).join(', ')}\n`;
-      }
-    });
-    
-    return summary;
+  });
+  await Promise.all(runners);
+}
+
+/**
+ * Combine a caller's signal with an optional time limit into one signal
+ */
+function linkAbortSignal(
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined
+): { signal?: AbortSignal; dispose: () => void } {
+  if (!timeoutMs) {
+    return { signal, dispose: () => {} };
   }
 
-  clear() {
-    this.turns = [];
-    this.contextSummary = '';
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  const timer = setTimeout(
+    () => controller.abort(`timed out after ${timeoutMs}ms`),
+    timeoutMs
+  );
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
   }
 
-  getStats() {
-    return {
-      totalTurns: this.turns.length,
-      hasSummary: !!this.contextSummary,
-      toolCallsCount: this.turns.reduce((sum, t) => sum + t.toolCalls.length, 0),
-    };
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Human-readable reason of an aborted signal
+ */
+function abortReason(signal: AbortSignal): string {
+  const reason = signal.reason;
+  if (typeof reason === 'string') {
+    return reason;
+  }
+  if (reason instanceof Error && reason.name !== 'AbortError') {
+    return reason.message;
   }
+  return 'cancelled';
 }
 
 /**
@@ -156,7 +203,7 @@ class ContextManager {
  */
 export class Agent {
   meta: AgentMeta;
-  private llm: OllamaClient;
+  private llm: AgentLLM;
   private tools: Map<string, ToolFunction>;
   private toolSchemas: Tool[];
   private conversationHistory: ConversationTurn[];
@@ -167,15 +214,28 @@ export class Agent {
   
   // NEW: Context Manager
   private contextManager: ContextManager;
+  private contextWindowResolved = false;
+
+  // Permission layer; without one every tool call runs
+  private permissions: PermissionManager | null = null;
+
+  // File snapshots for undo; without a store edits are not recorded
+  private snapshots: SnapshotStore | null = null;
+
+  // Directory tools resolve relative paths against (null = process.cwd())
+  private workDir: string | null = null;
+
+  // Skip shell commands instead of running them (plan dry runs)
+  private dryRun = false;
 
   constructor(
     meta: AgentMeta,
-    llm: OllamaClient,
+    llm: LLMSource,
     maxIterations: number = 10,
     mcpServers?: MCPServerConfig[]
   ) {
     this.meta = meta;
-    this.llm = llm;
+    this.llm = llm instanceof OllamaClient ? llm : new ProviderLLMAdapter(llm);
     this.tools = new Map();
     this.toolSchemas = [];
     this.conversationHistory = [];
@@ -184,8 +244,13 @@ export class Agent {
     // Initialize MCP Client Manager
     this.mcpManager = new MCPClientManager();
     
-    // Initialize Context Manager
-    this.contextManager = new ContextManager();
+    // Initialize Context Manager (older turns are summarized by the agent's own LLM)
+    this.contextManager = new ContextManager(
+      { contextWindow: meta.contextWindow },
+      (messages, previousSummary, signal) =>
+        this.llm.chat(buildSummaryPrompt(messages, previousSummary), { signal })
+    );
+    this.contextWindowResolved = meta.contextWindow !== undefined;
     
     // Connect to MCP servers if provided
     if (mcpServers && mcpServers.length > 0) {
@@ -212,7 +277,9 @@ export class Agent {
   }
 
   /**
-   * Register a local tool that the agent can use
+   * Register a local tool that the agent can use. Tools outside
+   * meta.allowedTools are skipped, so a restricted agent can be handed the
+   * full standard tool set.
    */
   registerTool(
     name: string,
@@ -220,7 +287,6 @@ export class Agent {
     schema: Tool
   ): void {
     if (this.meta.allowedTools && !this.meta.allowedTools.includes(name)) {
-      console.warn(`Tool "${name}" not in allowed tools for agent "${this.meta.name}"`);
       return;
     }
 
@@ -228,16 +294,69 @@ export class Agent {
     this.toolSchemas.push(schema);
   }
 
+  /**
+   * Attach the session's permission layer (null removes it)
+   */
+  setPermissions(permissions: PermissionManager | null): void {
+    this.permissions = permissions;
+  }
+
+  getPermissions(): PermissionManager | null {
+    return this.permissions;
+  }
+
+  /**
+   * Attach the session's snapshot store so file edits can be undone (null removes it)
+   */
+  setSnapshots(snapshots: SnapshotStore | null): void {
+    this.snapshots = snapshots;
+  }
+
+  getSnapshots(): SnapshotStore | null {
+    return this.snapshots;
+  }
+
+  /**
+   * Run local tools in another directory (e.g. a git worktree); null restores process.cwd()
+   */
+  setWorkDir(workDir: string | null): void {
+    this.workDir = workDir;
+  }
+
+  getWorkDir(): string | null {
+    return this.workDir;
+  }
+
+  /**
+   * Have bashExec report commands without running them
+   */
+  setDryRun(dryRun: boolean): void {
+    this.dryRun = dryRun;
+  }
+
+  isDryRun(): boolean {
+    return this.dryRun;
+  }
+
   /**
    * Execute a tool (local or MCP)
    */
-  private async executeTool(toolCall: ToolCall): Promise<any> {
+  private async executeTool(toolCall: ToolCall, signal?: AbortSignal): Promise<any> {
     // Check local tools first
     const localFunc = this.tools.get(toolCall.name);
     
     if (localFunc) {
+      const context: ToolContext = {
+        callId: toolCall.id,
+        signal,
+        requestApproval: this.permissions?.approverFor(toolCall, this.meta.name, signal),
+        recordEdit: this.snapshots?.recorder(toolCall.name, toolCall.id),
+        workDir: this.workDir ?? undefined,
+        dryRun: this.dryRun || undefined,
+      };
+
       try {
-        const result = await localFunc(toolCall.arguments);
+        const result = await localFunc(toolCall.arguments, context);
         return result;
       } catch (error: any) {
         throw new ToolExecutionError(
@@ -250,7 +369,7 @@ export class Agent {
 
     // Try MCP tools
     try {
-      const result = await this.mcpManager.callTool(toolCall.name, toolCall.arguments);
+      const result = await this.mcpManager.callTool(toolCall.name, toolCall.arguments, { signal });
       return result;
     } catch (error: any) {
       // If not found in MCP either, throw tool not found error
@@ -261,6 +380,91 @@ export class Agent {
     }
   }
 
+  /**
+   * Execute the tool calls of one model turn.
+   * Consecutive read-only calls run concurrently (up to meta.toolConcurrency,
+   * else AGENT_TOOL_CONCURRENCY);
+   * any other call waits for them and runs alone, so calls keep their order
+   * relative to mutations. Records are returned in call order.
+   */
+  private async executeToolCalls(toolCalls: ToolCall[], signal?: AbortSignal): Promise<ToolCallRecord[]> {
+    const limit = Math.max(1, this.meta.toolConcurrency ?? defaultToolConcurrency());
+    const records: ToolCallRecord[] = new Array(toolCalls.length);
+    let batch: number[] = [];
+
+    const flushBatch = async () => {
+      await runWithConcurrency(batch, limit, async i => {
+        records[i] = await this.executeToolCall(toolCalls[i], signal);
+      });
+      batch = [];
+    };
+
+    for (let i = 0; i < toolCalls.length; i++) {
+      if (this.isReadOnlyTool(toolCalls[i].name)) {
+        batch.push(i);
+        continue;
+      }
+
+      await flushBatch();
+      records[i] = await this.executeToolCall(toolCalls[i], signal);
+    }
+
+    await flushBatch();
+    return records;
+  }
+
+  /**
+   * Whether a tool is flagged read-only in its schema (local or MCP)
+   */
+  private isReadOnlyTool(toolName: string): boolean {
+    return this.getAllToolSchemas().some(t => t.name === toolName && t.readOnly === true);
+  }
+
+  /**
+   * Execute a tool call and record its outcome, timing and any error.
+   * Calls not yet started when the run is aborted are recorded as skipped.
+   */
+  private async executeToolCall(toolCall: ToolCall, signal?: AbortSignal): Promise<ToolCallRecord> {
+    const startedAt = new Date();
+    const record: ToolCallRecord = {
+      id: toolCall.id,
+      name: toolCall.name,
+      args: toolCall.arguments,
+      startedAt: startedAt.toISOString(),
+      durationMs: 0,
+    };
+
+    if (signal?.aborted) {
+      record.error = `Skipped: run aborted (${abortReason(signal)})`;
+      return record;
+    }
+
+    if (this.permissions) {
+      const check = await this.permissions.authorize(toolCall, {
+        agentName: this.meta.name,
+        readOnly: this.isReadOnlyTool(toolCall.name),
+        requiresApproval: this.meta.requiresApproval,
+        signal,
+        workDir: this.workDir ?? undefined,
+      });
+      if (!check.allowed) {
+        record.error = `Permission denied: ${check.reason}`;
+        record.durationMs = Date.now() - startedAt.getTime();
+        return record;
+      }
+    }
+
+    try {
+      record.result = await this.executeTool(toolCall, signal);
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : String(error);
+      console.error(`Tool execution error for ${toolCall.name} (${toolCall.id}):`, record.error);
+    }
+
+    record.durationMs = Date.now() - startedAt.getTime();
+    return record;
+  }
+
   /**
    * Get all available tools (local + MCP)
    */
@@ -301,7 +505,7 @@ export class Agent {
     // Add context summary if available
     const contextSummary = this.contextManager.getContextSummary();
     if (contextSummary) {
-      systemMessage += `\n\n${contextSummary}`;
+      systemMessage += `\n\n# Previous Conversation Summary\n\n${contextSummary}`;
     }
     
     // Add tool availability info
@@ -318,27 +522,34 @@ export class Agent {
 
   /**
    * Run the agent with a user prompt, using tools (local + MCP)
+   *
+   * Aborting `options.signal` (or hitting the time limit) cancels the model
+   * call and running tools. The turn is still recorded, with every completed
+   * tool call answered, and the run rejects with AgentAbortedError.
    */
   async run(
     userPrompt: string,
-    contextFiles: string[] = []
+    contextFiles: string[] = [],
+    options: RunOptions = {}
   ): Promise<string> {
-    const messages: Message[] = [];
-
-    // Add enhanced system prompt
-    const systemMessage = this.buildSystemMessage();
-    if (systemMessage) {
-      messages.push({
-        role: 'system',
-        content: systemMessage,
-      });
+    const { signal, dispose } = linkAbortSignal(
+      options.signal,
+      options.timeoutMs ?? this.meta.runTimeoutMs
+    );
+
+    if (signal?.aborted) {
+      dispose();
+      throw new AgentAbortedError(this.meta.name, abortReason(signal));
     }
 
-    // Load and add context from files
+    this.snapshots?.beginTurn(userPrompt);
+
+    // Load context from files
+    const contextMessages: Message[] = [];
     for (const contextFile of contextFiles) {
       try {
         const context = await this.loadContext(contextFile);
-        messages.push({
+        contextMessages.push({
           role: 'system',
           content: `Context from ${path.basename(contextFile)}:\n\n${context}`,
         });
@@ -347,74 +558,107 @@ export class Agent {
       }
     }
 
-    // Add user prompt
-    messages.push({
-      role: 'user',
-      content: userPrompt,
-    });
+    // System prompt is rebuilt per call so it picks up a fresh summary after compaction
+    const buildBase = (): Message[] => {
+      const systemMessage = this.buildSystemMessage();
+      return [
+        ...(systemMessage ? [{ role: 'system' as const, content: systemMessage }] : []),
+        ...contextMessages,
+      ];
+    };
+
+    // Messages of this turn; earlier turns are added by the context manager
+    const turnMessages: Message[] = [
+      {
+        role: 'user',
+        content: userPrompt,
+      },
+    ];
 
     let iteration = 0;
     let finalResponse = '';
     const currentTurn: ConversationTurn = {
       messages: [],
       toolCalls: [],
-      toolResults: {},
+      toolResults: [],
       timestamp: new Date(),
     };
 
     // Get ALL available tools (local + MCP)
     const allTools = this.getAllToolSchemas();
 
-    // Agentic loop: LLM may call tools multiple times
-    while (iteration < this.maxIterations) {
-      iteration++;
+    try {
+      await this.resolveContextWindow();
+
+      // Agentic loop: LLM may call tools multiple times
+      while (iteration < this.maxIterations) {
+        iteration++;
+        signal?.throwIfAborted();
 
-      const response = await this.llm.chatWithTools(messages, allTools);
-      
-      // If no tool calls, we're done
-      if (response.toolCalls.length === 0) {
-        finalResponse = response.content;
+        const messages = await this.contextManager.fit(buildBase, turnMessages, allTools, signal);
+        const response = await this.llm.chatWithTools(messages, allTools, { signal });
         
-        currentTurn.messages = [...messages];
-        this.contextManager.addTurn(currentTurn);
-        this.conversationHistory.push(currentTurn);
+        // If no tool calls, we're done
+        if (response.toolCalls.length === 0) {
+          finalResponse = response.content;
+          turnMessages.push({
+            role: 'assistant',
+            content: response.content,
+          });
+          
+          this.recordTurn(currentTurn, turnMessages);
+          break;
+        }
+
+        // Execute all tool calls (local + MCP)
+        const records = await this.executeToolCalls(response.toolCalls, signal);
+        const toolMessages: Message[] = [];
         
-        break;
-      }
+        response.toolCalls.forEach((toolCall, i) => {
+          const record = records[i];
 
-      // Execute all tool calls (local + MCP)
-      const toolResults: Record<string, any> = {};
-      
-      for (const toolCall of response.toolCalls) {
-        try {
-          const result = await this.executeTool(toolCall);
-          toolResults[toolCall.name] = result;
-          
-          // Track tool calls
+          // Track tool calls and their per-call results
           currentTurn.toolCalls.push(toolCall);
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          toolResults[toolCall.name] = { error: errorMsg };
-          console.error(`Tool execution error for ${toolCall.name}:`, errorMsg);
-        }
-      }
+          currentTurn.toolResults.push(record);
+          options.onToolResult?.(record);
+
+          // Answer each call individually so the model can match results by id.
+          // The full result stays in the record; the model sees a capped copy.
+          const output = JSON.stringify(record.error ? { error: record.error } : record.result, null, 2);
+          toolMessages.push({
+            role: 'tool',
+            content: this.contextManager.truncateToolOutput(output ?? 'null', toolCall),
+            tool_call_id: toolCall.id,
+            tool_name: toolCall.name,
+          });
+        });
 
-      currentTurn.toolResults = toolResults;
+        // Add assistant response and tool results to conversation
+        turnMessages.push({
+          role: 'assistant',
+          content: response.content,
+          tool_calls: response.toolCalls,
+        });
 
-      // Add assistant response and tool results to conversation
-      messages.push({
+        turnMessages.push(...toolMessages);
+      }
+    } catch (error) {
+      if (!signal?.aborted) {
+        throw error;
+      }
+
+      // Keep history consistent: every tool call above is answered, close with a note
+      const reason = abortReason(signal);
+      turnMessages.push({
         role: 'assistant',
-        content: response.content,
+        content: `[Run aborted: ${reason}]`,
       });
+      currentTurn.aborted = true;
+      this.recordTurn(currentTurn, turnMessages);
 
-      const toolResultsText = Object.entries(toolResults)
-        .map(([tool, result]) => `Tool "${tool}" result:\n${JSON.stringify(result, null, 2)}`)
-        .join('\n\n');
-
-      messages.push({
-        role: 'user',
-        content: `Tool execution results:\n\n${toolResultsText}\n\nPlease continue or provide your final response.`,
-      });
+      throw new AgentAbortedError(this.meta.name, reason);
+    } finally {
+      dispose();
     }
 
     if (iteration >= this.maxIterations) {
@@ -424,10 +668,39 @@ export class Agent {
     return finalResponse;
   }
 
+  /**
+   * Store a finished (or aborted) turn in the context and the history
+   */
+  private recordTurn(turn: ConversationTurn, turnMessages: Message[]): void {
+    turn.messages = [...turnMessages];
+    this.contextManager.addTurn(turn);
+    this.conversationHistory.push(turn);
+  }
+
+  /**
+   * Ask the model for its context window once (meta.contextWindow wins)
+   */
+  private async resolveContextWindow(): Promise<void> {
+    if (this.contextWindowResolved || !this.llm.getModelInfo) {
+      return;
+    }
+    this.contextWindowResolved = true;
+
+    try {
+      const info = await this.llm.getModelInfo();
+      this.contextManager.setContextWindow(info.contextWindow);
+    } catch (error) {
+      console.warn(
+        `Could not get model context window for ${this.meta.name}, using ${this.contextManager.getContextWindow()} tokens:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
   /**
    * Simple chat without tools
    */
-  async chat(userPrompt: string): Promise<string> {
+  async chat(userPrompt: string, options: { signal?: AbortSignal } = {}): Promise<string> {
     const messages: Message[] = [];
 
     const systemMessage = this.buildSystemMessage();
@@ -443,7 +716,7 @@ export class Agent {
       content: userPrompt,
     });
 
-    return await this.llm.chat(messages);
+    return await this.llm.chat(messages, options);
   }
 
   /**
@@ -499,6 +772,14 @@ export class Agent {
     return this.contextManager.getStats();
   }
 
+  /**
+   * Subscribe to context management events (truncation, elision, compaction).
+   * Returns an unsubscribe function.
+   */
+  onContextEvent(listener: ContextEventListener): () => void {
+    return this.contextManager.onEvent(listener);
+  }
+
   /**
    * Check if agent has a specific tool (local or MCP)
    */
@@ -5,8 +5,16 @@
 
 import fs from 'fs/promises';
 import path from 'path';
-import matter from 'gray-matter';
 import { AgentMetadata, AgentConfig, Agent } from './AgentSystem';
+import {
+  AGENT_FILE,
+  AgentDefinitionError,
+  loadAgentDefinition,
+  parseAgentFile,
+  readAgentFile,
+  stringifyAgentFile,
+} from './agent-definition';
+import { AgentHistory } from './agent-history';
 
 export interface AgentTemplate {
   id: string;
@@ -51,47 +59,10 @@ export class AgentManager {
   }
 
   /**
-   * Get a specific agent by ID
+   * Get a specific agent by ID, with the agents it `extends` applied
    */
   async getAgent(agentId: string): Promise<Agent | null> {
-    const agentPath = path.join(this.agentsDirectory, agentId);
-    const agentFile = path.join(agentPath, 'AGENT.md');
-
-    try {
-      await fs.access(agentFile);
-    } catch {
-      return null;
-    }
-
-    const content = await fs.readFile(agentFile, 'utf-8');
-    const { data, content: systemPrompt } = matter(content);
-
-    const metadata: AgentMetadata = {
-      id: data.id || agentId,
-      name: data.name,
-      description: data.description,
-      version: data.version || '1.0.0',
-      author: data.author,
-      avatar: data.avatar || '🤖',
-      color: data.color || 'blue',
-      capabilities: data.capabilities || [],
-      activation_keywords: data.activation_keywords || [],
-      requires_approval: data.requires_approval || false,
-      max_iterations: data.max_iterations || 10,
-    };
-
-    const config: AgentConfig = {
-      systemPrompt: systemPrompt.trim(),
-      temperature: data.temperature || 0.7,
-      maxTokens: data.max_tokens || 2000,
-      tools: data.tools || [],
-    };
-
-    return {
-      metadata,
-      config,
-      path: agentPath,
-    };
+    return await loadAgentDefinition(this.agentsDirectory, agentId);
   }
 
   /**
@@ -127,7 +98,7 @@ export class AgentManager {
 
     // Create AGENT.md
     const agentMd = this.generateAgentMarkdown(params);
-    await fs.writeFile(path.join(agentPath, 'AGENT.md'), agentMd, 'utf-8');
+    await new AgentHistory(agentPath).write(agentMd, 'created');
 
     console.log(`✓ Created agent: ${params.name} at ${agentPath}`);
 
@@ -136,7 +107,10 @@ export class AgentManager {
   }
 
   /**
-   * Update an existing agent
+   * Update an existing agent. Only the agent's own AGENT.md changes:
+   * `systemPrompt` replaces its markdown, and fields and prompts it inherits
+   * through `extends` stay inherited. The previous file is kept in the
+   * agent's version history.
    */
   async updateAgent(
     agentId: string,
@@ -153,50 +127,59 @@ export class AgentManager {
       tools: string[];
     }>
   ): Promise<Agent> {
-    const agent = await this.getAgent(agentId);
-    if (!agent) {
+    const file = await readAgentFile(this.agentsDirectory, agentId);
+    if (!file) {
       throw new Error(`Agent not found: ${agentId}`);
     }
+    if (file.issues.length > 0) {
+      throw new AgentDefinitionError(agentId, file.issues);
+    }
 
     // Merge updates
-    const updatedMetadata = {
-      ...agent.metadata,
-      name: updates.name || agent.metadata.name,
-      description: updates.description || agent.metadata.description,
-      avatar: updates.avatar || agent.metadata.avatar,
-      color: updates.color || agent.metadata.color,
-      capabilities: updates.capabilities || agent.metadata.capabilities,
-      activation_keywords: updates.activation_keywords || agent.metadata.activation_keywords,
-    };
-
-    const updatedConfig = {
-      ...agent.config,
-      systemPrompt: updates.systemPrompt || agent.config.systemPrompt,
-      temperature: updates.temperature ?? agent.config.temperature,
-      maxTokens: updates.max_tokens ?? agent.config.maxTokens,
-      tools: updates.tools || agent.config.tools,
-    };
+    const { systemPrompt, ...fields } = updates;
+    const data = { ...file.data };
+    for (const [field, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        data[field] = value;
+      }
+    }
 
-    // Generate updated markdown
-    const agentMd = this.generateAgentMarkdown({
-      id: agentId,
-      name: updatedMetadata.name,
-      description: updatedMetadata.description,
-      avatar: updatedMetadata.avatar,
-      color: updatedMetadata.color,
-      capabilities: updatedMetadata.capabilities,
-      activation_keywords: updatedMetadata.activation_keywords,
-      systemPrompt: updatedConfig.systemPrompt,
-      temperature: updatedConfig.temperature,
-      max_tokens: updatedConfig.maxTokens,
-      tools: updatedConfig.tools,
-    });
+    const agentMd = stringifyAgentFile(data, systemPrompt ?? file.body);
+    const issues = parseAgentFile(agentMd, file.file, agentId).issues;
+    if (issues.length > 0) {
+      throw new AgentDefinitionError(agentId, issues);
+    }
 
     // Write updated file
-    const agentFile = path.join(agent.path, 'AGENT.md');
-    await fs.writeFile(agentFile, agentMd, 'utf-8');
+    await this.getHistory(agentId).write(agentMd, 'updated');
+
+    const agent = (await this.getAgent(agentId))!;
+    console.log(`✓ Updated agent: ${agent.metadata.name}`);
+
+    return agent;
+  }
+
+  /**
+   * Saved versions of an agent's AGENT.md
+   */
+  getHistory(agentId: string): AgentHistory {
+    return new AgentHistory(path.join(this.agentsDirectory, agentId));
+  }
+
+  /**
+   * Restore a saved version of an agent. The restored file must still be
+   * valid, e.g. its base agent must still exist.
+   */
+  async rollbackAgent(agentId: string, version: number): Promise<Agent> {
+    const history = this.getHistory(agentId);
+    const file = path.join(this.agentsDirectory, agentId, AGENT_FILE);
+    const issues = parseAgentFile(await history.read(version), file, agentId).issues;
+    if (issues.length > 0) {
+      throw new AgentDefinitionError(agentId, issues);
+    }
 
-    console.log(`✓ Updated agent: ${updatedMetadata.name}`);
+    await history.rollback(version);
+    console.log(`✓ Rolled back agent ${agentId} to version ${version}`);
 
     return (await this.getAgent(agentId))!;
   }
@@ -360,24 +343,21 @@ export class AgentManager {
   // Helper methods
 
   private generateAgentMarkdown(params: any): string {
-    return `---
-id: ${params.id}
-name: ${params.name}
-description: ${params.description}
-version: 1.0.0
-avatar: ${params.avatar || '🤖'}
-color: ${params.color || 'blue'}
-capabilities: ${JSON.stringify(params.capabilities || [])}
-activation_keywords: ${JSON.stringify(params.activation_keywords || [])}
-requires_approval: false
-max_iterations: 10
-temperature: ${params.temperature || 0.7}
-max_tokens: ${params.max_tokens || 2000}
-tools: ${JSON.stringify(params.tools || [])}
----
-
-${params.systemPrompt}
-`;
+    return stringifyAgentFile({
+      id: params.id,
+      name: params.name,
+      description: params.description,
+      version: '1.0.0',
+      avatar: params.avatar || '🤖',
+      color: params.color || 'blue',
+      capabilities: params.capabilities || [],
+      activation_keywords: params.activation_keywords || [],
+      requires_approval: false,
+      max_iterations: 10,
+      temperature: params.temperature || 0.7,
+      max_tokens: params.max_tokens || 2000,
+      tools: params.tools || [],
+    }, params.systemPrompt);
   }
 
   private async ensureDirectoryExists(dir: string): Promise<void> {
@@ -4,8 +4,18 @@
 import EventEmitter from 'events';
 import fs from 'fs/promises';
 import path from 'path';
-import matter from 'gray-matter';
 import { getAgentSystemPrompt } from './SystematicAgentPrompts';
+import { AgentDefinitionError, formatAgentIssue, loadAgentDefinition, stringifyAgentFile } from './agent-definition';
+import { AgentHistory } from './agent-history';
+import { Agent as ToolAgent } from '../agent';
+import { ToolCallRecord } from '../llm/ollama-client';
+import { registerTools } from '../tools';
+import { registerGitTools } from '../tools/git-tools';
+import { registerHTTPTools } from '../tools/http-tools';
+import { MCPClientManager } from '../../mcp/mcp-client';
+import { PermissionManager } from '../permissions/PermissionManager';
+import { SnapshotStore } from '../snapshots/SnapshotStore';
+import { DefinitionReloadEvent, watchDefinitions } from '../definition-watcher';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -23,15 +33,42 @@ export interface AgentMetadata {
   activation_keywords?: string[];
   requires_approval?: boolean;
   max_iterations?: number;
+  tool_concurrency?: number; // Read-only tool calls run at once (default AGENT_TOOL_CONCURRENCY or 4)
+  extends?: string; // Base agent this one inherits from
 }
 
 export interface AgentConfig {
   systemPrompt: string;
   temperature?: number;
   maxTokens?: number;
-  tools?: string[];
+  tools?: string[]; // Allowlist of tool names; MCP tools by server-qualified name (server__tool)
 }
 
+/**
+ * What agents with a `tools` allowlist may use. Shared by an orchestrator's
+ * executors, so permissions and snapshots set later apply to every agent.
+ */
+export interface AgentToolEnvironment {
+  registerTools?: (agent: ToolAgent) => void; // Local tools (default: file, shell, git and HTTP tools)
+  mcpManager?: MCPClientManager; // Connected MCP servers
+  permissions?: PermissionManager; // requires_approval agents ask before every tool call with side effects
+  snapshots?: SnapshotStore; // File edits are recorded so they can be undone
+  delegation?: Partial<DelegationLimits>; // Limits for the delegateToAgent tool
+}
+
+/**
+ * Limits on sub-agents started through the delegateToAgent tool
+ */
+export interface DelegationLimits {
+  maxDepth: number; // Deepest sub-agent level (1 = only runs the user started may delegate)
+  maxDelegations: number; // Sub-agent runs per task the user started, across the whole tree
+}
+
+export const DEFAULT_DELEGATION_LIMITS: DelegationLimits = {
+  maxDepth: 2,
+  maxDelegations: 8,
+};
+
 export interface Agent {
   metadata: AgentMetadata;
   config: AgentConfig;
@@ -40,6 +77,9 @@ export interface Agent {
 
 export interface AgentStatus {
   agentId: string;
+  runId: string; // One execution; each delegated run gets its own
+  parentRunId?: string; // Run that delegated this one
+  depth: number; // 0 for runs started by the user
   status: 'idle' | 'thinking' | 'working' | 'waiting' | 'completed' | 'error';
   currentStep: string;
   progress: number; // 0-100
@@ -52,6 +92,7 @@ export interface AgentStatus {
 export interface AgentMessage {
   agentId: string;
   agentName: string;
+  runId?: string;
   timestamp: Date;
   type: 'thought' | 'action' | 'result' | 'error' | 'progress';
   content: string;
@@ -92,6 +133,13 @@ export class AgentExecutionError extends AgentError {
   }
 }
 
+export class DelegationLimitError extends AgentError {
+  constructor(agentId: string, public readonly limit: keyof DelegationLimits, message: string) {
+    super(message, agentId);
+    this.name = 'DelegationLimitError';
+  }
+}
+
 // ============================================================================
 // AGENT EVENT EMITTER
 // ============================================================================
@@ -109,6 +157,10 @@ export class AgentEventBus extends EventEmitter {
     this.emit('task_complete', result);
   }
 
+  emitReload(event: DefinitionReloadEvent): void {
+    this.emit('reload', event);
+  }
+
   onStatusUpdate(callback: (status: AgentStatus) => void): () => void {
     this.on('status_update', callback);
     return () => this.off('status_update', callback);
@@ -123,15 +175,31 @@ export class AgentEventBus extends EventEmitter {
     this.on('task_complete', callback);
     return () => this.off('task_complete', callback);
   }
+
+  onReload(callback: (event: DefinitionReloadEvent) => void): () => void {
+    this.on('reload', callback);
+    return () => this.off('reload', callback);
+  }
 }
 
 // ============================================================================
 // AGENT LOADER
 // ============================================================================
 
+/**
+ * One-line reason an agent failed to load, for status bars and health checks
+ */
+function describeLoadError(error: unknown): string {
+  if (error instanceof AgentDefinitionError) {
+    return error.issues.map(issue => formatAgentIssue({ ...issue, file: path.relative(process.cwd(), issue.file) })).join('; ');
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
 export class AgentLoader {
   private agentsDirectory: string;
   private loadedAgents: Map<string, Agent> = new Map();
+  private loadErrors: Map<string, string> = new Map();
 
   constructor(agentsDirectory: string = './agents') {
     this.agentsDirectory = path.resolve(agentsDirectory);
@@ -149,68 +217,93 @@ export class AgentLoader {
     const entries = await fs.readdir(this.agentsDirectory, { withFileTypes: true });
     const agentDirs = entries.filter(e => e.isDirectory());
 
-    const agents: Agent[] = [];
+    // Agents that fail to load keep their previous version
+    const previous = this.loadedAgents;
+    this.loadedAgents = new Map();
+    this.loadErrors.clear();
     for (const dir of agentDirs) {
       try {
         const agent = await this.loadAgent(dir.name);
-        agents.push(agent);
         this.loadedAgents.set(agent.metadata.id, agent);
       } catch (error) {
         console.error(`Failed to load agent ${dir.name}:`, error);
+        this.loadErrors.set(dir.name, describeLoadError(error));
+        const agent = previous.get(dir.name);
+        if (agent) {
+          this.loadedAgents.set(dir.name, agent);
+        }
       }
     }
 
+    const agents = Array.from(this.loadedAgents.values());
     console.log(`✓ Loaded ${agents.length} agents`);
     return agents;
   }
 
-  async loadAgent(agentId: string): Promise<Agent> {
-    const agentPath = path.join(this.agentsDirectory, agentId);
-    const agentFile = path.join(agentPath, 'AGENT.md');
+  /**
+   * Reload agents whose files change and report each reload on the event
+   * bus. Agents that extend a changed agent are reloaded with it.
+   * @returns Function that stops watching
+   */
+  watch(eventBus: AgentEventBus, debounceMs?: number): () => void {
+    return watchDefinitions(this.agentsDirectory, async names => {
+      for (const agentId of this.withDependents(names)) {
+        const event = await this.refresh(agentId);
+        if (event) {
+          eventBus.emitReload(event);
+        }
+      }
+    }, debounceMs);
+  }
 
+  /**
+   * Agents that failed to load, with the reason
+   */
+  getLoadErrors(): Array<{ id: string; error: string }> {
+    return Array.from(this.loadErrors, ([id, error]) => ({ id, error }));
+  }
+
+  private async refresh(agentId: string): Promise<DefinitionReloadEvent | null> {
+    const event = { kind: 'agent' as const, id: agentId, timestamp: new Date() };
     try {
-      await fs.access(agentFile);
+      this.loadedAgents.set(agentId, await this.loadAgent(agentId));
+      this.loadErrors.delete(agentId);
+      return { ...event, status: 'loaded' };
     } catch (error) {
-      throw new AgentNotFoundError(agentId);
+      if (error instanceof AgentNotFoundError) {
+        const known = [this.loadedAgents.delete(agentId), this.loadErrors.delete(agentId)].some(Boolean);
+        return known ? { ...event, status: 'removed' } : null;
+      }
+      this.loadErrors.set(agentId, describeLoadError(error));
+      return { ...event, status: 'error', error: this.loadErrors.get(agentId) };
     }
+  }
 
-    const content = await fs.readFile(agentFile, 'utf-8');
-    const { data, content: systemPrompt } = matter(content);
-
-    // Validate required fields
-    if (!data.id || !data.name || !data.description) {
-      throw new AgentError(
-        'Agent missing required fields: id, name, description',
-        agentId
-      );
+  private withDependents(agentIds: string[]): string[] {
+    const ids = new Set(agentIds);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const agent of this.loadedAgents.values()) {
+        if (agent.metadata.extends && ids.has(agent.metadata.extends) && !ids.has(agent.metadata.id)) {
+          ids.add(agent.metadata.id);
+          added = true;
+        }
+      }
     }
+    return [...ids];
+  }
 
-    const metadata: AgentMetadata = {
-      id: data.id,
-      name: data.name,
-      description: data.description,
-      version: data.version || '1.0.0',
-      author: data.author,
-      avatar: data.avatar || '🤖',
-      color: data.color || 'blue',
-      capabilities: data.capabilities || [],
-      activation_keywords: data.activation_keywords || [],
-      requires_approval: data.requires_approval || false,
-      max_iterations: data.max_iterations || 10,
-    };
-
-    const config: AgentConfig = {
-      systemPrompt: systemPrompt.trim(),
-      temperature: data.temperature || 0.7,
-      maxTokens: data.max_tokens || 2000,
-      tools: data.tools || [],
-    };
-
-    return {
-      metadata,
-      config,
-      path: agentPath,
-    };
+  /**
+   * Load an agent with the agents it `extends` applied. Throws
+   * AgentDefinitionError if its front-matter does not match the schema.
+   */
+  async loadAgent(agentId: string): Promise<Agent> {
+    const agent = await loadAgentDefinition(this.agentsDirectory, agentId);
+    if (!agent) {
+      throw new AgentNotFoundError(agentId);
+    }
+    return agent;
   }
 
   async createDefaultAgents(): Promise<void> {
@@ -223,6 +316,7 @@ export class AgentLoader {
         color: 'cyan',
         capabilities: ['codebase_analysis', 'information_synthesis', 'pattern_recognition'],
         activation_keywords: ['research', 'find', 'analyze', 'how does', 'explain'],
+        tools: ['readFile', 'searchFiles', 'blobSearch', 'gitStatus', 'gitDiff', 'gitLog', 'httpGet', 'queryKnowledgeGraph', 'searchSimilarProblems'],
         systemPrompt: getAgentSystemPrompt('research'),
       },
       {
@@ -233,6 +327,7 @@ export class AgentLoader {
         color: 'green',
         capabilities: ['code_generation', 'systematic_planning', 'testing'],
         activation_keywords: ['implement', 'create', 'build', 'add feature', 'write code'],
+        tools: ['readFile', 'writeFile', 'editFile', 'applyPatch', 'searchFiles', 'blobSearch', 'bashExec', 'gitStatus', 'gitDiff'],
         systemPrompt: getAgentSystemPrompt('implementation'),
       },
       {
@@ -243,6 +338,7 @@ export class AgentLoader {
         color: 'red',
         capabilities: ['debugging', 'error_analysis', 'root_cause_identification'],
         activation_keywords: ['debug', 'fix', 'error', 'bug', 'not working'],
+        tools: ['readFile', 'writeFile', 'editFile', 'applyPatch', 'searchFiles', 'blobSearch', 'bashExec', 'gitStatus', 'gitDiff'],
         systemPrompt: getAgentSystemPrompt('debugging'),
       },
       {
@@ -253,6 +349,7 @@ export class AgentLoader {
         color: 'yellow',
         capabilities: ['task_decomposition', 'agent_orchestration', 'systematic_planning'],
         activation_keywords: ['plan', 'coordinate', 'organize', 'break down', 'orchestrate'],
+        tools: ['delegateToAgent', 'readFile', 'searchFiles'],
         systemPrompt: `${getAgentSystemPrompt('general')}
 
 # TASK COORDINATOR SPECIALIST
@@ -308,6 +405,9 @@ Starting with Research Agent...
 [Coordinates each step]
 \`\`\`
 
+Run each step with the delegateToAgent tool: give the agent id and a self-contained task.
+You get back a summary of the agent's result to use in the next steps.
+
 Always work systematically and coordinate agents effectively.`,
       },
     ];
@@ -329,6 +429,7 @@ requires_approval: false
 max_iterations: 10
 temperature: 0.7
 max_tokens: 2000
+tools: ${JSON.stringify(agentDef.tools)}
 ---
 
 ${agentDef.systemPrompt}
@@ -357,19 +458,134 @@ ${agentDef.systemPrompt}
 // AGENT EXECUTOR
 // ============================================================================
 
+function registerDefaultTools(agent: ToolAgent): void {
+  registerTools(agent);
+  registerGitTools(agent);
+  registerHTTPTools(agent);
+}
+
+/**
+ * One-line description of a finished tool call for the message feed
+ */
+function describeToolCall(record: ToolCallRecord): string {
+  const args = JSON.stringify(record.args ?? {});
+  const call = `${record.name}(${args.length > 80 ? `${args.slice(0, 77)}...` : args})`;
+  return record.error ? `${call} failed: ${record.error}` : call;
+}
+
+// Longest sub-agent answer handed back to the delegating agent
+const MAX_DELEGATION_SUMMARY = 2000;
+
+/**
+ * Where a run sits in a delegation tree
+ */
+export interface DelegationScope {
+  agentId: string;
+  runId: string;
+  parentRunId?: string;
+  parentAgentId?: string;
+  depth: number; // 0 for runs started by the user
+  budget: { used: number }; // Shared by every run in the tree
+}
+
+/**
+ * Runs sub-agents for the delegateToAgent tool (implemented by AgentOrchestrator)
+ */
+export interface AgentDelegator {
+  listAgents(): Array<{ id: string; name: string; description: string }>;
+  delegate(agentId: string, task: string, context: any, parent: DelegationScope, signal?: AbortSignal): Promise<TaskResult>;
+}
+
+let runCounter = 0;
+
+function newRunId(agentId: string): string {
+  return `${agentId}#${++runCounter}`;
+}
+
+/**
+ * Scope of a run the user started
+ */
+export function rootScope(agentId: string): DelegationScope {
+  return { agentId, runId: newRunId(agentId), depth: 0, budget: { used: 0 } };
+}
+
+/**
+ * Statuses in delegation-tree order: each run followed by the runs it delegated
+ */
+export function orderByDelegation(statuses: AgentStatus[]): AgentStatus[] {
+  const runIds = new Set(statuses.map(s => s.runId));
+  const ordered: AgentStatus[] = [];
+  const visit = (parentRunId?: string) => {
+    for (const status of statuses) {
+      const parent = status.parentRunId && runIds.has(status.parentRunId) ? status.parentRunId : undefined;
+      if (parent === parentRunId) {
+        ordered.push(status);
+        visit(status.runId);
+      }
+    }
+  };
+  visit(undefined);
+  return ordered;
+}
+
+/**
+ * Statuses without `runId` and the runs it delegated, directly or not
+ */
+export function withoutRunTree(statuses: Map<string, AgentStatus>, runId: string): Map<string, AgentStatus> {
+  const remaining = new Map(statuses);
+  const removed = new Set([runId]);
+  remaining.delete(runId);
+  for (let found = true; found;) {
+    found = false;
+    for (const [id, status] of remaining) {
+      if (status.parentRunId && removed.has(status.parentRunId)) {
+        removed.add(id);
+        remaining.delete(id);
+        found = true;
+      }
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Statuses after `status` arrives; a root run that completes is dropped
+ * together with its delegation tree, so finished runs do not pile up
+ */
+export function applyStatusUpdate(statuses: Map<string, AgentStatus>, status: AgentStatus): Map<string, AgentStatus> {
+  if (status.status === 'completed' && !status.parentRunId) {
+    return withoutRunTree(statuses, status.runId);
+  }
+  return new Map(statuses).set(status.runId, status);
+}
+
 export class AgentExecutor {
   private agent: Agent;
   private eventBus: AgentEventBus;
   private provider: any; // BaseProvider from your provider system
+  private tools: AgentToolEnvironment;
+  private delegator?: AgentDelegator;
+  private scope: DelegationScope;
   private currentStatus: AgentStatus;
 
-  constructor(agent: Agent, provider: any, eventBus: AgentEventBus) {
+  constructor(
+    agent: Agent,
+    provider: any,
+    eventBus: AgentEventBus,
+    tools: AgentToolEnvironment = {},
+    delegator?: AgentDelegator
+  ) {
     this.agent = agent;
     this.provider = provider;
     this.eventBus = eventBus;
+    this.tools = tools;
+    this.delegator = delegator;
+    this.scope = rootScope(agent.metadata.id);
 
     this.currentStatus = {
       agentId: agent.metadata.id,
+      runId: this.scope.runId,
+      depth: 0,
       status: 'idle',
       currentStep: 'Initialized',
       progress: 0,
@@ -404,6 +620,7 @@ export class AgentExecutor {
     this.eventBus.emitMessage({
       agentId: this.agent.metadata.id,
       agentName: this.agent.metadata.name,
+      runId: this.scope.runId,
       timestamp: new Date(),
       type,
       content,
@@ -411,72 +628,44 @@ export class AgentExecutor {
     });
   }
 
-  async execute(task: string, context?: any): Promise<TaskResult> {
+  /**
+   * Run a task; `scope` places the run in a delegation tree (default: a new
+   * run started by the user). Aborting `signal` cancels the run and every
+   * sub-agent it delegated to.
+   */
+  async execute(task: string, context?: any, scope?: DelegationScope, signal?: AbortSignal): Promise<TaskResult> {
     const startTime = Date.now();
+    this.scope = scope ?? rootScope(this.agent.metadata.id);
+    this.currentStatus = {
+      ...this.currentStatus,
+      runId: this.scope.runId,
+      parentRunId: this.scope.parentRunId,
+      depth: this.scope.depth,
+      startTime: new Date(),
+      error: undefined,
+    };
 
     try {
       this.updateStatus('thinking', 'Analyzing task...', 10);
       this.emitMessage('thought', `Starting task: ${task}`);
 
-      // Build messages
-      const messages = [
-        {
-          role: 'system' as const,
-          content: this.agent.config.systemPrompt,
-        },
-        {
-          role: 'user' as const,
-          content: this.buildTaskPrompt(task, context),
-        },
-      ];
-
-      this.updateStatus('working', 'Processing with LLM...', 30);
-
-      let fullResponse = '';
-      let lastProgressUpdate = Date.now();
-
-      // Stream response
-      for await (const event of this.provider.stream(messages, {
-        temperature: this.agent.config.temperature,
-        maxTokens: this.agent.config.maxTokens,
-      })) {
-        if (event.type === 'token') {
-          fullResponse += event.data;
-
-          // Update progress every 500ms
-          const now = Date.now();
-          if (now - lastProgressUpdate > 500) {
-            const progress = Math.min(90, 30 + (fullResponse.length / 10));
-            this.updateStatus('working', 'Generating response...', progress);
-            lastProgressUpdate = now;
-          }
-        } else if (event.type === 'done') {
-          this.updateStatus('completed', 'Task completed', 100);
-          this.emitMessage('result', fullResponse);
-
-          const duration = Date.now() - startTime;
-          const result: TaskResult = {
-            success: true,
-            agentId: this.agent.metadata.id,
-            output: fullResponse,
-            duration,
-          };
-
-          this.eventBus.emitTaskComplete(result);
-          return result;
-        } else if (event.type === 'error') {
-          throw event.error;
-        }
-      }
+      const allowedTools = this.agent.config.tools ?? [];
+      const output = allowedTools.length > 0
+        ? await this.runWithTools(task, context, allowedTools, signal)
+        : await this.streamResponse(task, context, signal);
 
-      // Fallback if stream doesn't emit 'done'
-      const duration = Date.now() - startTime;
-      return {
+      this.updateStatus('completed', 'Task completed', 100);
+      this.emitMessage('result', output);
+
+      const result: TaskResult = {
         success: true,
         agentId: this.agent.metadata.id,
-        output: fullResponse,
-        duration,
+        output,
+        duration: Date.now() - startTime,
       };
+
+      this.eventBus.emitTaskComplete(result);
+      return result;
     } catch (error) {
       this.updateStatus('error', 'Task failed', 0);
       this.emitMessage('error', `Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -500,6 +689,166 @@ export class AgentExecutor {
     }
   }
 
+  /**
+   * Single streamed completion, for agents without tools
+   */
+  private async streamResponse(task: string, context?: any, signal?: AbortSignal): Promise<string> {
+    // Build messages
+    const messages = [
+      {
+        role: 'system' as const,
+        content: this.agent.config.systemPrompt,
+      },
+      {
+        role: 'user' as const,
+        content: this.buildTaskPrompt(task, context),
+      },
+    ];
+
+    this.updateStatus('working', 'Processing with LLM...', 30);
+
+    let fullResponse = '';
+    let lastProgressUpdate = Date.now();
+
+    // Stream response
+    for await (const event of this.provider.stream(messages, {
+      temperature: this.agent.config.temperature,
+      maxTokens: this.agent.config.maxTokens,
+      signal,
+    })) {
+      if (event.type === 'token') {
+        fullResponse += event.data;
+
+        // Update progress every 500ms
+        const now = Date.now();
+        if (now - lastProgressUpdate > 500) {
+          const progress = Math.min(90, 30 + (fullResponse.length / 10));
+          this.updateStatus('working', 'Generating response...', progress);
+          lastProgressUpdate = now;
+        }
+      } else if (event.type === 'done') {
+        break;
+      } else if (event.type === 'error') {
+        throw event.error;
+      }
+    }
+
+    return fullResponse;
+  }
+
+  /**
+   * Tool loop restricted to the agent's `tools` allowlist, capped at its
+   * `max_iterations`. Every tool call is reported as an `action` message.
+   */
+  private async runWithTools(
+    task: string,
+    context: any,
+    allowedTools: string[],
+    signal?: AbortSignal
+  ): Promise<string> {
+    const { metadata, config } = this.agent;
+    const runner = new ToolAgent(
+      {
+        name: metadata.id,
+        role: 'sub-agent',
+        systemPrompt: config.systemPrompt,
+        allowedTools,
+        requiresApproval: metadata.requires_approval,
+        toolConcurrency: metadata.tool_concurrency,
+      },
+      this.provider,
+      metadata.max_iterations
+    );
+
+    (this.tools.registerTools ?? registerDefaultTools)(runner);
+    const mcpManager = this.tools.mcpManager;
+    for (const tool of mcpManager?.getToolsForLLM() ?? []) {
+      runner.registerTool(
+        tool.name,
+        (params, toolContext) => mcpManager!.callTool(tool.name, params, { signal: toolContext?.signal }),
+        tool
+      );
+    }
+    if (this.delegator) {
+      this.registerDelegateTool(runner, this.delegator);
+    }
+    runner.setPermissions(this.tools.permissions ?? null);
+    runner.setSnapshots(this.tools.snapshots ?? null);
+
+    const available = runner.getAvailableTools();
+    const missing = allowedTools.filter(name => !available.includes(name));
+    if (missing.length > 0) {
+      this.emitMessage('thought', `Tools not available: ${missing.join(', ')}`);
+    }
+
+    this.updateStatus('working', 'Processing with tools...', 30);
+    let calls = 0;
+    return runner.run(this.buildTaskPrompt(task, context), [], {
+      signal,
+      onToolResult: (record: ToolCallRecord) => {
+        calls++;
+        this.emitMessage('action', describeToolCall(record), {
+          toolCallId: record.id,
+          tool: record.name,
+          args: record.args,
+          durationMs: record.durationMs,
+          error: record.error,
+        });
+        this.updateStatus('working', `Used ${record.name}`, Math.min(90, 30 + calls * 5));
+      },
+    });
+  }
+
+  /**
+   * delegateToAgent: run another agent as a sub-agent of this run and hand
+   * back the end of its answer
+   */
+  private registerDelegateTool(runner: ToolAgent, delegator: AgentDelegator): void {
+    const agents = delegator.listAgents()
+      .filter(agent => agent.id !== this.agent.metadata.id)
+      .map(agent => `${agent.id} (${agent.description})`);
+
+    runner.registerTool(
+      'delegateToAgent',
+      async ({ agentId, task, context }: any, toolContext) => {
+        if (!agentId || typeof agentId !== 'string' || !task || typeof task !== 'string') {
+          throw new Error('agentId and task are required strings');
+        }
+        const result = await delegator.delegate(agentId, task, context, this.scope, toolContext?.signal)
+          .catch((error: unknown) => {
+            // A failed sub-agent is an answer for the model, not a broken tool
+            if (error instanceof AgentExecutionError) {
+              return { success: false, agentId, output: '', duration: 0, error: error.cause ?? error } as TaskResult;
+            }
+            throw error;
+          });
+        const output = result.output.length > MAX_DELEGATION_SUMMARY
+          ? `...${result.output.slice(-MAX_DELEGATION_SUMMARY)}`
+          : result.output;
+        return {
+          agentId,
+          success: result.success,
+          summary: output,
+          error: result.error?.message,
+          durationMs: result.duration,
+        };
+      },
+      {
+        name: 'delegateToAgent',
+        description: `Run another agent on a scoped sub-task and get back a summary of its result. Available agents: ${agents.join('; ') || 'none'}`,
+        parameters: {
+          type: 'object',
+          properties: {
+            agentId: { type: 'string', description: 'Id of the agent to run' },
+            task: { type: 'string', description: 'Self-contained sub-task, with everything the agent needs to know' },
+            context: { type: 'object', description: 'Optional data passed to the agent as context' },
+          },
+          required: ['agentId', 'task'],
+        },
+      }
+    );
+  }
+
   private buildTaskPrompt(task: string, context?: any): string {
     let prompt = `Task: ${task}\n\n`;
 
@@ -507,6 +856,10 @@ export class AgentExecutor {
       prompt += `Context:\n${JSON.stringify(context, null, 2)}\n\n`;
     }
 
+    if (this.scope.parentAgentId) {
+      prompt += `You are working as a sub-agent of ${this.scope.parentAgentId}. End your answer with a concise summary of the result; only the end of your answer is passed back.\n\n`;
+    }
+
     prompt += `Please report your progress as you work through this task. Use phrases like:
 - "Step 1: [description]"
 - "Now analyzing..."
@@ -534,9 +887,16 @@ export class AgentOrchestrator {
   private agents: Map<string, Agent> = new Map();
   private executors: Map<string, AgentExecutor> = new Map();
   private activeStatuses: Map<string, AgentStatus> = new Map();
+  private tools: AgentToolEnvironment;
+  private delegator: AgentDelegator;
 
-  constructor(provider: any, agentsDirectory?: string) {
+  constructor(provider: any, agentsDirectory?: string, tools: AgentToolEnvironment = {}) {
     this.provider = provider;
+    this.tools = tools;
+    this.delegator = {
+      listAgents: () => this.listAgents(),
+      delegate: (agentId, task, context, parent, signal) => this.delegate(agentId, task, context, parent, signal),
+    };
     this.loader = new AgentLoader(agentsDirectory);
     this.eventBus = new AgentEventBus();
 
@@ -544,6 +904,20 @@ export class AgentOrchestrator {
     this.eventBus.onStatusUpdate((status) => {
       this.activeStatuses.set(status.agentId, status);
     });
+
+    // Pick up agents reloaded by watchAgents; failed reloads keep the old version
+    this.eventBus.onReload((event) => {
+      if (event.kind !== 'agent' || event.status === 'error') {
+        return;
+      }
+      const agent = this.loader.getAgent(event.id);
+      if (agent) {
+        this.agents.set(event.id, agent);
+      } else {
+        this.agents.delete(event.id);
+      }
+      this.executors.delete(event.id);
+    });
   }
 
   async initialize(): Promise<void> {
@@ -558,7 +932,8 @@ export class AgentOrchestrator {
   async executeAgent(
     agentId: string,
     task: string,
-    context?: any
+    context?: any,
+    signal?: AbortSignal
   ): Promise<TaskResult> {
     const agent = this.agents.get(agentId);
     if (!agent) {
@@ -568,11 +943,57 @@ export class AgentOrchestrator {
     // Create or reuse executor
     let executor = this.executors.get(agentId);
     if (!executor) {
-      executor = new AgentExecutor(agent, this.provider, this.eventBus);
+      executor = new AgentExecutor(agent, this.provider, this.eventBus, this.tools, this.delegator);
       this.executors.set(agentId, executor);
     }
 
-    return await executor.execute(task, context);
+    return await executor.execute(task, context, undefined, signal);
+  }
+
+  /**
+   * Run an agent as a sub-agent of another run (the delegateToAgent tool).
+   * Each sub-agent run gets its own executor so its status is reported
+   * separately from other runs of the same agent.
+   * @throws {DelegationLimitError} If the tree is too deep or out of budget
+   */
+  private async delegate(
+    agentId: string,
+    task: string,
+    context: any,
+    parent: DelegationScope,
+    signal?: AbortSignal
+  ): Promise<TaskResult> {
+    const agent = this.agents.get(agentId);
+    if (!agent) {
+      throw new AgentNotFoundError(agentId);
+    }
+
+    const limits = { ...DEFAULT_DELEGATION_LIMITS, ...this.tools.delegation };
+    if (parent.depth + 1 > limits.maxDepth) {
+      throw new DelegationLimitError(
+        parent.agentId,
+        'maxDepth',
+        `Cannot delegate to ${agentId}: sub-agents may only be ${limits.maxDepth} level(s) deep`
+      );
+    }
+    if (parent.budget.used >= limits.maxDelegations) {
+      throw new DelegationLimitError(
+        parent.agentId,
+        'maxDelegations',
+        `Cannot delegate to ${agentId}: the delegation budget of ${limits.maxDelegations} sub-agent run(s) is used up`
+      );
+    }
+    parent.budget.used++;
+
+    const executor = new AgentExecutor(agent, this.provider, this.eventBus, this.tools, this.delegator);
+    return executor.execute(task, context, {
+      agentId,
+      runId: newRunId(agentId),
+      parentRunId: parent.runId,
+      parentAgentId: parent.agentId,
+      depth: parent.depth + 1,
+      budget: parent.budget,
+    }, signal);
   }
 
   async executeMultiple(
@@ -632,6 +1053,20 @@ export class AgentOrchestrator {
     return results;
   }
 
+  /**
+   * Permission layer for tool-enabled agents (null removes it)
+   */
+  setPermissions(permissions: PermissionManager | null): void {
+    this.tools.permissions = permissions ?? undefined;
+  }
+
+  /**
+   * Snapshot store recording tool-enabled agents' file edits (null removes it)
+   */
+  setSnapshots(snapshots: SnapshotStore | null): void {
+    this.tools.snapshots = snapshots ?? undefined;
+  }
+
   listAgents(): Array<{
     id: string;
     name: string;
@@ -681,6 +1116,29 @@ export class AgentOrchestrator {
     return this.eventBus.onTaskComplete(callback);
   }
 
+  onReload(callback: (event: DefinitionReloadEvent) => void): () => void {
+    return this.eventBus.onReload(callback);
+  }
+
+  /**
+   * Reload agents when their AGENT.md changes, without /reload
+   * @returns Function that stops watching
+   */
+  watchAgents(debounceMs?: number): () => void {
+    return this.loader.watch(this.eventBus, debounceMs);
+  }
+
+  /**
+   * Bus for reload events of other definitions (see SkillManager.watch)
+   */
+  getEventBus(): AgentEventBus {
+    return this.eventBus;
+  }
+
+  getLoadErrors(): Array<{ id: string; error: string }> {
+    return this.loader.getLoadErrors();
+  }
+
   async reloadAgents(): Promise<void> {
     const agents = await this.loader.loadAll();
     this.agents.clear();
@@ -728,25 +1186,22 @@ export class AgentCreator {
     await fs.mkdir(agentPath, { recursive: true });
 
     // Create AGENT.md
-    const agentMd = `---
-id: ${params.id}
-name: ${params.name}
-description: ${params.description}
-version: 1.0.0
-avatar: ${params.avatar || '🤖'}
-color: ${params.color || 'blue'}
-capabilities: ${JSON.stringify(params.capabilities || [])}
-activation_keywords: ${JSON.stringify(params.activation_keywords || [])}
-requires_approval: false
-max_iterations: 10
-temperature: 0.7
-max_tokens: 2000
----
-
-${params.systemPrompt}
-`;
-
-    await fs.writeFile(path.join(agentPath, 'AGENT.md'), agentMd, 'utf-8');
+    const agentMd = stringifyAgentFile({
+      id: params.id,
+      name: params.name,
+      description: params.description,
+      version: '1.0.0',
+      avatar: params.avatar || '🤖',
+      color: params.color || 'blue',
+      capabilities: params.capabilities || [],
+      activation_keywords: params.activation_keywords || [],
+      requires_approval: false,
+      max_iterations: 10,
+      temperature: 0.7,
+      max_tokens: 2000,
+    }, params.systemPrompt);
+
+    await new AgentHistory(agentPath).write(agentMd, 'created');
 
     console.log(`✓ Created agent: ${params.name} at ${agentPath}`);
 
@@ -793,9 +1248,13 @@ System Prompt: You are an art specialist...`;
 // Singleton instance
 let orchestratorInstance: AgentOrchestrator | null = null;
 
-export function getAgentOrchestrator(provider: any, agentsDirectory?: string): AgentOrchestrator {
+export function getAgentOrchestrator(
+  provider: any,
+  agentsDirectory?: string,
+  tools?: AgentToolEnvironment
+): AgentOrchestrator {
   if (!orchestratorInstance) {
-    orchestratorInstance = new AgentOrchestrator(provider, agentsDirectory);
+    orchestratorInstance = new AgentOrchestrator(provider, agentsDirectory, tools);
   }
   return orchestratorInstance;
 }
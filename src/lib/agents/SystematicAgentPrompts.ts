@@ -130,6 +130,8 @@ Next steps:
 ### Core File & Search Tools
 - \`readFile(path)\` - Read file contents
 - \`writeFile(path, content)\` - Write file
+- \`editFile(path, old_string, new_string, replace_all?)\` - Replace exact text in a file you have read
+- \`applyPatch(patch, dry_run?)\` - Apply a multi-file unified diff atomically (creates, deletes and renames included)
 - \`searchFiles(dir, pattern)\` - Find files matching pattern
 - \`blobSearch(dir, query)\` - Search code content
 - \`bashExec(cmd)\` - Execute shell commands (be careful!)
@@ -0,0 +1,363 @@
+/**
+ * AGENT.md definitions: the front-matter schema, validation with line
+ * numbers, and `extends` inheritance between agents.
+ *
+ *   ---
+ *   id: reviewer
+ *   extends: code-agent      # inherit prompt, tools and settings
+ *   name: Code Reviewer
+ *   tools: [readFile, searchFiles]
+ *   ---
+ *
+ *   Review changes instead of writing them.
+ *
+ * A child's fields override its base's (lists are replaced, not merged) and
+ * its markdown is appended to the base's system prompt.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import Ajv, { ErrorObject } from 'ajv';
+import { parseDocument, stringify, LineCounter, isMap, isScalar } from 'yaml';
+import type { Agent, AgentMetadata, AgentConfig } from './AgentSystem';
+
+export const AGENT_FILE = 'AGENT.md';
+
+const AGENT_ID = { type: 'string', pattern: '^[a-z0-9][a-z0-9_-]*$' };
+const STRING_LIST = { type: 'array', items: { type: 'string', minLength: 1 }, uniqueItems: true };
+
+/**
+ * JSON schema of the AGENT.md front-matter
+ */
+export const AGENT_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['id'],
+  properties: {
+    id: AGENT_ID,
+    extends: AGENT_ID,
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string', minLength: 1 },
+    version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+' },
+    author: { type: 'string' },
+    avatar: { type: 'string' },
+    color: { type: 'string' },
+    capabilities: STRING_LIST,
+    activation_keywords: STRING_LIST,
+    requires_approval: { type: 'boolean' },
+    max_iterations: { type: 'integer', minimum: 1 },
+    tool_concurrency: { type: 'integer', minimum: 1 },
+    temperature: { type: 'number', minimum: 0, maximum: 2 },
+    max_tokens: { type: 'integer', minimum: 1 },
+    tools: STRING_LIST,
+    mcp_servers: STRING_LIST,
+  },
+  // Agents that extend another may inherit their name and description
+  if: { type: 'object', not: { required: ['extends'] } },
+  then: { required: ['name', 'description'] },
+};
+
+const FIELDS = Object.keys(AGENT_SCHEMA.properties);
+const validateFrontMatter = new Ajv({ allErrors: true }).compile(AGENT_SCHEMA);
+
+export interface AgentDefinitionIssue {
+  file: string;
+  line: number; // 1-based line in the AGENT.md file
+  column: number;
+  path: string; // Field the issue is about, e.g. "tools[2]"; empty for the whole file
+  message: string;
+}
+
+export class AgentDefinitionError extends Error {
+  constructor(
+    public readonly agentId: string,
+    public readonly issues: AgentDefinitionIssue[]
+  ) {
+    super(`Invalid agent definition ${agentId}:\n${issues.map(formatAgentIssue).join('\n')}`);
+    this.name = 'AgentDefinitionError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * One AGENT.md file, parsed but not yet merged with its base
+ */
+export interface AgentFile {
+  id: string; // Directory name
+  file: string;
+  data: Record<string, any>; // Front-matter
+  body: string; // Markdown after the front-matter
+  issues: AgentDefinitionIssue[];
+  locate(field: string): { line: number; column: number }; // Position of a top-level field
+}
+
+/**
+ * An agent with its base agents applied, or the issues that prevent it
+ */
+export interface AgentInspection {
+  agent?: Agent;
+  issues: AgentDefinitionIssue[];
+}
+
+const FRONT_MATTER = /^---[ \t]*\r?\n([\s\S]*?)^---[ \t]*(?:\r?\n|$)/m;
+
+export function formatAgentIssue(issue: AgentDefinitionIssue): string {
+  const field = issue.path ? `${issue.path}: ` : '';
+  return `${issue.file}:${issue.line}:${issue.column} ${field}${issue.message}`;
+}
+
+/**
+ * Parse an AGENT.md file and check its front-matter against the schema
+ */
+export function parseAgentFile(content: string, file: string, id: string = path.basename(path.dirname(file))): AgentFile {
+  const start = { line: 1, column: 1 };
+  const match = FRONT_MATTER.exec(content);
+  if (!match || match.index !== 0) {
+    const issue = { file, ...start, path: '', message: 'missing YAML front-matter (the file must start with ---)' };
+    return { id, file, data: {}, body: content, issues: [issue], locate: () => start };
+  }
+
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(match[1], { lineCounter, prettyErrors: false });
+  // Front-matter starts on the line after the opening ---
+  const at = (offset: number) => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line: line + 1, column: col };
+  };
+  const nodeAt = (segments: Array<string | number>, key: boolean) => {
+    if (key) {
+      const parent = segments.length > 1 ? doc.getIn(segments.slice(0, -1), true) : doc.contents;
+      const field = segments[segments.length - 1];
+      return isMap(parent) ? parent.items.find(pair => isScalar(pair.key) && pair.key.value === field)?.key : undefined;
+    }
+    return segments.length === 0 ? doc.contents : doc.getIn(segments, true);
+  };
+  const locate = (segments: Array<string | number>, key = false) => {
+    const range = (nodeAt(segments, key) as { range?: [number, number, number] } | undefined)?.range;
+    return range ? at(range[0]) : start;
+  };
+
+  const body = content.slice(match[0].length);
+  if (doc.errors.length > 0) {
+    const issues = doc.errors.map(error => ({ file, ...at(error.pos[0]), path: '', message: error.message.split('\n')[0] }));
+    return { id, file, data: {}, body, issues, locate: () => start };
+  }
+
+  const data = doc.toJS() ?? {};
+  const issues: AgentDefinitionIssue[] = [];
+  if (!validateFrontMatter(data)) {
+    for (const error of validateFrontMatter.errors ?? []) {
+      const issue = toIssue(error, locate);
+      if (issue) {
+        issues.push({ file, ...issue });
+      }
+    }
+  }
+  if (issues.length === 0 && data.id !== id) {
+    issues.push({ file, ...locate(['id']), path: 'id', message: `must match the agent's directory name "${id}"` });
+  }
+  issues.sort((a, b) => a.line - b.line || a.column - b.column);
+
+  return { id, file, data, body, issues, locate: field => locate([field], true) };
+}
+
+/**
+ * AGENT.md content for front-matter fields and a markdown body
+ */
+export function stringifyAgentFile(data: Record<string, any>, body: string): string {
+  return `---\n${stringify(data)}---\n\n${body.trim()}\n`;
+}
+
+function toIssue(
+  error: ErrorObject,
+  locate: (segments: Array<string | number>, key?: boolean) => { line: number; column: number }
+): Omit<AgentDefinitionIssue, 'file'> | null {
+  const segments = error.instancePath
+    .split('/')
+    .slice(1)
+    .map(s => (/^\d+$/.test(s) ? Number(s) : s.replace(/~1/g, '/').replace(/~0/g, '~')));
+
+  switch (error.keyword) {
+    case 'if':
+      return null; // Reported by the `then` branch
+    case 'additionalProperties': {
+      const field = error.params.additionalProperty as string;
+      const suggestion = closestField(field);
+      return {
+        ...locate([...segments, field], true),
+        path: formatPath([...segments, field]),
+        message: `unknown field${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`,
+      };
+    }
+    case 'required': {
+      const field = error.params.missingProperty as string;
+      return { ...locate(segments), path: formatPath([...segments, field]), message: 'missing required field' };
+    }
+    default:
+      return { ...locate(segments), path: formatPath(segments), message: error.message ?? error.keyword };
+  }
+}
+
+function formatPath(segments: Array<string | number>): string {
+  return segments.map((s, i) => (typeof s === 'number' ? `[${s}]` : i === 0 ? s : `.${s}`)).join('');
+}
+
+/**
+ * Known field within two edits of a misspelled one
+ */
+function closestField(field: string): string | undefined {
+  let best: { field: string; distance: number } | undefined;
+  for (const known of FIELDS) {
+    const distance = editDistance(field.toLowerCase(), known);
+    if (distance <= 2 && (!best || distance < best.distance)) {
+      best = { field: known, distance };
+    }
+  }
+  return best?.field;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Read <agentsDirectory>/<agentId>/AGENT.md; null if it does not exist
+ */
+export async function readAgentFile(agentsDirectory: string, agentId: string): Promise<AgentFile | null> {
+  const file = path.join(agentsDirectory, agentId, AGENT_FILE);
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+      return null;
+    }
+    throw error;
+  }
+  return parseAgentFile(content, file, agentId);
+}
+
+/**
+ * Load an agent and the agents it extends. Returns null if the agent does
+ * not exist; problems in its base agents are reported at its `extends` line.
+ */
+export async function inspectAgent(agentsDirectory: string, agentId: string): Promise<AgentInspection | null> {
+  const chain: AgentFile[] = [];
+  let id = agentId;
+  while (true) {
+    const child = chain[chain.length - 1];
+    const file = await readAgentFile(agentsDirectory, id);
+    if (!file) {
+      if (!child) {
+        return null;
+      }
+      return { issues: [extendsIssue(chain[0], child, `base agent "${id}" not found`)] };
+    }
+    if (chain.some(f => f.id === id)) {
+      const cycle = [...chain.map(f => f.id), id].join(' -> ');
+      return { issues: [extendsIssue(chain[0], child, `inheritance cycle: ${cycle}`)] };
+    }
+    if (file.issues.length > 0) {
+      return { issues: child ? [extendsIssue(chain[0], child, `base agent "${id}" is invalid`)] : file.issues };
+    }
+    chain.push(file);
+    if (!file.data.extends) {
+      break;
+    }
+    id = file.data.extends;
+  }
+
+  // Apply from the root base down to the agent itself
+  let data: Record<string, any> = {};
+  let prompt = '';
+  for (const file of [...chain].reverse()) {
+    const { extends: _base, ...fields } = file.data;
+    data = { ...data, ...fields };
+    prompt = [prompt, file.body.trim()].filter(Boolean).join('\n\n');
+  }
+  return { agent: toAgent(data, prompt, path.dirname(chain[0].file), chain[0].data.extends), issues: [] };
+}
+
+/**
+ * Issue reported at the agent's own `extends` field, whichever link of the
+ * chain is broken
+ */
+function extendsIssue(agent: AgentFile, child: AgentFile, message: string): AgentDefinitionIssue {
+  const where = agent === child ? message : `${message} (via ${child.id})`;
+  return { file: agent.file, ...agent.locate('extends'), path: 'extends', message: where };
+}
+
+/**
+ * Load an agent with its base agents applied; null if it does not exist
+ */
+export async function loadAgentDefinition(agentsDirectory: string, agentId: string): Promise<Agent | null> {
+  const inspection = await inspectAgent(agentsDirectory, agentId);
+  if (!inspection) {
+    return null;
+  }
+  if (!inspection.agent) {
+    throw new AgentDefinitionError(agentId, inspection.issues);
+  }
+  return inspection.agent;
+}
+
+/**
+ * Validate agents (all agent directories by default). Agents that do not
+ * exist are reported as an issue on their would-be file.
+ */
+export async function validateAgentDefinitions(
+  agentsDirectory: string,
+  agentIds?: string[]
+): Promise<Array<{ agentId: string; issues: AgentDefinitionIssue[] }>> {
+  const ids = agentIds ?? (await listAgentDirectories(agentsDirectory));
+  const results = [];
+  for (const agentId of ids) {
+    const inspection = await inspectAgent(agentsDirectory, agentId);
+    const file = path.join(agentsDirectory, agentId, AGENT_FILE);
+    results.push({
+      agentId,
+      issues: inspection?.issues ?? [{ file, line: 1, column: 1, path: '', message: 'agent not found' }],
+    });
+  }
+  return results;
+}
+
+async function listAgentDirectories(agentsDirectory: string): Promise<string[]> {
+  const entries = await fs.readdir(agentsDirectory, { withFileTypes: true });
+  return entries.filter(e => e.isDirectory() && !e.name.startsWith('.')).map(e => e.name).sort();
+}
+
+function toAgent(data: Record<string, any>, systemPrompt: string, agentPath: string, base?: string): Agent {
+  const metadata: AgentMetadata = {
+    id: data.id,
+    name: data.name,
+    description: data.description,
+    version: data.version ?? '1.0.0',
+    author: data.author,
+    avatar: data.avatar ?? '🤖',
+    color: data.color ?? 'blue',
+    capabilities: data.capabilities ?? [],
+    activation_keywords: data.activation_keywords ?? [],
+    requires_approval: data.requires_approval ?? false,
+    max_iterations: data.max_iterations ?? 10,
+    tool_concurrency: data.tool_concurrency,
+    extends: base,
+  };
+
+  const config: AgentConfig = {
+    systemPrompt,
+    temperature: data.temperature ?? 0.7,
+    maxTokens: data.max_tokens ?? 2000,
+    tools: data.tools ?? [],
+  };
+
+  return { metadata, config, path: agentPath };
+}
@@ -0,0 +1,129 @@
+/**
+ * Version history of an agent's AGENT.md, kept next to it in .history/:
+ * one file per saved version plus an index. Versions are never rewritten;
+ * rolling back saves the restored content as a new version.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { AGENT_FILE } from './agent-definition';
+import { createUnifiedDiff } from '../tools/unified-diff';
+
+const HISTORY_DIR = '.history';
+const INDEX_FILE = 'index.json';
+
+export interface AgentVersion {
+  version: number; // 1 for the first saved version
+  savedAt: string; // ISO timestamp
+  reason: string; // e.g. "created", "updated", "rollback to v2"
+}
+
+export class AgentHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentHistoryError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+export class AgentHistory {
+  private historyDirectory: string;
+  private agentFile: string;
+
+  constructor(private agentPath: string) {
+    this.historyDirectory = path.join(agentPath, HISTORY_DIR);
+    this.agentFile = path.join(agentPath, AGENT_FILE);
+  }
+
+  /**
+   * Saved versions, oldest first
+   */
+  async list(): Promise<AgentVersion[]> {
+    try {
+      const index = JSON.parse(await fs.readFile(path.join(this.historyDirectory, INDEX_FILE), 'utf-8'));
+      return index.versions ?? [];
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async read(version: number): Promise<string> {
+    try {
+      return await fs.readFile(this.versionFile(version), 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new AgentHistoryError(`No version ${version} of ${path.basename(this.agentPath)}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save content as the next version; nothing is saved if it matches the
+   * latest version
+   */
+  async save(content: string, reason: string): Promise<AgentVersion | null> {
+    const versions = await this.list();
+    const latest = versions[versions.length - 1];
+    if (latest && (await this.read(latest.version)) === content) {
+      return null;
+    }
+
+    const entry: AgentVersion = { version: (latest?.version ?? 0) + 1, savedAt: new Date().toISOString(), reason };
+    await fs.mkdir(this.historyDirectory, { recursive: true });
+    await fs.writeFile(this.versionFile(entry.version), content, 'utf-8');
+    await fs.writeFile(
+      path.join(this.historyDirectory, INDEX_FILE),
+      JSON.stringify({ versions: [...versions, entry] }, null, 2),
+      'utf-8'
+    );
+    return entry;
+  }
+
+  /**
+   * Write a new AGENT.md, saving the current file first if the history does
+   * not have it yet (agents written by hand or before history existed)
+   */
+  async write(content: string, reason: string): Promise<AgentVersion | null> {
+    await this.saveCurrent();
+    await fs.writeFile(this.agentFile, content, 'utf-8');
+    return await this.save(content, reason);
+  }
+
+  /**
+   * Unified diff between two versions; `to` defaults to the current file
+   */
+  async diff(from: number, to?: number): Promise<string> {
+    const before = await this.read(from);
+    const after = to === undefined ? await fs.readFile(this.agentFile, 'utf-8') : await this.read(to);
+    return createUnifiedDiff(path.join(path.basename(this.agentPath), AGENT_FILE), before, after);
+  }
+
+  /**
+   * Restore a saved version as AGENT.md
+   */
+  async rollback(version: number): Promise<AgentVersion | null> {
+    const content = await this.read(version);
+    return await this.write(content, `rollback to v${version}`);
+  }
+
+  private async saveCurrent(): Promise<void> {
+    let current: string;
+    try {
+      current = await fs.readFile(this.agentFile, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    await this.save(current, (await this.list()).length === 0 ? 'initial' : 'edited outside selek');
+  }
+
+  private versionFile(version: number): string {
+    return path.join(this.historyDirectory, `v${version}.md`);
+  }
+}
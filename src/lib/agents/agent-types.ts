@@ -0,0 +1,147 @@
+/**
+ * Registry of specialized agent types. Maps a type name (`implementation`,
+ * `security`, ...) to its SpecializedAgent subclass and prompt template, so
+ * the orchestrator can spawn any registered type and third parties can add
+ * their own (e.g. a testing or docs agent).
+ */
+
+import { SpecializedAgent, SpecializedAgentConfig } from './specialized-agent';
+import { ImplementationAgent } from './implementation-agent';
+import { SecurityAgent } from './security-agent';
+import { PerformanceAgent } from './performance-agent';
+
+const TYPE_NAME = /^[a-z][a-z0-9-]*$/;
+
+export class UnknownAgentTypeError extends Error {
+  constructor(
+    public readonly agentTypes: string[],
+    public readonly available: string[]
+  ) {
+    super(`Unknown agent type${agentTypes.length > 1 ? 's' : ''}: ${agentTypes.join(', ')}. Available types: ${available.join(', ')}`);
+    this.name = 'UnknownAgentTypeError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+export class AgentTypeRegistrationError extends Error {
+  constructor(
+    public readonly agentType: string,
+    public readonly reason: string
+  ) {
+    super(`Cannot register agent type "${agentType}": ${reason}`);
+    this.name = 'AgentTypeRegistrationError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+export type SpecializedAgentClass = new (config: SpecializedAgentConfig) => SpecializedAgent;
+
+export interface AgentTypeDefinition {
+  name: string; // Lower-case type name used by /spawn and --agents
+  description: string;
+  agentClass: SpecializedAgentClass;
+  // Prompt template, relative to the orchestrator's template directory or absolute
+  templateFile: string;
+  defaultDomain: string; // Domain used when the caller does not name one
+}
+
+export class AgentTypeRegistry {
+  private types: Map<string, AgentTypeDefinition> = new Map();
+
+  /**
+   * Add a type; `replace` allows overriding an existing one (including built-ins)
+   */
+  register(definition: AgentTypeDefinition, options: { replace?: boolean } = {}): void {
+    if (!TYPE_NAME.test(definition.name)) {
+      throw new AgentTypeRegistrationError(definition.name, 'names are lower-case letters, digits and dashes');
+    }
+    if (typeof definition.agentClass !== 'function' || !(definition.agentClass.prototype instanceof SpecializedAgent)) {
+      throw new AgentTypeRegistrationError(definition.name, 'agentClass must extend SpecializedAgent');
+    }
+    if (this.types.has(definition.name) && !options.replace) {
+      throw new AgentTypeRegistrationError(definition.name, 'a type with this name is already registered');
+    }
+    this.types.set(definition.name, { ...definition });
+  }
+
+  unregister(name: string): boolean {
+    return this.types.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.types.has(name);
+  }
+
+  get(name: string): AgentTypeDefinition | undefined {
+    return this.types.get(name);
+  }
+
+  /**
+   * Definition of a type; throws UnknownAgentTypeError if it is not registered
+   */
+  resolve(name: string): AgentTypeDefinition {
+    const definition = this.types.get(name);
+    if (!definition) {
+      throw new UnknownAgentTypeError([name], this.names());
+    }
+    return definition;
+  }
+
+  /**
+   * Check a list of requested types before any agent is spawned
+   */
+  validate(names: string[]): void {
+    const unknown = names.filter(name => !this.types.has(name));
+    if (unknown.length > 0) {
+      throw new UnknownAgentTypeError(unknown, this.names());
+    }
+  }
+
+  names(): string[] {
+    return [...this.types.keys()];
+  }
+
+  list(): AgentTypeDefinition[] {
+    return [...this.types.values()];
+  }
+}
+
+/**
+ * Types that ship with the orchestrator
+ */
+function registerBuiltinTypes(registry: AgentTypeRegistry): void {
+  registry.register({
+    name: 'implementation',
+    description: 'Step-by-step implementation plans the executor can run',
+    agentClass: ImplementationAgent,
+    templateFile: 'implementation-agent.md',
+    defaultDomain: 'TypeScript Development',
+  });
+  registry.register({
+    name: 'security',
+    description: 'Security reviews: threats, OWASP assessment and mitigations',
+    agentClass: SecurityAgent,
+    templateFile: 'security-agent.md',
+    defaultDomain: 'Application Security',
+  });
+  registry.register({
+    name: 'performance',
+    description: 'Performance analysis: bottlenecks, benchmarks and optimizations',
+    agentClass: PerformanceAgent,
+    templateFile: 'performance-agent.md',
+    defaultDomain: 'Performance Optimization',
+  });
+}
+
+let agentTypeRegistry: AgentTypeRegistry | null = null;
+
+/**
+ * Shared registry with the built-in types; register additional types here
+ */
+export function getAgentTypeRegistry(): AgentTypeRegistry {
+  if (!agentTypeRegistry) {
+    agentTypeRegistry = new AgentTypeRegistry();
+    registerBuiltinTypes(agentTypeRegistry);
+  }
+  return agentTypeRegistry;
+}
@@ -1,9 +1,10 @@
-import { SpecializedAgent, SpecializedAgentConfig } from './specialized-agent';
+import { SpecializedAgentConfig } from './specialized-agent';
+import { ReviewAgent } from './review-agent';
 
 /**
  * Performance analysis agent - evaluates and optimizes system performance
  */
-export class PerformanceAgent extends SpecializedAgent {
+export class PerformanceAgent extends ReviewAgent {
   constructor(config: SpecializedAgentConfig) {
     super(config);
   }
@@ -26,6 +27,13 @@ export class PerformanceAgent extends SpecializedAgent {
     ];
   }
 
+  /**
+   * Finding ids look like PERF-1
+   */
+  protected getFindingPrefix(): string {
+    return 'PERF';
+  }
+
   /**
    * Get agent type identifier
    */
@@ -34,9 +42,9 @@ export class PerformanceAgent extends SpecializedAgent {
   }
 
   /**
-   * Override to add performance-specific task prompt
+   * Performance-specific part of the review prompt
    */
-  protected buildTaskPrompt(task: string, dependencies: string[]): string {
+  protected buildReviewPrompt(task: string, dependencies: string[]): string {
     let prompt = `PERFORMANCE ANALYSIS TASK: ${task}\n\n`;
 
     if (dependencies.length > 0) {
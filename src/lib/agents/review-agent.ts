@@ -0,0 +1,100 @@
+import { SpecializedAgent, AgentOutput } from './specialized-agent';
+import { PlanReviewResponse } from '../executor/plan-format';
+import { RaisedFinding, parseReviewDocument, stringifyReviewDocument, findingKey } from './review-format';
+
+/**
+ * What a reviewer is told when it reviews a revised plan
+ */
+export interface ReviewContext {
+  round: number; // 1 for the first review
+  previous: RaisedFinding[]; // This reviewer's findings in the previous round
+  responses: PlanReviewResponse[]; // How the revised plan answers them
+}
+
+/**
+ * Base class for agents that review another agent's plan (security,
+ * performance, ...). Their output is a review whose front-matter lists
+ * structured findings instead of implementation steps.
+ */
+export abstract class ReviewAgent extends SpecializedAgent {
+  /**
+   * Review an implementation plan; later rounds re-check a revised plan
+   * against the reviewer's earlier findings
+   */
+  async review(task: string, planFile: string, context: ReviewContext): Promise<AgentOutput> {
+    let prompt = this.buildTaskPrompt(task, [planFile]);
+    if (context.round > 1) {
+      prompt += this.buildFollowUpPrompt(context);
+    }
+    const output = await this.producePlan(task, prompt, [planFile], context.round > 1 ? context.round : undefined);
+    return this.withFindings(output);
+  }
+
+  async execute(task: string, dependencies: string[] = []): Promise<AgentOutput> {
+    return this.withFindings(await super.execute(task, dependencies));
+  }
+
+  protected buildTaskPrompt(task: string, dependencies: string[]): string {
+    const prefix = this.getFindingPrefix();
+    return `${this.buildReviewPrompt(task, dependencies)}
+Start the review with YAML front-matter listing your findings:
+
+---
+reviewSchema: 1
+findings:
+  - id: ${prefix}-1            # ${prefix}-<n>
+    severity: critical | high | medium | low | info
+    title: <the problem>
+    location: <plan step, file or component>
+    recommendation: <what the plan should do instead>
+---
+
+Use "findings: []" if there is nothing to report. Critical and high findings block the plan until it addresses them.
+Then write the review itself in markdown.
+`;
+  }
+
+  /**
+   * Earlier findings and the planner's answers, for a review of a revised plan
+   */
+  protected buildFollowUpPrompt(context: ReviewContext): string {
+    let prompt = `\n## Review Round ${context.round}\n\n`;
+    prompt += `The plan was revised after your last review. Your previous findings and the planner's responses:\n`;
+    for (const finding of context.previous) {
+      const response = context.responses.find(r => r.finding === findingKey(finding))
+        ?? context.responses.find(r => r.finding === finding.id);
+      prompt += `- ${finding.id} [${finding.severity}] ${finding.title} - `;
+      prompt += response ? `${response.decision}${response.note ? `: ${response.note}` : ''}` : 'no response';
+      prompt += '\n';
+    }
+    prompt += `\nRe-review the revised plan. Keep the id of every finding that still applies (its severity may change), `;
+    prompt += `leave out findings the revision resolved, and number new findings after the existing ones.\n`;
+    return prompt;
+  }
+
+  /**
+   * Reviews are checked against the review schema instead of the plan schema
+   */
+  protected structurePlan(response: string): { planContent: string; schemaIssues: string[] } {
+    const content = this.unwrapResponse(response);
+    const document = parseReviewDocument(content);
+    if (document.issues.length > 0) {
+      return { planContent: content, schemaIssues: document.issues };
+    }
+    return { planContent: stringifyReviewDocument(document.findings, document.body), schemaIssues: [] };
+  }
+
+  private withFindings(output: AgentOutput): AgentOutput {
+    return { ...output, findings: parseReviewDocument(output.planContent).findings };
+  }
+
+  /**
+   * Task-specific part of the review prompt (override in subclasses)
+   */
+  protected abstract buildReviewPrompt(task: string, dependencies: string[]): string;
+
+  /**
+   * Prefix of this reviewer's finding ids, e.g. "SEC"
+   */
+  protected abstract getFindingPrefix(): string;
+}
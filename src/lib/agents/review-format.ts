@@ -0,0 +1,134 @@
+/**
+ * Machine-readable review format. Reviewer agents (security, performance)
+ * start their review with YAML front-matter listing their findings:
+ *
+ *   ---
+ *   reviewSchema: 1
+ *   findings:
+ *     - id: SEC-1
+ *       severity: high
+ *       title: Session tokens are logged
+ *       location: step 1.2 (src/auth/session.ts)
+ *       recommendation: Redact tokens before logging requests
+ *   ---
+ *
+ * Critical and high findings block the plan until a later review no longer
+ * reports them.
+ */
+
+import matter from 'gray-matter';
+import { isRecord, checkFields, checkString } from '../executor/plan-format';
+
+export const REVIEW_SCHEMA_VERSION = 1;
+
+export const FINDING_SEVERITIES = ['critical', 'high', 'medium', 'low', 'info'] as const;
+export type FindingSeverity = typeof FINDING_SEVERITIES[number];
+const BLOCKING_SEVERITIES: FindingSeverity[] = ['critical', 'high'];
+
+export interface ReviewFinding {
+  id: string; // Stable across review rounds, e.g. "SEC-1"
+  severity: FindingSeverity;
+  title: string;
+  location: string; // Plan step, file or component the finding is about
+  recommendation: string;
+}
+
+/**
+ * A finding with the type of the agent that raised it
+ */
+export type RaisedFinding = ReviewFinding & { reviewer: string };
+
+/**
+ * Reviewers number their findings independently, so an id is only unique
+ * together with the reviewer that raised it: "<reviewer>:<id>"
+ */
+export function findingKey(finding: RaisedFinding): string {
+  return `${finding.reviewer}:${finding.id}`;
+}
+
+export interface ReviewDocument {
+  findings: ReviewFinding[];
+  body: string; // Markdown after the front-matter
+}
+
+const REVIEW_FIELDS = ['reviewSchema', 'findings'];
+const FINDING_FIELDS = ['id', 'severity', 'title', 'location', 'recommendation'];
+
+export function isBlockingFinding(finding: Pick<ReviewFinding, 'severity'>): boolean {
+  return BLOCKING_SEVERITIES.includes(finding.severity);
+}
+
+/**
+ * Check review front-matter against the schema, one message per problem
+ */
+export function validateReviewSpec(data: unknown): string[] {
+  const issues: string[] = [];
+  if (!isRecord(data)) {
+    return ['front-matter: must be a mapping'];
+  }
+
+  checkFields(data, REVIEW_FIELDS, 'review', issues);
+  if (data.reviewSchema !== undefined && data.reviewSchema !== REVIEW_SCHEMA_VERSION) {
+    issues.push(`reviewSchema: unsupported version ${JSON.stringify(data.reviewSchema)} (expected ${REVIEW_SCHEMA_VERSION})`);
+  }
+  if (!Array.isArray(data.findings)) {
+    issues.push('findings: required list (use [] when there are none)');
+    return issues;
+  }
+
+  const ids = new Set<string>();
+  data.findings.forEach((finding: unknown, i: number) => {
+    const where = `findings[${i}]`;
+    if (!isRecord(finding)) {
+      issues.push(`${where}: must be a mapping`);
+      return;
+    }
+    checkFields(finding, FINDING_FIELDS, where, issues);
+    checkString(finding.id, `${where}.id`, issues, true);
+    if (typeof finding.id === 'string') {
+      if (ids.has(finding.id)) {
+        issues.push(`${where}.id: duplicate finding "${finding.id}"`);
+      }
+      ids.add(finding.id);
+    }
+    if (!FINDING_SEVERITIES.includes(finding.severity)) {
+      issues.push(`${where}.severity: must be one of ${FINDING_SEVERITIES.join(', ')}`);
+    }
+    checkString(finding.title, `${where}.title`, issues, true);
+    checkString(finding.location, `${where}.location`, issues, false);
+    checkString(finding.recommendation, `${where}.recommendation`, issues, false);
+  });
+  return issues;
+}
+
+/**
+ * Read a review's findings; `issues` lists every schema problem
+ */
+export function parseReviewDocument(content: string): ReviewDocument & { issues: string[] } {
+  let parsed: matter.GrayMatterFile<string>;
+  try {
+    parsed = matter(content, {});
+  } catch (error: any) {
+    return { findings: [], body: content, issues: [`front-matter: invalid YAML (${error.reason ?? error.message})`] };
+  }
+  if (Object.keys(parsed.data).length === 0) {
+    return { findings: [], body: content, issues: ['front-matter: a review starts with YAML front-matter listing its findings'] };
+  }
+
+  const issues = validateReviewSpec(parsed.data);
+  const findings: ReviewFinding[] = issues.length > 0 ? [] : parsed.data.findings.map((finding: Record<string, any>) => ({
+    id: finding.id,
+    severity: finding.severity,
+    title: finding.title.trim(),
+    location: finding.location ?? '',
+    recommendation: finding.recommendation ?? '',
+  }));
+  return { findings, body: parsed.content, issues };
+}
+
+/**
+ * Markdown body with the review's front-matter in front of it
+ */
+export function stringifyReviewDocument(findings: ReviewFinding[], body: string): string {
+  return matter.stringify(body.replace(/^\n+/, '\n'), { reviewSchema: REVIEW_SCHEMA_VERSION, findings });
+}
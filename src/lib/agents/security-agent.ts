@@ -1,9 +1,10 @@
-import { SpecializedAgent, SpecializedAgentConfig } from './specialized-agent';
+import { SpecializedAgentConfig } from './specialized-agent';
+import { ReviewAgent } from './review-agent';
 
 /**
  * Security review agent - analyzes code for vulnerabilities and security issues
  */
-export class SecurityAgent extends SpecializedAgent {
+export class SecurityAgent extends ReviewAgent {
   constructor(config: SpecializedAgentConfig) {
     super(config);
   }
@@ -25,6 +26,13 @@ export class SecurityAgent extends SpecializedAgent {
     ];
   }
 
+  /**
+   * Finding ids look like SEC-1
+   */
+  protected getFindingPrefix(): string {
+    return 'SEC';
+  }
+
   /**
    * Get agent type identifier
    */
@@ -33,9 +41,9 @@ export class SecurityAgent extends SpecializedAgent {
   }
 
   /**
-   * Override to add security-specific task prompt
+   * Security-specific part of the review prompt
    */
-  protected buildTaskPrompt(task: string, dependencies: string[]): string {
+  protected buildReviewPrompt(task: string, dependencies: string[]): string {
     let prompt = `SECURITY REVIEW TASK: ${task}\n\n`;
 
     if (dependencies.length > 0) {
@@ -1,7 +1,9 @@
 import { Agent, AgentMeta } from '../agent';
-import { OllamaClient } from '../llm/ollama-client';
+import { LLMSource } from '../providers/ProviderFactory';
 import path from 'path';
 import fs from 'fs/promises';
+import { parsePlanDocument, stringifyPlanDocument, PLAN_SCHEMA_VERSION } from '../executor/plan-format';
+import { ReviewFinding, RaisedFinding, isBlockingFinding } from './review-format';
 
 /**
  * Custom exceptions for specialized agents
@@ -21,9 +23,13 @@ export class PlanGenerationError extends Error {
 export class PlanValidationError extends Error {
   constructor(
     public readonly planFile: string,
-    public readonly missingSection: string[]
+    public readonly missingSection: string[],
+    public readonly schemaIssues: string[] = []
   ) {
-    super(`Plan validation failed for ${planFile}. Missing sections: ${missingSection.join(', ')}`);
+    super(`Plan validation failed for ${planFile}. ` + [
+      missingSection.length > 0 ? `Missing sections: ${missingSection.join(', ')}` : '',
+      schemaIssues.length > 0 ? `Schema errors: ${schemaIssues.join('; ')}` : '',
+    ].filter(Boolean).join('. '));
     this.name = 'PlanValidationError';
     Error.captureStackTrace(this, this.constructor);
   }
@@ -40,6 +46,37 @@ export class PlanStorageError extends Error {
   }
 }
 
+const PLAN_FRONT_MATTER_INSTRUCTIONS = `Start the plan with YAML front-matter listing its steps and checkpoints:
+
+---
+planSchema: ${PLAN_SCHEMA_VERSION}
+title: <plan title>
+domain: <domain>
+complexity: Simple | Standard | Complex
+steps:
+  - id: "1.1"              # quoted
+    title: <what the step does>
+    dependsOn: []          # ids of steps that must be done first
+    files: [<paths the step changes>]
+    details: <key implementation details>
+    errorHandling: <error handling for the step>
+    verify: [<commands that check the step>]
+checkpoints:
+  - id: checkpoint-1
+    title: <what is verified>
+    steps: ["1.1"]         # steps that must be done before it is verified
+    verify:                # checked by running them, not by asking you
+      - <command that must exit 0>
+      - { run: <command>, exitCode: <expected exit code> }
+      - { test: <test suite command> }
+      - { exists: <path> }
+      - { absent: <path> }
+      - { file: <path>, matches: <regular expression> }
+---
+
+Then write the plan itself in markdown.
+`;
+
 /**
  * Plan metadata extracted from generated plans
  */
@@ -65,6 +102,7 @@ export interface AgentOutput {
   metadata: PlanMetadata;
   executionTime: number;
   timestamp: Date;
+  findings?: ReviewFinding[]; // Findings of reviewer agents
 }
 
 /**
@@ -75,7 +113,7 @@ export interface SpecializedAgentConfig {
   domain: string;
   promptTemplatePath: string;
   outputDir: string;
-  llm: OllamaClient;
+  llm: LLMSource;
 }
 
 /**
@@ -124,6 +162,32 @@ export abstract class SpecializedAgent extends Agent {
   async execute(
     task: string,
     dependencies: string[] = []
+  ): Promise<AgentOutput> {
+    return this.producePlan(task, this.buildTaskPrompt(task, dependencies), dependencies);
+  }
+
+  /**
+   * Revise a plan to address review findings. The revision is saved next to
+   * the plan (`-r<revision>`) and answers each finding in `reviewResponses`.
+   */
+  async revise(
+    task: string,
+    planFile: string,
+    findings: RaisedFinding[],
+    revision: number
+  ): Promise<AgentOutput> {
+    return this.producePlan(task, this.buildRevisionPrompt(task, planFile, findings), [planFile], revision);
+  }
+
+  /**
+   * Run the model with a task prompt and files as context, then validate
+   * and save what it wrote
+   */
+  protected async producePlan(
+    task: string,
+    taskPrompt: string,
+    dependencies: string[],
+    revision?: number
   ): Promise<AgentOutput> {
     const startTime = Date.now();
 
@@ -154,23 +218,21 @@ export abstract class SpecializedAgent extends Agent {
         }
       }
 
-      // Build the task prompt
-      const taskPrompt = this.buildTaskPrompt(task, dependencies);
-
       // Run the agent
-      const planContent = await this.run(taskPrompt, contextFiles);
+      const response = await this.run(taskPrompt, contextFiles);
 
       // Validate the plan
+      const { planContent, schemaIssues } = this.structurePlan(response);
       const validationErrors = this.validatePlan(planContent);
-      if (validationErrors.length > 0) {
-        throw new PlanValidationError('<generated>', validationErrors);
+      if (validationErrors.length > 0 || schemaIssues.length > 0) {
+        throw new PlanValidationError('<generated>', validationErrors, schemaIssues);
       }
 
       // Extract metadata from plan
       const metadata = this.extractMetadata(planContent);
 
       // Save the plan
-      const planFile = await this.savePlan(planContent, task);
+      const planFile = await this.savePlan(planContent, task, revision);
 
       const executionTime = (Date.now() - startTime) / 1000;
 
@@ -216,11 +278,60 @@ export abstract class SpecializedAgent extends Agent {
     prompt += `4. Define custom exception classes\n`;
     prompt += `5. Specify SOLID principles justification\n`;
     prompt += `6. Create incremental checkpoints\n`;
-    prompt += `7. Define rollback strategy\n`;
+    prompt += `7. Define rollback strategy\n\n`;
+    prompt += PLAN_FRONT_MATTER_INSTRUCTIONS;
 
     return prompt;
   }
 
+  /**
+   * Prompt for revising a plan after a review
+   */
+  protected buildRevisionPrompt(task: string, planFile: string, findings: RaisedFinding[]): string {
+    let prompt = `REVISION TASK: ${task}\n\n`;
+    prompt += `Your plan ${path.basename(planFile)} was reviewed. Revise it to address these findings:\n\n`;
+    for (const finding of findings) {
+      const blocking = isBlockingFinding(finding) ? ', blocking' : '';
+      prompt += `- ${finding.id} [${finding.severity}${blocking}] (${finding.reviewer}) ${finding.title}`;
+      prompt += finding.location ? ` - at ${finding.location}` : '';
+      prompt += finding.recommendation ? ` - Recommendation: ${finding.recommendation}` : '';
+      prompt += '\n';
+    }
+    prompt += `\nChange the steps and checkpoints so every blocking finding is addressed, and keep the ids of steps that do not change.\n`;
+    prompt += `Record a decision for every finding in the front-matter, after the checkpoints:\n\n`;
+    prompt += `reviewResponses:\n`;
+    prompt += `  - finding: <finding id, or <reviewer>:<finding id> if two reviewers used the same id>\n`;
+    prompt += `    decision: addressed | accepted | deferred\n`;
+    prompt += `    note: <what changed, or why the risk is accepted or deferred>\n\n`;
+    prompt += `Write the complete revised plan, not just the changes.\n\n`;
+    prompt += PLAN_FRONT_MATTER_INSTRUCTIONS;
+    return prompt;
+  }
+
+  /**
+   * Model output without a code fence wrapped around all of it
+   */
+  protected unwrapResponse(response: string): string {
+    // Models sometimes wrap the whole plan in a code fence
+    return response.trim().replace(/^```(?:markdown|md)?\n([\s\S]*)\n```$/, '$1') + '\n';
+  }
+
+  /**
+   * Give the plan its front-matter. A model that wrote none gets one derived
+   * from the markdown headings; one it did write must match the schema.
+   */
+  protected structurePlan(response: string): { planContent: string; schemaIssues: string[] } {
+    const content = this.unwrapResponse(response);
+    const document = parsePlanDocument(content);
+    if (document.issues.length > 0) {
+      return { planContent: content, schemaIssues: document.issues };
+    }
+    if (!document.structured && document.spec.steps.length === 0) {
+      return { planContent: content, schemaIssues: ['steps: no front-matter and no "### Step" headings found'] };
+    }
+    return { planContent: stringifyPlanDocument(document.spec, document.body), schemaIssues: [] };
+  }
+
   /**
    * Validate that the generated plan has required sections
    */
@@ -286,7 +397,7 @@ export abstract class SpecializedAgent extends Agent {
   /**
    * Save the plan to a file
    */
-  protected async savePlan(planContent: string, task: string): Promise<string> {
+  protected async savePlan(planContent: string, task: string, revision?: number): Promise<string> {
     try {
       const outputDir = path.resolve(this.config.outputDir);
       await fs.mkdir(outputDir, { recursive: true });
@@ -297,7 +408,7 @@ export abstract class SpecializedAgent extends Agent {
         .replace(/[^a-z0-9]+/g, '-')
         .substring(0, 30);
 
-      const filename = `${this.getAgentType()}-plan-${timestamp}-${taskSlug}.md`;
+      const filename = `${this.getAgentType()}-plan-${timestamp}-${taskSlug}${revision ? `-r${revision}` : ''}.md`;
       const planPath = path.join(outputDir, filename);
 
       await fs.writeFile(planPath, planContent, 'utf-8');
@@ -2,11 +2,15 @@
 import readline from 'readline';
 import { Agent, AgentMeta } from '../../lib/agent';
 import { OllamaClient } from '../../lib/llm/ollama-client';
+import { LLMSource, createDefaultLLM, describeLLM } from '../../lib/providers/ProviderFactory';
 import { registerTools } from '../../lib/tools';
 import { registerGitTools } from '../../lib/tools/git-tools';
 import { registerHTTPTools } from '../../lib/tools/http-tools';
 import { MCPServerConfig } from '../../mcp/mcp-client';
 import { enhanceSystemMessageWithProjectContext } from '../../lib/context/ProjectContextLoader';
+import { describeContextEvent } from '../../lib/context/ContextManager';
+import { ensureFolderTrusted } from '../../lib/trust';
+import { SnapshotStore, runUndoCommand } from '../../lib/snapshots/SnapshotStore';
 import chalk from 'chalk';
 import * as dotenv from 'dotenv';
 import fs from 'fs/promises';
@@ -75,24 +79,47 @@ function displayToolInfo(agent: Agent) {
 async function main() {
   displayWelcome();
 
+  // Ask before working in a folder for the first time; tools stay confined to trusted folders
+  const trusted = await ensureFolderTrusted(process.cwd(), async (dir) => {
+    const confirm = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const answer = await new Promise<string>(resolve => confirm.question(
+      chalk.yellow(`\n📁 Trust this folder? ${dir}\n`) +
+      chalk.gray('   Agents can read, change and run commands in trusted folders only. (y/N) '),
+      resolve
+    ));
+    confirm.close();
+    return /^y(es)?$/i.test(answer.trim());
+  });
+  if (!trusted) {
+    console.log(chalk.red('❌ Folder not trusted. Run "selek trust add ." to allow agents here.'));
+    process.exit(1);
+  }
+
   // Load configuration
   const endpoint = process.env.OLLAMA_ENDPOINT || 'http://localhost:11434';
   const model = process.env.OLLAMA_MODEL || 'qwen2.5-coder:32b';
-  
-  console.log(chalk.gray(`📡 Endpoint: ${endpoint}`));
-  console.log(chalk.gray(`🤖 Model: ${model}`));
 
-  // Initialize LLM client
-  const llm = new OllamaClient({
-    baseUrl: endpoint,
-    model: model,
-  });
+  // Initialize LLM client from the default provider, falling back to local Ollama
+  let llm: LLMSource;
+  try {
+    llm = await createDefaultLLM();
+  } catch (error: any) {
+    console.log(chalk.yellow(`⚠️  Default provider unavailable (${error.message}), using Ollama`));
+    llm = new OllamaClient({
+      baseUrl: endpoint,
+      model: model,
+    });
+  }
+
+  console.log(chalk.gray(`🤖 Provider: ${describeLLM(llm)}`));
 
   // Check health
   console.log(chalk.yellow('\n⏳ Checking LLM health...'));
   const health = await llm.healthCheck();
   if (!health.healthy) {
-    console.log(chalk.red('❌ LLM is not available. Please start Ollama.'));
+    const { error, message } = health as { error?: string; message?: string };
+    const reason = error || message;
+    console.log(chalk.red(`❌ LLM is not available${reason ? `: ${reason}` : ''}`));
     process.exit(1);
   }
   console.log(chalk.green('✓ LLM is healthy'));
@@ -138,11 +165,20 @@ Be helpful, clear, and thorough. Always consider the project context when making
 
   const agent = new Agent(agentMeta, llm, 15, mcpServers);
 
+  // Show context truncation and compaction as it happens
+  agent.onContextEvent(event => {
+    console.log(chalk.magenta(`\n🗜️  ${describeContextEvent(event)}`));
+  });
+
   // Register local tools
   registerTools(agent);
   registerGitTools(agent);
   registerHTTPTools(agent);
 
+  // Record file edits so /undo (or `selek undo` later) can roll them back
+  const snapshots = await SnapshotStore.load(`chat_${Date.now()}`);
+  agent.setSnapshots(snapshots);
+
   console.log(chalk.green('✓ Agent initialized'));
 
   // Display available tools
@@ -162,12 +198,16 @@ Be helpful, clear, and thorough. Always consider the project context when making
   console.log(chalk.gray('  /clear    - Clear conversation history'));
   console.log(chalk.gray('  /stats    - Show context statistics'));
   console.log(chalk.gray('  /mcp      - Show MCP server info'));
+  console.log(chalk.gray('  /undo [n] - Undo the last n file edits (also: turn <n>, list, force)'));
   console.log(chalk.gray('  /help     - Show this help message'));
   console.log(chalk.gray('  /exit     - Exit chat'));
   console.log(chalk.gray('\n' + '─'.repeat(60)));
 
   rl.prompt();
 
+  // Run in progress, aborted by Ctrl+C
+  let currentRun: AbortController | null = null;
+
   rl.on('line', async (input: string) => {
     const trimmed = input.trim();
 
@@ -186,6 +226,7 @@ Be helpful, clear, and thorough. Always consider the project context when making
       console.log(chalk.gray('  /clear    - Clear conversation history'));
       console.log(chalk.gray('  /stats    - Show context statistics'));
       console.log(chalk.gray('  /mcp      - Show MCP server info'));
+      console.log(chalk.gray('  /undo [n] - Undo the last n file edits (also: turn <n>, list, force)'));
       console.log(chalk.gray('  /exit     - Exit chat'));
       rl.prompt();
       return;
@@ -206,8 +247,12 @@ Be helpful, clear, and thorough. Always consider the project context when making
         console.log(chalk.bold(`Turn ${i + 1}`) + chalk.gray(` (${timestamp})`));
         console.log(chalk.gray(`  Messages: ${turn.messages.length}`));
         
-        if (turn.toolCalls.length > 0) {
-          console.log(chalk.yellow(`  Tools used: ${turn.toolCalls.map(tc => tc.name).join(', ')}`));
+        if (turn.toolResults.length > 0) {
+          console.log(chalk.yellow(`  Tool calls: ${turn.toolResults.length}`));
+          turn.toolResults.forEach(record => {
+            const outcome = record.error ? chalk.red(`✗ ${record.error}`) : chalk.green('✓');
+            console.log(chalk.gray(`    • ${record.name} [${record.id}] ${JSON.stringify(record.args)} (${record.durationMs}ms) `) + outcome);
+          });
         }
         
         console.log();
@@ -229,16 +274,27 @@ Be helpful, clear, and thorough. Always consider the project context when making
       console.log(chalk.cyan('\n📊 Context Statistics:'));
       console.log(chalk.gray(`  Total turns: ${stats.totalTurns}`));
       console.log(chalk.gray(`  Tool calls: ${stats.toolCallsCount}`));
+      console.log(chalk.gray(`  History tokens: ~${stats.estimatedTokens} / ${stats.budget} (window ${stats.contextWindow})`));
       console.log(chalk.gray(`  Has summary: ${stats.hasSummary ? '✓ Yes' : '✗ No'}`));
       
       if (stats.hasSummary) {
-        console.log(chalk.yellow('\n  ℹ️  Old context has been summarized to save memory'));
+        console.log(chalk.yellow(`\n  ℹ️  Old context has been summarized to save memory (${stats.compactions} compaction(s))`));
       }
       
       rl.prompt();
       return;
     }
 
+    if (trimmed === '/undo' || trimmed.startsWith('/undo ')) {
+      try {
+        console.log(chalk.cyan(`\n↩️  ${await runUndoCommand(snapshots, trimmed.split(/\s+/).slice(1))}`));
+      } catch (error: any) {
+        console.log(chalk.red(`\n✗ ${error.message}`));
+      }
+      rl.prompt();
+      return;
+    }
+
     if (trimmed === '/mcp') {
       const servers = agent.getConnectedMCPServers();
       console.log(chalk.cyan('\n🔌 MCP Server Status:'));
@@ -268,7 +324,8 @@ Be helpful, clear, and thorough. Always consider the project context when making
       console.log(chalk.yellow('\n⏳ Processing...\n'));
       
       const startTime = Date.now();
-      const response = await agent.run(trimmed);
+      currentRun = new AbortController();
+      const response = await agent.run(trimmed, [], { signal: currentRun.signal });
       const duration = ((Date.now() - startTime) / 1000).toFixed(2);
       
       console.log(chalk.bold('\n🤖 Assistant:'));
@@ -281,7 +338,11 @@ Be helpful, clear, and thorough. Always consider the project context when making
       }
       
     } catch (error: any) {
-      console.error(chalk.red(`\n❌ Error: ${error.message}`));
+      if (error.name === 'AgentAbortedError') {
+        console.log(chalk.yellow(`\n⏹  Cancelled (${error.reason}). Completed tool calls are kept in history.`));
+      } else {
+        console.error(chalk.red(`\n❌ Error: ${error.message}`));
+      }
       
       if (error.name === 'MaxIterationsExceededError') {
         console.log(chalk.yellow('\n💡 Tip: Try breaking your request into smaller, more specific tasks.'));
@@ -290,9 +351,19 @@ Be helpful, clear, and thorough. Always consider the project context when making
       }
     }
 
+    currentRun = null;
     rl.prompt();
   });
 
+  // Ctrl+C cancels the running request; at the prompt it exits
+  rl.on('SIGINT', () => {
+    if (currentRun) {
+      currentRun.abort('cancelled by user');
+      return;
+    }
+    rl.close();
+  });
+
   rl.on('close', async () => {
     console.log(chalk.yellow('\n\n👋 Goodbye!'));
     await agent.shutdown();
@@ -0,0 +1,432 @@
+import { Message, Tool, ToolCall, ToolCallRecord } from '../llm/ollama-client';
+
+/**
+ * Conversation turn tracking with enhanced context
+ */
+export interface ConversationTurn {
+  messages: Message[]; // What the model saw for this turn: user prompt, tool traffic, final answer
+  toolCalls: ToolCall[];
+  toolResults: ToolCallRecord[]; // One record per call, in execution order
+  timestamp: Date;
+  summary?: string; // For context compression
+  aborted?: boolean; // Run was cancelled or timed out; messages end with a note
+}
+
+/**
+ * Context manager tuning. Every limit is in estimated tokens.
+ */
+export interface ContextManagerOptions {
+  contextWindow?: number; // Model context window (default 8192)
+  reserveTokens?: number; // Kept free for the model's answer (default 25% of the window, max 4096)
+  compactThreshold?: number; // Fraction of the budget that triggers elision/compaction (default 0.8)
+  maxToolOutputTokens?: number; // Cap for a single tool output (default 25% of the budget)
+  keepRecentTurns?: number; // Turns never compacted unless nothing else fits (default 2)
+}
+
+/**
+ * Something the context manager did to keep the conversation within budget
+ */
+export type ContextEvent =
+  | {
+      type: 'tool-output-truncated';
+      callId: string;
+      toolName: string;
+      originalTokens: number;
+      keptTokens: number;
+    }
+  | {
+      type: 'tool-outputs-elided';
+      count: number;
+      tokensSaved: number;
+    }
+  | {
+      type: 'history-compacted';
+      turnsCompacted: number;
+      tokensBefore: number;
+      tokensAfter: number;
+      summary: string;
+      usedFallback: boolean; // LLM summarization failed, tool-usage summary used instead
+    };
+
+export type ContextEventListener = (event: ContextEvent) => void;
+
+/**
+ * Writes a summary of older messages, folding in the previous summary
+ */
+export type Summarizer = (
+  messages: Message[],
+  previousSummary: string,
+  signal?: AbortSignal
+) => Promise<string>;
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const ELIDED_MARKER = '[tool output elided to save context';
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimated tokens for one message, including tool calls and role overhead
+ */
+export function estimateMessageTokens(message: Message): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content || '');
+  if (message.tool_calls && message.tool_calls.length > 0) {
+    tokens += estimateTokens(JSON.stringify(message.tool_calls));
+  }
+  return tokens;
+}
+
+/**
+ * One-line, user-facing description of a context event
+ */
+export function describeContextEvent(event: ContextEvent): string {
+  switch (event.type) {
+    case 'tool-output-truncated':
+      return `Truncated ${event.toolName} output (${event.callId}) from ~${event.originalTokens} to ~${event.keptTokens} tokens`;
+    case 'tool-outputs-elided':
+      return `Elided ${event.count} old tool output(s), saving ~${event.tokensSaved} tokens`;
+    case 'history-compacted':
+      return `Compacted ${event.turnsCompacted} turn(s) into a ${event.usedFallback ? 'tool-usage' : 'LLM-written'} summary (~${event.tokensBefore} → ~${event.tokensAfter} tokens)`;
+  }
+}
+
+/**
+ * Prompt used to compact older history into a summary
+ */
+export function buildSummaryPrompt(messages: Message[], previousSummary: string): Message[] {
+  const transcript = messages
+    .map(m => {
+      const label = m.role === 'tool' ? `tool ${m.tool_name || ''}`.trim() : m.role;
+      const calls = m.tool_calls && m.tool_calls.length > 0
+        ? `\n(calls: ${m.tool_calls.map(tc => `${tc.name} ${JSON.stringify(tc.arguments)}`).join('; ')})`
+        : '';
+      return `[${label}] ${m.content}${calls}`;
+    })
+    .join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content: `You compress conversation history for an AI coding agent that will continue the work.
+Write a concise summary in markdown with these sections:
+- Goal: what the user is trying to achieve
+- Files: every file path that was read, created or modified, with a few words on each
+- Decisions: choices made and why
+- Open TODOs: anything still pending or promised
+Keep exact file paths, identifiers and error messages. Do not invent details.`,
+    },
+    {
+      role: 'user',
+      content: `${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ''}Conversation to summarize:\n\n${transcript}`,
+    },
+  ];
+}
+
+/**
+ * Context Manager with a token budget.
+ *
+ * Keeps completed turns and fits them into the model's context window:
+ * large tool outputs are truncated when recorded, old tool outputs are elided
+ * when the budget runs low, and older turns are then compacted into an
+ * LLM-written summary. Every action is reported to event listeners.
+ */
+export class ContextManager {
+  private turns: ConversationTurn[] = [];
+  private contextSummary: string = '';
+  private compactions = 0;
+  private listeners: ContextEventListener[] = [];
+  private contextWindow: number;
+
+  constructor(
+    private readonly options: ContextManagerOptions = {},
+    private readonly summarize?: Summarizer
+  ) {
+    this.contextWindow = options.contextWindow || DEFAULT_CONTEXT_WINDOW;
+  }
+
+  /**
+   * Update the context window, e.g. once the model info is known
+   */
+  setContextWindow(tokens: number): void {
+    if (tokens > 0) {
+      this.contextWindow = tokens;
+    }
+  }
+
+  getContextWindow(): number {
+    return this.contextWindow;
+  }
+
+  /**
+   * Tokens available for the prompt (window minus the answer reserve)
+   */
+  getBudget(): number {
+    const reserve = this.options.reserveTokens ?? Math.min(4096, Math.floor(this.contextWindow * 0.25));
+    return Math.max(1, this.contextWindow - reserve);
+  }
+
+  /**
+   * Subscribe to context events. Returns an unsubscribe function.
+   */
+  onEvent(listener: ContextEventListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  addTurn(turn: ConversationTurn) {
+    // Copy the message list: elision replaces entries, the caller's turn stays intact
+    this.turns.push({ ...turn, messages: [...turn.messages] });
+  }
+
+  getTurns(): ConversationTurn[] {
+    return this.turns;
+  }
+
+  getContextSummary(): string {
+    return this.contextSummary;
+  }
+
+  /**
+   * Messages of all kept turns, oldest first
+   */
+  getHistoryMessages(): Message[] {
+    return this.turns.flatMap(t => t.messages);
+  }
+
+  /**
+   * Cap a tool output at maxToolOutputTokens, keeping its head and tail
+   */
+  truncateToolOutput(content: string, toolCall: ToolCall): string {
+    const limit = this.options.maxToolOutputTokens ?? Math.floor(this.getBudget() * 0.25);
+    const originalTokens = estimateTokens(content);
+
+    if (originalTokens <= limit) {
+      return content;
+    }
+
+    const keepChars = limit * 4;
+    const head = content.slice(0, Math.floor(keepChars * 0.75));
+    const tail = content.slice(content.length - Math.floor(keepChars * 0.25));
+    const truncated = `${head}\n\n[... ${originalTokens - limit} tokens of tool output truncated ...]\n\n${tail}`;
+
+    this.emit({
+      type: 'tool-output-truncated',
+      callId: toolCall.id,
+      toolName: toolCall.name,
+      originalTokens,
+      keptTokens: limit,
+    });
+
+    return truncated;
+  }
+
+  /**
+   * Assemble the prompt for the next model call and bring it within budget.
+   * `buildBase` is called again after compaction so a system message can pick
+   * up the new summary. `current` holds the in-flight turn and may have old
+   * tool outputs elided in place as a last resort.
+   */
+  async fit(
+    buildBase: () => Message[],
+    current: Message[],
+    tools: Tool[] = [],
+    signal?: AbortSignal
+  ): Promise<Message[]> {
+    const toolTokens = tools.length > 0 ? estimateTokens(JSON.stringify(tools)) : 0;
+    const budget = this.getBudget();
+    const threshold = Math.floor(budget * (this.options.compactThreshold ?? 0.8));
+    const assemble = () => [...buildBase(), ...this.getHistoryMessages(), ...current];
+    const count = (messages: Message[]) => toolTokens + this.countTokens(messages);
+
+    let messages = assemble();
+    let tokens = count(messages);
+
+    if (tokens <= threshold) {
+      return messages;
+    }
+
+    // 1. Old tool outputs in history go first
+    const historyTools = this.turns.map(t => t.messages);
+    tokens -= this.elideToolOutputs(historyTools, tokens - threshold);
+
+    // 2. Compact older turns, then everything if the recent ones alone are too big
+    if (tokens > threshold && this.turns.length > 0) {
+      const keep = Math.min(this.options.keepRecentTurns ?? 2, this.turns.length - 1);
+      await this.compact(this.turns.length - keep, tokens, () => count(assemble()), signal);
+      tokens = count(assemble());
+
+      if (tokens > threshold && this.turns.length > 0) {
+        await this.compact(this.turns.length, tokens, () => count(assemble()), signal);
+        tokens = count(assemble());
+      }
+    }
+
+    // 3. Still over budget: elide in-flight outputs, except the latest batch
+    if (tokens > budget) {
+      const lastAssistant = current.map(m => m.role).lastIndexOf('assistant');
+      if (lastAssistant > 0) {
+        this.elideToolOutputs([current.slice(0, lastAssistant)], tokens - budget, current);
+      }
+    }
+
+    return assemble();
+  }
+
+  /**
+   * Replace tool outputs with a short marker, oldest first, until `needed`
+   * tokens are saved. `target` receives the replacement when the lists are
+   * slices of it. Returns the tokens saved.
+   */
+  private elideToolOutputs(lists: Message[][], needed: number, target?: Message[]): number {
+    let saved = 0;
+    let count = 0;
+
+    for (const list of lists) {
+      const destination = target || list;
+      for (let i = 0; i < list.length && saved < needed; i++) {
+        const message = list[i];
+        if (message.role !== 'tool' || message.content.startsWith(ELIDED_MARKER)) {
+          continue;
+        }
+
+        const before = estimateMessageTokens(message);
+        const elided: Message = {
+          ...message,
+          content: `${ELIDED_MARKER}: ~${before} tokens]`,
+        };
+        const gain = before - estimateMessageTokens(elided);
+        if (gain <= 0) {
+          continue;
+        }
+
+        destination[i] = elided;
+        saved += gain;
+        count++;
+      }
+    }
+
+    if (count > 0) {
+      this.emit({ type: 'tool-outputs-elided', count, tokensSaved: saved });
+    }
+
+    return saved;
+  }
+
+  /**
+   * Fold the oldest `turnCount` turns into the summary
+   */
+  private async compact(
+    turnCount: number,
+    tokensBefore: number,
+    measure: () => number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (turnCount <= 0) {
+      return;
+    }
+
+    const oldTurns = this.turns.slice(0, turnCount);
+    const oldMessages = oldTurns.flatMap(t => t.messages);
+    let summary = '';
+    let usedFallback = false;
+
+    if (this.summarize) {
+      try {
+        summary = (await this.summarize(oldMessages, this.contextSummary, signal)).trim();
+      } catch (error) {
+        // Cancelled runs leave the history untouched
+        signal?.throwIfAborted();
+        console.warn('Context summarization failed, using tool-usage summary:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (!summary) {
+      summary = this.generateFallbackSummary(oldTurns);
+      usedFallback = true;
+    }
+
+    this.contextSummary = summary;
+    this.turns = this.turns.slice(turnCount);
+    this.compactions++;
+
+    this.emit({
+      type: 'history-compacted',
+      turnsCompacted: turnCount,
+      tokensBefore,
+      tokensAfter: measure(),
+      summary,
+      usedFallback,
+    });
+  }
+
+  /**
+   * Summary without an LLM: previous summary plus tool usage per turn
+   */
+  private generateFallbackSummary(oldTurns: ConversationTurn[]): string {
+    let summary = this.contextSummary ? `${this.contextSummary}\n\n` : '';
+
+    // Summarize tool usage
+    const toolsUsed = new Set<string>();
+    oldTurns.forEach(turn => {
+      turn.toolCalls.forEach(tc => toolsUsed.add(tc.name));
+    });
+
+    if (toolsUsed.size > 0) {
+      summary += `Tools used: ${Array.from(toolsUsed).join(', ')}\n\n`;
+    }
+
+    // Key decisions/actions
+    summary += "Key actions taken:\n";
+    oldTurns.forEach((turn, i) => {
+      const prompt = turn.messages.find(m => m.role === 'user');
+      const calls = turn.toolCalls.map(tc => `${tc.name} ${JSON.stringify(tc.arguments)}`).join(', ');
+      summary += `- Turn ${i + 1}: ${prompt ? prompt.content.slice(0, 200) : '(no prompt)'}${calls ? ` → ${calls}` : ''}\n`;
+    });
+
+    return summary;
+  }
+
+  private countTokens(messages: Message[]): number {
+    return messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+  }
+
+  private emit(event: ContextEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.warn('Context event listener failed:', error);
+      }
+    }
+  }
+
+  clear() {
+    this.turns = [];
+    this.contextSummary = '';
+    this.compactions = 0;
+  }
+
+  getStats() {
+    const historyTokens = this.countTokens(this.getHistoryMessages()) + estimateTokens(this.contextSummary);
+    return {
+      totalTurns: this.turns.length,
+      hasSummary: !!this.contextSummary,
+      compactions: this.compactions,
+      estimatedTokens: historyTokens,
+      contextWindow: this.contextWindow,
+      budget: this.getBudget(),
+      toolCallsCount: this.turns.reduce((sum, t) => sum + t.toolCalls.length, 0),
+      failedToolCallsCount: this.turns.reduce(
+        (sum, t) => sum + t.toolResults.filter(r => r.error).length,
+        0
+      ),
+    };
+  }
+}
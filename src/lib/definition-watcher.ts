@@ -0,0 +1,71 @@
+/**
+ * Watches a directory of agent or skill definitions (one subdirectory per
+ * definition) and reports which definitions changed. Changes are batched,
+ * so an editor save that touches several files causes one reload.
+ */
+
+import fs from 'fs';
+
+export const DEFAULT_RELOAD_DEBOUNCE_MS = 250;
+
+/**
+ * Outcome of reloading one agent or skill after its files changed
+ */
+export interface DefinitionReloadEvent {
+  kind: 'agent' | 'skill';
+  id: string; // Agent id or skill directory
+  status: 'loaded' | 'removed' | 'error';
+  error?: string; // Why it failed to load; the previous version stays in use
+  timestamp: Date;
+}
+
+/**
+ * Call `onChange` with the names of the subdirectories whose files changed,
+ * once no change has happened for `debounceMs`. Batches are handled one at
+ * a time. Hidden entries such as an agent's .history are ignored.
+ * @returns Function that stops watching
+ */
+export function watchDefinitions(
+  directory: string,
+  onChange: (names: string[]) => Promise<void>,
+  debounceMs: number = DEFAULT_RELOAD_DEBOUNCE_MS
+): () => void {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let queue = Promise.resolve();
+
+  const flush = () => {
+    timer = null;
+    const names = [...pending];
+    pending.clear();
+    queue = queue
+      .then(() => onChange(names))
+      .catch(error => console.error(`Failed to reload ${names.join(', ')}:`, error));
+  };
+
+  let watcher: fs.FSWatcher;
+  try {
+    watcher = fs.watch(directory, { recursive: true, persistent: false }, (_event, filename) => {
+      const segments = filename?.toString().split(/[\\/]/) ?? [];
+      if (segments.length === 0 || segments.some(segment => segment.startsWith('.'))) {
+        return;
+      }
+      pending.add(segments[0]);
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(flush, debounceMs);
+    });
+  } catch (error: any) {
+    console.warn(`Cannot watch ${directory}: ${error.message}`);
+    return () => undefined;
+  }
+  watcher.on('error', error => console.warn(`Stopped watching ${directory}: ${error.message}`));
+
+  return () => {
+    watcher.close();
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Deterministic checkpoint checks: shell commands with an expected exit
+ * code, test-suite runs, file-existence assertions and regex checks on file
+ * contents. The executor runs them itself, so a checkpoint cannot pass on
+ * the model's word alone.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { getCommandPolicy } from '../tools/command-policy';
+import { execShell } from '../tools/toolFunctions';
+import { assertTrustedPath } from '../trust';
+
+const COMMAND_TIMEOUT_MS = 120_000;
+const TEST_TIMEOUT_MS = 600_000;
+const MAX_OUTPUT_LENGTH = 4000;
+
+export type VerificationAction =
+  | { kind: 'command'; command: string; exitCode: number; timeoutMs?: number }
+  | { kind: 'test'; command: string; exitCode: number; timeoutMs?: number }
+  | { kind: 'exists'; path: string }
+  | { kind: 'absent'; path: string }
+  | { kind: 'matches'; path: string; pattern: string };
+
+export interface VerificationResult {
+  action: VerificationAction;
+  description: string;
+  passed: boolean;
+  output: string; // Command output (tail) or why a file check failed
+  exitCode?: number;
+  durationMs: number;
+}
+
+/**
+ * One-line description of a check, e.g. for the model prompt and reports
+ */
+export function describeAction(action: VerificationAction): string {
+  switch (action.kind) {
+    case 'command':
+      return `Run ${action.command}${action.exitCode !== 0 ? ` (expect exit ${action.exitCode})` : ''}`;
+    case 'test':
+      return `Test suite ${action.command}`;
+    case 'exists':
+      return `File ${action.path} exists`;
+    case 'absent':
+      return `File ${action.path} is absent`;
+    case 'matches':
+      return `File ${action.path} matches /${action.pattern}/`;
+  }
+}
+
+function tail(text: string): string {
+  return text.length > MAX_OUTPUT_LENGTH ? `…${text.slice(-MAX_OUTPUT_LENGTH)}` : text;
+}
+
+async function runCommand(
+  action: Extract<VerificationAction, { command: string }>,
+  cwd: string,
+  signal?: AbortSignal
+): Promise<Pick<VerificationResult, 'passed' | 'output' | 'exitCode'>> {
+  // Plan commands are written by a model; they get the same policy as bashExec
+  await getCommandPolicy().enforce(action.command, cwd);
+
+  const timeout = action.timeoutMs ?? (action.kind === 'test' ? TEST_TIMEOUT_MS : COMMAND_TIMEOUT_MS);
+  let exitCode: number;
+  let output: string;
+  try {
+    // Test runners and servers a command starts are stopped with it on a timeout or abort
+    const { stdout, stderr } = await execShell(action.command, {
+      cwd,
+      timeoutMs: timeout,
+      maxBuffer: 1024 * 1024 * 10,
+      signal,
+    });
+    exitCode = 0;
+    output = [stdout, stderr].filter(Boolean).join('\n');
+  } catch (error: any) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    exitCode = typeof error.code === 'number' ? error.code : 1;
+    output = [error.stdout, error.stderr].filter(Boolean).join('\n') || error.message;
+    if (error.killed) {
+      output += `\n(killed after ${timeout}ms)`;
+    }
+  }
+
+  return {
+    passed: exitCode === action.exitCode,
+    output: tail(output.trim()),
+    exitCode,
+  };
+}
+
+async function checkFile(
+  action: Extract<VerificationAction, { path: string }>,
+  cwd: string
+): Promise<Pick<VerificationResult, 'passed' | 'output'>> {
+  const filePath = await assertTrustedPath(path.resolve(cwd, action.path));
+  const content = await fs.readFile(filePath, 'utf-8').catch((error: any) => {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  });
+
+  switch (action.kind) {
+    case 'exists':
+      return { passed: content !== null, output: content === null ? `${action.path} does not exist` : '' };
+    case 'absent':
+      return { passed: content === null, output: content !== null ? `${action.path} exists` : '' };
+    case 'matches': {
+      if (content === null) {
+        return { passed: false, output: `${action.path} does not exist` };
+      }
+      const passed = new RegExp(action.pattern, 'm').test(content);
+      return { passed, output: passed ? '' : `${action.path} does not match /${action.pattern}/` };
+    }
+  }
+}
+
+/**
+ * Run every check in `cwd` (all of them, so the report is complete)
+ */
+export async function runVerification(
+  actions: VerificationAction[],
+  cwd: string,
+  signal?: AbortSignal
+): Promise<VerificationResult[]> {
+  const results: VerificationResult[] = [];
+  for (const action of actions) {
+    const startedAt = Date.now();
+    let outcome: Pick<VerificationResult, 'passed' | 'output' | 'exitCode'>;
+    try {
+      outcome = action.kind === 'command' || action.kind === 'test'
+        ? await runCommand(action, cwd, signal)
+        : await checkFile(action, cwd);
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      // Blocked by the command policy, untrusted path, unreadable file, ...
+      outcome = { passed: false, output: error.message };
+    }
+    results.push({ action, description: describeAction(action), ...outcome, durationMs: Date.now() - startedAt });
+  }
+  return results;
+}
+
+/**
+ * Failed checks with their output, for error messages and the model
+ */
+export function summarizeFailures(results: VerificationResult[]): string {
+  return results
+    .filter(r => !r.passed)
+    .map(r => {
+      const exit = r.exitCode !== undefined ? ` (exit ${r.exitCode})` : '';
+      const output = r.output ? `: ${r.output.split('\n').slice(-5).join(' | ')}` : '';
+      return `${r.description}${exit}${output}`;
+    })
+    .join('; ');
+}
@@ -0,0 +1,69 @@
+/**
+ * Report of a plan dry run: the plan is executed in a scratch worktree that
+ * is thrown away afterwards, so the user can review every proposed change
+ * before approving the real run.
+ */
+
+/**
+ * What one step would change
+ */
+export interface StepPreview {
+  stepNumber: string;
+  description: string;
+  files: string[]; // Files the step's diff touches
+  diff: string; // Unified diff of the step against the state before it
+  commands: string[]; // Shell commands the step asked for; none were run
+  // Commands the command policy would deny or ask approval for, and why
+  policyNotes: Array<{ command: string; note: string }>;
+  error?: string; // Why the step could not be previewed
+}
+
+export interface DryRunReport {
+  baseCommit: string; // Commit the proposed changes apply to
+  steps: StepPreview[];
+  // Checkpoint verification commands that would run after the steps
+  checkpointCommands: Array<{ checkpoint: string; commands: string[] }>;
+  diff: string; // Every proposed change, against baseCommit
+}
+
+/**
+ * Text report of a dry run: each step's commands and diff, then the checkpoint commands
+ */
+export function formatDryRun(report: DryRunReport): string {
+  const sections = report.steps.map(step => {
+    const lines = [`=== Step ${step.stepNumber}: ${step.description}`];
+    if (step.error) {
+      lines.push(`(not previewed: ${step.error})`);
+    }
+    for (const command of step.commands) {
+      lines.push(`$ ${command}`);
+      const note = step.policyNotes.find(n => n.command === command);
+      if (note) {
+        lines.push(`  (${note.note})`);
+      }
+    }
+    lines.push(step.diff || '(no file changes)');
+    return lines.join('\n');
+  });
+
+  const checkpointLines = report.checkpointCommands
+    .filter(c => c.commands.length > 0)
+    .flatMap(c => [`=== Checkpoint ${c.checkpoint}`, ...c.commands.map(command => `$ ${command}`)]);
+  if (checkpointLines.length > 0) {
+    sections.push(checkpointLines.join('\n'));
+  }
+
+  const files = new Set(report.steps.flatMap(s => s.files));
+  const commands = report.steps.reduce((sum, s) => sum + s.commands.length, 0);
+  const flagged = report.steps.reduce((sum, s) => sum + s.policyNotes.length, 0);
+  sections.push(`${report.steps.length} step(s) would change ${files.size} file(s) and run ${commands} command(s)` +
+    (flagged > 0 ? `, ${flagged} of them denied or needing approval by the command policy` : ''));
+  return sections.join('\n\n');
+}
+
+/**
+ * Files a unified diff touches (new paths for renames)
+ */
+export function filesInDiff(diff: string): string[] {
+  return [...diff.matchAll(/^diff --git a\/\S+ b\/(\S+)$/gm)].map(match => match[1]);
+}
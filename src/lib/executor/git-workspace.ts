@@ -0,0 +1,356 @@
+/**
+ * Isolated git worktree for plan execution. Each run gets its own branch
+ * (`selek/<runId>`) checked out under `.git/selek-worktrees/<runId>`, a
+ * commit per completed step and a tag per verified checkpoint, so a failed
+ * step can be reset to the last good state without touching the user's
+ * working tree. The result reaches the user's branch only through accept().
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import path from 'path';
+import { NotGitRepositoryError } from '../tools/git-tools';
+import { assertTrustedPath } from '../trust';
+
+const execFilep = promisify(execFile);
+
+const BRANCH_PREFIX = 'selek/';
+const WORKTREE_DIR = 'selek-worktrees';
+const START_TAG = 'start';
+// Used only when the repository has no user.name / user.email configured
+const FALLBACK_IDENTITY = ['-c', 'user.name=Selek', '-c', 'user.email=selek@localhost'];
+
+/**
+ * Thrown when a git step of a plan run fails
+ */
+export class GitWorkspaceError extends Error {
+  constructor(
+    public readonly operation: string,
+    public readonly runId: string,
+    public readonly reason: string
+  ) {
+    super(`Plan workspace ${operation} failed for run ${runId}: ${reason}`);
+    this.name = 'GitWorkspaceError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * A tagged point of a run; `start` is the commit the run branched from
+ */
+export interface WorkspaceCheckpoint {
+  name: string;
+  tag: string;
+  commit: string;
+}
+
+export interface WorkspaceInfo {
+  runId: string;
+  branch: string;
+  dir: string;
+  baseCommit: string;
+  head: string;
+  checkpoints: WorkspaceCheckpoint[];
+}
+
+/**
+ * Checkpoint name as a single valid ref component: bytes other than letters,
+ * digits, "_" and "-" become %XX, so spaces, ":", "/" and ".." cannot break
+ * the tag and names round-trip through decodeRefComponent
+ */
+function encodeRefComponent(name: string): string {
+  return Array.from(Buffer.from(name, 'utf-8'), byte =>
+    /[A-Za-z0-9_-]/.test(String.fromCharCode(byte))
+      ? String.fromCharCode(byte)
+      : `%${byte.toString(16).toUpperCase().padStart(2, '0')}`
+  ).join('');
+}
+
+function decodeRefComponent(component: string): string {
+  try {
+    return decodeURIComponent(component);
+  } catch {
+    return component; // Not written by encodeRefComponent
+  }
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFilep('git', args, { cwd, maxBuffer: 1024 * 1024 * 10 });
+  return stdout.trim();
+}
+
+/**
+ * Main working tree and shared .git directory of the repository containing `dir`
+ */
+async function repositoryPaths(dir: string): Promise<{ repoRoot: string; gitDir: string }> {
+  try {
+    const gitDir = path.resolve(dir, await git(dir, ['rev-parse', '--git-common-dir']));
+    return { repoRoot: path.dirname(gitDir), gitDir };
+  } catch {
+    throw new NotGitRepositoryError(dir);
+  }
+}
+
+export class GitWorkspace {
+  private constructor(
+    private readonly repoRoot: string,
+    private readonly gitDir: string,
+    private readonly runId: string,
+    private readonly baseCommit: string,
+    private readonly commitArgs: string[]
+  ) {}
+
+  // Steps running in parallel commit through this chain so they never share the index
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Branch and check out a new worktree from the current HEAD. Uncommitted
+   * changes in the user's tree are not part of the run.
+   */
+  static async create(repoDir: string = process.cwd(), runId: string = `plan-${Date.now()}`): Promise<GitWorkspace> {
+    const { repoRoot, gitDir } = await repositoryPaths(repoDir);
+    const fail = (operation: string) => (error: any) => {
+      throw new GitWorkspaceError(operation, runId, error.stderr?.trim() || error.message);
+    };
+
+    const baseCommit = await git(repoRoot, ['rev-parse', '--verify', 'HEAD'])
+      .catch(fail('create (the repository needs at least one commit)'));
+    const hasIdentity = await git(repoRoot, ['config', 'user.email']).then(email => email !== '', () => false);
+    const workspace = new GitWorkspace(repoRoot, gitDir, runId, baseCommit, hasIdentity ? [] : FALLBACK_IDENTITY);
+
+    // Tools in the worktree are confined to the trusted directories like anywhere else
+    await assertTrustedPath(workspace.getDir());
+
+    await git(repoRoot, ['worktree', 'add', '-b', workspace.getBranch(), workspace.getDir(), baseCommit])
+      .catch(fail('create'));
+    await git(repoRoot, ['tag', workspace.tagName(START_TAG), baseCommit]).catch(fail('create'));
+    return workspace;
+  }
+
+  /**
+   * Reopen an earlier run (e.g. to accept or discard it from the CLI)
+   */
+  static async open(runId: string, repoDir: string = process.cwd()): Promise<GitWorkspace> {
+    const { repoRoot, gitDir } = await repositoryPaths(repoDir);
+    const probe = new GitWorkspace(repoRoot, gitDir, runId, '', []);
+    const baseCommit = await git(repoRoot, ['rev-parse', '--verify', `refs/tags/${probe.tagName(START_TAG)}^{commit}`])
+      .catch(() => {
+        throw new GitWorkspaceError('open', runId, 'no such plan run');
+      });
+    const hasIdentity = await git(repoRoot, ['config', 'user.email']).then(email => email !== '', () => false);
+    return new GitWorkspace(repoRoot, gitDir, runId, baseCommit, hasIdentity ? [] : FALLBACK_IDENTITY);
+  }
+
+  /**
+   * Run ids with a workspace branch, newest first
+   */
+  static async list(repoDir: string = process.cwd()): Promise<string[]> {
+    const { repoRoot } = await repositoryPaths(repoDir);
+    const refs = await git(repoRoot, [
+      'for-each-ref', '--sort=-committerdate', '--format=%(refname:short)', `refs/heads/${BRANCH_PREFIX}`,
+    ]);
+    return refs.split('\n').filter(Boolean).map(ref => ref.slice(BRANCH_PREFIX.length));
+  }
+
+  getRunId(): string {
+    return this.runId;
+  }
+
+  getBranch(): string {
+    return BRANCH_PREFIX + this.runId;
+  }
+
+  /**
+   * Directory of the worktree; the executor runs its tools here
+   */
+  getDir(): string {
+    return path.join(this.gitDir, WORKTREE_DIR, this.runId);
+  }
+
+  /**
+   * Commit everything in the worktree, or only `paths` (relative to the
+   * worktree) while other steps are still writing. Returns the commit, or
+   * null if nothing changed.
+   */
+  commit(message: string, paths?: string[]): Promise<string | null> {
+    return this.serialize(async () => {
+      const dir = this.getDir();
+      try {
+        if (paths) {
+          for (const file of paths) {
+            // Paths that were never created are not an error
+            await git(dir, ['add', '-A', '--', file]).catch(() => undefined);
+          }
+        } else {
+          await git(dir, ['add', '-A']);
+        }
+        if ((await git(dir, ['diff', '--cached', '--name-only'])) === '') {
+          return null;
+        }
+        await git(dir, [...this.commitArgs, 'commit', '--no-verify', '-m', message]);
+        return await git(dir, ['rev-parse', 'HEAD']);
+      } catch (error: any) {
+        throw new GitWorkspaceError('commit', this.runId, error.stderr?.trim() || error.message);
+      }
+    });
+  }
+
+  /**
+   * Tag the current HEAD as a good state to return to
+   */
+  tagCheckpoint(name: string): Promise<WorkspaceCheckpoint> {
+    return this.serialize(async () => {
+      const dir = this.getDir();
+      if (name === START_TAG || name === '') {
+        throw new GitWorkspaceError('tag', this.runId, `"${name}" is not a valid checkpoint name ("${START_TAG}" marks the start of the run)`);
+      }
+      try {
+        const tag = this.tagName(name);
+        await git(dir, ['tag', '-f', tag, 'HEAD']);
+        return { name, tag, commit: await git(dir, ['rev-parse', 'HEAD']) };
+      } catch (error: any) {
+        throw new GitWorkspaceError('tag', this.runId, error.stderr?.trim() || error.message);
+      }
+    });
+  }
+
+  /**
+   * Tagged checkpoints of this run, oldest first, starting with `start`
+   */
+  async getCheckpoints(): Promise<WorkspaceCheckpoint[]> {
+    // Ordered by position in the branch history; tags made seconds apart can share a timestamp
+    const history = (await git(this.repoRoot, ['rev-list', this.getBranch()])).split('\n');
+    const age = (commit: string) => {
+      const index = history.indexOf(commit);
+      return index === -1 ? -1 : history.length - index;
+    };
+    return (await this.listTags()).sort((a, b) =>
+      age(a.commit) - age(b.commit) ||
+      Number(b.name === START_TAG) - Number(a.name === START_TAG) ||
+      a.name.localeCompare(b.name, undefined, { numeric: true })
+    );
+  }
+
+  /**
+   * Hard-reset the worktree to the last tagged checkpoint (or the start of
+   * the run), dropping the commits and files of the failed work
+   */
+  async resetToLastCheckpoint(): Promise<WorkspaceCheckpoint> {
+    const checkpoints = await this.getCheckpoints();
+    const last = checkpoints[checkpoints.length - 1];
+    if (!last) {
+      throw new GitWorkspaceError('reset', this.runId, 'no checkpoint to reset to');
+    }
+
+    const dir = this.getDir();
+    try {
+      await git(dir, ['reset', '--hard', last.commit]);
+      await git(dir, ['clean', '-fd']);
+    } catch (error: any) {
+      throw new GitWorkspaceError('reset', this.runId, error.stderr?.trim() || error.message);
+    }
+    return last;
+  }
+
+  /**
+   * Drop uncommitted changes, e.g. those of a step that was interrupted
+   */
+  async discardUncommitted(): Promise<void> {
+    const dir = this.getDir();
+    try {
+      await git(dir, ['reset', '--hard', 'HEAD']);
+      await git(dir, ['clean', '-fd']);
+    } catch (error: any) {
+      throw new GitWorkspaceError('reset', this.runId, error.stderr?.trim() || error.message);
+    }
+  }
+
+  async getInfo(): Promise<WorkspaceInfo> {
+    return {
+      runId: this.runId,
+      branch: this.getBranch(),
+      dir: this.getDir(),
+      baseCommit: this.baseCommit,
+      head: await git(this.repoRoot, ['rev-parse', this.getBranch()]),
+      checkpoints: await this.getCheckpoints(),
+    };
+  }
+
+  /**
+   * `git diff --stat` of the run against the commit it started from
+   */
+  async diffStat(): Promise<string> {
+    return git(this.repoRoot, ['diff', '--stat', this.baseCommit, this.getBranch()]);
+  }
+
+  /**
+   * Unified diff between two commits of the run
+   */
+  async diff(from: string, to: string): Promise<string> {
+    return git(this.repoRoot, ['diff', '--no-color', from, to]);
+  }
+
+  /**
+   * Merge the run into the branch checked out in the user's tree, then
+   * remove the workspace. Git refuses (and nothing changes) if uncommitted
+   * changes would be overwritten.
+   */
+  async accept(): Promise<void> {
+    try {
+      await git(this.repoRoot, ['merge', '--ff-only', this.getBranch()]);
+    } catch {
+      // HEAD moved on since the run started
+      try {
+        await git(this.repoRoot, [...this.commitArgs, 'merge', '--no-edit', this.getBranch()]);
+      } catch (error: any) {
+        await git(this.repoRoot, ['merge', '--abort']).catch(() => undefined);
+        throw new GitWorkspaceError('accept', this.runId, error.stderr?.trim() || error.message);
+      }
+    }
+    await this.remove();
+  }
+
+  /**
+   * Drop the worktree, branch and tags of the run
+   */
+  async discard(): Promise<void> {
+    await this.remove();
+  }
+
+  private async remove(): Promise<void> {
+    try {
+      await git(this.repoRoot, ['worktree', 'remove', '--force', this.getDir()]).catch(async () => {
+        // Worktree directory already gone
+        await git(this.repoRoot, ['worktree', 'prune']);
+      });
+      const tags = (await this.listTags()).map(c => c.tag);
+      await git(this.repoRoot, ['branch', '-D', this.getBranch()]);
+      if (tags.length > 0) {
+        await git(this.repoRoot, ['tag', '-d', ...tags]);
+      }
+    } catch (error: any) {
+      throw new GitWorkspaceError('cleanup', this.runId, error.stderr?.trim() || error.message);
+    }
+  }
+
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.catch(() => undefined).then(operation);
+    this.queue = result;
+    return result;
+  }
+
+  private async listTags(): Promise<WorkspaceCheckpoint[]> {
+    const prefix = this.tagName('');
+    const lines = await git(this.repoRoot, [
+      'for-each-ref', '--format=%(refname:short) %(objectname)', `refs/tags/${prefix}`,
+    ]);
+    return lines.split('\n').filter(Boolean).map(line => {
+      const [tag, commit] = line.split(' ');
+      return { name: decodeRefComponent(tag.slice(prefix.length)), tag, commit };
+    });
+  }
+
+  private tagName(name: string): string {
+    return `${BRANCH_PREFIX}${this.runId}/${encodeRefComponent(name)}`;
+  }
+}
@@ -1,6 +1,24 @@
-import { Agent } from '../agent';
-import { OllamaClient } from '../llm/ollama-client';
+import { Agent, RunOptions } from '../agent';
+import { ToolCallRecord } from '../llm/ollama-client';
+import { LLMSource } from '../providers/ProviderFactory';
 import { registerTools } from '../tools';
+import { NotGitRepositoryError } from '../tools/git-tools';
+import { PlanValidationError } from '../agents/specialized-agent';
+import { GitWorkspace, WorkspaceInfo } from './git-workspace';
+import { parsePlanDocument } from './plan-format';
+import { StepScheduler, TimelineEntry, findFileConflicts } from './step-scheduler';
+import { DryRunReport, StepPreview, filesInDiff } from './dry-run';
+import { VerificationAction, VerificationResult, runVerification, summarizeFailures } from './checkpoint-verifier';
+import {
+  PlanExecutionState,
+  createPlanState,
+  loadPlanState,
+  savePlanState,
+  syncPlanState,
+  summarizeToolCall,
+  lastPassedCheckpoint,
+  markRolledBack,
+} from './plan-state';
 import path from 'path';
 import fs from 'fs/promises';
 
@@ -52,6 +70,17 @@ export class RollbackError extends Error {
   }
 }
 
+export class PlanStateError extends Error {
+  constructor(
+    public readonly planFile: string,
+    public readonly reason: string
+  ) {
+    super(`Cannot continue execution of ${planFile}: ${reason}`);
+    this.name = 'PlanStateError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
 /**
  * Parsed checkpoint from a plan
  */
@@ -59,6 +88,8 @@ export interface Checkpoint {
   id: string;
   description: string;
   verificationMethod: string;
+  steps: string[]; // Steps that must be done before it is verified
+  verify: VerificationAction[]; // Checks the executor runs itself
   completed: boolean;
 }
 
@@ -72,6 +103,8 @@ export interface ImplementationStep {
   filesAffected: string[];
   keyDetails: string;
   errorHandling: string;
+  dependsOn: string[];
+  verify: string[]; // Verification commands from the plan
   completed: boolean;
 }
 
@@ -92,6 +125,19 @@ export interface ParsedPlan {
   rollbackStrategy: string;
 }
 
+/**
+ * How a checkpoint was validated. With verification actions the checks
+ * decide; the model's verdict is kept only as a second opinion.
+ */
+export interface CheckpointVerification {
+  checkpoint: string;
+  success: boolean;
+  details: string;
+  verifiedBy: 'commands' | 'model';
+  checks: VerificationResult[];
+  modelVerdict?: { valid: boolean; details: string };
+}
+
 /**
  * Execution result
  */
@@ -103,17 +149,37 @@ export interface ExecutionResult {
   error?: Error;
   executionTime: number;
   checkpointsReached: string[];
+  workspace?: WorkspaceInfo; // Branch and worktree holding the changes (isolated runs only)
+  rolledBackTo?: string; // Checkpoint the workspace was reset to after the failure
+  timeline?: TimelineEntry[]; // When each step ran and what ran alongside it
+  verifications?: CheckpointVerification[]; // Checkpoint validations of this run, in order
+  dryRun?: DryRunReport; // Proposed changes of a dry run
+}
+
+export interface PlanExecutionOptions {
+  // Run in a git worktree on its own branch (default: true). Outside a git
+  // repository the plan runs in place without rollback.
+  isolate?: boolean;
+  resume?: boolean; // Continue the saved run, skipping completed steps
+  fromStep?: string; // Run this step and every step after it
+  onlyStep?: string; // Run just this step
+  // Steps that may run at once (default: 3). Steps run together only when
+  // their dependencies are done and their declared files do not overlap.
+  parallel?: number;
 }
 
+const DEFAULT_PARALLEL_STEPS = 3;
+
 /**
  * Executes implementation plans generated by specialized agents
  */
 export class PlanExecutor {
   private agent: Agent;
-  public llm: OllamaClient;
+  public llm: LLMSource;
   private executionLog: string[];
+  private saving: Promise<void> = Promise.resolve();
 
-  constructor(llm: OllamaClient) {
+  constructor(llm: LLMSource) {
     this.llm = llm;
     
     // Create an executor agent with all tools
@@ -142,7 +208,7 @@ export class PlanExecutor {
 1. Read and understand implementation plans
 2. Execute each step of the plan precisely
 3. Verify checkpoints before proceeding
-4. Handle errors gracefully with rollback capability
+4. Handle errors gracefully
 5. Write production-ready code with:
    - No placeholders (no TODO, FIXME, or ...)
    - Complete error handling with custom exception classes
@@ -152,24 +218,34 @@ export class PlanExecutor {
 You have access to tools:
 - readFile: Read file contents
 - writeFile: Write/create files
+- editFile: Replace an exact string in a file (read it first)
+- applyPatch: Apply a multi-file unified diff atomically (read existing files first)
 - searchFiles: Find files by pattern
 - blobSearch: Search file contents
 - bashExec: Execute shell commands
 
 Follow the plan's implementation steps exactly. At each checkpoint, verify your work before continuing.
-If any step fails, use the rollback strategy defined in the plan.`;
+Use paths relative to the project root. Each completed step is committed, and a failed step or
+checkpoint is reset to the last verified checkpoint automatically, so do not undo work yourself.`;
   }
 
   /**
-   * Execute an implementation plan
+   * Execute an implementation plan. Progress is saved next to the plan
+   * (`<plan>.state.json`) so a later run can continue with `resume`,
+   * `fromStep` or `onlyStep`.
    */
   async executePlan(
     planFile: string,
-    dryRun: boolean = false
+    dryRun: boolean = false,
+    options: PlanExecutionOptions = {}
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
-    const completedSteps: string[] = [];
-    const checkpointsReached: string[] = [];
+    let state: PlanExecutionState | null = null;
+    let workspace: GitWorkspace | null = null;
+    let scheduler: StepScheduler<ImplementationStep> | null = null;
+    const verifications: CheckpointVerification[] = [];
+    const completedSteps = () => state?.steps.filter(s => s.status === 'completed').map(s => s.stepNumber) ?? [];
+    const checkpointsReached = () => state?.checkpoints.filter(c => c.status === 'passed').map(c => c.id) ?? [];
 
     try {
       this.log(`Starting plan execution: ${planFile}`);
@@ -179,75 +255,427 @@ If any step fails, use the rollback strategy defined in the plan.`;
       this.log(`Parsed plan: ${plan.title} (${plan.complexity} complexity)`);
 
       if (dryRun) {
-        this.log('DRY RUN MODE - No actual changes will be made');
-        return {
-          planFile,
-          success: true,
-          completedSteps: plan.steps.map(s => s.stepNumber),
-          executionTime: (Date.now() - startTime) / 1000,
-          checkpointsReached: plan.checkpoints.map(c => c.id),
-        };
+        this.log('DRY RUN MODE - Steps run in a scratch worktree that is discarded afterwards');
+        return await this.previewPlan(plan, planFile, options, startTime);
       }
 
       // Load the plan content for the agent
       const planContent = await fs.readFile(planFile, 'utf-8');
 
-      // Execute each phase and step
-      for (const step of plan.steps) {
-        this.log(`Executing step ${step.stepNumber}: ${step.description}`);
+      const continuing = Boolean(options.resume || options.fromStep || options.onlyStep);
+      const saved = continuing ? await loadPlanState(planFile) : null;
+      if (options.resume && !saved) {
+        throw new PlanStateError(planFile, 'no saved execution state to resume');
+      }
+      for (const stepNumber of [options.fromStep, options.onlyStep]) {
+        if (stepNumber && !plan.steps.some(s => s.stepNumber === stepNumber)) {
+          throw new PlanStateError(planFile, `the plan has no step ${stepNumber}`);
+        }
+      }
 
-        try {
-          await this.executeStep(step, planContent);
-          completedSteps.push(step.stepNumber);
-          step.completed = true;
-        } catch (error: any) {
-          throw new PlanExecutionError(
-            planFile,
-            step.stepNumber,
-            error
-          );
+      if (saved) {
+        if (!syncPlanState(saved, planContent, plan.steps, plan.checkpoints)) {
+          this.log('Plan changed since the saved run - matching steps by number');
         }
+        state = saved;
+        state.status = 'running';
+      } else {
+        state = createPlanState(planFile, planContent, plan.steps, plan.checkpoints);
+      }
+      for (const step of plan.steps) {
+        step.completed = state.steps.find(s => s.stepNumber === step.stepNumber)?.status === 'completed';
+      }
 
-        // Check if we've reached a checkpoint
-        const checkpoint = this.findCheckpointForStep(step.stepNumber, plan.checkpoints);
+      // A saved run continues where it ran: in its worktree, or in place
+      if (saved?.runId) {
+        workspace = await this.reopenWorkspace(planFile, saved.runId);
+      } else if (!saved && options.isolate !== false) {
+        workspace = await this.createWorkspace();
+      }
+      state.runId = workspace?.getRunId();
+      this.agent.setWorkDir(workspace?.getDir() ?? null);
+      await this.saveState(state);
+
+      const stepsToRun = this.selectSteps(plan.steps, state, options);
+      if (saved && stepsToRun.length > 0) {
+        // The tree may have changed since the checkpoint passed; check it still holds
+        const last = lastPassedCheckpoint(state);
+        const checkpoint = plan.checkpoints.find(c => c.id === last?.id);
         if (checkpoint) {
-          this.log(`Reached checkpoint: ${checkpoint.id}`);
-          
-          const validationResult = await this.validateCheckpoint(checkpoint, planContent);
-          if (!validationResult.success) {
-            throw new CheckpointValidationError(
-              checkpoint.id,
-              validationResult.details
-            );
-          }
-          
-          checkpointsReached.push(checkpoint.id);
-          checkpoint.completed = true;
+          this.log(`Re-validating checkpoint ${checkpoint.id} before continuing`);
+          await this.verifyCheckpoint(checkpoint, planContent, state, workspace, verifications);
         }
       }
 
+      // Execute the steps as a dependency graph
+      for (const conflict of findFileConflicts(stepsToRun)) {
+        this.log(`Steps ${conflict.steps.join(' and ')} both change ${conflict.files.join(', ')}; they run one after the other`);
+      }
+      const parallel = options.parallel ?? DEFAULT_PARALLEL_STEPS;
+      const active = new Set<string>();
+      scheduler = new StepScheduler(stepsToRun, {
+        concurrency: parallel,
+        log: message => this.log(message),
+        runStep: async step => {
+          active.add(step.stepNumber);
+          try {
+            await this.runStep(step, planFile, planContent, state!, workspace, {
+              agent: parallel > 1 ? this.createStepAgent(step) : this.agent,
+              shared: () => active.size > 1,
+            });
+          } finally {
+            active.delete(step.stepNumber);
+          }
+        },
+        checkpointAfter: step => {
+          const checkpoint = this.findCheckpointForStep(step.stepNumber, plan.checkpoints, plan.steps);
+          return checkpoint && (async () => {
+            this.log(`Reached checkpoint: ${checkpoint.id}`);
+            await this.verifyCheckpoint(checkpoint, planContent, state!, workspace, verifications);
+          });
+        },
+      });
+      await scheduler.run();
+
+      state.status = state.steps.every(s => s.status === 'completed') ? 'completed' : 'incomplete';
+      await this.saveState(state);
+
       this.log('Plan execution completed successfully');
+      if (workspace) {
+        this.log(`Changes are on branch ${workspace.getBranch()}; accept or discard run ${workspace.getRunId()}`);
+      }
 
       return {
         planFile,
         success: true,
-        completedSteps,
+        completedSteps: completedSteps(),
         executionTime: (Date.now() - startTime) / 1000,
-        checkpointsReached,
+        checkpointsReached: checkpointsReached(),
+        workspace: await workspace?.getInfo(),
+        timeline: scheduler?.getTimeline(),
+        verifications,
       };
 
     } catch (error: any) {
       this.log(`Plan execution failed: ${error.message}`);
 
+      let failure: Error = error;
+      let rolledBackTo: string | undefined;
+      if (workspace) {
+        try {
+          rolledBackTo = (await workspace.resetToLastCheckpoint()).name;
+          if (state) {
+            markRolledBack(state, rolledBackTo);
+          }
+          this.log(`Rolled back to checkpoint ${rolledBackTo} on branch ${workspace.getBranch()}`);
+        } catch (rollbackError: any) {
+          failure = new RollbackError((state && lastPassedCheckpoint(state)?.id) ?? 'start', rollbackError.message);
+          this.log(failure.message);
+        }
+      }
+      if (state) {
+        state.status = 'failed';
+        await this.saveState(state);
+      }
+
       return {
         planFile,
         success: false,
-        completedSteps,
+        completedSteps: completedSteps(),
         failedStep: error instanceof PlanExecutionError ? error.step : 'unknown',
-        error,
+        error: failure,
         executionTime: (Date.now() - startTime) / 1000,
-        checkpointsReached,
+        checkpointsReached: checkpointsReached(),
+        workspace: await workspace?.getInfo().catch(() => undefined),
+        rolledBackTo,
+        timeline: scheduler?.getTimeline(),
+        verifications,
       };
+    } finally {
+      this.agent.setWorkDir(null);
+      this.agent.setDryRun(false);
+    }
+  }
+
+  /**
+   * Dry run: execute the steps in a scratch worktree with shell commands
+   * recorded instead of run, collect each step's diff and drop the
+   * worktree. The user's tree and the plan's saved state are untouched;
+   * checkpoints are not verified.
+   */
+  private async previewPlan(
+    plan: ParsedPlan,
+    planFile: string,
+    options: PlanExecutionOptions,
+    startTime: number
+  ): Promise<ExecutionResult> {
+    const planContent = await fs.readFile(planFile, 'utf-8');
+    const stepsToRun = this.selectSteps(plan.steps, createPlanState(planFile, planContent, plan.steps, plan.checkpoints), options);
+    const workspace = await GitWorkspace.create(process.cwd(), `dry-run-${Date.now()}`);
+    const baseCommit = (await workspace.getInfo()).baseCommit;
+    const report: DryRunReport = {
+      baseCommit,
+      steps: [],
+      checkpointCommands: plan.checkpoints.map(checkpoint => ({
+        checkpoint: checkpoint.id,
+        commands: checkpoint.verify.flatMap(action => ('command' in action ? [action.command] : [])),
+      })),
+      diff: '',
+    };
+
+    this.agent.setWorkDir(workspace.getDir());
+    this.agent.setDryRun(true);
+    const parallel = options.parallel ?? DEFAULT_PARALLEL_STEPS;
+    const active = new Set<string>();
+    const scheduler = new StepScheduler(stepsToRun, {
+      concurrency: parallel,
+      log: message => this.log(message),
+      runStep: async step => {
+        const preview: StepPreview = { stepNumber: step.stepNumber, description: step.description, files: [], diff: '', commands: [], policyNotes: [] };
+        report.steps.push(preview);
+        this.log(`Previewing step ${step.stepNumber}: ${step.description}`);
+        active.add(step.stepNumber);
+        const edited = new Set<string>();
+        try {
+          await this.executeStep(step, planContent, parallel > 1 ? this.createStepAgent(step) : this.agent, {
+            onToolResult: record => {
+              if (record.name === 'bashExec' && typeof record.args.cmd === 'string') {
+                preview.commands.push(record.args.cmd);
+                if (record.result?.policyNote) {
+                  preview.policyNotes.push({ command: record.args.cmd, note: record.result.policyNote });
+                }
+              }
+              this.editedPaths(record, workspace.getDir()).forEach(file => edited.add(file));
+            },
+          });
+          const paths = active.size > 1 ? [...step.filesAffected, ...edited] : undefined;
+          const commit = await workspace.commit(`Step ${step.stepNumber}: ${step.description}`, paths);
+          if (commit) {
+            preview.diff = await workspace.diff(`${commit}^`, commit);
+            preview.files = filesInDiff(preview.diff);
+          }
+          step.completed = true;
+        } catch (error: any) {
+          preview.error = error.message;
+          throw new PlanExecutionError(planFile, step.stepNumber, error);
+        } finally {
+          active.delete(step.stepNumber);
+        }
+      },
+    });
+
+    let failure: Error | undefined;
+    try {
+      await scheduler.run();
+    } catch (error: any) {
+      failure = error;
+      this.log(`Dry run stopped: ${error.message}`);
+    }
+
+    try {
+      report.diff = await workspace.diff(baseCommit, workspace.getBranch());
+    } finally {
+      await workspace.discard();
+    }
+    const files = new Set(report.steps.flatMap(s => s.files));
+    this.log(`Dry run proposes changes to ${files.size} file(s); the scratch worktree was removed`);
+
+    return {
+      planFile,
+      success: !failure,
+      completedSteps: plan.steps.filter(s => s.completed).map(s => s.stepNumber),
+      failedStep: failure instanceof PlanExecutionError ? failure.step : undefined,
+      error: failure,
+      executionTime: (Date.now() - startTime) / 1000,
+      checkpointsReached: [],
+      timeline: scheduler.getTimeline(),
+      dryRun: report,
+    };
+  }
+
+  /**
+   * Run one step and commit it. While other steps are running (`shared`),
+   * only the step's declared files and the files its tools edited are committed.
+   */
+  private async runStep(
+    step: ImplementationStep,
+    planFile: string,
+    planContent: string,
+    state: PlanExecutionState,
+    workspace: GitWorkspace | null,
+    runner: { agent: Agent; shared: () => boolean }
+  ): Promise<void> {
+    const stepState = state.steps.find(s => s.stepNumber === step.stepNumber)!;
+    this.log(`Executing step ${step.stepNumber}: ${step.description}`);
+
+    stepState.status = 'running';
+    stepState.startedAt = new Date().toISOString();
+    stepState.completedAt = undefined;
+    stepState.error = undefined;
+    stepState.toolCalls = [];
+    await this.saveState(state);
+
+    const edited = new Set<string>();
+    try {
+      await this.executeStep(step, planContent, runner.agent, {
+        onToolResult: record => {
+          stepState.toolCalls.push(summarizeToolCall(record));
+          this.editedPaths(record, workspace?.getDir()).forEach(file => edited.add(file));
+        },
+      });
+      const paths = runner.shared() ? [...step.filesAffected, ...edited] : undefined;
+      stepState.commit = (await workspace?.commit(`Step ${step.stepNumber}: ${step.description}`, paths)) ?? undefined;
+      stepState.status = 'completed';
+      stepState.completedAt = new Date().toISOString();
+      step.completed = true;
+      await this.saveState(state);
+    } catch (error: any) {
+      stepState.status = 'failed';
+      stepState.error = error.message;
+      throw new PlanExecutionError(
+        planFile,
+        step.stepNumber,
+        error
+      );
+    }
+  }
+
+  /**
+   * Files a successful file tool call changed, relative to the worktree
+   */
+  private editedPaths(record: ToolCallRecord, workDir: string | undefined): string[] {
+    if (record.error || !workDir) {
+      return [];
+    }
+    let files: string[] = [];
+    if ((record.name === 'writeFile' || record.name === 'editFile') && typeof record.args.path === 'string') {
+      files = [record.args.path];
+    } else if (record.name === 'applyPatch' && typeof record.args.patch === 'string') {
+      files = [...record.args.patch.matchAll(/^(?:---|\+\+\+) (?:[ab]\/)?(\S+)/gm)]
+        .map(match => match[1])
+        .filter(file => file !== '/dev/null');
+    }
+    return files
+      .map(file => path.relative(workDir, path.resolve(workDir, file)))
+      .filter(file => file !== '' && !file.startsWith('..'));
+  }
+
+  /**
+   * Fresh agent for a step that may run next to others, so their
+   * conversations do not mix
+   */
+  private createStepAgent(step: ImplementationStep): Agent {
+    const agent = new Agent(
+      {
+        name: `plan-executor-step-${step.stepNumber}`,
+        role: 'sub-agent',
+        systemPrompt: this.buildSystemPrompt(),
+      },
+      this.llm,
+      20
+    );
+    registerTools(agent);
+    agent.setWorkDir(this.agent.getWorkDir());
+    agent.setDryRun(this.agent.isDryRun());
+    return agent;
+  }
+
+  /**
+   * Steps to run, in plan order: the given step (and the rest of the plan
+   * for `fromStep`), otherwise every step that has not completed yet
+   */
+  private selectSteps(
+    steps: ImplementationStep[],
+    state: PlanExecutionState,
+    options: PlanExecutionOptions
+  ): ImplementationStep[] {
+    if (options.onlyStep) {
+      return steps.filter(s => s.stepNumber === options.onlyStep);
+    }
+    if (options.fromStep) {
+      return steps.slice(steps.findIndex(s => s.stepNumber === options.fromStep));
+    }
+    const completed = new Set(state.steps.filter(s => s.status === 'completed').map(s => s.stepNumber));
+    return steps.filter(s => !completed.has(s.stepNumber));
+  }
+
+  /**
+   * Validate a checkpoint, then commit and tag the workspace. Throws
+   * CheckpointValidationError if the checkpoint does not hold.
+   */
+  private async verifyCheckpoint(
+    checkpoint: Checkpoint,
+    planContent: string,
+    state: PlanExecutionState,
+    workspace: GitWorkspace | null,
+    verifications: CheckpointVerification[]
+  ): Promise<void> {
+    const checkpointState = state.checkpoints.find(c => c.id === checkpoint.id)!;
+    const validationResult = await this.validateCheckpoint(checkpoint, planContent);
+    verifications.push(validationResult);
+    checkpointState.verdict = validationResult.details;
+    checkpointState.verifiedAt = new Date().toISOString();
+    checkpointState.checks = validationResult.checks.map(check => ({
+      description: check.description,
+      passed: check.passed,
+      exitCode: check.exitCode,
+    }));
+    if (!validationResult.success) {
+      checkpointState.status = 'failed';
+      throw new CheckpointValidationError(
+        checkpoint.id,
+        validationResult.details
+      );
+    }
+
+    // Files the verification commands wrote belong to the checkpoint
+    await workspace?.commit(`Verify ${checkpoint.id}: ${checkpoint.description}`);
+    await workspace?.tagCheckpoint(checkpoint.id);
+    checkpointState.status = 'passed';
+    checkpointState.steps = state.steps.filter(s => s.status === 'completed').map(s => s.stepNumber);
+    checkpoint.completed = true;
+    await this.saveState(state);
+  }
+
+  /**
+   * Persist execution state; a state file that cannot be written does not fail the run
+   */
+  private saveState(state: PlanExecutionState): Promise<void> {
+    // Parallel steps save through one chain so an older state never overwrites a newer one
+    this.saving = this.saving.then(() => savePlanState(state)).catch((error: any) => {
+      this.log(`Could not save execution state: ${error.message}`);
+    });
+    return this.saving;
+  }
+
+  /**
+   * Worktree of a saved run, with the changes of an interrupted step dropped
+   */
+  private async reopenWorkspace(planFile: string, runId: string): Promise<GitWorkspace> {
+    try {
+      const workspace = await GitWorkspace.open(runId);
+      await workspace.discardUncommitted();
+      this.log(`Continuing on branch ${workspace.getBranch()} in ${workspace.getDir()}`);
+      return workspace;
+    } catch (error: any) {
+      throw new PlanStateError(planFile, `run ${runId} is no longer available (${error.message})`);
+    }
+  }
+
+  /**
+   * Worktree for a run, or null outside a git repository (the plan then runs in place)
+   */
+  private async createWorkspace(): Promise<GitWorkspace | null> {
+    try {
+      const workspace = await GitWorkspace.create();
+      this.log(`Executing on branch ${workspace.getBranch()} in ${workspace.getDir()}`);
+      return workspace;
+    } catch (error) {
+      if (error instanceof NotGitRepositoryError) {
+        this.log('Not a git repository - executing in place without rollback');
+        return null;
+      }
+      throw error;
     }
   }
 
@@ -256,7 +684,9 @@ If any step fails, use the rollback strategy defined in the plan.`;
    */
   private async executeStep(
     step: ImplementationStep,
-    planContext: string
+    planContext: string,
+    agent: Agent,
+    runOptions: RunOptions = {}
   ): Promise<void> {
     const prompt = `
 Execute the following implementation step from the plan:
@@ -271,7 +701,7 @@ ${step.keyDetails}
 
 Error handling requirements:
 ${step.errorHandling}
-
+${step.verify.length > 0 ? `\nCheck the step with: ${step.verify.join('; ')}\n` : ''}
 Plan context:
 ${planContext}
 
@@ -281,96 +711,176 @@ Please implement this step completely. Remember:
 - Full type safety
 - Ready for production
 
+Read the affected files, then prefer expressing the whole step as a single applyPatch call
+(one unified diff covering every file, including new, deleted and renamed ones) so it can be
+reviewed as one change. If the patch is rejected, re-read the files and resubmit it.
+
 Execute the necessary tool calls to complete this step.
 `;
 
-    await this.agent.run(prompt);
+    await agent.run(prompt, [], runOptions);
   }
 
   /**
-   * Validate that a checkpoint has been properly completed
+   * Validate that a checkpoint has been properly completed. The plan's
+   * verification actions run first, in the workspace, and decide the
+   * outcome; the model is only asked when they pass (its disagreement is
+   * logged) or when the checkpoint has none.
    */
   private async validateCheckpoint(
     checkpoint: Checkpoint,
     planContext: string
-  ): Promise<{ success: boolean; details: string }> {
+  ): Promise<CheckpointVerification> {
+    if (checkpoint.verify.length === 0) {
+      const verdict = await this.reviewCheckpoint(checkpoint, planContext, []);
+      return {
+        checkpoint: checkpoint.id,
+        success: verdict.valid,
+        details: verdict.details,
+        verifiedBy: 'model',
+        checks: [],
+        modelVerdict: verdict,
+      };
+    }
+
+    const checks = await runVerification(checkpoint.verify, this.agent.getWorkDir() ?? process.cwd());
+    const passed = checks.filter(c => c.passed).length;
+    this.log(`Checkpoint ${checkpoint.id}: ${passed}/${checks.length} check(s) passed`);
+    if (passed < checks.length) {
+      return {
+        checkpoint: checkpoint.id,
+        success: false,
+        details: summarizeFailures(checks),
+        verifiedBy: 'commands',
+        checks,
+      };
+    }
+
+    // The checks hold; a model that disagrees cannot fail the checkpoint
+    const verdict = await this.reviewCheckpoint(checkpoint, planContext, checks).catch((error: any) => ({
+      valid: true,
+      details: `Model review unavailable: ${error.message}`,
+    }));
+    if (!verdict.valid) {
+      this.log(`Checkpoint ${checkpoint.id}: model disagrees with the passing checks (${verdict.details})`);
+    }
+    return {
+      checkpoint: checkpoint.id,
+      success: true,
+      details: `All ${checks.length} check(s) passed`,
+      verifiedBy: 'commands',
+      checks,
+      modelVerdict: verdict,
+    };
+  }
+
+  /**
+   * Ask the model whether a checkpoint holds, given the results of its checks.
+   * The review is a plain chat without tools: anything it changed would be
+   * committed and tagged as the checkpoint without having been checked.
+   */
+  private async reviewCheckpoint(
+    checkpoint: Checkpoint,
+    planContext: string,
+    checks: VerificationResult[]
+  ): Promise<{ valid: boolean; details: string }> {
+    const checkLines = checks.map(c => `- ${c.description}: ${c.passed ? 'passed' : 'failed'}`).join('\n');
     const prompt = `
 Validate the following checkpoint:
 
 **Checkpoint: ${checkpoint.description}**
 
 Verification method: ${checkpoint.verificationMethod}
-
+${checks.length > 0 ? `These checks were already run:\n${checkLines}\n` : ''}
 Plan context:
 ${planContext}
 
-Please verify this checkpoint by:
-1. Checking that all required files exist and are correct
-2. Running any necessary tests
-3. Validating the implementation meets requirements
+Judge from the plan and the checks above whether the steps of this checkpoint
+are complete and meet the requirements. You cannot use tools or change files here.
 
 Respond with:
 - "CHECKPOINT VALID" if successful
 - "CHECKPOINT INVALID: <reason>" if there are issues
 `;
 
-    const response = await this.agent.run(prompt);
+    const response = await this.agent.chat(prompt);
 
     if (response.includes('CHECKPOINT VALID')) {
-      return { success: true, details: 'Validation passed' };
+      return { valid: true, details: 'Validation passed' };
     }
 
     const match = response.match(/CHECKPOINT INVALID:\s*(.+)/i);
     const reason = match ? match[1] : 'Unknown validation failure';
 
-    return { success: false, details: reason };
+    return { valid: false, details: reason };
   }
 
   /**
-   * Find checkpoint associated with a step
+   * Checkpoint that becomes due once `stepNumber` is done: one linked to
+   * the step whose other steps are all completed
    */
   private findCheckpointForStep(
     stepNumber: string,
-    checkpoints: Checkpoint[]
+    checkpoints: Checkpoint[],
+    steps: ImplementationStep[]
   ): Checkpoint | null {
-    // Simple heuristic: checkpoint numbers often match step phases
-    // e.g., Step 1.3 completes at Checkpoint 1
-    const phase = stepNumber.split('.')[0];
-    return checkpoints.find(c => c.id.includes(phase)) || null;
+    const completed = new Set(steps.filter(s => s.completed).map(s => s.stepNumber));
+    return checkpoints.find(c => c.steps.includes(stepNumber) && c.steps.every(s => completed.has(s))) || null;
   }
 
   /**
-   * Parse implementation plan from markdown file
+   * Parse an implementation plan: YAML front-matter validated against the
+   * plan schema, or the markdown headings of plans without it
    */
   private async parsePlan(planFile: string): Promise<ParsedPlan> {
+    let content: string;
     try {
-      const content = await fs.readFile(planFile, 'utf-8');
-      
-      const plan: ParsedPlan = {
-        title: this.extractSection(content, /^#\s+(.+)$/m),
-        domain: this.extractField(content, 'Domain'),
-        complexity: this.extractField(content, 'Complexity'),
-        context: this.extractSection(content, /## Context Summary([\s\S]*?)##/),
-        requirements: this.extractSection(content, /## Requirements Analysis([\s\S]*?)##/),
-        architecture: this.extractSection(content, /## Architecture & Design([\s\S]*?)##/),
-        steps: this.parseSteps(content),
-        checkpoints: this.parseCheckpoints(content),
-        errorHandling: this.extractSection(content, /## Error Handling Strategy([\s\S]*?)##/),
-        testingRequirements: this.extractSection(content, /## Testing Requirements([\s\S]*?)##/),
-        rollbackStrategy: this.extractSection(content, /## Rollback Strategy([\s\S]*?)##/),
-      };
-
-      if (!plan.title || plan.steps.length === 0) {
-        throw new PlanParseError(
-          planFile,
-          'Missing required sections (title or implementation steps)'
-        );
-      }
-
-      return plan;
+      content = await fs.readFile(planFile, 'utf-8');
     } catch (error: any) {
       throw new PlanParseError(planFile, error.message);
     }
+
+    const { spec, body, structured, issues } = parsePlanDocument(content);
+    if (issues.length > 0) {
+      throw new PlanValidationError(planFile, [], issues);
+    }
+    if (!structured && (!spec.title || spec.steps.length === 0)) {
+      throw new PlanParseError(
+        planFile,
+        'Missing required sections (title or implementation steps)'
+      );
+    }
+
+    return {
+      title: spec.title,
+      domain: spec.domain,
+      complexity: spec.complexity,
+      context: this.extractSection(body, /## Context Summary([\s\S]*?)##/),
+      requirements: this.extractSection(body, /## Requirements Analysis([\s\S]*?)##/),
+      architecture: this.extractSection(body, /## Architecture & Design([\s\S]*?)##/),
+      steps: spec.steps.map(step => ({
+        phase: step.phase,
+        stepNumber: step.id,
+        description: step.title,
+        filesAffected: step.files,
+        keyDetails: step.details,
+        errorHandling: step.errorHandling,
+        dependsOn: step.dependsOn,
+        verify: step.verify,
+        completed: false,
+      })),
+      checkpoints: spec.checkpoints.map(checkpoint => ({
+        id: checkpoint.id,
+        description: checkpoint.title,
+        verificationMethod: checkpoint.method,
+        steps: checkpoint.steps,
+        verify: checkpoint.verify,
+        completed: false,
+      })),
+      errorHandling: this.extractSection(body, /## Error Handling Strategy([\s\S]*?)##/),
+      testingRequirements: this.extractSection(body, /## Testing Requirements([\s\S]*?)##/),
+      rollbackStrategy: this.extractSection(body, /## Rollback Strategy([\s\S]*?)##/),
+    };
   }
 
   /**
@@ -381,58 +891,6 @@ Respond with:
     return match ? match[1]?.trim() || '' : '';
   }
 
-  /**
-   * Extract a field value from markdown metadata
-   */
-  private extractField(content: string, fieldName: string): string {
-    const regex = new RegExp(`\\*\\*${fieldName}:\\*\\*\\s*(.+)`, 'i');
-    const match = content.match(regex);
-    return match ? match[1].trim() : '';
-  }
-
-  /**
-   * Parse implementation steps from plan
-   */
-  private parseSteps(content: string): ImplementationStep[] {
-    const steps: ImplementationStep[] = [];
-    const stepRegex = /###?\s+(?:Step\s+)?(\d+(?:\.\d+)?)[:\s]+(.+)/gi;
-    
-    let match: RegExpExecArray | null;
-    while ((match = stepRegex.exec(content)) !== null) {
-      steps.push({
-        phase: match[1].split('.')[0],
-        stepNumber: match[1],
-        description: match[2].trim(),
-        filesAffected: [],
-        keyDetails: '',
-        errorHandling: '',
-        completed: false,
-      });
-    }
-
-    return steps;
-  }
-
-  /**
-   * Parse checkpoints from plan
-   */
-  private parseCheckpoints(content: string): Checkpoint[] {
-    const checkpoints: Checkpoint[] = [];
-    const checkpointRegex = /- \[ \] Checkpoint (\d+):\s*(.+?)\s*-\s*(.+)/gi;
-    
-    let match: RegExpExecArray | null;
-    while ((match = checkpointRegex.exec(content)) !== null) {
-      checkpoints.push({
-        id: `checkpoint-${match[1]}`,
-        description: match[2].trim(),
-        verificationMethod: match[3].trim(),
-        completed: false,
-      });
-    }
-
-    return checkpoints;
-  }
-
   /**
    * Log execution events
    */
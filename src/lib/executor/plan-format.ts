@@ -0,0 +1,513 @@
+/**
+ * Machine-readable plan format. A plan is markdown with YAML front-matter
+ * describing its steps and checkpoints:
+ *
+ *   ---
+ *   planSchema: 1
+ *   title: Greeting feature
+ *   steps:
+ *     - id: "1.1"
+ *       title: Create greeting module
+ *       files: [src/greeting.ts]
+ *     - id: "1.2"
+ *       title: Add tests
+ *       dependsOn: ["1.1"]
+ *   checkpoints:
+ *     - id: checkpoint-1
+ *       title: Greeting works
+ *       steps: ["1.1", "1.2"]
+ *       verify:
+ *         - npm run build                      # must exit 0
+ *         - { test: npm test }
+ *         - { file: src/greeting.ts, matches: "export function greet" }
+ *   ---
+ *
+ * A plan revised after a review also lists its `reviewResponses`: what
+ * was done about each finding (addressed, accepted or deferred).
+ *
+ * Plans without front-matter are still read from their markdown headings.
+ */
+
+import matter from 'gray-matter';
+import { VerificationAction, describeAction } from './checkpoint-verifier';
+
+export const PLAN_SCHEMA_VERSION = 1;
+
+export interface PlanStepSpec {
+  id: string;
+  title: string;
+  phase: string; // Defaults to the part of the id before the first dot
+  dependsOn: string[];
+  files: string[];
+  details: string;
+  errorHandling: string;
+  verify: string[]; // Commands that check the step
+}
+
+export interface PlanCheckpointSpec {
+  id: string;
+  title: string;
+  steps: string[]; // Verified once all of these steps are done
+  method: string; // How to verify, in words
+  verify: VerificationAction[]; // Checks the executor runs itself
+}
+
+export const REVIEW_DECISIONS = ['addressed', 'accepted', 'deferred'] as const;
+export type ReviewDecision = typeof REVIEW_DECISIONS[number];
+
+/**
+ * How a revised plan answers one review finding
+ */
+export interface PlanReviewResponse {
+  finding: string; // Id of the finding, e.g. "SEC-1"
+  decision: ReviewDecision;
+  note: string; // What changed, or why the risk is accepted or deferred
+}
+
+export interface PlanSpec {
+  planSchema: number;
+  title: string;
+  domain: string;
+  complexity: string;
+  steps: PlanStepSpec[];
+  checkpoints: PlanCheckpointSpec[];
+  reviewResponses: PlanReviewResponse[];
+}
+
+export interface PlanDocument {
+  spec: PlanSpec;
+  body: string; // Markdown after the front-matter
+  structured: boolean; // False for plans read from markdown headings
+}
+
+const PLAN_FIELDS = ['planSchema', 'title', 'domain', 'complexity', 'steps', 'checkpoints', 'reviewResponses'];
+const STEP_FIELDS = ['id', 'title', 'phase', 'dependsOn', 'files', 'details', 'errorHandling', 'verify'];
+const CHECKPOINT_FIELDS = ['id', 'title', 'steps', 'method', 'verify'];
+const RESPONSE_FIELDS = ['finding', 'decision', 'note'];
+const ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+// Each mapping in a checkpoint's `verify` list has exactly one of these
+const VERIFY_KINDS = ['run', 'test', 'exists', 'absent', 'file'];
+
+// Field checks below are shared with the review format
+
+export function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function checkFields(value: Record<string, any>, allowed: string[], where: string, issues: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      issues.push(`${where}: unknown field "${key}"`);
+    }
+  }
+}
+
+export function checkString(value: unknown, where: string, issues: string[], required: boolean): void {
+  if (value === undefined && !required) return;
+  if (typeof value === 'number') {
+    issues.push(`${where}: must be a string, quote numbers like "${value}"`);
+  } else if (typeof value !== 'string' || (required && value.trim() === '')) {
+    issues.push(`${where}: ${required ? 'required non-empty string' : 'must be a string'}`);
+  }
+}
+
+/**
+ * Step and checkpoint ids end up in commit messages, state keys and git tag
+ * names, so they are limited to a safe set of characters
+ */
+function checkId(value: unknown, where: string, issues: string[]): void {
+  if (typeof value !== 'string' || value.trim() === '') return; // Reported by checkString
+  if (!ID_PATTERN.test(value)) {
+    issues.push(`${where}: "${value}" must start with a letter or digit and contain only letters, digits, ".", "_" and "-"`);
+  } else if (value.includes('..')) {
+    issues.push(`${where}: "${value}" must not contain ".."`);
+  }
+}
+
+export function checkStringList(value: unknown, where: string, issues: string[]): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.push(`${where}: must be a list`);
+    return;
+  }
+  value.forEach((item, i) => checkString(item, `${where}[${i}]`, issues, true));
+}
+
+/**
+ * Checkpoint checks: a string is a command that must exit 0, a mapping is
+ * `{ run, exitCode?, timeoutMs? }`, `{ test, timeoutMs? }`, `{ exists }`,
+ * `{ absent }` or `{ file, matches }`
+ */
+function checkVerifyList(value: unknown, where: string, issues: string[]): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.push(`${where}: must be a list`);
+    return;
+  }
+  value.forEach((item, i) => {
+    const at = `${where}[${i}]`;
+    if (!isRecord(item)) {
+      checkString(item, at, issues, true);
+      return;
+    }
+    const kinds = VERIFY_KINDS.filter(kind => kind in item);
+    if (kinds.length !== 1) {
+      issues.push(`${at}: needs exactly one of ${VERIFY_KINDS.join(', ')}${kinds.length > 1 ? ` (found ${kinds.join(', ')})` : ''}`);
+      return;
+    }
+    const kind = kinds[0];
+    const allowed = kind === 'run' ? ['run', 'exitCode', 'timeoutMs'] : kind === 'test' ? ['test', 'timeoutMs'] : kind === 'file' ? ['file', 'matches'] : [kind];
+    checkFields(item, allowed, at, issues);
+    checkString(item[kind], `${at}.${kind}`, issues, true);
+    if (item.exitCode !== undefined && !Number.isInteger(item.exitCode)) {
+      issues.push(`${at}.exitCode: must be an integer`);
+    }
+    if (item.timeoutMs !== undefined && !(Number.isInteger(item.timeoutMs) && item.timeoutMs > 0)) {
+      issues.push(`${at}.timeoutMs: must be a positive integer`);
+    }
+    if (kind === 'file') {
+      checkString(item.matches, `${at}.matches`, issues, true);
+      if (typeof item.matches === 'string') {
+        try {
+          new RegExp(item.matches, 'm');
+        } catch (error: any) {
+          issues.push(`${at}.matches: invalid regular expression (${error.message})`);
+        }
+      }
+    }
+  });
+}
+
+function toVerificationAction(item: string | Record<string, any>): VerificationAction {
+  if (typeof item === 'string') return { kind: 'command', command: item, exitCode: 0 };
+  if ('run' in item) return { kind: 'command', command: item.run, exitCode: item.exitCode ?? 0, timeoutMs: item.timeoutMs };
+  if ('test' in item) return { kind: 'test', command: item.test, exitCode: 0, timeoutMs: item.timeoutMs };
+  if ('exists' in item) return { kind: 'exists', path: item.exists };
+  if ('absent' in item) return { kind: 'absent', path: item.absent };
+  return { kind: 'matches', path: item.file, pattern: item.matches };
+}
+
+function fromVerificationAction(action: VerificationAction): string | Record<string, any> {
+  const timeout = 'timeoutMs' in action && action.timeoutMs !== undefined ? { timeoutMs: action.timeoutMs } : {};
+  switch (action.kind) {
+    case 'command':
+      return action.exitCode === 0 && !action.timeoutMs
+        ? action.command
+        : { run: action.command, ...(action.exitCode !== 0 ? { exitCode: action.exitCode } : {}), ...timeout };
+    case 'test':
+      return { test: action.command, ...timeout };
+    case 'exists':
+      return { exists: action.path };
+    case 'absent':
+      return { absent: action.path };
+    case 'matches':
+      return { file: action.path, matches: action.pattern };
+  }
+}
+
+/**
+ * Check front-matter against the plan schema. Returns one message per
+ * problem, each prefixed with the path of the offending field.
+ */
+export function validatePlanSpec(data: unknown): string[] {
+  const issues: string[] = [];
+  if (!isRecord(data)) {
+    return ['front-matter: must be a mapping'];
+  }
+
+  checkFields(data, PLAN_FIELDS, 'plan', issues);
+  if (data.planSchema !== undefined && data.planSchema !== PLAN_SCHEMA_VERSION) {
+    issues.push(`planSchema: unsupported version ${JSON.stringify(data.planSchema)} (expected ${PLAN_SCHEMA_VERSION})`);
+  }
+  checkString(data.title, 'title', issues, true);
+  checkString(data.domain, 'domain', issues, false);
+  checkString(data.complexity, 'complexity', issues, false);
+
+  const stepIds = new Set<string>();
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    issues.push('steps: at least one step is required');
+  } else {
+    data.steps.forEach((step: unknown, i: number) => {
+      const where = `steps[${i}]`;
+      if (!isRecord(step)) {
+        issues.push(`${where}: must be a mapping`);
+        return;
+      }
+      checkFields(step, STEP_FIELDS, where, issues);
+      checkString(step.id, `${where}.id`, issues, true);
+      checkId(step.id, `${where}.id`, issues);
+      if (typeof step.id === 'string') {
+        if (stepIds.has(step.id)) {
+          issues.push(`${where}.id: duplicate step "${step.id}"`);
+        }
+        stepIds.add(step.id);
+      }
+      checkString(step.title, `${where}.title`, issues, true);
+      checkString(step.phase, `${where}.phase`, issues, false);
+      checkStringList(step.dependsOn, `${where}.dependsOn`, issues);
+      checkStringList(step.files, `${where}.files`, issues);
+      checkString(step.details, `${where}.details`, issues, false);
+      checkString(step.errorHandling, `${where}.errorHandling`, issues, false);
+      checkStringList(step.verify, `${where}.verify`, issues);
+    });
+
+    data.steps.forEach((step: any, i: number) => {
+      if (!isRecord(step) || !Array.isArray(step.dependsOn)) return;
+      step.dependsOn.forEach((dependency: unknown, j: number) => {
+        if (typeof dependency !== 'string') return;
+        if (dependency === step.id) {
+          issues.push(`steps[${i}].dependsOn[${j}]: step "${step.id}" depends on itself`);
+        } else if (!stepIds.has(dependency)) {
+          issues.push(`steps[${i}].dependsOn[${j}]: unknown step "${dependency}"`);
+        }
+      });
+    });
+
+    const cycle = findDependencyCycle(data.steps);
+    if (cycle) {
+      issues.push(`steps: dependency cycle ${cycle.join(' -> ')}`);
+    }
+  }
+
+  if (data.checkpoints !== undefined) {
+    if (!Array.isArray(data.checkpoints)) {
+      issues.push('checkpoints: must be a list');
+    } else {
+      const checkpointIds = new Set<string>();
+      data.checkpoints.forEach((checkpoint: unknown, i: number) => {
+        const where = `checkpoints[${i}]`;
+        if (!isRecord(checkpoint)) {
+          issues.push(`${where}: must be a mapping`);
+          return;
+        }
+        checkFields(checkpoint, CHECKPOINT_FIELDS, where, issues);
+        checkString(checkpoint.id, `${where}.id`, issues, true);
+        checkId(checkpoint.id, `${where}.id`, issues);
+        if (checkpoint.id === 'start') {
+          issues.push(`${where}.id: "start" is reserved for the commit a run starts from`);
+        }
+        if (typeof checkpoint.id === 'string') {
+          if (checkpointIds.has(checkpoint.id)) {
+            issues.push(`${where}.id: duplicate checkpoint "${checkpoint.id}"`);
+          }
+          checkpointIds.add(checkpoint.id);
+        }
+        checkString(checkpoint.title, `${where}.title`, issues, true);
+        checkString(checkpoint.method, `${where}.method`, issues, false);
+        checkVerifyList(checkpoint.verify, `${where}.verify`, issues);
+        if (!Array.isArray(checkpoint.steps) || checkpoint.steps.length === 0) {
+          issues.push(`${where}.steps: at least one step is required`);
+        } else {
+          checkStringList(checkpoint.steps, `${where}.steps`, issues);
+          checkpoint.steps.forEach((stepId: unknown, j: number) => {
+            if (typeof stepId === 'string' && !stepIds.has(stepId)) {
+              issues.push(`${where}.steps[${j}]: unknown step "${stepId}"`);
+            }
+          });
+        }
+      });
+    }
+  }
+
+  if (data.reviewResponses !== undefined) {
+    if (!Array.isArray(data.reviewResponses)) {
+      issues.push('reviewResponses: must be a list');
+    } else {
+      data.reviewResponses.forEach((response: unknown, i: number) => {
+        const where = `reviewResponses[${i}]`;
+        if (!isRecord(response)) {
+          issues.push(`${where}: must be a mapping`);
+          return;
+        }
+        checkFields(response, RESPONSE_FIELDS, where, issues);
+        checkString(response.finding, `${where}.finding`, issues, true);
+        if (!REVIEW_DECISIONS.includes(response.decision)) {
+          issues.push(`${where}.decision: must be one of ${REVIEW_DECISIONS.join(', ')}`);
+        }
+        checkString(response.note, `${where}.note`, issues, false);
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * First dependency cycle among the steps (ids in order, first repeated at the end), or null
+ */
+function findDependencyCycle(steps: any[]): string[] | null {
+  const dependencies = new Map<string, string[]>();
+  for (const step of steps) {
+    if (isRecord(step) && typeof step.id === 'string') {
+      dependencies.set(step.id, Array.isArray(step.dependsOn) ? step.dependsOn.filter((d: unknown) => typeof d === 'string') : []);
+    }
+  }
+
+  const done = new Set<string>();
+  const visit = (id: string, trail: string[]): string[] | null => {
+    if (trail.includes(id)) {
+      return [...trail.slice(trail.indexOf(id)), id];
+    }
+    if (done.has(id) || !dependencies.has(id)) {
+      return null;
+    }
+    for (const dependency of dependencies.get(id)!) {
+      if (dependency === id) continue; // Reported as a self-dependency
+      const cycle = visit(dependency, [...trail, id]);
+      if (cycle) return cycle;
+    }
+    done.add(id);
+    return null;
+  };
+
+  for (const id of dependencies.keys()) {
+    const cycle = visit(id, []);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Fill in the optional fields of validated front-matter
+ */
+function normalizePlanSpec(data: Record<string, any>): PlanSpec {
+  return {
+    planSchema: data.planSchema ?? PLAN_SCHEMA_VERSION,
+    title: data.title.trim(),
+    domain: data.domain ?? '',
+    complexity: data.complexity ?? '',
+    steps: data.steps.map((step: Record<string, any>) => ({
+      id: step.id,
+      title: step.title.trim(),
+      phase: step.phase ?? step.id.split('.')[0],
+      dependsOn: step.dependsOn ?? [],
+      files: step.files ?? [],
+      details: step.details ?? '',
+      errorHandling: step.errorHandling ?? '',
+      verify: step.verify ?? [],
+    })),
+    checkpoints: (data.checkpoints ?? []).map((checkpoint: Record<string, any>) => {
+      const verify: VerificationAction[] = (checkpoint.verify ?? []).map(toVerificationAction);
+      return {
+        id: checkpoint.id,
+        title: checkpoint.title.trim(),
+        steps: checkpoint.steps,
+        method: checkpoint.method ?? verify.map(describeAction).join('; '),
+        verify,
+      };
+    }),
+    reviewResponses: (data.reviewResponses ?? []).map((response: Record<string, any>) => ({
+      finding: response.finding,
+      decision: response.decision,
+      note: response.note ?? '',
+    })),
+  };
+}
+
+function extractField(content: string, fieldName: string): string {
+  const match = content.match(new RegExp(`\\*\\*${fieldName}:\\*\\*\\s*(.+)`, 'i'));
+  return match ? match[1].trim() : '';
+}
+
+/**
+ * Steps and checkpoints scraped from markdown headings (`### Step 1.2: ...`,
+ * `- [ ] Checkpoint 1: ... - method`). A checkpoint covers the steps of its phase.
+ */
+export function planSpecFromMarkdown(content: string): PlanSpec {
+  const steps: PlanStepSpec[] = [];
+  const stepRegex = /###?\s+(?:Step\s+)?(\d+(?:\.\d+)?)[:\s]+(.+)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = stepRegex.exec(content)) !== null) {
+    steps.push({
+      id: match[1],
+      title: match[2].trim(),
+      phase: match[1].split('.')[0],
+      dependsOn: [],
+      files: [],
+      details: '',
+      errorHandling: '',
+      verify: [],
+    });
+  }
+
+  const checkpoints: PlanCheckpointSpec[] = [];
+  const checkpointRegex = /- \[ \] Checkpoint (\d+):\s*(.+?)\s*-\s*(.+)/gi;
+  while ((match = checkpointRegex.exec(content)) !== null) {
+    const phase = match[1];
+    checkpoints.push({
+      id: `checkpoint-${phase}`,
+      title: match[2].trim(),
+      steps: steps.filter(s => s.phase === phase).map(s => s.id),
+      method: match[3].trim(),
+      verify: [],
+    });
+  }
+
+  const title = content.match(/^#\s+(.+)$/m);
+  return {
+    planSchema: PLAN_SCHEMA_VERSION,
+    title: title ? title[1].trim() : '',
+    domain: extractField(content, 'Domain'),
+    complexity: extractField(content, 'Complexity'),
+    steps,
+    // Checkpoints without steps in their phase can never be reached
+    checkpoints: checkpoints.filter(c => c.steps.length > 0),
+    reviewResponses: [],
+  };
+}
+
+/**
+ * Read a plan file's content. Plans with front-matter are validated against
+ * the schema and `issues` lists every problem; plans without it are read
+ * from their markdown.
+ */
+export function parsePlanDocument(content: string): PlanDocument & { issues: string[] } {
+  let parsed: matter.GrayMatterFile<string>;
+  try {
+    parsed = matter(content, {});
+  } catch (error: any) {
+    return { spec: planSpecFromMarkdown(content), body: content, structured: false, issues: [`front-matter: invalid YAML (${error.reason ?? error.message})`] };
+  }
+  if (Object.keys(parsed.data).length === 0) {
+    return { spec: planSpecFromMarkdown(content), body: content, structured: false, issues: [] };
+  }
+
+  const issues = validatePlanSpec(parsed.data);
+  const spec = issues.length === 0 ? normalizePlanSpec(parsed.data) : planSpecFromMarkdown(parsed.content);
+  return { spec, body: parsed.content, structured: true, issues };
+}
+
+/**
+ * Drop empty optional fields so the front-matter stays short
+ */
+function compact<T extends object>(value: T, keep: string[]): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([key, field]) =>
+    keep.includes(key) || !(field === '' || (Array.isArray(field) && field.length === 0))
+  )) as Partial<T>;
+}
+
+/**
+ * Markdown body with the plan's front-matter in front of it
+ */
+export function stringifyPlanDocument(spec: PlanSpec, body: string): string {
+  const data = {
+    ...compact(spec, ['planSchema', 'title', 'steps']),
+    steps: spec.steps.map(step => compact(
+      // The default phase is implied by the id
+      step.phase === step.id.split('.')[0] ? { ...step, phase: '' } : step,
+      ['id', 'title']
+    )),
+    checkpoints: spec.checkpoints.map(checkpoint => compact(
+      { ...checkpoint, verify: checkpoint.verify.map(fromVerificationAction) },
+      ['id', 'title', 'steps']
+    )),
+    reviewResponses: spec.reviewResponses.map(response => compact(response, ['finding', 'decision'])),
+  };
+  if (data.checkpoints.length === 0) {
+    delete (data as Partial<typeof data>).checkpoints;
+  }
+  if (data.reviewResponses.length === 0) {
+    delete (data as Partial<typeof data>).reviewResponses;
+  }
+  return matter.stringify(body.replace(/^\n+/, '\n'), data);
+}
@@ -0,0 +1,187 @@
+/**
+ * Execution state of a plan, saved next to the plan file
+ * (`<plan>.state.json`) after every transition so a crashed or failed run
+ * can be resumed without repeating finished steps.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ToolCallRecord } from '../llm/ollama-client';
+
+const MAX_ARG_LENGTH = 200;
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type CheckpointStatus = 'pending' | 'passed' | 'failed';
+
+/**
+ * Tool call made while executing a step (long string arguments are shortened)
+ */
+export interface StepToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  error?: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface StepState {
+  stepNumber: string;
+  description: string;
+  status: StepStatus;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+  commit?: string; // Workspace commit of the step (isolated runs)
+  toolCalls: StepToolCall[];
+}
+
+export interface CheckpointState {
+  id: string;
+  status: CheckpointStatus;
+  verdict?: string; // Validation details
+  verifiedAt?: string;
+  steps: string[]; // Steps completed when the checkpoint passed
+  checks?: CheckpointCheck[]; // Verification actions of the last validation
+}
+
+/**
+ * Outcome of one verification action (its output stays in the ExecutionResult)
+ */
+export interface CheckpointCheck {
+  description: string;
+  passed: boolean;
+  exitCode?: number;
+}
+
+export interface PlanExecutionState {
+  planFile: string;
+  planHash: string; // Detects plans edited between runs
+  runId?: string; // Git workspace of the run (isolated runs)
+  status: 'running' | 'incomplete' | 'completed' | 'failed'; // incomplete: stopped after --only / --from
+  startedAt: string;
+  updatedAt: string;
+  steps: StepState[];
+  checkpoints: CheckpointState[];
+}
+
+export function planStatePath(planFile: string): string {
+  const parsed = path.parse(planFile);
+  return path.join(parsed.dir, `${parsed.name}.state.json`);
+}
+
+export function hashPlan(planContent: string): string {
+  return crypto.createHash('sha256').update(planContent).digest('hex');
+}
+
+export function createPlanState(
+  planFile: string,
+  planContent: string,
+  steps: Array<{ stepNumber: string; description: string }>,
+  checkpoints: Array<{ id: string }>
+): PlanExecutionState {
+  const now = new Date().toISOString();
+  const state: PlanExecutionState = {
+    planFile,
+    planHash: '',
+    status: 'running',
+    startedAt: now,
+    updatedAt: now,
+    steps: [],
+    checkpoints: [],
+  };
+  syncPlanState(state, planContent, steps, checkpoints);
+  return state;
+}
+
+/**
+ * Align a saved state with the current plan: steps and checkpoints are
+ * matched by number/id, new ones start pending and removed ones are dropped.
+ * Returns false if the plan changed since the state was saved.
+ */
+export function syncPlanState(
+  state: PlanExecutionState,
+  planContent: string,
+  steps: Array<{ stepNumber: string; description: string }>,
+  checkpoints: Array<{ id: string }>
+): boolean {
+  const planHash = hashPlan(planContent);
+  const unchanged = state.planHash === planHash;
+  state.planHash = planHash;
+  state.steps = steps.map(step => ({
+    ...(state.steps.find(s => s.stepNumber === step.stepNumber) ?? { stepNumber: step.stepNumber, status: 'pending', toolCalls: [] }),
+    description: step.description,
+  }));
+  state.checkpoints = checkpoints.map(checkpoint =>
+    state.checkpoints.find(c => c.id === checkpoint.id) ?? { id: checkpoint.id, status: 'pending', steps: [] }
+  );
+  return unchanged;
+}
+
+/**
+ * Saved state of a plan, or null if it never ran
+ */
+export async function loadPlanState(planFile: string): Promise<PlanExecutionState | null> {
+  try {
+    return JSON.parse(await fs.readFile(planStatePath(planFile), 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function savePlanState(state: PlanExecutionState): Promise<void> {
+  state.updatedAt = new Date().toISOString();
+  const statePath = planStatePath(state.planFile);
+  const tempPath = `${statePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(state, null, 2), 'utf-8');
+  await fs.rename(tempPath, statePath);
+}
+
+export function summarizeToolCall(record: ToolCallRecord): StepToolCall {
+  const args = Object.fromEntries(Object.entries(record.args || {}).map(([key, value]) => [
+    key,
+    typeof value === 'string' && value.length > MAX_ARG_LENGTH ? `${value.slice(0, MAX_ARG_LENGTH)}… (${value.length} chars)` : value,
+  ]));
+  return {
+    id: record.id,
+    name: record.name,
+    args,
+    error: record.error,
+    startedAt: record.startedAt,
+    durationMs: record.durationMs,
+  };
+}
+
+/**
+ * Last checkpoint that passed, if any
+ */
+export function lastPassedCheckpoint(state: PlanExecutionState): CheckpointState | undefined {
+  return state.checkpoints
+    .filter(c => c.status === 'passed')
+    .sort((a, b) => (a.verifiedAt ?? '').localeCompare(b.verifiedAt ?? ''))
+    .pop();
+}
+
+/**
+ * After the workspace was reset to `checkpointId` (or `start`), steps
+ * completed after it are pending again
+ */
+export function markRolledBack(state: PlanExecutionState, checkpointId: string): void {
+  const kept = new Set(state.checkpoints.find(c => c.id === checkpointId)?.steps ?? []);
+  for (const step of state.steps) {
+    if (step.status === 'completed' && !kept.has(step.stepNumber)) {
+      step.status = 'pending';
+      step.completedAt = undefined;
+      step.commit = undefined;
+    }
+  }
+  for (const checkpoint of state.checkpoints) {
+    if (checkpoint.status === 'passed' && checkpoint.steps.some(s => !kept.has(s))) {
+      checkpoint.status = 'pending';
+    }
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Runs plan steps as a dependency graph. A step starts once its
+ * dependencies are done and no running step touches the same files; up to
+ * `concurrency` steps run at a time. Steps that declare no files may touch
+ * anything, so they never run next to another step.
+ */
+
+import path from 'path';
+
+export interface SchedulableStep {
+  stepNumber: string;
+  description: string;
+  dependsOn: string[];
+  filesAffected: string[];
+}
+
+/**
+ * When a step ran, relative to the start of the schedule
+ */
+export interface TimelineEntry {
+  stepNumber: string;
+  description: string;
+  status: 'completed' | 'failed';
+  lane: number; // Concurrency slot the step ran in (1-based)
+  startMs: number;
+  endMs: number;
+  durationMs: number;
+  parallelWith: string[]; // Steps whose run overlapped with this one
+}
+
+export interface StepSchedulerOptions<T extends SchedulableStep> {
+  concurrency: number;
+  runStep: (step: T) => Promise<void>;
+  // Checkpoint work due after `step`; runs once no other step is running
+  checkpointAfter?: (step: T) => (() => Promise<void>) | null;
+  log?: (message: string) => void;
+}
+
+function normalizeFile(file: string): string {
+  return path.posix.normalize(file.replace(/\\/g, '/')).replace(/^\.\//, '').replace(/\/$/, '');
+}
+
+/**
+ * Files (or directories) both steps change; a step without declared files conflicts with every step
+ */
+export function conflictingFiles(a: SchedulableStep, b: SchedulableStep): string[] | null {
+  if (a.filesAffected.length === 0 || b.filesAffected.length === 0) {
+    return null;
+  }
+  const overlaps = (x: string, y: string) => x === y || x.startsWith(`${y}/`) || y.startsWith(`${x}/`);
+  const others = b.filesAffected.map(normalizeFile);
+  return a.filesAffected.map(normalizeFile).filter(file => others.some(other => overlaps(file, other)));
+}
+
+export function stepsConflict(a: SchedulableStep, b: SchedulableStep): boolean {
+  const files = conflictingFiles(a, b);
+  return files === null || files.length > 0;
+}
+
+/**
+ * Pairs of steps that declare overlapping files and so never run together
+ */
+export function findFileConflicts(steps: SchedulableStep[]): Array<{ steps: [string, string]; files: string[] }> {
+  const conflicts: Array<{ steps: [string, string]; files: string[] }> = [];
+  steps.forEach((a, i) => {
+    for (const b of steps.slice(i + 1)) {
+      const files = conflictingFiles(a, b);
+      if (files && files.length > 0) {
+        conflicts.push({ steps: [a.stepNumber, b.stepNumber], files });
+      }
+    }
+  });
+  return conflicts;
+}
+
+export class StepScheduler<T extends SchedulableStep> {
+  private timeline: TimelineEntry[] = [];
+  private startedAt = 0;
+
+  constructor(
+    private readonly steps: T[],
+    private readonly options: StepSchedulerOptions<T>
+  ) {}
+
+  /**
+   * Run every step. After a failure no new step starts; running steps
+   * finish and the first error is thrown.
+   */
+  async run(): Promise<void> {
+    this.startedAt = Date.now();
+    this.timeline = [];
+    const ids = new Set(this.steps.map(s => s.stepNumber));
+    const waiting = [...this.steps];
+    const done = new Set<string>();
+    const running = new Map<string, { step: T; lane: number; promise: Promise<void> }>();
+    const dueCheckpoints: Array<() => Promise<void>> = [];
+    const concurrency = Math.max(1, this.options.concurrency);
+    const failures: unknown[] = [];
+
+    // Dependencies outside this run (done earlier, or skipped by --only) do not block
+    const isReady = (step: T) => step.dependsOn.every(d => done.has(d) || !ids.has(d));
+
+    while (true) {
+      // Checkpoints wait for running steps so they verify a quiet tree
+      while (failures.length === 0 && dueCheckpoints.length === 0 && running.size < concurrency) {
+        const next = waiting.find(step =>
+          isReady(step) && [...running.values()].every(r => !stepsConflict(step, r.step))
+        );
+        if (!next) break;
+        waiting.splice(waiting.indexOf(next), 1);
+        const lane = this.freeLane([...running.values()].map(r => r.lane));
+        running.set(next.stepNumber, { step: next, lane, promise: this.launch(next, lane, running, done, dueCheckpoints, failures) });
+      }
+
+      if (running.size > 0) {
+        await Promise.race([...running.values()].map(r => r.promise));
+        continue;
+      }
+      if (failures.length > 0) {
+        throw failures[0];
+      }
+      if (dueCheckpoints.length > 0) {
+        for (const checkpoint of dueCheckpoints.splice(0)) {
+          await checkpoint();
+        }
+        continue;
+      }
+      if (waiting.length === 0) {
+        return;
+      }
+      // Unreachable for validated plans: every dependency is either done or scheduled
+      throw new Error(`Steps ${waiting.map(s => s.stepNumber).join(', ')} wait on dependencies that cannot run`);
+    }
+  }
+
+  getTimeline(): TimelineEntry[] {
+    return [...this.timeline];
+  }
+
+  private launch(
+    step: T,
+    lane: number,
+    running: Map<string, { step: T }>,
+    done: Set<string>,
+    dueCheckpoints: Array<() => Promise<void>>,
+    failures: unknown[]
+  ): Promise<void> {
+    const alongside = [...running.keys()];
+    if (alongside.length > 0) {
+      this.options.log?.(`Step ${step.stepNumber} runs in parallel with ${alongside.join(', ')}`);
+    }
+    const entry: TimelineEntry = {
+      stepNumber: step.stepNumber,
+      description: step.description,
+      status: 'completed',
+      lane,
+      startMs: Date.now() - this.startedAt,
+      endMs: 0,
+      durationMs: 0,
+      parallelWith: [],
+    };
+
+    return (async () => {
+      try {
+        await this.options.runStep(step);
+        done.add(step.stepNumber);
+        const checkpoint = this.options.checkpointAfter?.(step);
+        if (checkpoint) {
+          dueCheckpoints.push(checkpoint);
+        }
+      } catch (error) {
+        entry.status = 'failed';
+        failures.push(error);
+      } finally {
+        entry.endMs = Date.now() - this.startedAt;
+        entry.durationMs = entry.endMs - entry.startMs;
+        this.recordOverlaps(entry);
+        this.timeline.push(entry);
+        running.delete(step.stepNumber);
+      }
+    })();
+  }
+
+  private recordOverlaps(entry: TimelineEntry): void {
+    for (const other of this.timeline) {
+      if (other.startMs < entry.endMs && entry.startMs < other.endMs) {
+        other.parallelWith.push(entry.stepNumber);
+        entry.parallelWith.push(other.stepNumber);
+      }
+    }
+  }
+
+  private freeLane(used: number[]): number {
+    let lane = 1;
+    while (used.includes(lane)) lane++;
+    return lane;
+  }
+}
+
+/**
+ * Text report of a timeline: one bar per step, scaled to the whole run
+ */
+export function formatTimeline(timeline: TimelineEntry[], width: number = 40): string {
+  if (timeline.length === 0) {
+    return 'No steps ran';
+  }
+
+  const entries = [...timeline].sort((a, b) => a.startMs - b.startMs || a.lane - b.lane);
+  const total = Math.max(...entries.map(e => e.endMs), 1);
+  const label = Math.max(...entries.map(e => e.stepNumber.length), 4);
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+  const lines = entries.map(entry => {
+    const start = Math.floor((entry.startMs / total) * width);
+    const length = Math.max(1, Math.round((entry.durationMs / total) * width));
+    const bar = ' '.repeat(start) + (entry.status === 'failed' ? 'x' : '█').repeat(Math.min(length, width - start));
+    const parallel = entry.parallelWith.length > 0 ? ` with ${entry.parallelWith.join(', ')}` : '';
+    return `${entry.stepNumber.padEnd(label)} |${bar.padEnd(width)}| ${seconds(entry.durationMs).padStart(6)} lane ${entry.lane}${parallel}`;
+  });
+
+  const lanes = Math.max(...entries.map(e => e.lane));
+  const busy = entries.reduce((sum, e) => sum + e.durationMs, 0);
+  lines.push(`${entries.length} step(s) in ${seconds(total)} on up to ${lanes} lane(s); ${seconds(busy)} of step time`);
+  return lines.join('\n');
+}
@@ -1,4 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
+import { ToolCallRecord } from '../llm/ollama-client';
 
 export interface Message {
   id: string;
@@ -12,6 +13,7 @@ export interface Message {
     toolName?: string;
     toolArgs?: any;
     toolResult?: any;
+    toolCalls?: ToolCallRecord[]; // Tool calls executed while producing this message
     streamComplete?: boolean;
     tokenCount?: number;
     error?: Error;
@@ -1,4 +1,9 @@
 import axios, { AxiosInstance } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { ModelInfo } from '../providers/types';
+
+// Used when the model does not report a context length
+const DEFAULT_CONTEXT_WINDOW = 8192;
 
 /**
  * Custom exception for LLM-related errors
@@ -38,6 +43,16 @@ export class LLMTimeoutError extends Error {
   }
 }
 
+export class LLMAbortedError extends Error {
+  constructor(
+    public readonly context: Record<string, any>
+  ) {
+    super('LLM request was aborted');
+    this.name = 'LLMAbortedError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
 export class InvalidToolCallError extends Error {
   constructor(
     public readonly toolCallData: any,
@@ -56,6 +71,8 @@ export interface Message {
   role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
   tool_call_id?: string;
+  tool_name?: string;      // Name of the tool that produced a 'tool' message
+  tool_calls?: ToolCall[]; // Tool calls requested by an 'assistant' message
 }
 
 /**
@@ -64,6 +81,7 @@ export interface Message {
 export interface Tool {
   name: string;
   description: string;
+  readOnly?: boolean; // No side effects: calls may run concurrently with other read-only calls
   parameters: {
     type: 'object';
     properties: Record<string, {
@@ -79,10 +97,64 @@ export interface Tool {
  * Tool call response from LLM
  */
 export interface ToolCall {
+  id: string;
   name: string;
   arguments: Record<string, any>;
 }
 
+/**
+ * Outcome of one executed tool call, keyed by the call id
+ */
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  result?: any;
+  error?: string;
+  startedAt: string; // ISO timestamp
+  durationMs: number;
+}
+
+/**
+ * Passed to tool functions alongside their arguments
+ */
+export interface ToolContext {
+  callId: string;
+  signal?: AbortSignal; // Aborted when the run is cancelled; long-running tools should stop
+  // Ask the user to confirm a risky step inside a tool (set when the session has a permission layer)
+  requestApproval?: (reason: string, preview: { kind: 'diff' | 'command' | 'args'; text: string }) => Promise<boolean>;
+  // Record files a tool changed (content before and after, null = missing) so they can be undone
+  recordEdit?: (files: Array<{ path: string; before: string | null; after: string | null }>) => Promise<void>;
+  // Directory relative paths are resolved against (default: process.cwd())
+  workDir?: string;
+  // Shell commands are recorded by the caller instead of run (plan dry runs)
+  dryRun?: boolean;
+}
+
+/**
+ * How tool calls are exchanged with the model:
+ * - native: Ollama's structured `tools` field on /api/chat
+ * - prompt: tool descriptions injected as a system prompt, calls parsed from ```json blocks
+ * - auto:   native first, falling back to prompt if the model does not support tools
+ */
+export type ToolCallingMode = 'auto' | 'native' | 'prompt';
+
+/**
+ * Result of a chat completion with tools
+ */
+export interface ChatWithToolsResponse {
+  content: string;
+  toolCalls: ToolCall[];
+  mode: Exclude<ToolCallingMode, 'auto'>;
+}
+
+/**
+ * Per-request options
+ */
+export interface ChatOptions {
+  signal?: AbortSignal; // Aborts the in-flight request (no retries after abort)
+}
+
 /**
  * Configuration for Ollama client
  */
@@ -92,6 +164,7 @@ export interface OllamaConfig {
   temperature?: number;
   timeout?: number;
   maxRetries?: number;
+  toolCallingMode?: ToolCallingMode;
 }
 
 /**
@@ -103,6 +176,7 @@ interface OllamaResponse {
   message: {
     role: string;
     content: string;
+    tool_calls?: OllamaToolCall[];
   };
   done: boolean;
   total_duration?: number;
@@ -111,6 +185,27 @@ interface OllamaResponse {
   eval_count?: number;
 }
 
+/**
+ * Tool call as represented on the wire by Ollama's /api/chat
+ */
+interface OllamaToolCall {
+  id?: string;
+  function: {
+    name: string;
+    arguments: Record<string, any> | string;
+  };
+}
+
+/**
+ * Message as sent to Ollama's /api/chat
+ */
+interface OllamaMessage {
+  role: string;
+  content: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
 /**
  * Client for interacting with local Ollama LLM
  */
@@ -118,11 +213,15 @@ export class OllamaClient {
   private readonly client: AxiosInstance;
   private readonly config: Required<OllamaConfig>;
 
+  // Whether the current model accepts the native `tools` field (null = not probed yet)
+  private nativeToolSupport: boolean | null = null;
+
   constructor(config: OllamaConfig) {
     this.config = {
       temperature: 0.7,
       timeout: 120000,
       maxRetries: 3,
+      toolCallingMode: 'auto',
       ...config,
     };
 
@@ -138,44 +237,162 @@ export class OllamaClient {
   /**
    * Simple chat completion without tools
    */
-  async chat(messages: Message[]): Promise<string> {
+  async chat(messages: Message[], options: ChatOptions = {}): Promise<string> {
     this.validateMessages(messages);
 
+    const data = await this.postChat({
+      messages: this.toOllamaMessages(messages, false),
+    }, messages.length, options.signal);
+
+    if (!data?.message?.content) {
+      throw new LLMResponseError(
+        200,
+        data,
+        { messageCount: messages.length, model: this.config.model }
+      );
+    }
+
+    return data.message.content;
+  }
+
+  /**
+   * Chat with tool calling support
+   *
+   * Uses Ollama's native `tools` field when the model supports it and falls back
+   * to the prompt-based protocol otherwise. Every returned tool call carries an id
+   * so the caller can answer it with a `tool` message referencing that id.
+   */
+  async chatWithTools(
+    messages: Message[],
+    tools: Tool[],
+    options: ChatOptions = {}
+  ): Promise<ChatWithToolsResponse> {
+    this.validateMessages(messages);
+    this.validateTools(tools);
+
+    if (this.shouldUseNativeTools()) {
+      try {
+        const response = await this.chatWithNativeTools(messages, tools, options);
+        this.nativeToolSupport = true;
+        return response;
+      } catch (error) {
+        if (this.config.toolCallingMode === 'auto' && this.isToolsUnsupportedError(error)) {
+          console.warn(`Model "${this.config.model}" does not support native tools, falling back to prompt-based tool calling`);
+          this.nativeToolSupport = false;
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    return this.chatWithPromptTools(messages, tools, options);
+  }
+
+  /**
+   * Tool calling through Ollama's structured `tools` field
+   */
+  private async chatWithNativeTools(
+    messages: Message[],
+    tools: Tool[],
+    options: ChatOptions
+  ): Promise<ChatWithToolsResponse> {
+    const data = await this.postChat({
+      messages: this.toOllamaMessages(messages, true),
+      tools: tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      })),
+    }, messages.length, options.signal);
+
+    if (!data?.message) {
+      throw new LLMResponseError(
+        200,
+        data,
+        { messageCount: messages.length, model: this.config.model }
+      );
+    }
+
+    const toolCalls = (data.message.tool_calls || []).map(tc => this.fromOllamaToolCall(tc));
+
+    return {
+      content: data.message.content || '',
+      toolCalls,
+      mode: 'native',
+    };
+  }
+
+  /**
+   * Tool calling through an injected system prompt and ```json blocks
+   */
+  private async chatWithPromptTools(
+    messages: Message[],
+    tools: Tool[],
+    options: ChatOptions
+  ): Promise<ChatWithToolsResponse> {
+    const toolPrompt = this.buildToolPrompt(tools);
+    const enhancedMessages: Message[] = [
+      {
+        role: 'system',
+        content: toolPrompt,
+      },
+      ...messages,
+    ];
+
+    const response = await this.chat(enhancedMessages, options);
+    const toolCalls = this.parseToolCalls(response);
+
+    return {
+      content: response,
+      toolCalls,
+      mode: 'prompt',
+    };
+  }
+
+  /**
+   * POST to /api/chat with retries and error classification
+   */
+  private async postChat(
+    body: { messages: OllamaMessage[]; tools?: any[] },
+    messageCount: number,
+    signal?: AbortSignal
+  ): Promise<OllamaResponse> {
     const context = {
-      messageCount: messages.length,
+      messageCount,
       model: this.config.model,
+      native_tools: !!body.tools,
       timestamp: new Date().toISOString(),
     };
 
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      if (signal?.aborted) {
+        throw new LLMAbortedError({ ...context, attempt });
+      }
+
       try {
         const response = await this.client.post<OllamaResponse>('/api/chat', {
           model: this.config.model,
-          messages: messages.map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
+          ...body,
           stream: false,
           options: {
             temperature: this.config.temperature,
           },
-        });
-
-        if (!response.data?.message?.content) {
-          throw new LLMResponseError(
-            response.status,
-            response.data,
-            { ...context, attempt }
-          );
-        }
+        }, { signal });
 
-        return response.data.message.content;
+        return response.data;
 
       } catch (error: any) {
         lastError = error;
 
+        if (signal?.aborted || axios.isCancel(error)) {
+          throw new LLMAbortedError({ ...context, attempt });
+        }
+
         if (error.code === 'ECONNREFUSED') {
           throw new LLMConnectionError(
             this.config.baseUrl,
@@ -205,33 +422,115 @@ export class OllamaClient {
   }
 
   /**
-   * Chat with tool calling support
+   * Whether the next tool request should use the native protocol
    */
-  async chatWithTools(
-    messages: Message[],
-    tools: Tool[]
-  ): Promise<{ content: string; toolCalls: ToolCall[] }> {
-    this.validateMessages(messages);
-    this.validateTools(tools);
+  private shouldUseNativeTools(): boolean {
+    switch (this.config.toolCallingMode) {
+      case 'native':
+        return true;
+      case 'prompt':
+        return false;
+      default:
+        return this.nativeToolSupport !== false;
+    }
+  }
 
-    const toolPrompt = this.buildToolPrompt(tools);
-    const enhancedMessages: Message[] = [
-      {
-        role: 'system',
-        content: toolPrompt,
-      },
-      ...messages,
-    ];
+  /**
+   * Detect Ollama's "model does not support tools" rejection
+   */
+  private isToolsUnsupportedError(error: unknown): boolean {
+    if (!(error instanceof LLMResponseError) || error.statusCode !== 400) {
+      return false;
+    }
 
-    const response = await this.chat(enhancedMessages);
-    const toolCalls = this.parseToolCalls(response);
+    const detail = typeof error.responseData === 'string'
+      ? error.responseData
+      : error.responseData?.error || '';
+
+    return /does not support tools/i.test(String(detail));
+  }
+
+  /**
+   * Convert messages to Ollama's wire format
+   *
+   * In prompt mode, tool calls stay embedded in the assistant content and
+   * consecutive tool results are folded into a single user message.
+   */
+  private toOllamaMessages(messages: Message[], native: boolean): OllamaMessage[] {
+    const result: OllamaMessage[] = [];
+    let previousWasTool = false;
+
+    for (const m of messages) {
+      if (native) {
+        const msg: OllamaMessage = { role: m.role, content: m.content };
+        if (m.role === 'assistant' && m.tool_calls?.length) {
+          msg.tool_calls = m.tool_calls.map(tc => ({
+            id: tc.id,
+            function: { name: tc.name, arguments: tc.arguments },
+          }));
+        }
+        if (m.role === 'tool' && m.tool_name) {
+          msg.tool_name = m.tool_name;
+        }
+        result.push(msg);
+        continue;
+      }
+
+      if (m.role === 'tool') {
+        const label = `Tool "${m.tool_name || 'unknown'}"${m.tool_call_id ? ` (call ${m.tool_call_id})` : ''} result:\n${m.content}`;
+
+        if (previousWasTool) {
+          result[result.length - 1].content += `\n\n${label}`;
+        } else {
+          result.push({ role: 'user', content: `Tool execution results:\n\n${label}` });
+        }
+        previousWasTool = true;
+        continue;
+      }
+
+      result.push({ role: m.role, content: m.content });
+      previousWasTool = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Normalize a native tool call, assigning an id when Ollama omits one
+   */
+  private fromOllamaToolCall(toolCall: OllamaToolCall): ToolCall {
+    const name = toolCall.function?.name;
+    if (!name || typeof name !== 'string') {
+      throw new InvalidToolCallError(toolCall, 'Missing or invalid function name');
+    }
+
+    let args = toolCall.function.arguments ?? {};
+    if (typeof args === 'string') {
+      try {
+        args = JSON.parse(args);
+      } catch {
+        throw new InvalidToolCallError(toolCall, 'Arguments are not valid JSON');
+      }
+    }
+
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      throw new InvalidToolCallError(toolCall, 'Arguments must be an object');
+    }
 
     return {
-      content: response,
-      toolCalls,
+      id: toolCall.id || this.generateCallId(),
+      name,
+      arguments: args as Record<string, any>,
     };
   }
 
+  /**
+   * Generate a unique tool call id
+   */
+  private generateCallId(): string {
+    return `call_${uuidv4()}`;
+  }
+
   /**
    * Build a prompt that instructs the LLM how to call tools
    */
@@ -296,6 +595,7 @@ You can use multiple tools by including multiple JSON blocks. Always explain wha
         }
 
         toolCalls.push({
+          id: this.generateCallId(),
           name: parsed.tool,
           arguments: parsed.arguments,
         });
@@ -437,6 +737,40 @@ You can use multiple tools by including multiple JSON blocks. Always explain wha
     }
   }
 
+  /**
+   * Get the current model's context window from /api/show.
+   * Prefers an explicit num_ctx parameter over the model's trained length.
+   */
+  async getModelInfo(): Promise<ModelInfo> {
+    let contextWindow = DEFAULT_CONTEXT_WINDOW;
+
+    try {
+      const response = await this.client.post('/api/show', { model: this.config.model });
+      const numCtx = /(?:^|\n)\s*num_ctx\s+(\d+)/.exec(response.data?.parameters || '');
+      const trained = Object.entries(response.data?.model_info || {})
+        .find(([key]) => key.endsWith('.context_length'));
+
+      if (numCtx) {
+        contextWindow = parseInt(numCtx[1], 10);
+      } else if (trained && typeof trained[1] === 'number') {
+        contextWindow = trained[1];
+      }
+    } catch (error: any) {
+      throw new LLMConnectionError(
+        this.config.baseUrl,
+        error,
+        { operation: 'getModelInfo', model: this.config.model }
+      );
+    }
+
+    return {
+      id: this.config.model,
+      name: this.config.model,
+      contextWindow,
+      provider: 'ollama',
+    };
+  }
+
   /**
    * Pull a model from Ollama library
    */
@@ -1,7 +1,12 @@
 import { OllamaClient } from '../llm/ollama-client';
-import { ImplementationAgent } from '../agents/implementation-agent';
-import { SpecializedAgentConfig } from '../agents/specialized-agent';
-import { PlanExecutor, ExecutionResult } from '../executor/plan-executor';
+import { LLMSource, checkLLMHealth, createDefaultLLM, describeLLM } from '../providers/ProviderFactory';
+import { SpecializedAgent, SpecializedAgentConfig, AgentOutput } from '../agents/specialized-agent';
+import { ReviewAgent } from '../agents/review-agent';
+import { RaisedFinding, isBlockingFinding } from '../agents/review-format';
+import { AgentTypeRegistry, getAgentTypeRegistry } from '../agents/agent-types';
+import { PlanExecutor, ExecutionResult, PlanExecutionOptions } from '../executor/plan-executor';
+import { parsePlanDocument } from '../executor/plan-format';
+import { ReviewRound, ReviewReport, DEFAULT_REVIEW_ROUNDS, buildReviewReport, formatReviewReport } from './review-loop';
 import path from 'path';
 import fs from 'fs/promises';
 
@@ -65,6 +70,8 @@ export interface TaskRequest {
   requiredAgents: string[];
   autoExecute: boolean;
   parallel?: boolean;
+  // Most reviews of the implementation plan when reviewer agents are requested
+  reviewRounds?: number;
 }
 
 /**
@@ -74,6 +81,7 @@ export interface TaskResult {
   taskDescription: string;
   plans: Record<string, string>;
   execution?: ExecutionResult;
+  review?: ReviewReport;
   summary: string;
 }
 
@@ -81,31 +89,57 @@ export interface TaskResult {
  * Orchestrates multiple specialized agents to complete complex tasks
  */
 export class MultiAgentOrchestrator {
-  private llm: OllamaClient;
-  private executor: PlanExecutor;
+  private llm: LLMSource | Promise<LLMSource> | null;
+  private executor: PlanExecutor | null = null;
   private baseOutputDir: string;
   private promptTemplatesDir: string;
   private agentRegistry: AgentRecord[];
   private agentCounter: number;
+  private agentTypes: AgentTypeRegistry;
 
+  /**
+   * @param llm - LLM for the plan executor and every spawned agent; without
+   * one, the default provider from LLMConfigManager is created on initialize()
+   */
   constructor(
-    ollamaEndpoint: string,
-    model: string = 'llama3.1:latest',
+    llm: LLMSource | null = null,
     baseOutputDir: string = './plans',
     promptTemplatesDir: string = './.claude/prompts'
   ) {
-    this.llm = new OllamaClient({
+    this.llm = llm;
+    if (llm) {
+      this.executor = new PlanExecutor(llm);
+    }
+    this.baseOutputDir = baseOutputDir;
+    this.promptTemplatesDir = promptTemplatesDir;
+    this.agentRegistry = [];
+    this.agentCounter = 0;
+    this.agentTypes = getAgentTypeRegistry();
+  }
+
+  /**
+   * Orchestrator on a specific Ollama model instead of the default provider
+   */
+  static forOllama(
+    ollamaEndpoint: string,
+    model: string = 'llama3.1:latest',
+    baseOutputDir?: string,
+    promptTemplatesDir?: string
+  ): MultiAgentOrchestrator {
+    const llm = new OllamaClient({
       baseUrl: ollamaEndpoint,
       model: model,
       temperature: 0.7,
       timeout: 120000,
     });
+    return new MultiAgentOrchestrator(llm, baseOutputDir, promptTemplatesDir);
+  }
 
-    this.executor = new PlanExecutor(this.llm);
-    this.baseOutputDir = baseOutputDir;
-    this.promptTemplatesDir = promptTemplatesDir;
-    this.agentRegistry = [];
-    this.agentCounter = 0;
+  /**
+   * Agent types this orchestrator can spawn
+   */
+  getAgentTypes(): AgentTypeRegistry {
+    return this.agentTypes;
   }
 
   /**
@@ -113,12 +147,15 @@ export class MultiAgentOrchestrator {
    */
   async initialize(): Promise<void> {
     try {
-      // Check Ollama health
-      const health = await this.llm.healthCheck();
+      const llm = await this.getLLMClient();
+      this.executor ??= new PlanExecutor(llm);
+
+      // Check LLM health
+      const health = await checkLLMHealth(llm);
       if (!health.healthy) {
         throw new OrchestratorInitError(
           health.error || 'LLM health check failed',
-          { endpoint: this.llm.getConfig().baseUrl }
+          { llm: describeLLM(llm) }
         );
       }
 
@@ -130,7 +167,7 @@ export class MultiAgentOrchestrator {
       await this.loadRegistry();
 
       console.log('✅ Orchestrator initialized successfully');
-      console.log(`   LLM: ${this.llm.getConfig().model} at ${this.llm.getConfig().baseUrl}`);
+      console.log(`   LLM: ${describeLLM(llm)}`);
       console.log(`   Output: ${this.baseOutputDir}`);
       console.log(`   Templates: ${this.promptTemplatesDir}`);
     } catch (error: any) {
@@ -150,28 +187,32 @@ export class MultiAgentOrchestrator {
     console.log(`   Domain: ${request.domain}`);
     console.log(`   Agents: ${request.requiredAgents.join(', ')}`);
 
+    // Unknown types fail before any agent runs
+    this.agentTypes.validate(request.requiredAgents);
+
     const plans: Record<string, string> = {};
     const dependencies: string[] = [];
 
+    // Reviewers review the implementation plan in rounds instead of writing their own plan first
+    const reviewerTypes = request.requiredAgents.includes('implementation')
+      ? request.requiredAgents.filter(type => this.isReviewerType(type))
+      : [];
+
     try {
       // Execute each agent sequentially
+      let planner: SpecializedAgent | undefined;
       for (const agentType of request.requiredAgents) {
+        if (reviewerTypes.includes(agentType)) {
+          continue;
+        }
         console.log(`\n🤖 Spawning ${agentType} agent...`);
 
         const agent = await this.spawnAgent(agentType, request.domain);
         const output = await agent.execute(request.description, dependencies);
-
-        // Register agent execution
-        await this.registerAgent({
-          agentId: output.agentId,
-          agentType: output.agentType,
-          domain: output.domain,
-          task: request.description,
-          planFile: output.planFile,
-          timestamp: output.timestamp.toISOString(),
-          status: 'completed',
-          metadata: output.metadata,
-        });
+        await this.registerOutput(output, request.description);
+        if (agentType === 'implementation') {
+          planner = agent;
+        }
 
         plans[agentType] = output.planFile;
         dependencies.push(output.planFile);
@@ -181,11 +222,18 @@ export class MultiAgentOrchestrator {
         console.log(`   Time: ${output.executionTime.toFixed(2)}s`);
       }
 
+      let review: ReviewReport | undefined;
+      if (planner && reviewerTypes.length > 0) {
+        review = await this.runReviewLoop(request, planner, reviewerTypes, plans);
+      }
+
       // Auto-execute if requested
       let execution: ExecutionResult | undefined;
-      if (request.autoExecute && plans.implementation) {
+      if (request.autoExecute && plans.implementation && review && !review.converged) {
+        console.log(`\n⚠️ Not executing: ${review.blockingOpen} blocking review finding(s) are still open`);
+      } else if (request.autoExecute && plans.implementation) {
         console.log('\n⚙️ Auto-executing implementation plan...');
-        execution = await this.executor.executePlan(plans.implementation);
+        execution = await this.getPlanExecutor().executePlan(plans.implementation);
         
         if (execution.success) {
           console.log('✅ Implementation executed successfully');
@@ -194,12 +242,13 @@ export class MultiAgentOrchestrator {
         }
       }
 
-      const summary = this.generateSummary(request, plans, execution);
+      const summary = this.generateSummary(request, plans, execution, review);
 
       return {
         taskDescription: request.description,
         plans,
         execution,
+        review,
         summary,
       };
 
@@ -213,27 +262,88 @@ export class MultiAgentOrchestrator {
   }
 
   /**
-   * Spawn a specialized agent
+   * Let reviewers review the implementation plan and the planner revise it
+   * until no blocking findings remain or the round limit is reached. Updates
+   * `plans` to the last review and revision.
+   */
+  private async runReviewLoop(
+    request: TaskRequest,
+    planner: SpecializedAgent,
+    reviewerTypes: string[],
+    plans: Record<string, string>
+  ): Promise<ReviewReport> {
+    const maxRounds = Math.max(1, request.reviewRounds ?? DEFAULT_REVIEW_ROUNDS);
+    const reviewers: Array<{ type: string; agent: ReviewAgent }> = [];
+    for (const type of reviewerTypes) {
+      console.log(`\n🤖 Spawning ${type} agent...`);
+      reviewers.push({ type, agent: await this.spawnAgent(type, request.domain) as ReviewAgent });
+    }
+
+    const rounds: ReviewRound[] = [];
+    let planFile = plans.implementation;
+    for (let round = 1; round <= maxRounds; round++) {
+      console.log(`\n🔍 Review round ${round}/${maxRounds}`);
+      const previous = rounds[rounds.length - 1];
+      const findings: RaisedFinding[] = [];
+
+      for (const { type, agent } of reviewers) {
+        const output = await agent.review(request.description, planFile, {
+          round,
+          previous: previous?.findings.filter(f => f.reviewer === type) ?? [],
+          responses: previous?.responses ?? [],
+        });
+        await this.registerOutput(output, request.description);
+        plans[type] = output.planFile;
+        findings.push(...(output.findings ?? []).map(finding => ({ ...finding, reviewer: type })));
+      }
+
+      const current: ReviewRound = { round, planFile, findings, responses: [] };
+      rounds.push(current);
+      const blocking = findings.filter(isBlockingFinding).length;
+      console.log(`   ${findings.length} finding(s), ${blocking} blocking`);
+      if (blocking === 0 || round === maxRounds) {
+        break;
+      }
+
+      console.log(`   Revising the implementation plan...`);
+      const revision = await planner.revise(request.description, planFile, findings, round + 1);
+      await this.registerOutput(revision, request.description);
+      current.responses = parsePlanDocument(revision.planContent).spec.reviewResponses;
+      planFile = revision.planFile;
+      plans.implementation = planFile;
+    }
+
+    return buildReviewReport(rounds);
+  }
+
+  /**
+   * Whether a registered type reviews plans instead of writing them
+   */
+  private isReviewerType(agentType: string): boolean {
+    return this.agentTypes.resolve(agentType).agentClass.prototype instanceof ReviewAgent;
+  }
+
+  /**
+   * Spawn a specialized agent of a registered type
    */
   private async spawnAgent(
     agentType: string,
     domain: string
-  ): Promise<ImplementationAgent> {
+  ): Promise<SpecializedAgent> {
     try {
+      const definition = this.agentTypes.resolve(agentType);
       this.agentCounter++;
       const agentId = `${agentType}-${this.agentCounter.toString().padStart(3, '0')}`;
 
       const config: SpecializedAgentConfig = {
         agentId,
-        domain,
-        promptTemplatePath: path.join(this.promptTemplatesDir, `${agentType}-agent.md`),
+        domain: domain || definition.defaultDomain,
+        promptTemplatePath: path.resolve(this.promptTemplatesDir, definition.templateFile),
         outputDir: path.join(this.baseOutputDir, agentType),
-        llm: this.llm,
+        llm: await this.getLLMClient(),
       };
 
-      // For now, all agents use ImplementationAgent base
-      // TODO: Create separate SecurityAgent, PerformanceAgent, etc.
-      const agent = new ImplementationAgent(config);
+      const agent = new definition.agentClass(config);
       await agent.loadPromptTemplate();
 
       return agent;
@@ -248,7 +358,8 @@ export class MultiAgentOrchestrator {
   private generateSummary(
     request: TaskRequest,
     plans: Record<string, string>,
-    execution?: ExecutionResult
+    execution?: ExecutionResult,
+    review?: ReviewReport
   ): string {
     let summary = `# Multi-Agent Execution Summary\n\n`;
     summary += `**Task:** ${request.description}\n`;
@@ -260,6 +371,10 @@ export class MultiAgentOrchestrator {
       summary += `- **${agentType}**: \`${planFile}\`\n`;
     }
 
+    if (review) {
+      summary += `\n${formatReviewReport(review)}`;
+    }
+
     if (execution) {
       summary += `\n## Execution Results\n\n`;
       summary += `- **Status:** ${execution.success ? '✅ Success' : '❌ Failed'}\n`;
@@ -267,19 +382,33 @@ export class MultiAgentOrchestrator {
       summary += `- **Checkpoints Reached:** ${execution.checkpointsReached.length}\n`;
       summary += `- **Execution Time:** ${execution.executionTime.toFixed(2)}s\n`;
       
+      if (execution.workspace) {
+        summary += `- **Branch:** \`${execution.workspace.branch}\` (run \`${execution.workspace.runId}\`)\n`;
+      }
+      
       if (!execution.success) {
         summary += `- **Failed at:** ${execution.failedStep}\n`;
         summary += `- **Error:** ${execution.error?.message}\n`;
+        if (execution.rolledBackTo) {
+          summary += `- **Rolled back to:** ${execution.rolledBackTo}\n`;
+        }
       }
     }
 
     summary += `\n## Next Steps\n\n`;
-    if (!execution && plans.implementation) {
+    if (review && !review.converged) {
+      summary += `1. Address the open blocking findings in \`${plans.implementation}\`\n`;
+      summary += `2. Re-run the review, or execute the plan once the remaining risks are accepted\n`;
+    } else if (!execution && plans.implementation) {
       summary += `1. Review the generated plans\n`;
       summary += `2. Execute the implementation plan:\n`;
       summary += `   \`\`\`\n`;
       summary += `   pnpm run execute-plan ${plans.implementation}\n`;
       summary += `   \`\`\`\n`;
+    } else if (execution?.success && execution.workspace) {
+      summary += `1. Review the changes on branch \`${execution.workspace.branch}\`\n`;
+      summary += `2. Merge them into your working tree with \`selek runs accept ${execution.workspace.runId}\`\n`;
+      summary += `   (or drop them with \`selek runs discard ${execution.workspace.runId}\`)\n`;
     } else if (execution?.success) {
       summary += `1. Review the implemented code\n`;
       summary += `2. Run tests to verify functionality\n`;
@@ -325,6 +454,22 @@ export class MultiAgentOrchestrator {
     );
   }
 
+  /**
+   * Register a completed agent run
+   */
+  private async registerOutput(output: AgentOutput, task: string): Promise<void> {
+    await this.registerAgent({
+      agentId: output.agentId,
+      agentType: output.agentType,
+      domain: output.domain,
+      task,
+      planFile: output.planFile,
+      timestamp: output.timestamp.toISOString(),
+      status: 'completed',
+      metadata: output.metadata,
+    });
+  }
+
   /**
    * Register an agent execution
    */
@@ -360,21 +505,35 @@ export class MultiAgentOrchestrator {
   /**
    * Execute a plan directly (without agent spawning)
    */
-  async executePlan(planFile: string, dryRun: boolean = false): Promise<ExecutionResult> {
-    return await this.executor.executePlan(planFile, dryRun);
+  async executePlan(planFile: string, dryRun: boolean = false, options: PlanExecutionOptions = {}): Promise<ExecutionResult> {
+    return await this.getPlanExecutor().executePlan(planFile, dryRun, options);
   }
 
   /**
-   * Get the LLM client (for advanced usage)
+   * Get the LLM client (for advanced usage). Creates the default provider if
+   * none was given.
+   * @throws {ProviderError} If the default provider cannot be created
    */
-  getLLMClient(): OllamaClient {
+  async getLLMClient(): Promise<LLMSource> {
+    if (!this.llm) {
+      // Shared by concurrent callers; a failed attempt is retried next time
+      this.llm = createDefaultLLM().catch(error => {
+        this.llm = null;
+        throw error;
+      });
+    }
+    this.llm = await this.llm;
     return this.llm;
   }
 
   /**
    * Get the plan executor (for advanced usage)
+   * @throws {OrchestratorInitError} Before initialize() when no LLM was given
    */
   getPlanExecutor(): PlanExecutor {
+    if (!this.executor) {
+      throw new OrchestratorInitError('not initialized', {});
+    }
     return this.executor;
   }
 }
@@ -0,0 +1,114 @@
+/**
+ * Review rounds between the implementation agent and reviewer agents, and
+ * the report of what became of each finding.
+ */
+
+import { PlanReviewResponse } from '../executor/plan-format';
+import { RaisedFinding, isBlockingFinding, findingKey } from '../agents/review-format';
+
+export const DEFAULT_REVIEW_ROUNDS = 3;
+
+/**
+ * One review of the implementation plan and the planner's answers to it
+ */
+export interface ReviewRound {
+  round: number;
+  planFile: string; // Plan the reviewers looked at
+  findings: RaisedFinding[];
+  responses: PlanReviewResponse[]; // From the revision that followed, if any
+}
+
+/**
+ * resolved: a later review no longer reports it; accepted: the planner
+ * accepted the risk; deferred: still open when the review loop ended
+ */
+export type FindingStatus = 'resolved' | 'accepted' | 'deferred';
+
+export interface FindingOutcome extends RaisedFinding {
+  blocking: boolean; // As of the last round that reported it
+  status: FindingStatus;
+  raisedInRound: number;
+  closedInRound?: number; // First round that no longer reported it
+  response?: PlanReviewResponse; // Planner's last answer
+}
+
+export interface ReviewReport {
+  rounds: ReviewRound[];
+  findings: FindingOutcome[];
+  blockingOpen: number; // Blocking findings in the last review
+  converged: boolean; // Whether the loop ended with no blocking findings
+}
+
+/**
+ * Follow every finding across the rounds
+ */
+export function buildReviewReport(rounds: ReviewRound[]): ReviewReport {
+  const outcomes = new Map<string, FindingOutcome>();
+  const last = rounds[rounds.length - 1];
+
+  for (const round of rounds) {
+    for (const finding of round.findings) {
+      const outcome = outcomes.get(findingKey(finding));
+      outcomes.set(findingKey(finding), {
+        ...finding,
+        blocking: isBlockingFinding(finding),
+        status: 'deferred',
+        raisedInRound: outcome?.raisedInRound ?? round.round,
+        response: outcome?.response,
+      });
+    }
+    for (const response of round.responses) {
+      // The planner answers by id; "<reviewer>:<id>" picks one of several findings with that id
+      const answered = round.findings.filter(f => findingKey(f) === response.finding);
+      const matches = answered.length > 0 ? answered : round.findings.filter(f => f.id === response.finding);
+      if (matches.length === 1) {
+        outcomes.get(findingKey(matches[0]))!.response = response;
+      }
+    }
+  }
+
+  const open = new Set(last?.findings.map(findingKey) ?? []);
+  for (const [key, outcome] of outcomes) {
+    if (!open.has(key)) {
+      outcome.status = 'resolved';
+      outcome.closedInRound = rounds.find(r => r.round > outcome.raisedInRound && !r.findings.some(f => findingKey(f) === key))?.round;
+    } else if (outcome.response?.decision === 'accepted') {
+      outcome.status = 'accepted';
+    }
+  }
+
+  const blockingOpen = last?.findings.filter(isBlockingFinding).length ?? 0;
+  return { rounds, findings: [...outcomes.values()], blockingOpen, converged: blockingOpen === 0 };
+}
+
+/**
+ * Markdown report of the review, grouped by finding status
+ */
+export function formatReviewReport(report: ReviewReport): string {
+  let text = `## Review\n\n`;
+  text += `- **Rounds:** ${report.rounds.length}\n`;
+  text += `- **Outcome:** ${report.converged ? '✅ No blocking findings' : `❌ ${report.blockingOpen} blocking finding(s) open`}\n`;
+
+  const groups: Array<[FindingStatus, string]> = [['resolved', 'Resolved'], ['accepted', 'Accepted'], ['deferred', 'Deferred']];
+  for (const [status, heading] of groups) {
+    const findings = report.findings.filter(f => f.status === status);
+    if (findings.length === 0) {
+      continue;
+    }
+    text += `\n### ${heading}\n\n`;
+    for (const finding of findings) {
+      text += `- **${finding.id}** [${finding.severity}] (${finding.reviewer}) ${finding.title}`;
+      if (finding.location) {
+        text += ` - ${finding.location}`;
+      }
+      if (status === 'resolved' && finding.closedInRound) {
+        text += ` - resolved in round ${finding.closedInRound}`;
+      }
+      if (finding.response?.note) {
+        text += ` - ${finding.response.note}`;
+      }
+      text += '\n';
+    }
+  }
+  return text;
+}
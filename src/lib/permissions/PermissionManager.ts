@@ -0,0 +1,369 @@
+/**
+ * Per-session permission layer for tool calls: each call is allowed, denied
+ * or held for approval according to the session policy and the agent's
+ * settings. Pending approvals are resolved by the TUI or the HTTP API.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ToolCall, ToolContext } from '../llm/ollama-client';
+import { createUnifiedDiff } from '../tools/unified-diff';
+import { resolveToolPath } from '../tools/toolFunctions';
+
+export type PermissionDecision = 'allow' | 'deny' | 'ask';
+export type ApprovalChoice = 'allow-once' | 'allow-always' | 'deny';
+
+/**
+ * Session policy. Per-tool rules win over the two defaults.
+ */
+export interface PermissionPolicy {
+  defaultDecision?: PermissionDecision; // Tools with side effects (default: ask)
+  readOnlyDecision?: PermissionDecision; // Tools flagged readOnly (default: allow)
+  tools?: Record<string, PermissionDecision>;
+}
+
+/**
+ * What the user is shown before deciding
+ */
+export interface ApprovalPreview {
+  kind: 'diff' | 'command' | 'args';
+  text: string;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  agentName: string;
+  toolName: string;
+  toolCallId: string;
+  args: Record<string, any>;
+  reason: string;
+  preview: ApprovalPreview;
+  status: 'pending' | 'approved' | 'denied' | 'cancelled' | 'expired';
+  choice?: ApprovalChoice;
+  note?: string; // Optional explanation given with the decision
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+export interface PermissionCheck {
+  allowed: boolean;
+  decision: PermissionDecision;
+  reason: string;
+  request?: ApprovalRequest;
+}
+
+export interface AuthorizeOptions {
+  agentName: string;
+  readOnly: boolean;
+  requiresApproval?: boolean; // Agent setting: every call with side effects needs approval
+  signal?: AbortSignal;
+  workDir?: string; // Directory the tool call runs in (e.g. a plan worktree)
+}
+
+export interface PermissionManagerOptions {
+  approvalTimeoutMs?: number; // Pending approvals expire (as denied) after this long
+}
+
+export type ApprovalListener = (request: ApprovalRequest) => void;
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  alwaysKey: string;
+  settle: (status: ApprovalRequest['status'], choice?: ApprovalChoice, note?: string) => void;
+}
+
+const MAX_HISTORY = 200;
+
+let approvalCounter = 0;
+
+/**
+ * Preview for a tool call: a unified diff for file changes, the command line
+ * for bashExec, the arguments otherwise. File paths are read and labelled
+ * relative to the context's working directory, like the tools resolve them.
+ */
+export async function buildApprovalPreview(
+  toolCall: ToolCall,
+  context?: Pick<ToolContext, 'workDir'>
+): Promise<ApprovalPreview> {
+  const args = toolCall.arguments || {};
+  const argsPreview: ApprovalPreview = { kind: 'args', text: JSON.stringify(args, null, 2) };
+
+  const readExisting = async (p: string): Promise<string> => {
+    try {
+      return await fs.readFile(path.resolve(resolveToolPath(p, context)), 'utf-8');
+    } catch {
+      return '';
+    }
+  };
+  const label = (p: string) =>
+    path.relative(context?.workDir ?? process.cwd(), path.resolve(resolveToolPath(p, context))) || p;
+
+  switch (toolCall.name) {
+    case 'bashExec':
+      return { kind: 'command', text: args.cwd ? `(cd ${args.cwd}) ${args.cmd}` : String(args.cmd) };
+
+    case 'applyPatch':
+      return typeof args.patch === 'string' ? { kind: 'diff', text: args.patch } : argsPreview;
+
+    case 'writeFile': {
+      if (typeof args.path !== 'string') return argsPreview;
+      const before = await readExisting(args.path);
+      return { kind: 'diff', text: createUnifiedDiff(label(args.path), before, args.content ?? '') || '(no changes)' };
+    }
+
+    case 'editFile': {
+      if (typeof args.path !== 'string' || typeof args.old_string !== 'string' || typeof args.new_string !== 'string') {
+        return argsPreview;
+      }
+      const before = await readExisting(args.path);
+      const index = before.indexOf(args.old_string);
+      if (!args.old_string || index === -1) {
+        return argsPreview;
+      }
+      const after = args.replace_all === true
+        ? before.split(args.old_string).join(args.new_string)
+        : before.slice(0, index) + args.new_string + before.slice(index + args.old_string.length);
+      return { kind: 'diff', text: createUnifiedDiff(label(args.path), before, after) };
+    }
+
+    default:
+      return argsPreview;
+  }
+}
+
+/**
+ * Decides and tracks tool-call permissions for one session
+ */
+export class PermissionManager {
+  private policy: PermissionPolicy;
+  private alwaysAllowed = new Set<string>();
+  private pending = new Map<string, PendingApproval>();
+  private history: ApprovalRequest[] = [];
+  private listeners = new Set<ApprovalListener>();
+
+  constructor(
+    policy: PermissionPolicy = {},
+    private readonly options: PermissionManagerOptions = {}
+  ) {
+    this.policy = { ...policy };
+  }
+
+  getPolicy(): PermissionPolicy {
+    return { ...this.policy, tools: { ...this.policy.tools } };
+  }
+
+  setPolicy(policy: PermissionPolicy): void {
+    this.policy = { ...policy };
+  }
+
+  /**
+   * Tools (and previews such as `command:<line>`) the user chose "always" for
+   */
+  getAlwaysAllowed(): string[] {
+    return [...this.alwaysAllowed];
+  }
+
+  revokeAlways(key?: string): void {
+    if (key === undefined) {
+      this.alwaysAllowed.clear();
+    } else {
+      this.alwaysAllowed.delete(key);
+    }
+  }
+
+  /**
+   * Static decision for a tool: explicit deny > "always" grant > agent
+   * requires_approval > per-tool rule > default for read-only or mutating tools
+   */
+  decide(toolName: string, options: Omit<AuthorizeOptions, 'signal'>): { decision: PermissionDecision; reason: string } {
+    const rule = this.policy.tools?.[toolName];
+
+    if (rule === 'deny') {
+      return { decision: 'deny', reason: `${toolName} is denied by the session policy` };
+    }
+    if (this.alwaysAllowed.has(toolName)) {
+      return { decision: 'allow', reason: `${toolName} was always allowed in this session` };
+    }
+    if (options.requiresApproval && !options.readOnly) {
+      return { decision: 'ask', reason: `agent ${options.agentName} requires approval for ${toolName}` };
+    }
+    if (rule) {
+      return { decision: rule, reason: `session policy for ${toolName}` };
+    }
+
+    const decision = options.readOnly
+      ? this.policy.readOnlyDecision ?? 'allow'
+      : this.policy.defaultDecision ?? 'ask';
+    return {
+      decision,
+      reason: options.readOnly ? `${toolName} is read-only` : `${toolName} has side effects`,
+    };
+  }
+
+  /**
+   * Decide on a tool call, waiting for the user when approval is needed
+   */
+  async authorize(toolCall: ToolCall, options: AuthorizeOptions): Promise<PermissionCheck> {
+    const { decision, reason } = this.decide(toolCall.name, options);
+
+    if (decision !== 'ask') {
+      return { allowed: decision === 'allow', decision, reason };
+    }
+
+    const request = await this.requestApproval({
+      agentName: options.agentName,
+      toolName: toolCall.name,
+      toolCallId: toolCall.id,
+      args: toolCall.arguments,
+      reason,
+      preview: await buildApprovalPreview(toolCall, { workDir: options.workDir }),
+      alwaysKey: toolCall.name,
+    }, options.signal);
+
+    return {
+      allowed: request.status === 'approved',
+      decision,
+      reason: request.status === 'approved'
+        ? reason
+        : `${toolCall.name} was ${request.status === 'denied' ? 'denied by the user' : request.status}${request.note ? `: ${request.note}` : ''}`,
+      request,
+    };
+  }
+
+  /**
+   * Hold an approval until it is resolved, expires or `signal` aborts.
+   * Choosing "always" grants `alwaysKey` for the rest of the session.
+   */
+  requestApproval(
+    params: Omit<ApprovalRequest, 'id' | 'status' | 'createdAt'> & { alwaysKey: string },
+    signal?: AbortSignal
+  ): Promise<ApprovalRequest> {
+    const { alwaysKey, ...fields } = params;
+
+    if (this.alwaysAllowed.has(alwaysKey)) {
+      return Promise.resolve({
+        ...fields,
+        id: `approval_${Date.now()}_${++approvalCounter}`,
+        status: 'approved',
+        choice: 'allow-always',
+        createdAt: new Date().toISOString(),
+        resolvedAt: new Date().toISOString(),
+      });
+    }
+
+    const request: ApprovalRequest = {
+      ...fields,
+      id: `approval_${Date.now()}_${++approvalCounter}`,
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    };
+
+    return new Promise(resolve => {
+      let timer: NodeJS.Timeout | undefined;
+      const onAbort = () => settle('cancelled', undefined, typeof signal?.reason === 'string' ? signal.reason : undefined);
+
+      const settle = (status: ApprovalRequest['status'], choice?: ApprovalChoice, note?: string) => {
+        if (request.status !== 'pending') return;
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+
+        request.status = status;
+        request.choice = choice;
+        request.note = note;
+        request.resolvedAt = new Date().toISOString();
+        if (choice === 'allow-always') {
+          this.alwaysAllowed.add(alwaysKey);
+        }
+
+        this.pending.delete(request.id);
+        this.notify(request);
+        resolve(request);
+      };
+
+      this.pending.set(request.id, { request, alwaysKey, settle });
+      this.history.push(request);
+      if (this.history.length > MAX_HISTORY) {
+        this.history.shift();
+      }
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (this.options.approvalTimeoutMs) {
+        timer = setTimeout(() => settle('expired'), this.options.approvalTimeoutMs);
+      }
+
+      this.notify(request);
+    });
+  }
+
+  /**
+   * `ToolContext.requestApproval` for one tool call: risky steps inside the
+   * tool are confirmed through the same prompt. "Always" covers the exact
+   * preview (e.g. the same command line).
+   */
+  approverFor(
+    toolCall: ToolCall,
+    agentName: string,
+    signal?: AbortSignal
+  ): NonNullable<ToolContext['requestApproval']> {
+    return async (reason, preview) => (await this.requestApproval({
+      agentName,
+      toolName: toolCall.name,
+      toolCallId: toolCall.id,
+      args: toolCall.arguments,
+      reason,
+      preview,
+      alwaysKey: `${preview.kind}:${preview.text}`,
+    }, signal)).status === 'approved';
+  }
+
+  /**
+   * Answer a pending approval. Returns false if it is unknown or already resolved.
+   */
+  resolve(id: string, choice: ApprovalChoice, note?: string): boolean {
+    const pending = this.pending.get(id);
+    if (!pending) {
+      return false;
+    }
+    pending.settle(choice === 'deny' ? 'denied' : 'approved', choice, note);
+    return true;
+  }
+
+  /**
+   * Cancel every pending approval (e.g. the session is closing)
+   */
+  cancelAll(note?: string): void {
+    for (const pending of [...this.pending.values()]) {
+      pending.settle('cancelled', undefined, note);
+    }
+  }
+
+  getPending(): ApprovalRequest[] {
+    return [...this.pending.values()].map(p => p.request);
+  }
+
+  getApproval(id: string): ApprovalRequest | undefined {
+    return this.history.find(r => r.id === id);
+  }
+
+  getHistory(): ApprovalRequest[] {
+    return [...this.history];
+  }
+
+  /**
+   * Called when an approval is requested and again when it is resolved
+   */
+  onApprovalChange(listener: ApprovalListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(request: ApprovalRequest): void {
+    for (const listener of this.listeners) {
+      listener({ ...request });
+    }
+  }
+}
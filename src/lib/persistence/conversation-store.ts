@@ -1,7 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
-import { Message } from '../llm/ollama-client';
+import { Message, ToolCallRecord } from '../llm/ollama-client';
 import { ConversationTurn } from '../agent';
 
 /**
@@ -122,12 +122,27 @@ export class ConversationStore {
     try {
       const filePath = this.getConversationPath(conversationId);
       const content = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(content);
+      const data: ConversationData = JSON.parse(content);
+      data.turns = data.turns.map(turn => this.normalizeTurn(turn));
+      return data;
     } catch (error: any) {
       throw new ConversationLoadError(conversationId, error);
     }
   }
 
+  /**
+   * Get every tool call record of a conversation, tagged with its turn index
+   */
+  async getToolCallRecords(
+    conversationId: string
+  ): Promise<Array<ToolCallRecord & { turn: number }>> {
+    const data = await this.loadConversation(conversationId);
+
+    return data.turns.flatMap((turn, i) =>
+      turn.toolResults.map(record => ({ ...record, turn: i }))
+    );
+  }
+
   /**
    * Save a conversation
    */
@@ -298,6 +313,37 @@ export class ConversationStore {
     return stats;
   }
 
+  /**
+   * Upgrade turns saved before tool results were recorded per call,
+   * when `toolResults` was an object keyed by tool name. Each result takes
+   * the id and arguments of the first call to its tool, if the turn has one.
+   */
+  private normalizeTurn(turn: ConversationTurn): ConversationTurn {
+    if (Array.isArray(turn.toolResults)) {
+      return turn;
+    }
+
+    const legacy = (turn.toolResults || {}) as Record<string, any>;
+    const timestamp = new Date(turn.timestamp).toISOString();
+    const calls = turn.toolCalls || [];
+
+    return {
+      ...turn,
+      toolResults: Object.entries(legacy).map(([name, result], i) => {
+        const call = calls.find(c => c.name === name);
+        return {
+          id: call?.id || `legacy-${i}`,
+          name,
+          args: call?.arguments || {},
+          result: result?.error ? undefined : result,
+          error: result?.error,
+          startedAt: timestamp,
+          durationMs: 0,
+        };
+      }),
+    };
+  }
+
   /**
    * Generate a unique conversation ID
    */
@@ -7,6 +7,9 @@ import {
   StreamOptions,
   ModelInfo,
   ProviderConfig,
+  ToolChatMessage,
+  ToolChatResponse,
+  ToolDefinition,
   AuthenticationError,
   RateLimitError,
   ModelNotFoundError,
@@ -65,7 +68,7 @@ export class AnthropicProvider extends AbstractBaseProvider {
           role: m.role as 'user' | 'assistant',
           content: m.content,
         })),
-      });
+      }, { signal: options?.signal });
       
       for await (const event of stream) {
         if (event.type === 'content_block_start') {
@@ -109,6 +112,127 @@ export class AnthropicProvider extends AbstractBaseProvider {
     }
   }
   
+  async chatWithTools(
+    messages: ToolChatMessage[],
+    tools: ToolDefinition[],
+    options?: StreamOptions
+  ): Promise<ToolChatResponse> {
+    try {
+      const system = messages
+        .filter(m => m.role === 'system')
+        .map(m => m.content)
+        .join('\n\n');
+      
+      const response = await this.client.messages.create({
+        model: this.currentModel,
+        max_tokens: options?.maxTokens || 8096,
+        temperature: options?.temperature,
+        top_p: options?.topP,
+        stop_sequences: options?.stopSequences,
+        system: system || undefined,
+        messages: this.toAnthropicMessages(messages),
+        tools: tools.length > 0
+          ? tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+            }))
+          : undefined,
+      }, { signal: options?.signal });
+      
+      let content = '';
+      const toolCalls: ToolChatResponse['toolCalls'] = [];
+      
+      for (const block of response.content) {
+        if (block.type === 'text') {
+          content += block.text;
+        } else if (block.type === 'tool_use') {
+          toolCalls.push({
+            id: block.id,
+            name: block.name,
+            arguments: (block.input || {}) as Record<string, any>,
+          });
+        }
+      }
+      
+      return {
+        content,
+        toolCalls,
+        stopReason: response.stop_reason || undefined,
+      };
+    } catch (error: any) {
+      if (error.status === 401) {
+        throw new AuthenticationError(this.name, error);
+      } else if (error.status === 429) {
+        const retryAfter = error.headers?.['retry-after'];
+        throw new RateLimitError(
+          this.name,
+          retryAfter ? parseInt(retryAfter) : undefined,
+          error
+        );
+      } else if (error.status === 404) {
+        throw new ModelNotFoundError(this.name, this.currentModel, error);
+      }
+      
+      this.handleError(error, 'chatWithTools');
+    }
+  }
+  
+  /**
+   * Convert messages to Anthropic content blocks.
+   * Assistant tool calls become `tool_use` blocks and consecutive tool
+   * results are grouped into one user message of `tool_result` blocks.
+   */
+  private toAnthropicMessages(messages: ToolChatMessage[]): Anthropic.MessageParam[] {
+    const result: Anthropic.MessageParam[] = [];
+    
+    const append = (role: 'user' | 'assistant', blocks: Anthropic.ContentBlockParam[]) => {
+      const previous = result[result.length - 1];
+      if (previous && previous.role === role && Array.isArray(previous.content)) {
+        previous.content.push(...blocks);
+      } else {
+        result.push({ role, content: blocks });
+      }
+    };
+    
+    for (const m of messages) {
+      if (m.role === 'system') {
+        continue;
+      }
+      
+      if (m.role === 'tool') {
+        append('user', [{
+          type: 'tool_result',
+          tool_use_id: m.tool_call_id || '',
+          content: m.content,
+        }]);
+        continue;
+      }
+      
+      const blocks: Anthropic.ContentBlockParam[] = [];
+      if (m.content) {
+        blocks.push({ type: 'text', text: m.content });
+      }
+      
+      if (m.role === 'assistant') {
+        for (const call of m.tool_calls || []) {
+          blocks.push({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: call.arguments,
+          });
+        }
+      }
+      
+      if (blocks.length > 0) {
+        append(m.role, blocks);
+      }
+    }
+    
+    return result;
+  }
+  
   async listModels(): Promise<string[]> {
     // Anthropic doesn't have a models endpoint, return static list
     return this.models;
@@ -7,9 +7,13 @@ import { Message,
   StreamOptions,
   ModelInfo,
   ProviderConfig,
+  ToolChatMessage,
+  ToolChatResponse,
+  ToolDefinition,
   AuthenticationError,
   RateLimitError,
   ModelNotFoundError,
+  ProviderError,
 } from './types';
 
 export class OpenAIProvider extends AbstractBaseProvider {
@@ -62,7 +66,7 @@ export class OpenAIProvider extends AbstractBaseProvider {
         stop: options?.stopSequences,
         presence_penalty: options?.presencePenalty,
         frequency_penalty: options?.frequencyPenalty,
-      });
+      }, { signal: options?.signal });
       
       for await (const chunk of stream) {
         const delta = chunk.choices[0]?.delta;
@@ -102,6 +106,111 @@ export class OpenAIProvider extends AbstractBaseProvider {
     }
   }
   
+  async chatWithTools(
+    messages: ToolChatMessage[],
+    tools: ToolDefinition[],
+    options?: StreamOptions
+  ): Promise<ToolChatResponse> {
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: this.currentModel,
+        messages: messages.map(m => this.toOpenAIMessage(m)),
+        tools: tools.length > 0
+          ? tools.map(tool => ({
+              type: 'function' as const,
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+              },
+            }))
+          : undefined,
+        max_tokens: options?.maxTokens,
+        temperature: options?.temperature,
+        top_p: options?.topP,
+        stop: options?.stopSequences,
+        presence_penalty: options?.presencePenalty,
+        frequency_penalty: options?.frequencyPenalty,
+      }, { signal: options?.signal });
+      
+      const choice = completion.choices[0];
+      const toolCalls: ToolChatResponse['toolCalls'] = [];
+      
+      for (const call of choice?.message?.tool_calls || []) {
+        if (call.type !== 'function') {
+          continue;
+        }
+        
+        let args: Record<string, any> = {};
+        try {
+          args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+        } catch (error) {
+          throw new ProviderError(
+            `Tool call ${call.function.name} returned invalid JSON arguments`,
+            this.name,
+            error instanceof Error ? error : undefined
+          );
+        }
+        
+        toolCalls.push({
+          id: call.id,
+          name: call.function.name,
+          arguments: args,
+        });
+      }
+      
+      return {
+        content: choice?.message?.content || '',
+        toolCalls,
+        stopReason: choice?.finish_reason || undefined,
+      };
+    } catch (error: any) {
+      if (error.status === 401) {
+        throw new AuthenticationError(this.name, error);
+      } else if (error.status === 429) {
+        throw new RateLimitError(this.name, undefined, error);
+      } else if (error.status === 404) {
+        throw new ModelNotFoundError(this.name, this.currentModel, error);
+      }
+      
+      this.handleError(error, 'chatWithTools');
+    }
+  }
+  
+  /**
+   * Convert a message to OpenAI's chat format, including `tool_calls`
+   * on assistant messages and `tool_call_id` on tool results
+   */
+  private toOpenAIMessage(m: ToolChatMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+    if (m.role === 'tool') {
+      return {
+        role: 'tool',
+        tool_call_id: m.tool_call_id || '',
+        content: m.content,
+      };
+    }
+    
+    if (m.role === 'assistant' && m.tool_calls?.length) {
+      return {
+        role: 'assistant',
+        content: m.content || null,
+        tool_calls: m.tool_calls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: {
+            name: call.name,
+            arguments: JSON.stringify(call.arguments),
+          },
+        })),
+      };
+    }
+    
+    return {
+      role: m.role,
+      content: m.content,
+    };
+  }
+  
   async listModels(): Promise<string[]> {
     try {
       const response = await this.client.models.list();
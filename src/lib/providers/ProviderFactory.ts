@@ -0,0 +1,101 @@
+// src/lib/providers/ProviderFactory.ts
+import { BaseProvider } from './provider-base';
+import { AnthropicProvider } from './AnthropicProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { ProviderError } from './types';
+import { OllamaClient } from '../llm/ollama-client';
+import {
+  LLMConfigManager,
+  LLMConfiguration,
+  getLLMConfigManager,
+} from '../config/LLMConfig';
+
+/**
+ * Anything the Agent tool loop can run on: the local Ollama client
+ * or any BaseProvider (Anthropic, OpenAI, ...)
+ */
+export type LLMSource = OllamaClient | BaseProvider;
+
+export type ProviderName = keyof LLMConfiguration['providers'];
+
+/**
+ * Create the LLM for a configured provider
+ * @throws {ProviderError} If the provider is unknown, disabled or misconfigured
+ */
+export function createLLM(config: LLMConfiguration, providerName: ProviderName): LLMSource {
+  const providerConfig = config.providers[providerName];
+
+  if (!providerConfig) {
+    throw new ProviderError(`Provider ${providerName} is not configured`, providerName);
+  }
+
+  if (!providerConfig.enabled) {
+    throw new ProviderError(`Provider ${providerName} is not enabled`, providerName);
+  }
+
+  switch (providerName) {
+    case 'anthropic':
+      return new AnthropicProvider({
+        apiKey: providerConfig.apiKey,
+        defaultModel: providerConfig.defaultModel,
+        timeout: providerConfig.timeout,
+        maxRetries: providerConfig.maxRetries,
+      });
+
+    case 'openai':
+      return new OpenAIProvider({
+        apiKey: providerConfig.apiKey,
+        defaultModel: providerConfig.defaultModel,
+        timeout: providerConfig.timeout,
+        maxRetries: providerConfig.maxRetries,
+      });
+
+    case 'ollama':
+      return new OllamaClient({
+        baseUrl: providerConfig.endpoint || 'http://localhost:11434',
+        model: providerConfig.defaultModel || 'llama3.1:latest',
+        // Only pass set values so OllamaClient keeps its own defaults
+        ...(config.preferences.temperature !== undefined && { temperature: config.preferences.temperature }),
+        ...(providerConfig.timeout && { timeout: providerConfig.timeout }),
+        ...(providerConfig.maxRetries && { maxRetries: providerConfig.maxRetries }),
+      });
+
+    default:
+      throw new ProviderError(`Unknown provider: ${providerName}`, String(providerName));
+  }
+}
+
+/**
+ * Create the LLM for the provider LLMConfigManager marks as default
+ * @throws {ProviderError} If the default provider cannot be created
+ */
+export async function createDefaultLLM(
+  configManager: LLMConfigManager = getLLMConfigManager()
+): Promise<LLMSource> {
+  const config = await configManager.load();
+  return createLLM(config, config.defaultProvider as ProviderName);
+}
+
+/**
+ * Health of either kind of LLM, with the reason when it is unhealthy
+ */
+export async function checkLLMHealth(llm: LLMSource): Promise<{ healthy: boolean; error?: string }> {
+  if (llm instanceof OllamaClient) {
+    return await llm.healthCheck();
+  }
+  const { healthy, message } = await llm.healthCheck();
+  return { healthy, error: message };
+}
+
+/**
+ * Human-readable "provider/model" label for logs
+ */
+export function describeLLM(llm: LLMSource): string {
+  if (llm instanceof OllamaClient) {
+    const { model, baseUrl } = llm.getConfig();
+    return `Ollama/${model} at ${baseUrl}`;
+  }
+
+  const model = llm.getCurrentModel?.() ?? llm.models[0];
+  return `${llm.name}/${model}`;
+}
@@ -0,0 +1,101 @@
+// src/lib/providers/ProviderLLMAdapter.ts
+import { BaseProvider } from './provider-base';
+import {
+  Message,
+  ModelInfo,
+  ProviderError,
+  StreamOptions,
+  ToolChatMessage,
+  ToolChatResponse,
+  ToolDefinition,
+} from './types';
+
+/**
+ * Adapter that gives any BaseProvider the chat / chatWithTools surface
+ * the Agent tool loop drives (the same surface OllamaClient exposes).
+ */
+export class ProviderLLMAdapter {
+  private warnedNoTools = false;
+
+  constructor(
+    private readonly provider: BaseProvider,
+    private readonly options: StreamOptions = {}
+  ) {}
+
+  /**
+   * Plain completion, collected from the provider's token stream
+   * @throws {ProviderError} If the stream reports an error
+   */
+  async chat(messages: ToolChatMessage[], options: { signal?: AbortSignal } = {}): Promise<string> {
+    let content = '';
+    const streamOptions = { ...this.options, signal: options.signal };
+
+    for await (const event of this.provider.stream(this.toTextMessages(messages), streamOptions)) {
+      if (event.type === 'token' && event.data) {
+        content += event.data;
+      } else if (event.type === 'error') {
+        throw new ProviderError(
+          event.error?.message || 'Stream failed',
+          this.provider.name,
+          event.error
+        );
+      }
+    }
+
+    return content;
+  }
+
+  /**
+   * Completion with tools using the provider's native tool-use protocol.
+   * Providers without native support run as plain chat and never call tools.
+   */
+  async chatWithTools(
+    messages: ToolChatMessage[],
+    tools: ToolDefinition[],
+    options: { signal?: AbortSignal } = {}
+  ): Promise<ToolChatResponse> {
+    if (this.provider.chatWithTools) {
+      return this.provider.chatWithTools(messages, tools, { ...this.options, signal: options.signal });
+    }
+
+    if (tools.length > 0 && !this.warnedNoTools) {
+      console.warn(`Provider ${this.provider.name} does not support native tool calling; running without tools`);
+      this.warnedNoTools = true;
+    }
+
+    return {
+      content: await this.chat(messages, options),
+      toolCalls: [],
+    };
+  }
+
+  /**
+   * Model info (context window etc.) for the provider's current model
+   */
+  async getModelInfo(): Promise<ModelInfo> {
+    const model = this.provider.getCurrentModel?.() ?? this.provider.models[0];
+    return this.provider.getModelInfo(model);
+  }
+
+  /**
+   * Get the wrapped provider
+   */
+  getProvider(): BaseProvider {
+    return this.provider;
+  }
+
+  /**
+   * Flatten tool traffic into text for providers that only stream text
+   */
+  private toTextMessages(messages: ToolChatMessage[]): Message[] {
+    return messages.map(m => {
+      if (m.role === 'tool') {
+        return {
+          role: 'user' as const,
+          content: `Tool "${m.tool_name || 'unknown'}" result:\n${m.content}`,
+        };
+      }
+      return { role: m.role, content: m.content };
+    });
+  }
+}
@@ -5,9 +5,13 @@ import {
   StreamEvent, 
   StreamOptions, 
   ModelInfo,
-  ProviderError 
+  ProviderError,
+  ToolChatMessage,
+  ToolChatResponse,
+  ToolDefinition,
 } from './types';
 import { StreamingClient } from '../streaming/StreamingClient';
+import { OllamaClient, Tool } from '../llm/ollama-client';
 
 /**
  * Adapter to make StreamingClient compatible with BaseProvider interface
@@ -19,12 +23,19 @@ export class StreamingClientAdapter implements BaseProvider {
   
   private client: StreamingClient;
   private currentModel: string;
+  private toolClient: OllamaClient;
 
   constructor(client: StreamingClient) {
     this.client = client;
-    // Get model from StreamingClient if available
-    this.currentModel = (client as any).model || 'llama3.1:latest';
+    const { endpoint, model } = client.getConfig();
+    this.currentModel = model || 'llama3.1:latest';
     this.models = [this.currentModel];
+
+    // Tool calls go through OllamaClient, which speaks Ollama's native `tools` field
+    this.toolClient = new OllamaClient({
+      baseUrl: endpoint || 'http://localhost:11434',
+      model: this.currentModel,
+    });
   }
 
   async *stream(
@@ -48,6 +59,26 @@ export class StreamingClientAdapter implements BaseProvider {
     }
   }
 
+  async chatWithTools(
+    messages: ToolChatMessage[],
+    tools: ToolDefinition[],
+    options?: StreamOptions
+  ): Promise<ToolChatResponse> {
+    try {
+      const response = await this.toolClient.chatWithTools(messages, tools.map(toOllamaTool), { signal: options?.signal });
+      return {
+        content: response.content,
+        toolCalls: response.toolCalls,
+      };
+    } catch (error) {
+      throw new ProviderError(
+        `chatWithTools failed: ${error instanceof Error ? error.message : String(error)}`,
+        this.name,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
   async listModels(): Promise<string[]> {
     // StreamingClient doesn't have a listModels method
     // Return the current model
@@ -97,6 +128,10 @@ export class StreamingClientAdapter implements BaseProvider {
     }
   }
 
+  getCurrentModel(): string {
+    return this.currentModel;
+  }
+
   /**
    * Get the underlying StreamingClient
    */
@@ -105,6 +140,21 @@ export class StreamingClientAdapter implements BaseProvider {
   }
 }
 
+/**
+ * Narrow a provider tool schema to the object schema OllamaClient sends
+ */
+function toOllamaTool(tool: ToolDefinition): Tool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: {
+      type: 'object',
+      properties: tool.parameters.properties ?? {},
+      required: tool.parameters.required,
+    },
+  };
+}
+
 /**
  * Factory function to create adapter
  */
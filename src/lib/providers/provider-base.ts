@@ -1,4 +1,12 @@
-import { Message, StreamEvent, StreamOptions, ModelInfo } from "./types";
+import {
+  Message,
+  StreamEvent,
+  StreamOptions,
+  ModelInfo,
+  ToolChatMessage,
+  ToolChatResponse,
+  ToolDefinition,
+} from "./types";
 
 // Base Provider Interface
 export interface BaseProvider {
@@ -17,6 +25,25 @@ export interface BaseProvider {
     options?: StreamOptions
   ): AsyncIterableIterator<StreamEvent>;
   
+  /**
+   * Single completion using the vendor's native tool-use protocol.
+   * Optional: providers without native tool support omit it.
+   * @throws {AuthenticationError} If API credentials are invalid
+   * @throws {RateLimitError} If rate limit is exceeded
+   * @throws {ProviderError} For other provider-specific errors
+   */
+  chatWithTools?(
+    messages: ToolChatMessage[],
+    tools: ToolDefinition[],
+    options?: StreamOptions
+  ): Promise<ToolChatResponse>;
+  
+  /**
+   * Model requests currently go to.
+   * Optional: providers without a model selection omit it.
+   */
+  getCurrentModel?(): string;
+  
   /**
    * List available models
    * @throws {ProviderError} If unable to fetch models
@@ -18,6 +18,45 @@ export interface StreamOptions {
   topP?: number;
   presencePenalty?: number;
   frequencyPenalty?: number;
+  signal?: AbortSignal; // Aborts the in-flight request
+}
+
+/**
+ * Tool schema offered to a model for native tool use
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema for the tool input
+}
+
+/**
+ * Tool invocation requested by a model
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * Conversation message that can carry tool calls and tool results
+ */
+export interface ToolChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: ToolCall[]; // On 'assistant' messages
+  tool_call_id?: string;   // On 'tool' messages
+  tool_name?: string;      // On 'tool' messages
+}
+
+/**
+ * Non-streaming completion result with tool calls
+ */
+export interface ToolChatResponse {
+  content: string;
+  toolCalls: ToolCall[];
+  stopReason?: string;
 }
 
 export interface ModelInfo {
@@ -81,4 +120,4 @@ export class ModelNotFoundError extends ProviderError {
     super(`Model not found: ${modelId} in provider: ${provider}`, provider, cause);
     this.name = 'ModelNotFoundError';
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,332 @@
+/**
+ * Runs the tools a skill declares in its SKILL.md front-matter. Script tools
+ * run a file from the skill's scripts/ in a child process: no shell, a
+ * minimal environment, a timeout, and the same command policy as bashExec.
+ * Template tools render files from templates/ with the model's arguments
+ * and write them through writeFile, so trust checks and snapshots apply.
+ */
+
+import { execFile } from 'child_process';
+import path from 'path';
+import { promisify } from 'util';
+import Ajv, { ErrorObject } from 'ajv';
+import { Tool, ToolContext } from '../llm/ollama-client';
+import type { ToolFunction } from '../streaming/StreamingClientWithTools';
+import { CommandPolicy, getCommandPolicy, dryRunCommandResult } from '../tools/command-policy';
+import { writeFile } from '../tools/toolFunctions';
+import { Skill, SkillError, SkillToolDefinition } from './types';
+
+const execFilep = promisify(execFile);
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const TOOL_NAME = /^[A-Za-z0-9_-]+$/;
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?:\|\s*([a-z]+)\s*)?\}\}/g;
+// Variables from the parent environment that scripts may see
+const INHERITED_ENV = ['PATH', 'HOME', 'LANG', 'LC_ALL', 'TMPDIR'];
+
+/**
+ * Interpreter for each script extension
+ */
+export const SCRIPT_INTERPRETERS: Record<string, string> = {
+  '.sh': 'bash',
+  '.bash': 'bash',
+  '.py': 'python3',
+  '.js': 'node',
+  '.mjs': 'node',
+  '.cjs': 'node',
+};
+
+/**
+ * Filters that can follow a template variable: {{ name | kebab }}
+ */
+export const TEMPLATE_FILTERS: Record<string, (value: string) => string> = {
+  pascal: value => words(value).map(capitalize).join(''),
+  camel: value => words(value).map((word, i) => (i === 0 ? word.toLowerCase() : capitalize(word))).join(''),
+  kebab: value => words(value).map(word => word.toLowerCase()).join('-'),
+  snake: value => words(value).map(word => word.toLowerCase()).join('_'),
+  upper: value => value.toUpperCase(),
+  lower: value => value.toLowerCase(),
+};
+
+export class TemplateRenderError extends SkillError {
+  constructor(message: string, skillName: string) {
+    super(message, skillName);
+    this.name = 'TemplateRenderError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+/**
+ * A skill tool ready to register on a tool client
+ */
+export interface SkillTool {
+  name: string; // <skill>__<tool>
+  schema: Tool;
+  run: ToolFunction;
+}
+
+/**
+ * Replace {{ variable }} and {{ variable | filter }} with values from `vars`
+ */
+export function renderTemplate(template: string, vars: Record<string, unknown>, skillName = 'template'): string {
+  return template.replace(PLACEHOLDER, (_match, name: string, filter?: string) => {
+    const value = vars[name];
+    if (value === undefined || value === null) {
+      throw new TemplateRenderError(`No value for template variable "${name}"`, skillName);
+    }
+    if (filter && !TEMPLATE_FILTERS[filter]) {
+      throw new TemplateRenderError(`Unknown template filter "${filter}" (use ${Object.keys(TEMPLATE_FILTERS).join(', ')})`, skillName);
+    }
+    return filter ? TEMPLATE_FILTERS[filter](String(value)) : String(value);
+  });
+}
+
+/**
+ * Problems with the tools a skill declares, one message per problem
+ */
+export function checkSkillTools(skill: Skill): string[] {
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  (skill.metadata.tools ?? []).forEach((tool, i) => {
+    const at = `tools[${i}]${tool?.name ? ` (${tool.name})` : ''}`;
+    if (!tool || typeof tool.name !== 'string' || !TOOL_NAME.test(tool.name)) {
+      issues.push(`${at}: name must contain only letters, digits, "_" and "-"`);
+      return;
+    }
+    if (seen.has(tool.name)) {
+      issues.push(`${at}: duplicate tool name`);
+    }
+    seen.add(tool.name);
+    if (!tool.description) {
+      issues.push(`${at}: missing description`);
+    }
+
+    const parameters = tool.parameters ?? {};
+    for (const [name, parameter] of Object.entries(parameters)) {
+      if (!['string', 'number', 'integer', 'boolean'].includes(parameter?.type)) {
+        issues.push(`${at}: parameter "${name}" must have type string, number, integer or boolean`);
+      }
+    }
+    const checkPlaceholders = (text: string) => {
+      for (const [, name] of text.matchAll(PLACEHOLDER)) {
+        if (!(name in parameters)) {
+          issues.push(`${at}: "${text}" uses undeclared parameter "${name}"`);
+        }
+      }
+    };
+
+    if (Boolean(tool.script) === Boolean(tool.files)) {
+      issues.push(`${at}: needs either a script or files, not both`);
+    } else if (tool.script) {
+      if (!skill.metadata.requires_code_execution) {
+        issues.push(`${at}: script tools need requires_code_execution: true`);
+      }
+      if (!skill.scripts?.has(tool.script)) {
+        issues.push(`${at}: script "${tool.script}" not found in scripts/`);
+      }
+      if (!SCRIPT_INTERPRETERS[path.extname(tool.script)]) {
+        issues.push(`${at}: no interpreter for "${tool.script}" (use ${Object.keys(SCRIPT_INTERPRETERS).join(', ')})`);
+      }
+      (tool.args ?? []).forEach(checkPlaceholders);
+    } else {
+      for (const file of tool.files!) {
+        if (!skill.templates?.has(file.template)) {
+          issues.push(`${at}: template "${file.template}" not found in templates/`);
+        }
+        if (file.output) {
+          checkPlaceholders(file.output);
+        }
+      }
+    }
+  });
+
+  return issues;
+}
+
+export class SkillExecutor {
+  private ajv = new Ajv({ allErrors: true, useDefaults: true, coerceTypes: true });
+
+  constructor(private readonly policy: CommandPolicy = getCommandPolicy()) {}
+
+  /**
+   * The tools a skill declares, named `<skill>__<tool>`
+   */
+  getTools(skill: Skill): SkillTool[] {
+    return (skill.metadata.tools ?? []).map(tool => ({
+      name: `${skill.metadata.name}__${tool.name}`,
+      schema: this.buildSchema(skill, tool),
+      run: (params, context) => this.run(skill, tool, params, context),
+    }));
+  }
+
+  /**
+   * Check the arguments against the declared parameters, then run the script
+   * or render the templates
+   */
+  async run(skill: Skill, tool: SkillToolDefinition, params: Record<string, any>, context?: ToolContext): Promise<any> {
+    const args = this.checkArguments(skill, tool, params);
+    return tool.script
+      ? await this.runScript(skill, tool, args, context)
+      : await this.renderFiles(skill, tool, args, context);
+  }
+
+  private async runScript(skill: Skill, tool: SkillToolDefinition, args: Record<string, any>, context?: ToolContext): Promise<any> {
+    const interpreter = SCRIPT_INTERPRETERS[path.extname(tool.script!)];
+    const argv = [
+      path.resolve(skill.path, 'scripts', tool.script!),
+      ...(tool.args ?? []).map(arg => renderTemplate(arg, args, skill.metadata.name)),
+    ];
+    const command = [interpreter, ...argv].map(quoteShellWord).join(' ');
+    const cwd = path.resolve(context?.workDir ?? process.cwd());
+
+    // Dry runs report what the policy would decide instead of running the script
+    if (context?.dryRun) {
+      return dryRunCommandResult(await this.policy.evaluate(command, cwd), 'Dry run: the script was not executed');
+    }
+
+    // Throws CommandPolicyError when the script is denied or not approved
+    await this.policy.enforce(
+      command,
+      cwd,
+      context?.requestApproval && (decision => context.requestApproval!(decision.reasons.join('; '), { kind: 'command', text: command }))
+    );
+
+    try {
+      const { stdout, stderr } = await execFilep(interpreter, argv, {
+        cwd,
+        env: scriptEnvironment(skill, args),
+        timeout: (tool.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000,
+        maxBuffer: 1024 * 1024 * 10,
+        signal: context?.signal, // Kills the child process on cancel
+      });
+      return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode: 0, command };
+    } catch (error: any) {
+      // Cancelled: propagate instead of reporting a failed script
+      if (context?.signal?.aborted) {
+        throw error;
+      }
+      return {
+        stdout: error.stdout?.trim() || '',
+        stderr: error.stderr?.trim() || error.message,
+        exitCode: typeof error.code === 'number' ? error.code : 1,
+        command,
+        error: error.message,
+      };
+    }
+  }
+
+  private async renderFiles(skill: Skill, tool: SkillToolDefinition, args: Record<string, any>, context?: ToolContext): Promise<any> {
+    const files: any[] = [];
+    for (const file of tool.files!) {
+      const content = renderTemplate(skill.templates!.get(file.template)!, args, skill.metadata.name);
+      if (!file.output) {
+        files.push({ template: file.template, content });
+        continue;
+      }
+      // Existing files must be read first, like any other writeFile call
+      files.push(await writeFile({ path: renderTemplate(file.output, args, skill.metadata.name), content }, context));
+    }
+    return { files };
+  }
+
+  private checkArguments(skill: Skill, tool: SkillToolDefinition, params: Record<string, any>): Record<string, any> {
+    const args = { ...params };
+    const validate = this.ajv.compile(parameterSchema(tool));
+    if (!validate(args)) {
+      throw new SkillError(
+        `Invalid arguments for ${skill.metadata.name}__${tool.name}: ${validate.errors!.map(describeArgumentError).join('; ')}`,
+        skill.metadata.name
+      );
+    }
+    return args;
+  }
+
+  private buildSchema(skill: Skill, tool: SkillToolDefinition): Tool {
+    const schema = parameterSchema(tool);
+    const properties: Tool['parameters']['properties'] = {};
+    for (const [name, parameter] of Object.entries(tool.parameters ?? {})) {
+      const description = parameter.description ?? name;
+      properties[name] = {
+        type: parameter.type,
+        description: parameter.default !== undefined ? `${description} (default: ${parameter.default})` : description,
+        ...(parameter.enum ? { enum: parameter.enum.map(String) } : {}),
+      };
+    }
+    return {
+      name: `${skill.metadata.name}__${tool.name}`,
+      description: `${tool.description} (skill: ${skill.metadata.name})`,
+      parameters: { type: 'object', properties, required: schema.required },
+    };
+  }
+}
+
+/**
+ * JSON schema for a tool's arguments; unknown arguments are rejected
+ */
+function parameterSchema(tool: SkillToolDefinition): { type: 'object'; properties: Record<string, object>; required: string[]; additionalProperties: false } {
+  const properties: Record<string, object> = {};
+  const required: string[] = [];
+  for (const [name, parameter] of Object.entries(tool.parameters ?? {})) {
+    properties[name] = {
+      type: parameter.type,
+      ...(parameter.enum ? { enum: parameter.enum } : {}),
+      ...(parameter.default !== undefined ? { default: parameter.default } : {}),
+    };
+    if (parameter.required) {
+      required.push(name);
+    }
+  }
+  return { type: 'object', properties, required, additionalProperties: false };
+}
+
+function describeArgumentError(error: ErrorObject): string {
+  if (error.keyword === 'required') {
+    return `missing "${error.params.missingProperty}"`;
+  }
+  if (error.keyword === 'additionalProperties') {
+    return `unknown argument "${error.params.additionalProperty}"`;
+  }
+  return `${error.instancePath.slice(1)} ${error.message}`;
+}
+
+/**
+ * Environment for a script: a few inherited variables, the skill directory,
+ * and the arguments as SKILL_PARAMS (JSON) and SKILL_PARAM_<NAME>
+ */
+function scriptEnvironment(skill: Skill, args: Record<string, any>): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of INHERITED_ENV) {
+    if (process.env[name] !== undefined) {
+      env[name] = process.env[name];
+    }
+  }
+  env.SKILL_DIR = path.resolve(skill.path);
+  env.SKILL_PARAMS = JSON.stringify(args);
+  for (const [name, value] of Object.entries(args)) {
+    env[`SKILL_PARAM_${name.toUpperCase()}`] = String(value);
+  }
+  return env;
+}
+
+function quoteShellWord(word: string): string {
+  return /^[\w@%+=:,./-]+$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+function words(value: string): string[] {
+  return value.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[^A-Za-z0-9]+/).filter(Boolean);
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+// Singleton instance
+let skillExecutorInstance: SkillExecutor | null = null;
+
+export function getSkillExecutor(): SkillExecutor {
+  if (!skillExecutorInstance) {
+    skillExecutorInstance = new SkillExecutor();
+  }
+  return skillExecutorInstance;
+}
@@ -2,10 +2,15 @@ import fs from 'fs/promises';
 import path from 'path';
 import matter from 'gray-matter';
 import { Skill, SkillMetadata, SkillError } from './types';
+import { checkSkillTools } from './SkillExecutor';
+import { DefinitionReloadEvent, watchDefinitions } from '../definition-watcher';
+import type { AgentEventBus } from '../agents/AgentSystem';
 
 export class SkillLoader {
   private skillsDirectory: string;
   private loadedSkills: Map<string, Skill> = new Map();
+  private skillDirectories: Map<string, string> = new Map(); // Directory -> skill name
+  private loadErrors: Map<string, string> = new Map(); // Directory -> reason
 
   constructor(skillsDirectory: string = './skills') {
     this.skillsDirectory = skillsDirectory;
@@ -19,17 +24,25 @@ export class SkillLoader {
       const entries = await fs.readdir(this.skillsDirectory, { withFileTypes: true });
       const skillDirs = entries.filter(e => e.isDirectory());
 
-      const skills: Skill[] = [];
+      // Skills that fail to load keep their previous version
+      const previous = new Map(Array.from(this.skillDirectories, ([dir, name]) => [dir, this.loadedSkills.get(name)]));
+      this.loadedSkills.clear();
+      this.skillDirectories.clear();
+      this.loadErrors.clear();
       for (const dir of skillDirs) {
         try {
-          const skill = await this.loadSkill(dir.name);
-          skills.push(skill);
-          this.loadedSkills.set(skill.metadata.name, skill);
+          this.store(dir.name, await this.loadSkill(dir.name));
         } catch (error) {
           console.error(`Failed to load skill ${dir.name}:`, error);
+          this.loadErrors.set(dir.name, describeLoadError(error));
+          const skill = previous.get(dir.name);
+          if (skill) {
+            this.store(dir.name, skill);
+          }
         }
       }
 
+      const skills = this.getSkills();
       console.log(`Loaded ${skills.length} skills`);
       return skills;
     } catch (error) {
@@ -73,6 +86,7 @@ export class SkillLoader {
         activation_keywords: data.activation_keywords || [],
         dependencies: data.dependencies || [],
         requires_code_execution: data.requires_code_execution || false,
+        tools: data.tools || [],
       };
 
       // Load templates
@@ -90,7 +104,7 @@ export class SkillLoader {
         path.join(skillPath, 'resources')
       );
 
-      return {
+      const skill: Skill = {
         metadata,
         content: body,
         path: skillPath,
@@ -98,6 +112,13 @@ export class SkillLoader {
         scripts,
         resources,
       };
+
+      const issues = checkSkillTools(skill);
+      if (issues.length > 0) {
+        throw new SkillError(`Invalid tools: ${issues.join('; ')}`, skillName);
+      }
+
+      return skill;
     } catch (error) {
       throw new SkillError(
         `Failed to load skill: ${skillName}`,
@@ -176,11 +197,84 @@ export class SkillLoader {
   }
 
   /**
-   * Reload a specific skill
+   * All loaded skills
+   */
+  getSkills(): Skill[] {
+    return Array.from(this.loadedSkills.values());
+  }
+
+  /**
+   * Reload a specific skill by directory name
    */
   async reloadSkill(skillName: string): Promise<Skill> {
     const skill = await this.loadSkill(skillName);
-    this.loadedSkills.set(skillName, skill);
+    this.store(skillName, skill);
     return skill;
   }
+
+  /**
+   * Reload skills whose files change and report each reload on the event bus
+   * @returns Function that stops watching
+   */
+  watch(eventBus: AgentEventBus, debounceMs?: number): () => void {
+    return watchDefinitions(this.skillsDirectory, async directories => {
+      for (const directory of directories) {
+        const event = await this.refresh(directory);
+        if (event) {
+          eventBus.emitReload(event);
+        }
+      }
+    }, debounceMs);
+  }
+
+  /**
+   * Skill directories that failed to load, with the reason
+   */
+  getLoadErrors(): Array<{ id: string; error: string }> {
+    return Array.from(this.loadErrors, ([id, error]) => ({ id, error }));
+  }
+
+  private async refresh(directory: string): Promise<DefinitionReloadEvent | null> {
+    const event = { kind: 'skill' as const, id: directory, timestamp: new Date() };
+    const exists = await fs.stat(path.join(this.skillsDirectory, directory)).then(stat => stat.isDirectory(), () => false);
+    if (!exists) {
+      const known = [this.forget(directory), this.loadErrors.delete(directory)].some(Boolean);
+      return known ? { ...event, status: 'removed' } : null;
+    }
+
+    try {
+      this.store(directory, await this.loadSkill(directory));
+      this.loadErrors.delete(directory);
+      return { ...event, status: 'loaded' };
+    } catch (error) {
+      this.loadErrors.set(directory, describeLoadError(error));
+      return { ...event, status: 'error', error: this.loadErrors.get(directory) };
+    }
+  }
+
+  private store(directory: string, skill: Skill): void {
+    this.forget(directory);
+    this.skillDirectories.set(directory, skill.metadata.name);
+    this.loadedSkills.set(skill.metadata.name, skill);
+  }
+
+  private forget(directory: string): boolean {
+    const name = this.skillDirectories.get(directory);
+    if (name === undefined) {
+      return false;
+    }
+    this.skillDirectories.delete(directory);
+    this.loadedSkills.delete(name);
+    return true;
+  }
+}
+
+/**
+ * One-line reason a skill failed to load
+ */
+function describeLoadError(error: unknown): string {
+  if (error instanceof SkillError && error.cause) {
+    return `${error.message}: ${error.cause.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
 }
\ No newline at end of file
@@ -1,12 +1,13 @@
 // src/lib/skills/SkillManager.ts
 import { SkillLoader } from './SkillLoader';
 import { SkillMatcher } from './SkillMatcher';
+import { SkillTool, getSkillExecutor } from './SkillExecutor';
 import { Skill, SkillMatch, SkillError } from './types';
+import type { AgentEventBus } from '../agents/AgentSystem';
 
 export class SkillManager {
   private loader: SkillLoader;
   private matcher: SkillMatcher;
-  private skills: Skill[] = [];
   private initialized: boolean = false;
 
   constructor(skillsDirectory?: string) {
@@ -14,6 +15,11 @@ export class SkillManager {
     this.matcher = new SkillMatcher();
   }
 
+  // Skills as currently loaded, including reloads from watch()
+  private get skills(): Skill[] {
+    return this.loader.getSkills();
+  }
+
   /**
    * Initialize the skill system
    */
@@ -24,7 +30,7 @@ export class SkillManager {
     }
 
     try {
-      this.skills = await this.loader.loadAll();
+      await this.loader.loadAll();
       this.initialized = true;
       console.log(`SkillManager initialized with ${this.skills.length} skills`);
     } catch (error) {
@@ -107,6 +113,10 @@ export class SkillManager {
     for (const match of topMatches) {
       enhancedPrompt += `## ${match.skill.metadata.name}\n\n`;
       enhancedPrompt += `${match.skill.content}\n\n`;
+      const tools = getSkillExecutor().getTools(match.skill);
+      if (tools.length > 0) {
+        enhancedPrompt += `Tools: ${tools.map(tool => `\`${tool.name}\``).join(', ')}\n\n`;
+      }
       enhancedPrompt += `*Match confidence: ${(match.confidence * 100).toFixed(0)}% - ${match.reason}*\n\n`;
       enhancedPrompt += '---\n\n';
       
@@ -141,13 +151,36 @@ export class SkillManager {
     return this.skills.find(s => s.metadata.name === name);
   }
 
+  /**
+   * Tools declared by all loaded skills, named `<skill>__<tool>`
+   */
+  getTools(): SkillTool[] {
+    return this.skills.flatMap(skill => getSkillExecutor().getTools(skill));
+  }
+
   /**
    * Reload all skills
    */
   async reload(): Promise<void> {
-    this.skills = await this.loader.loadAll();
+    await this.loader.loadAll();
     console.log(`Reloaded ${this.skills.length} skills`);
   }
+
+  /**
+   * Reload skills when their files change, without /reload. Reloads are
+   * reported on the agents' event bus.
+   * @returns Function that stops watching
+   */
+  watch(eventBus: AgentEventBus, debounceMs?: number): () => void {
+    return this.loader.watch(eventBus, debounceMs);
+  }
+
+  /**
+   * Skills that failed to load, with the reason
+   */
+  getLoadErrors(): Array<{ id: string; error: string }> {
+    return this.loader.getLoadErrors();
+  }
 }
 
 // Singleton instance
@@ -8,6 +8,35 @@ export interface SkillMetadata {
   activation_keywords?: string[];
   dependencies?: string[];
   requires_code_execution?: boolean;
+  tools?: SkillToolDefinition[];
+}
+
+/**
+ * Parameter of a skill tool, as declared in SKILL.md
+ */
+export interface SkillParameter {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  required?: boolean;
+  default?: string | number | boolean;
+  enum?: Array<string | number>;
+}
+
+/**
+ * Tool a skill exposes to the model: either a script from scripts/ or a set
+ * of templates from templates/ rendered with the tool's arguments
+ */
+export interface SkillToolDefinition {
+  name: string;
+  description: string;
+  parameters?: Record<string, SkillParameter>;
+  script?: string;           // File in scripts/
+  args?: string[];           // Script arguments; may contain {{parameter}}
+  timeout?: number;          // Seconds, default 60
+  files?: Array<{
+    template: string;        // File in templates/
+    output?: string;         // Path to write, may contain {{parameter}}; omitted returns the rendered text
+  }>;
 }
 
 export interface Skill {
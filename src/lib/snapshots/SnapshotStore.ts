@@ -0,0 +1,326 @@
+/**
+ * Per-session file snapshots for undo. writeFile, editFile and applyPatch
+ * record each file's content before and after the change; the store is kept
+ * as a storage.ts checkpoint so edits can be undone from another process
+ * (CLI) after the session ends.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { saveCheckpoint, loadCheckpoint, listCheckpoints } from '../storage';
+import { ToolContext } from '../llm/ollama-client';
+import { getFileAccessTracker } from '../tools/toolFunctions';
+
+/**
+ * One file touched by an edit; null means the file did not exist
+ */
+export interface FileSnapshot {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * One tool call that changed files
+ */
+export interface EditRecord {
+  id: string;
+  turn: number;
+  tool: string;
+  callId: string;
+  files: FileSnapshot[];
+  timestamp: string;
+}
+
+export interface TurnMarker {
+  turn: number;
+  prompt: string;
+  startedAt: string;
+}
+
+export interface UndoOptions {
+  force?: boolean; // Overwrite files that changed since the agent edited them
+}
+
+export interface UndoResult {
+  undone: EditRecord[];
+  restored: Array<{ path: string; action: 'restored' | 'deleted' }>;
+  // Files whose content differs from what the agent left (edited by hand, by bashExec, ...)
+  externallyModified: string[];
+  // True when nothing was restored because of external changes (retry with force)
+  blocked: boolean;
+}
+
+interface SnapshotCheckpoint {
+  sessionId: string;
+  turn: number;
+  turns: TurnMarker[];
+  edits: EditRecord[];
+  updatedAt: string;
+}
+
+const CHECKPOINT_PREFIX = 'snapshots-';
+const MAX_EDITS = 500;
+const MAX_PROMPT_LENGTH = 120;
+
+function checkpointName(sessionId: string): string {
+  return CHECKPOINT_PREFIX + sessionId.replace(/[^\w.-]/g, '_');
+}
+
+async function readCurrent(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Session ids with stored snapshots, most recently updated first
+ */
+export async function listSnapshotSessions(): Promise<Array<{ sessionId: string; edits: number; updatedAt: string }>> {
+  const names = (await listCheckpoints()).filter(name => name.startsWith(CHECKPOINT_PREFIX));
+  const sessions = await Promise.all(names.map(async name => {
+    try {
+      const data: SnapshotCheckpoint = await loadCheckpoint(name);
+      return { sessionId: data.sessionId, edits: data.edits.length, updatedAt: data.updatedAt };
+    } catch {
+      return null;
+    }
+  }));
+
+  return sessions
+    .filter((s): s is NonNullable<typeof s> => s !== null)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export class SnapshotStore {
+  private turn = 0;
+  private turns: TurnMarker[] = [];
+  private edits: EditRecord[] = [];
+  private saving: Promise<unknown> = Promise.resolve();
+
+  private constructor(private readonly sessionId: string) {}
+
+  /**
+   * Open the store for a session, continuing from its checkpoint if there is one
+   */
+  static async load(sessionId: string): Promise<SnapshotStore> {
+    const store = new SnapshotStore(sessionId);
+    try {
+      const data: SnapshotCheckpoint = await loadCheckpoint(checkpointName(sessionId));
+      store.turn = data.turn;
+      store.turns = data.turns;
+      store.edits = data.edits;
+    } catch {
+      // New session
+    }
+    return store;
+  }
+
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  /**
+   * Start a conversation turn; edits from now on belong to it. Returns the turn number (1-based).
+   */
+  beginTurn(prompt: string): number {
+    this.turn++;
+    const summary = prompt.replace(/\s+/g, ' ').trim();
+    this.turns.push({
+      turn: this.turn,
+      prompt: summary.length > MAX_PROMPT_LENGTH ? summary.slice(0, MAX_PROMPT_LENGTH - 1) + '…' : summary,
+      startedAt: new Date().toISOString(),
+    });
+    return this.turn;
+  }
+
+  getCurrentTurn(): number {
+    return this.turn;
+  }
+
+  getTurns(): TurnMarker[] {
+    return [...this.turns];
+  }
+
+  getEdits(): EditRecord[] {
+    return [...this.edits];
+  }
+
+  /**
+   * `ToolContext.recordEdit` for one tool call
+   */
+  recorder(tool: string, callId: string): NonNullable<ToolContext['recordEdit']> {
+    return async files => {
+      await this.record(tool, callId, files);
+    };
+  }
+
+  async record(tool: string, callId: string, files: FileSnapshot[]): Promise<EditRecord> {
+    const edit: EditRecord = {
+      id: `edit_${Date.now()}_${this.edits.length + 1}`,
+      turn: this.turn,
+      tool,
+      callId,
+      files: files.map(f => ({ ...f, path: path.resolve(f.path) })),
+      timestamp: new Date().toISOString(),
+    };
+
+    this.edits.push(edit);
+    if (this.edits.length > MAX_EDITS) {
+      this.edits.splice(0, this.edits.length - MAX_EDITS);
+    }
+    await this.save();
+    return edit;
+  }
+
+  /**
+   * Undo the last `count` edits (tool calls), newest first
+   */
+  undoLast(count: number = 1, options: UndoOptions = {}): Promise<UndoResult> {
+    return this.undo(this.edits.slice(-Math.max(0, count)), options);
+  }
+
+  /**
+   * Restore every file to its state at the start of `turn`
+   */
+  restoreToTurn(turn: number, options: UndoOptions = {}): Promise<UndoResult> {
+    return this.undo(this.edits.filter(e => e.turn >= turn), options);
+  }
+
+  /**
+   * `edits` is always a suffix of the history, so the newest `after` of each
+   * file is what the agent left on disk and the oldest `before` is the target
+   */
+  private async undo(edits: EditRecord[], options: UndoOptions): Promise<UndoResult> {
+    const expected = new Map<string, string | null>();
+    const target = new Map<string, string | null>();
+
+    for (const edit of edits) {
+      for (const file of edit.files) {
+        if (!target.has(file.path)) {
+          target.set(file.path, file.before);
+        }
+        expected.set(file.path, file.after);
+      }
+    }
+
+    const externallyModified: string[] = [];
+    for (const [filePath, after] of expected) {
+      if ((await readCurrent(filePath)) !== after) {
+        externallyModified.push(filePath);
+      }
+    }
+
+    if (externallyModified.length > 0 && !options.force) {
+      return { undone: [], restored: [], externallyModified, blocked: true };
+    }
+
+    const restored: UndoResult['restored'] = [];
+    const tracker = getFileAccessTracker();
+    for (const [filePath, before] of target) {
+      if (before === null) {
+        await fs.rm(filePath, { force: true });
+        restored.push({ path: filePath, action: 'deleted' });
+      } else {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, before, 'utf-8');
+        restored.push({ path: filePath, action: 'restored' });
+      }
+      // The model's copy is stale now; it has to read the file again before editing
+      tracker.markAsUnread(filePath);
+    }
+
+    const undoneIds = new Set(edits.map(e => e.id));
+    this.edits = this.edits.filter(e => !undoneIds.has(e.id));
+    await this.save();
+
+    return { undone: [...edits].reverse(), restored, externallyModified, blocked: false };
+  }
+
+  private save(): Promise<unknown> {
+    const data: SnapshotCheckpoint = {
+      sessionId: this.sessionId,
+      turn: this.turn,
+      turns: this.turns,
+      edits: this.edits,
+      updatedAt: new Date().toISOString(),
+    };
+    // Writes are chained so an older state never overwrites a newer one
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => saveCheckpoint(checkpointName(this.sessionId), data));
+    return this.saving;
+  }
+}
+
+/**
+ * One-line description of an undo, for the TUI and CLI
+ */
+export function describeUndo(result: UndoResult): string {
+  if (result.blocked) {
+    return `Nothing undone: ${result.externallyModified.length} file(s) changed since the agent edited them ` +
+      `(${result.externallyModified.map(p => path.relative(process.cwd(), p) || p).join(', ')}). Use force to overwrite`;
+  }
+  if (result.undone.length === 0) {
+    return 'Nothing to undo';
+  }
+  const files = result.restored.map(r => `${path.relative(process.cwd(), r.path) || r.path}${r.action === 'deleted' ? ' (deleted)' : ''}`);
+  const overwritten = result.externallyModified.length > 0
+    ? `; overwrote external changes to ${result.externallyModified.length} file(s)`
+    : '';
+  return `Undid ${result.undone.length} edit(s), restored ${files.join(', ')}${overwritten}`;
+}
+
+/**
+ * Edits grouped by turn, newest turn last, for `/undo list` and `selek undo --list`
+ */
+export function describeEdits(store: SnapshotStore): string {
+  const edits = store.getEdits();
+  if (edits.length === 0) {
+    return 'No agent edits recorded';
+  }
+
+  const lines: string[] = [];
+  for (const turn of store.getTurns()) {
+    const inTurn = edits.filter(e => e.turn === turn.turn);
+    if (inTurn.length === 0) continue;
+    lines.push(`Turn ${turn.turn}: ${turn.prompt}`);
+    for (const edit of inTurn) {
+      const files = edit.files.map(f => path.relative(process.cwd(), f.path) || f.path);
+      lines.push(`  ${edit.tool}: ${files.join(', ')}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+export const UNDO_USAGE = '/undo [n] [force] | /undo turn <n> [force] | /undo list';
+
+/**
+ * Run the arguments of a `/undo` chat command and describe the outcome
+ */
+export async function runUndoCommand(store: SnapshotStore, args: string[]): Promise<string> {
+  const rest = args.filter(arg => arg.toLowerCase() !== 'force');
+  const force = rest.length < args.length;
+
+  if (rest[0] === 'list') {
+    return describeEdits(store);
+  }
+  if (rest[0] === 'turn') {
+    const turn = parseInt(rest[1], 10);
+    if (!(turn > 0)) {
+      throw new Error(`Usage: ${UNDO_USAGE}`);
+    }
+    return describeUndo(await store.restoreToTurn(turn, { force }));
+  }
+
+  const count = rest[0] === undefined ? 1 : parseInt(rest[0], 10);
+  if (!(count > 0)) {
+    throw new Error(`Usage: ${UNDO_USAGE}`);
+  }
+  return describeUndo(await store.undoLast(count, { force }));
+}
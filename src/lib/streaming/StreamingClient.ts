@@ -19,6 +19,7 @@ export interface StreamOptions {
   temperature?: number;
   topP?: number;
   maxTokens?: number;
+  signal?: AbortSignal;
 }
 
 /** Core streaming client used for sending messages to an LLM API */
@@ -51,6 +52,7 @@ export class StreamingClient {
             num_predict: options.maxTokens ?? -1,
           },
         }),
+        signal: options.signal,
       });
 
       if (!response.ok) {
@@ -121,4 +123,11 @@ export class StreamingClient {
       };
     }
   }
+
+  /**
+   * Endpoint and model requests go to
+   */
+  getConfig(): { endpoint: string; model: string } {
+    return { endpoint: this.endpoint, model: this.model };
+  }
 }
@@ -1,4 +1,6 @@
-import { Tool, ToolCall } from '../llm/ollama-client';
+import { Tool, ToolCall, ToolCallRecord, ToolContext } from '../llm/ollama-client';
+import { PermissionManager } from '../permissions/PermissionManager';
+import { SnapshotStore } from '../snapshots/SnapshotStore';
 
 /**
  * Custom exception for streaming tool operations
@@ -21,12 +23,15 @@ export class StreamingToolError extends Error {
 export interface Message {
   role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  tool_name?: string;
 }
 
 /**
  * Tool function type - accepts any params as Record
  */
-export type ToolFunction = (params: Record<string, any>) => Promise<any>;
+export type ToolFunction = (params: Record<string, any>, context?: ToolContext) => Promise<any>;
 
 /**
  * Streaming event types with tool support
@@ -34,16 +39,21 @@ export type ToolFunction = (params: Record<string, any>) => Promise<any>;
 export type StreamingToolEvent = 
   | { type: 'token'; data: string }
   | { type: 'tool_call'; toolCall: ToolCall }
-  | { type: 'tool_result'; toolName: string; result: any }
+  | { type: 'tool_result'; toolName: string; result: any; record: ToolCallRecord }
   | { type: 'done' }
+  | { type: 'aborted'; reason: string } // Cancelled; every tool call made so far was answered
   | { type: 'error'; error: Error };
 
 /**
  * Interface for any streaming client
  */
 export interface IStreamingClient {
-  stream(messages: Message[]): Promise<string>;
-  chatWithTools?(messages: Message[], tools: Tool[]): Promise<{ content: string; toolCalls?: ToolCall[] }>;
+  stream(messages: Message[], options?: { signal?: AbortSignal }): Promise<string>;
+  chatWithTools?(
+    messages: Message[],
+    tools: Tool[],
+    options?: { signal?: AbortSignal }
+  ): Promise<{ content: string; toolCalls?: ToolCall[] }>;
 }
 
 /**
@@ -55,6 +65,9 @@ export class StreamingClientWithTools {
   private tools: Map<string, ToolFunction>;
   private toolSchemas: Tool[];
   private maxIterations: number;
+  private permissions: PermissionManager | null = null;
+  private agentName = 'assistant';
+  private snapshots: SnapshotStore | null = null;
 
   constructor(
     private readonly streamingClient: IStreamingClient,
@@ -73,10 +86,35 @@ export class StreamingClientWithTools {
     this.toolSchemas.push(schema);
   }
 
+  /**
+   * Remove a registered tool, e.g. when the skill that provided it is reloaded
+   */
+  unregisterTool(name: string): boolean {
+    this.toolSchemas = this.toolSchemas.filter(schema => schema.name !== name);
+    return this.tools.delete(name);
+  }
+
+  /**
+   * Attach a permission layer; tool calls are checked (and may wait for
+   * approval) before they run. `agentName` is shown in approval prompts.
+   */
+  setPermissions(permissions: PermissionManager | null, agentName: string = 'assistant'): void {
+    this.permissions = permissions;
+    this.agentName = agentName;
+  }
+
+  /**
+   * Attach a snapshot store; file edits are recorded so they can be undone
+   * and each streamChatWithTools call starts a new turn
+   */
+  setSnapshots(snapshots: SnapshotStore | null): void {
+    this.snapshots = snapshots;
+  }
+
   /**
    * Execute a tool
    */
-  private async executeTool(toolCall: ToolCall): Promise<any> {
+  private async executeTool(toolCall: ToolCall, signal?: AbortSignal): Promise<any> {
     const func = this.tools.get(toolCall.name);
     
     if (!func) {
@@ -87,8 +125,15 @@ export class StreamingClientWithTools {
       );
     }
 
+    const context: ToolContext = {
+      callId: toolCall.id,
+      signal,
+      requestApproval: this.permissions?.approverFor(toolCall, this.agentName, signal),
+      recordEdit: this.snapshots?.recorder(toolCall.name, toolCall.id),
+    };
+
     try {
-      return await func(toolCall.arguments);
+      return await func(toolCall.arguments, context);
     } catch (error) {
       throw new StreamingToolError(
         `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`,
@@ -101,16 +146,27 @@ export class StreamingClientWithTools {
   /**
    * Stream chat with automatic tool calling
    * 
-   * This implements the agentic loop with streaming
+   * This implements the agentic loop with streaming.
+   * Aborting `options.signal` stops the model call and running tools and
+   * ends the stream with an 'aborted' event instead of 'done'.
    */
   async *streamChatWithTools(
     messages: Message[],
     onToolCall?: (toolCall: ToolCall) => void,
-    onToolResult?: (toolName: string, result: any) => void
+    onToolResult?: (record: ToolCallRecord) => void,
+    options: { signal?: AbortSignal } = {}
   ): AsyncGenerator<StreamingToolEvent> {
+    const { signal } = options;
+    const abortedEvent = (): StreamingToolEvent => ({
+      type: 'aborted',
+      reason: typeof signal?.reason === 'string' ? signal.reason : 'cancelled',
+    });
     let iteration = 0;
     const conversationMessages = [...messages];
 
+    const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
+    this.snapshots?.beginTurn(lastUserMessage?.content ?? '');
+
     const streamToString = async (stream: AsyncGenerator<any>): Promise<string> => {
         let fullContent = '';
         for await (const event of stream) {
@@ -122,6 +178,11 @@ export class StreamingClientWithTools {
     while (iteration < this.maxIterations) {
       iteration++;
 
+      if (signal?.aborted) {
+        yield abortedEvent();
+        return;
+      }
+
       // Stream response and collect content
       let fullContent = '';
       let toolCalls: ToolCall[] = [];
@@ -132,7 +193,8 @@ export class StreamingClientWithTools {
         try {
           const response = await this.streamingClient.chatWithTools(
             conversationMessages,
-            this.toolSchemas
+            this.toolSchemas,
+            { signal }
           );
           fullContent = response.content;
           toolCalls = response.toolCalls || [];
@@ -147,10 +209,15 @@ export class StreamingClientWithTools {
             }
           }
         } catch (error) {
+          if (signal?.aborted) {
+            yield abortedEvent();
+            return;
+          }
+
           // Fallback to regular streaming if tool calling not supported
           console.warn('[StreamingTools] Tool calling not supported, falling back to streaming');
 
-          const stream = this.streamingClient.stream(conversationMessages);
+          const stream = this.streamingClient.stream(conversationMessages, { signal });
           for await (const event of stream) {
             if (event.type === 'token') {
               fullContent += event.data;
@@ -161,7 +228,7 @@ export class StreamingClientWithTools {
         }
       } else {
         // No tools registered, use regular streaming
-        const stream = this.streamingClient.stream(conversationMessages);
+        const stream = this.streamingClient.stream(conversationMessages, { signal });
         for await (const event of stream) {
           if (event.type === 'token') {
             fullContent += event.data;
@@ -171,6 +238,11 @@ export class StreamingClientWithTools {
         toolCalls = [];
       }
 
+      if (signal?.aborted) {
+        yield abortedEvent();
+        return;
+      }
+
       // If no tool calls, we're done
       if (!toolCalls || toolCalls.length === 0) {
         yield { type: 'done' };
@@ -178,47 +250,65 @@ export class StreamingClientWithTools {
       }
 
       // Execute tool calls automatically
-      const toolResults: Record<string, any> = {};
+      const toolMessages: Message[] = [];
 
       for (const toolCall of toolCalls) {
         // Notify about tool call
         yield { type: 'tool_call', toolCall };
         onToolCall?.(toolCall);
 
-        try {
-          const result = await this.executeTool(toolCall);
-          toolResults[toolCall.name] = result;
-
-          // Notify about tool result
-          yield { type: 'tool_result', toolName: toolCall.name, result };
-          onToolResult?.(toolCall.name, result);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          toolResults[toolCall.name] = { error: errorMessage };
-
-          yield {
-            type: 'tool_result',
-            toolName: toolCall.name,
-            result: { error: errorMessage }
-          };
+        const startedAt = new Date();
+        const record: ToolCallRecord = {
+          id: toolCall.id,
+          name: toolCall.name,
+          args: toolCall.arguments,
+          startedAt: startedAt.toISOString(),
+          durationMs: 0,
+        };
+
+        const check = this.permissions && !signal?.aborted
+          ? await this.permissions.authorize(toolCall, {
+              agentName: this.agentName,
+              readOnly: this.toolSchemas.some(t => t.name === toolCall.name && t.readOnly === true),
+              signal,
+            })
+          : null;
+
+        if (signal?.aborted) {
+          record.error = 'Skipped: run aborted';
+        } else if (check && !check.allowed) {
+          record.error = `Permission denied: ${check.reason}`;
+        } else {
+          try {
+            record.result = await this.executeTool(toolCall, signal);
+          } catch (error) {
+            record.error = error instanceof Error ? error.message : String(error);
+          }
         }
+        record.durationMs = Date.now() - startedAt.getTime();
+
+        const result = record.error ? { error: record.error } : record.result;
+
+        // Notify about tool result
+        yield { type: 'tool_result', toolName: toolCall.name, result, record };
+        onToolResult?.(record);
+
+        toolMessages.push({
+          role: 'tool',
+          content: JSON.stringify(result, null, 2),
+          tool_call_id: toolCall.id,
+          tool_name: toolCall.name,
+        });
       }
 
-      // Add assistant response to conversation
+      // Add assistant response and one result message per call to conversation
       conversationMessages.push({
         role: 'assistant',
         content: fullContent,
+        tool_calls: toolCalls,
       });
 
-      // Add tool results to conversation
-      const toolResultsText = Object.entries(toolResults)
-        .map(([tool, result]) => `Tool "${tool}" result:\n${JSON.stringify(result, null, 2)}`)
-        .join('\n\n');
-
-      conversationMessages.push({
-        role: 'user',
-        content: `Tool execution results:\n\n${toolResultsText}\n\nPlease continue with your response based on these results.`,
-      });
+      conversationMessages.push(...toolMessages);
 
       // Continue loop for next iteration
     }
@@ -270,6 +360,8 @@ export function registerStandardTools(client: StreamingClientWithTools): void {
   const { 
     readFile, 
     writeFile, 
+    editFile, 
+    applyPatch, 
     searchFiles, 
     blobSearch, 
     bashExec 
@@ -278,10 +370,11 @@ export function registerStandardTools(client: StreamingClientWithTools): void {
   // Register readFile
   client.registerTool(
     'readFile',
-    (params: Record<string, any>) => readFile(params),
+    (params: Record<string, any>, context?: ToolContext) => readFile(params, context),
     {
       name: 'readFile',
       description: 'Read the contents of a file',
+      readOnly: true,
       parameters: {
         type: 'object',
         properties: {
@@ -298,7 +391,7 @@ export function registerStandardTools(client: StreamingClientWithTools): void {
   // Register writeFile
   client.registerTool(
     'writeFile',
-    (params: Record<string, any>) => writeFile(params),
+    (params: Record<string, any>, context?: ToolContext) => writeFile(params, context),
     {
       name: 'writeFile',
       description: 'Write content to a file',
@@ -319,13 +412,70 @@ export function registerStandardTools(client: StreamingClientWithTools): void {
     }
   );
 
+  // Register editFile
+  client.registerTool(
+    'editFile',
+    (params: Record<string, any>, context?: ToolContext) => editFile(params, context),
+    {
+      name: 'editFile',
+      description: 'Edit a file by replacing an exact string. Prefer this over writeFile for changes to existing files. The file must have been read first. Returns a unified diff',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'Path to the file to edit',
+          },
+          old_string: {
+            type: 'string',
+            description: 'Exact text to replace, including whitespace and indentation. Must be unique in the file unless replace_all is true',
+          },
+          new_string: {
+            type: 'string',
+            description: 'Text to replace it with',
+          },
+          replace_all: {
+            type: 'boolean',
+            description: 'Replace every occurrence of old_string (default: false)',
+          },
+        },
+        required: ['path', 'old_string', 'new_string'],
+      },
+    }
+  );
+
+  // Register applyPatch
+  client.registerTool(
+    'applyPatch',
+    (params: Record<string, any>, context?: ToolContext) => applyPatch(params, context),
+    {
+      name: 'applyPatch',
+      description: 'Apply a unified diff that may span several files, including new, deleted and renamed files. Applied atomically: if any hunk fails, no file changes. Existing files must have been read first. Reports offset and fuzz per hunk',
+      parameters: {
+        type: 'object',
+        properties: {
+          patch: {
+            type: 'string',
+            description: 'Unified diff with "--- a/path" / "+++ b/path" headers and @@ hunks. Use /dev/null for created or deleted files; git "rename from"/"rename to" headers are supported',
+          },
+          dry_run: {
+            type: 'boolean',
+            description: 'Check that every hunk applies without writing any files (default: false)',
+          },
+        },
+        required: ['patch'],
+      },
+    }
+  );
+
   // Register searchFiles
   client.registerTool(
     'searchFiles',
-    (params: Record<string, any>) => searchFiles(params),
+    (params: Record<string, any>, context?: ToolContext) => searchFiles(params, context),
     {
       name: 'searchFiles',
       description: 'Search for files matching a pattern',
+      readOnly: true,
       parameters: {
         type: 'object',
         properties: {
@@ -340,10 +490,11 @@ export function registerStandardTools(client: StreamingClientWithTools): void {
   // Register blobSearch
   client.registerTool(
     'blobSearch',
-    (params: Record<string, any>) => blobSearch(params),
+    (params: Record<string, any>, context?: ToolContext) => blobSearch(params, context),
     {
       name: 'blobSearch',
       description: 'Search for text content within files',
+      readOnly: true,
       parameters: {
         type: 'object',
         properties: {
@@ -359,7 +510,7 @@ export function registerStandardTools(client: StreamingClientWithTools): void {
   // Register bashExec
   client.registerTool(
     'bashExec',
-    (params: Record<string, any>) => bashExec(params),
+    (params: Record<string, any>, context?: ToolContext) => bashExec(params, context),
     {
       name: 'bashExec',
       description: 'Execute a bash command',
@@ -1,13 +1,12 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { exec } from 'child_process';
 import { Agent } from './agent';
-import { Tool } from './llm/ollama-client';
-import { promisify } from 'util';
+import { Tool, ToolContext } from './llm/ollama-client';
 import { getKnowledgeGraphTools, knowledgeGraphToolSchemas } from './tools/knowledge-tools';
 import { getMemoryTools, memoryToolSchemas } from './tools/memory-tools';
-
-const execp = promisify(exec);
+import { editFile, applyPatch, getFileAccessTracker, resolveToolPath, execShell } from './tools/toolFunctions';
+import { getCommandPolicy, dryRunCommandResult } from './tools/command-policy';
+import { assertTrustedPath, getTrustedRoots, realpathDeep, isWithin } from './trust';
 
 /**
  * Custom exception for tool execution errors
@@ -24,17 +23,6 @@ class ToolExecutionError extends Error {
   }
 }
 
-class CommandBlacklistedError extends Error {
-  constructor(
-    public readonly command: string,
-    public readonly matchedPattern: string
-  ) {
-    super(`Command blocked by security policy: matched pattern "${matchedPattern}"`);
-    this.name = 'CommandBlacklistedError';
-    Error.captureStackTrace(this, this.constructor);
-  }
-}
-
 class FileAccessError extends Error {
   constructor(
     public readonly filePath: string,
@@ -54,14 +42,20 @@ export function registerTools(agent: Agent): void {
   // Read File Tool
   agent.registerTool(
     'readFile',
-    async ({ path: p }: any) => {
+    async ({ path: p }: any, context?: ToolContext) => {
       if (!p || typeof p !== 'string') {
         throw new Error('path parameter is required and must be a string');
       }
 
+      // Throws UntrustedPathError outside the trusted directories
+      const resolvedPath = await assertTrustedPath(resolveToolPath(p, context));
+
       try {
-        const resolvedPath = path.resolve(p);
         const content = await fs.readFile(resolvedPath, 'utf-8');
+
+        // Track the read so editFile allows changes to this file
+        getFileAccessTracker().markAsRead(resolvedPath);
+
         return { path: resolvedPath, content, size: content.length };
       } catch (error: any) {
         throw new FileAccessError(p, 'read', error);
@@ -70,6 +64,7 @@ export function registerTools(agent: Agent): void {
     {
       name: 'readFile',
       description: 'Read the contents of a file',
+      readOnly: true,
       parameters: {
         type: 'object',
         properties: {
@@ -86,20 +81,25 @@ export function registerTools(agent: Agent): void {
   // Write File Tool
   agent.registerTool(
     'writeFile',
-    async ({ path: p, content }: any) => {
+    async ({ path: p, content }: any, context?: ToolContext) => {
       if (!p || typeof p !== 'string') {
         throw new Error('path parameter is required and must be a string');
       }
 
+      const resolvedPath = await assertTrustedPath(resolveToolPath(p, context));
+
       try {
-        const resolvedPath = path.resolve(p);
         const dir = path.dirname(resolvedPath);
+        const before = context?.recordEdit
+          ? await fs.readFile(resolvedPath, 'utf-8').catch(() => null)
+          : null;
         
         // Ensure directory exists
         await fs.mkdir(dir, { recursive: true });
         
         // Write file
         await fs.writeFile(resolvedPath, content ?? '', 'utf-8');
+        await context?.recordEdit?.([{ path: resolvedPath, before, after: content ?? '' }]);
         
         return { 
           ok: true, 
@@ -130,10 +130,68 @@ export function registerTools(agent: Agent): void {
     }
   );
 
+  // Edit File Tool
+  agent.registerTool(
+    'editFile',
+    async (args: any, context?: ToolContext) => editFile(args, context),
+    {
+      name: 'editFile',
+      description: 'Edit a file by replacing an exact string. Prefer this over writeFile for changes to existing files. The file must have been read first. Returns a unified diff',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: {
+            type: 'string',
+            description: 'Path to the file to edit',
+          },
+          old_string: {
+            type: 'string',
+            description: 'Exact text to replace, including whitespace and indentation. Must be unique in the file unless replace_all is true',
+          },
+          new_string: {
+            type: 'string',
+            description: 'Text to replace it with',
+          },
+          replace_all: {
+            type: 'boolean',
+            description: 'Replace every occurrence of old_string (default: false)',
+          },
+        },
+        required: ['path', 'old_string', 'new_string'],
+      },
+    }
+  );
+
+  // Apply Patch Tool
+  agent.registerTool(
+    'applyPatch',
+    async (args: any, context?: ToolContext) => applyPatch(args, context),
+    {
+      name: 'applyPatch',
+      description: 'Apply a unified diff that may span several files, including new, deleted and renamed files. Applied atomically: if any hunk fails, no file changes. Existing files must have been read first. Reports offset and fuzz per hunk',
+      parameters: {
+        type: 'object',
+        properties: {
+          patch: {
+            type: 'string',
+            description: 'Unified diff with "--- a/path" / "+++ b/path" headers and @@ hunks. Use /dev/null for created or deleted files; git "rename from"/"rename to" headers are supported',
+          },
+          dry_run: {
+            type: 'boolean',
+            description: 'Check that every hunk applies without writing any files (default: false)',
+          },
+        },
+        required: ['patch'],
+      },
+    }
+  );
+
   // Search Files Tool
   agent.registerTool(
     'searchFiles',
-    async ({ dir = '.', pattern = '.*', max = 100 }: any) => {
+    async ({ dir = '.', pattern = '.*', max = 100 }: any, context?: ToolContext) => {
+      const startDir = await assertTrustedPath(resolveToolPath(dir, context));
+
       try {
         const re = new RegExp(pattern);
         const found: string[] = [];
@@ -166,7 +224,6 @@ export function registerTools(agent: Agent): void {
           }
         }
         
-        const startDir = path.resolve(dir);
         await walk(startDir);
         
         return { 
@@ -181,6 +238,7 @@ export function registerTools(agent: Agent): void {
     {
       name: 'searchFiles',
       description: 'Search for files matching a pattern in a directory tree',
+      readOnly: true,
       parameters: {
         type: 'object',
         properties: {
@@ -204,11 +262,14 @@ export function registerTools(agent: Agent): void {
   // Blob Search Tool (search inside files)
   agent.registerTool(
     'blobSearch',
-    async ({ dir = '.', q = '', maxFiles = 50 }: any) => {
+    async ({ dir = '.', q = '', maxFiles = 50 }: any, context?: ToolContext) => {
       if (!q || typeof q !== 'string') {
         throw new Error('q (query string) parameter is required');
       }
 
+      const roots = await getTrustedRoots();
+      const startDir = await assertTrustedPath(resolveToolPath(dir, context), roots);
+
       try {
         const hits: Array<{ path: string; snippet: string; line: number }> = [];
         
@@ -224,6 +285,14 @@ export function registerTools(agent: Agent): void {
                   await walk(full);
                 }
               } else {
+                // Symlinked files are only read if they point inside the trusted directories
+                if (it.isSymbolicLink()) {
+                  const target = await realpathDeep(full);
+                  if (!roots.some(root => isWithin(root, target))) {
+                    continue;
+                  }
+                }
+
                 try {
                   const txt = await fs.readFile(full, 'utf-8');
                   
@@ -254,7 +323,6 @@ export function registerTools(agent: Agent): void {
           }
         }
         
-        const startDir = path.resolve(dir);
         await walk(startDir);
         
         return { 
@@ -270,6 +338,7 @@ export function registerTools(agent: Agent): void {
     {
       name: 'blobSearch',
       description: 'Search for text content within files',
+      readOnly: true,
       parameters: {
         type: 'object',
         properties: {
@@ -294,40 +363,33 @@ export function registerTools(agent: Agent): void {
   // Bash Exec Tool
   agent.registerTool(
     'bashExec',
-    async ({ cmd, cwd = '.' }: any) => {
+    async ({ cmd, cwd = '.' }: any, context?: ToolContext) => {
       if (!cmd || typeof cmd !== 'string') {
         throw new Error('cmd parameter is required and must be a string');
       }
+      cwd = resolveToolPath(cwd, context);
 
-      // Enhanced security: blacklist dangerous commands
-      const blacklist = [
-        'rm -rf',
-        'rm -fr',
-        'shutdown',
-        'reboot',
-        ':(){',
-        'mkfs',
-        'dd if=',
-        'format',
-        '> /dev/',
-        'chmod 777',
-        'curl | bash',
-        'wget | sh',
-      ];
-
-      for (const pattern of blacklist) {
-        if (cmd.toLowerCase().includes(pattern.toLowerCase())) {
-          throw new CommandBlacklistedError(cmd, pattern);
-        }
+      // Dry runs report what the policy would decide instead of running the command
+      if (context?.dryRun) {
+        const decision = await getCommandPolicy().evaluate(cmd, path.resolve(cwd));
+        return dryRunCommandResult(decision, 'Dry run: the command was not executed');
       }
 
+      // Throws CommandPolicyError when the command is denied or not approved
+      await getCommandPolicy().enforce(
+        cmd,
+        path.resolve(cwd),
+        context?.requestApproval && (decision => context.requestApproval!(decision.reasons.join('; '), { kind: 'command', text: cmd }))
+      );
+
       try {
         const resolvedCwd = path.resolve(cwd);
         
-        const { stdout, stderr } = await execp(cmd, { 
-          cwd: resolvedCwd, 
-          timeout: 60_000,
-          maxBuffer: 1024 * 1024 * 10 // 10MB buffer
+        const { stdout, stderr } = await execShell(cmd, {
+          cwd: resolvedCwd,
+          timeoutMs: 60_000,
+          maxBuffer: 1024 * 1024 * 10, // 10MB buffer
+          signal: context?.signal, // Kills the command and its children on cancel
         });
         
         return { 
@@ -337,6 +399,11 @@ export function registerTools(agent: Agent): void {
           command: cmd
         };
       } catch (error: any) {
+        // Cancelled: propagate instead of reporting a failed command
+        if (context?.signal?.aborted) {
+          throw error;
+        }
+
         // Execution failed, but we still want to return the error
         return {
           stdout: error.stdout?.trim() || '',
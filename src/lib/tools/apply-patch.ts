@@ -0,0 +1,353 @@
+/**
+ * Unified diff parsing and in-memory hunk application for the applyPatch tool.
+ * Nothing here touches the filesystem; applyPatch in toolFunctions does the I/O.
+ */
+
+/**
+ * One line of a hunk body
+ */
+export interface PatchLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * A single `@@ -a,b +c,d @@` hunk
+ */
+export interface PatchHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: PatchLine[];
+  // "\ No newline at end of file" markers on either side
+  oldNoNewline: boolean;
+  newNoNewline: boolean;
+}
+
+export type FilePatchAction = 'modify' | 'create' | 'delete' | 'rename';
+
+/**
+ * All hunks for one file. Paths have the `a/` and `b/` prefixes stripped;
+ * `oldPath` is null for created files and `newPath` is null for deleted ones.
+ */
+export interface FilePatch {
+  action: FilePatchAction;
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+/**
+ * Where (and how loosely) a hunk matched
+ */
+export interface HunkResult {
+  index: number;
+  applied: boolean;
+  // 1-based line in the file as it was before this patch touched it
+  expectedLine: number;
+  appliedLine?: number;
+  offset: number;
+  // Number of context lines ignored at each end to find a match
+  fuzz: number;
+  message?: string;
+}
+
+export class PatchParseError extends Error {
+  constructor(
+    public readonly lineNumber: number,
+    public readonly reason: string
+  ) {
+    super(`Invalid patch at line ${lineNumber}: ${reason}`);
+    this.name = 'PatchParseError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+// Same limit GNU patch uses by default
+export const DEFAULT_MAX_FUZZ = 2;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Path from a `---`/`+++` header: drops the timestamp, quotes and the
+ * `a/`/`b/` prefix. Returns null for /dev/null.
+ */
+function headerPath(raw: string, prefix: 'a/' | 'b/'): string | null {
+  let p = raw.split('\t')[0].trim();
+  if (p.startsWith('"') && p.endsWith('"')) {
+    p = p.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  if (p === '/dev/null') {
+    return null;
+  }
+  return p.startsWith(prefix) ? p.slice(prefix.length) : p;
+}
+
+function parseHunk(lines: string[], start: number): { hunk: PatchHunk; next: number } {
+  const match = HUNK_HEADER.exec(lines[start]);
+  if (!match) {
+    throw new PatchParseError(start + 1, `malformed hunk header "${lines[start]}"`);
+  }
+
+  const hunk: PatchHunk = {
+    oldStart: parseInt(match[1], 10),
+    oldCount: match[2] === undefined ? 1 : parseInt(match[2], 10),
+    newStart: parseInt(match[3], 10),
+    newCount: match[4] === undefined ? 1 : parseInt(match[4], 10),
+    lines: [],
+    oldNoNewline: false,
+    newNoNewline: false,
+  };
+
+  let oldSeen = 0;
+  let newSeen = 0;
+  let i = start + 1;
+
+  while (oldSeen < hunk.oldCount || newSeen < hunk.newCount) {
+    if (i >= lines.length) {
+      throw new PatchParseError(i, `hunk ended early (expected -${hunk.oldCount} +${hunk.newCount} lines, got -${oldSeen} +${newSeen})`);
+    }
+
+    const line = lines[i];
+    // Editors often strip the single space from blank context lines
+    const type = line === '' ? ' ' : line[0];
+    const text = line.slice(1);
+
+    if (type === ' ') {
+      oldSeen++;
+      newSeen++;
+    } else if (type === '-') {
+      oldSeen++;
+    } else if (type === '+') {
+      newSeen++;
+    } else if (type !== '\\') {
+      throw new PatchParseError(i + 1, `unexpected line in hunk (expected -${hunk.oldCount} +${hunk.newCount} lines, got -${oldSeen} +${newSeen})`);
+    }
+
+    if (type === '\\') {
+      markNoNewline(hunk);
+    } else {
+      hunk.lines.push({ type: type as PatchLine['type'], text });
+    }
+    i++;
+
+    if (oldSeen > hunk.oldCount || newSeen > hunk.newCount) {
+      throw new PatchParseError(i, `hunk has more lines than its header declares (-${hunk.oldCount} +${hunk.newCount})`);
+    }
+  }
+
+  // A marker may follow the last line of the hunk
+  if (i < lines.length && lines[i].startsWith('\\')) {
+    markNoNewline(hunk);
+    i++;
+  }
+
+  return { hunk, next: i };
+}
+
+function markNoNewline(hunk: PatchHunk): void {
+  const last = hunk.lines[hunk.lines.length - 1];
+  if (!last) {
+    return;
+  }
+  if (last.type !== '+') hunk.oldNoNewline = true;
+  if (last.type !== '-') hunk.newNoNewline = true;
+}
+
+/**
+ * Parse a (possibly multi-file) unified diff. Understands plain `---`/`+++`
+ * diffs as well as git extended headers for new, deleted and renamed files.
+ * Text between file sections (commit messages, `Index:` lines) is ignored.
+ */
+export function parsePatch(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    let gitHeader: { created: boolean; deleted: boolean; renameFrom?: string; renameTo?: string; oldPath?: string; newPath?: string } | null = null;
+
+    if (line.startsWith('diff --git ')) {
+      const names = /^diff --git (?:"?a\/)?(.+?)"? (?:"?b\/)?(.+?)"?$/.exec(line);
+      gitHeader = { created: false, deleted: false, oldPath: names?.[1], newPath: names?.[2] };
+      i++;
+      while (i < lines.length && !lines[i].startsWith('diff --git ') && !lines[i].startsWith('--- ') && !lines[i].startsWith('@@')) {
+        const ext = lines[i];
+        if (ext.startsWith('new file mode')) gitHeader.created = true;
+        else if (ext.startsWith('deleted file mode')) gitHeader.deleted = true;
+        else if (ext.startsWith('rename from ')) gitHeader.renameFrom = ext.slice('rename from '.length);
+        else if (ext.startsWith('rename to ')) gitHeader.renameTo = ext.slice('rename to '.length);
+        else if (ext.startsWith('Binary files') || ext.startsWith('GIT binary patch')) {
+          throw new PatchParseError(i + 1, 'binary patches are not supported');
+        }
+        i++;
+      }
+    } else if (!(line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ '))) {
+      i++;
+      continue;
+    }
+
+    let oldPath: string | null | undefined = gitHeader?.renameFrom ?? gitHeader?.oldPath;
+    let newPath: string | null | undefined = gitHeader?.renameTo ?? gitHeader?.newPath;
+
+    if (i < lines.length && lines[i].startsWith('--- ')) {
+      if (!lines[i + 1]?.startsWith('+++ ')) {
+        throw new PatchParseError(i + 2, 'expected "+++" header after "---"');
+      }
+      oldPath = headerPath(lines[i].slice(4), 'a/');
+      newPath = headerPath(lines[i + 1].slice(4), 'b/');
+      i += 2;
+    }
+
+    if (gitHeader?.created) oldPath = null;
+    if (gitHeader?.deleted) newPath = null;
+
+    if (oldPath === undefined || newPath === undefined || (oldPath === null && newPath === null)) {
+      throw new PatchParseError(i, 'could not determine the file name for this section');
+    }
+
+    const hunks: PatchHunk[] = [];
+    while (i < lines.length && lines[i].startsWith('@@')) {
+      const { hunk, next } = parseHunk(lines, i);
+      hunks.push(hunk);
+      i = next;
+    }
+
+    let action: FilePatchAction;
+    if (oldPath === null) action = 'create';
+    else if (newPath === null) action = 'delete';
+    else if (oldPath !== newPath) action = 'rename';
+    else action = 'modify';
+
+    if (action === 'modify' && hunks.length === 0) {
+      // Mode-only change or an empty section; nothing to apply
+      continue;
+    }
+
+    files.push({ action, oldPath, newPath, hunks });
+  }
+
+  return files;
+}
+
+/**
+ * Apply hunks to file content in order. Each hunk is looked for at its
+ * expected line first, then at growing distances from it (offset), and
+ * finally with up to `maxFuzz` context lines dropped from each end.
+ * Returns the new content only if every hunk applied.
+ */
+export function applyHunks(
+  content: string,
+  hunks: PatchHunk[],
+  maxFuzz: number = DEFAULT_MAX_FUZZ
+): { content?: string; results: HunkResult[] } {
+  let endsWithNewline = content === '' || content.endsWith('\n');
+  const lines = content === '' ? [] : (endsWithNewline ? content.slice(0, -1) : content).split('\n');
+  const results: HunkResult[] = [];
+  // Lines added minus lines removed by earlier hunks
+  let delta = 0;
+  // Earlier hunks' output must not be matched again
+  let floor = 0;
+  let failed = false;
+
+  hunks.forEach((hunk, index) => {
+    // For pure insertions oldStart is the line *after which* to insert
+    const expected = Math.max(0, (hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta);
+    const result: HunkResult = { index, applied: false, expectedLine: expected - delta + 1, offset: 0, fuzz: 0 };
+    const match = locateHunk(lines, hunk, expected, floor, maxFuzz);
+
+    if (!match) {
+      result.message = 'context does not match the file';
+      failed = true;
+    } else {
+      const { position, leading, trailing } = match;
+      const newSide = hunk.lines.filter(l => l.type !== '-').map(l => l.text);
+      const oldLength = hunk.lines.filter(l => l.type !== '+').length - leading - trailing;
+      const replacement = newSide.slice(leading, newSide.length - trailing);
+
+      lines.splice(position, oldLength, ...replacement);
+
+      result.applied = true;
+      result.offset = position - leading - expected;
+      result.fuzz = Math.max(leading, trailing);
+      result.appliedLine = position - leading - delta + 1;
+
+      if (position + replacement.length === lines.length) {
+        if (hunk.newNoNewline) endsWithNewline = false;
+        else if (hunk.oldNoNewline) endsWithNewline = true;
+      }
+
+      delta += replacement.length - oldLength;
+      floor = position + replacement.length;
+    }
+    results.push(result);
+  });
+
+  if (failed) {
+    return { results };
+  }
+
+  const joined = lines.join('\n');
+  return { content: lines.length > 0 && endsWithNewline ? `${joined}\n` : joined, results };
+}
+
+/**
+ * Find where a hunk's old side appears, nearest to `expected` first.
+ * `leading`/`trailing` are the context lines dropped to get a match.
+ */
+function locateHunk(
+  lines: string[],
+  hunk: PatchHunk,
+  expected: number,
+  floor: number,
+  maxFuzz: number
+): { position: number; leading: number; trailing: number } | null {
+  const oldSide = hunk.lines.filter(l => l.type !== '+').map(l => l.text);
+  const firstChange = hunk.lines.findIndex(l => l.type !== ' ');
+  // A hunk without changes has no context to drop
+  const leadingContext = firstChange === -1 ? 0 : firstChange;
+  const trailingContext = firstChange === -1 ? 0 : hunk.lines.length - 1 - findLastIndex(hunk.lines, l => l.type !== ' ');
+
+  for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+    const leading = Math.min(fuzz, leadingContext);
+    const trailing = Math.min(fuzz, trailingContext);
+    if (fuzz > 0 && leading === 0 && trailing === 0) {
+      break;
+    }
+
+    const pattern = oldSide.slice(leading, oldSide.length - trailing);
+    const target = expected + leading;
+    const last = lines.length - pattern.length;
+    const maxDistance = Math.max(target - floor, last - target);
+
+    for (let distance = 0; distance <= maxDistance; distance++) {
+      for (const position of distance === 0 ? [target] : [target - distance, target + distance]) {
+        if (position >= floor && position <= last && matchesAt(lines, pattern, position)) {
+          return { position, leading, trailing };
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+function matchesAt(lines: string[], pattern: string[], position: number): boolean {
+  for (let k = 0; k < pattern.length; k++) {
+    if (lines[position + k] !== pattern[k]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let k = items.length - 1; k >= 0; k--) {
+    if (predicate(items[k])) {
+      return k;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,809 @@
+/**
+ * Command policy for bashExec: tokenizes shell commands and evaluates
+ * allow/deny/ask rules per program and argument pattern, confines the
+ * working directory and path arguments to trusted roots and records every decision.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getTrustedRoots, realpathDeep, isWithin } from '../trust';
+
+const HOME = process.env.AGENT_HOME || (process.env.HOME || os.homedir()) + '/.local-agent';
+
+export type PolicyAction = 'allow' | 'deny' | 'ask';
+
+/**
+ * A rule matches a single program invocation. `program` is compared with the
+ * executable's basename and may use `*` wildcards; `args` is a regular
+ * expression tested against the arguments joined by single spaces.
+ */
+export interface CommandRule {
+  action: PolicyAction;
+  program: string | string[];
+  args?: string;
+  // Only match when stdin is piped from one of these programs
+  pipedFrom?: string | string[];
+  reason: string;
+}
+
+export interface Redirect {
+  op: string;
+  target: string;
+  // Here-document body for `<<`
+  body?: string;
+}
+
+/**
+ * One program invocation found in a command line
+ */
+export interface SimpleCommand {
+  program: string;
+  args: string[];
+  redirects: Redirect[];
+  pipedFrom?: string;
+  // Words containing $VAR, $(...) or backticks, whose value is only known at runtime
+  programDynamic: boolean;
+  argsDynamic: boolean[];
+}
+
+/**
+ * Something the analyser could not check statically
+ */
+export interface PolicyIssue {
+  action: PolicyAction;
+  reason: string;
+}
+
+export interface AnalysedCommand {
+  commands: SimpleCommand[];
+  functions: string[];
+  issues: PolicyIssue[];
+}
+
+export interface CommandDecision {
+  command: string;
+  cwd: string;
+  action: PolicyAction;
+  // Why the command was denied or needs approval; empty when allowed
+  reasons: string[];
+  programs: string[];
+  outcome: 'allowed' | 'denied' | 'approved' | 'rejected';
+  timestamp: string;
+}
+
+export type CommandApprovalHandler = (decision: CommandDecision) => Promise<boolean>;
+export type CommandDecisionListener = (decision: CommandDecision) => void;
+
+export interface CommandPolicyOptions {
+  // Checked before the default rules; the first matching rule wins
+  rules?: CommandRule[];
+  defaultAction?: PolicyAction;
+  // Defaults to the current directory plus the directories in trusted.json
+  trustedRoots?: () => Promise<string[]>;
+  // JSON file with { defaultAction?, rules? }, read on first use
+  configPath?: string;
+  // JSONL audit log; null disables it
+  auditLogPath?: string | null;
+}
+
+export class CommandPolicyError extends Error {
+  constructor(
+    public readonly decision: CommandDecision
+  ) {
+    super(
+      decision.outcome === 'rejected'
+        ? `Command was not approved: ${decision.reasons.join('; ')}`
+        : `Command blocked by security policy: ${decision.reasons.join('; ')}`
+    );
+    this.name = 'CommandPolicyError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+const RECURSIVE_FORCE = '(?=.*(^| )(-[a-zA-Z]*[rR][a-zA-Z]*|--recursive)( |$))(?=.*(^| )(-[a-zA-Z]*f[a-zA-Z]*|--force)( |$))';
+
+export const DEFAULT_COMMAND_RULES: CommandRule[] = [
+  { action: 'deny', program: ['shutdown', 'reboot', 'halt', 'poweroff'], reason: 'changes the machine power state' },
+  { action: 'deny', program: ['mkfs*', 'mke2fs', 'fdisk', 'sfdisk', 'parted', 'wipefs'], reason: 'formats or partitions disks' },
+  { action: 'deny', program: 'dd', args: '(^| )of=/dev/', reason: 'writes to a raw device' },
+  {
+    action: 'deny',
+    program: 'rm',
+    args: `${RECURSIVE_FORCE}.*(^| )(/|/\\*|~|~/|~/\\*|\\*|\\.|\\./|\\.\\.|\\.\\./|\\$HOME|\\$\\{HOME\\})( |$)`,
+    reason: 'recursively deletes the filesystem root, home or working directory',
+  },
+  { action: 'ask', program: 'rm', args: RECURSIVE_FORCE, reason: 'recursive forced delete' },
+  { action: 'ask', program: 'chmod', args: '(^| )(0?777|a\\+rwx|ugo\\+rwx)( |$)', reason: 'makes files world-writable' },
+  { action: 'deny', program: ['sh', 'bash', 'zsh', 'dash', 'ksh'], pipedFrom: ['curl', 'wget'], reason: 'pipes a download straight into a shell' },
+  { action: 'ask', program: ['sudo', 'su', 'doas'], reason: 'runs with elevated privileges' },
+  { action: 'ask', program: 'git', args: '^push( .*)? (--force|-f|\\+[^ ]+)( |$)', reason: 'force-pushes' }, // +refspec forces that ref
+];
+
+// Programs that run their arguments as another command, with options that take a value
+const WRAPPERS: Record<string, string[]> = {
+  sudo: ['-u', '-g', '-C', '-h', '-p'],
+  doas: ['-u'],
+  env: ['-u', '-C', '-S'],
+  nice: ['-n'],
+  nohup: [],
+  timeout: ['-s', '-k', '--signal', '--kill-after'],
+  time: [],
+  command: [],
+  builtin: [],
+  exec: ['-a'],
+  xargs: ['-I', '-n', '-P', '-L', '-d', '-E', '-s', '-a'],
+  stdbuf: [],
+  ionice: ['-c', '-n'],
+  watch: ['-n'],
+};
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh', 'fish']);
+const SKIPPED_KEYWORDS = new Set(['if', 'then', 'elif', 'else', 'fi', 'do', 'done', 'while', 'until', '!', '{', '}', 'time', 'esac']);
+const SAFE_DEVICES = new Set(['/dev/null', '/dev/zero', '/dev/stdout', '/dev/stderr', '/dev/tty', '/dev/random', '/dev/urandom']);
+const MAX_DEPTH = 8;
+const MAX_RECORDED_DECISIONS = 1000;
+const SEVERITY: Record<PolicyAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+type Token =
+  | { kind: 'word'; value: string; dynamic: boolean }
+  | { kind: 'op'; value: string }
+  | { kind: 'redirect'; value: string; body?: string };
+
+/**
+ * Index of the `)` closing the `(` at `open`, skipping quoted text
+ */
+function matchParen(input: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < input.length; i++) {
+    const c = input[i];
+    if (c === '\\') {
+      i++;
+    } else if (c === "'") {
+      i = input.indexOf("'", i + 1);
+      if (i === -1) break;
+    } else if (c === '"') {
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\') i++;
+        i++;
+      }
+    } else if (c === '(') {
+      depth++;
+    } else if (c === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  throw new Error('unterminated parenthesis');
+}
+
+/**
+ * End index of a `$...` or backtick expansion starting at `i`, or 0 if there
+ * is none. Command substitutions are collected for separate analysis.
+ */
+function readExpansion(input: string, i: number, substitutions: string[]): number {
+  if (input[i] === '`') {
+    let end = i + 1;
+    while (end < input.length && input[end] !== '`') {
+      if (input[end] === '\\') end++;
+      end++;
+    }
+    if (end >= input.length) throw new Error('unterminated backtick');
+    substitutions.push(input.slice(i + 1, end));
+    return end + 1;
+  }
+
+  const next = input[i + 1];
+  if (next === '(') {
+    const end = matchParen(input, i + 1);
+    // $((...)) is arithmetic, not a command
+    if (input[i + 2] !== '(') {
+      substitutions.push(input.slice(i + 2, end));
+    }
+    return end + 1;
+  }
+  if (next === '{') {
+    const end = input.indexOf('}', i);
+    if (end === -1) throw new Error('unterminated ${');
+    return end + 1;
+  }
+  if (next !== undefined && /[A-Za-z_]/.test(next)) {
+    let end = i + 2;
+    while (end < input.length && /[A-Za-z0-9_]/.test(input[end])) end++;
+    return end;
+  }
+  if (next !== undefined && /[0-9@*#?$!-]/.test(next)) {
+    return i + 2;
+  }
+  return 0;
+}
+
+/**
+ * Split a command line into words, operators and redirections, following
+ * shell quoting rules closely enough to find every program it runs
+ */
+function lex(input: string, substitutions: string[]): Token[] {
+  const tokens: Token[] = [];
+  const heredocs: Array<{ token: Token & { kind: 'redirect' }; delimiter?: string; stripTabs: boolean }> = [];
+  let word = '';
+  let inWord = false;
+  let dynamic = false;
+
+  const flush = () => {
+    if (inWord) {
+      tokens.push({ kind: 'word', value: word, dynamic });
+      const pending = heredocs.find(h => h.delimiter === undefined);
+      if (pending && tokens[tokens.length - 2] === pending.token) {
+        pending.delimiter = word;
+      }
+    }
+    word = '';
+    inWord = false;
+    dynamic = false;
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+
+    if (c === ' ' || c === '\t') {
+      flush();
+      i++;
+    } else if (c === '\n') {
+      flush();
+      tokens.push({ kind: 'op', value: ';' });
+      i++;
+      // Here-document bodies start on the next line
+      for (const heredoc of heredocs.splice(0)) {
+        const bodyLines: string[] = [];
+        while (i < input.length) {
+          const end = input.indexOf('\n', i) === -1 ? input.length : input.indexOf('\n', i);
+          const line = input.slice(i, end);
+          i = end + 1;
+          if ((heredoc.stripTabs ? line.replace(/^\t+/, '') : line) === heredoc.delimiter) break;
+          bodyLines.push(line);
+        }
+        heredoc.token.body = bodyLines.join('\n');
+      }
+    } else if (c === '#' && !inWord) {
+      while (i < input.length && input[i] !== '\n') i++;
+    } else if (c === '\\') {
+      if (input[i + 1] !== '\n') {
+        word += input[i + 1] ?? '';
+        inWord = true;
+      }
+      i += 2;
+    } else if (c === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) throw new Error('unterminated single quote');
+      word += input.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+    } else if (c === '"') {
+      inWord = true;
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        const end = input[i] === '$' || input[i] === '`' ? readExpansion(input, i, substitutions) : 0;
+        if (end) {
+          word += input.slice(i, end);
+          dynamic = true;
+          i = end;
+        } else if (input[i] === '\\' && i + 1 < input.length) {
+          word += input[i + 1];
+          i += 2;
+        } else {
+          word += input[i++];
+        }
+      }
+      if (i >= input.length) throw new Error('unterminated double quote');
+      i++;
+    } else if ((c === '$' || c === '`') && readExpansion(input, i, []) > 0) {
+      const end = readExpansion(input, i, substitutions);
+      word += input.slice(i, end);
+      inWord = true;
+      dynamic = true;
+      i = end;
+    } else if ((c === '<' || c === '>') && input[i + 1] === '(') {
+      // Process substitution
+      const end = matchParen(input, i + 1);
+      substitutions.push(input.slice(i + 2, end));
+      word += input.slice(i, end + 1);
+      inWord = true;
+      dynamic = true;
+      i = end + 1;
+    } else if (c === '<' || c === '>' || (c === '&' && input[i + 1] === '>')) {
+      // A word made only of digits right before the operator is a file descriptor
+      if (inWord && !dynamic && /^\d+$/.test(word)) {
+        word = '';
+        inWord = false;
+      }
+      flush();
+      const op = /^(&>>|&>|>>|>\||>&|>|<<<|<<-|<<|<>|<&|<)/.exec(input.slice(i))![1];
+      const token: Token & { kind: 'redirect' } = { kind: 'redirect', value: op };
+      tokens.push(token);
+      if (op === '<<' || op === '<<-') {
+        heredocs.push({ token, stripTabs: op === '<<-' });
+      }
+      i += op.length;
+    } else if ('&|;()'.includes(c)) {
+      flush();
+      const op = /^(&&|\|\||\|&|;;|[&|;()])/.exec(input.slice(i))![1];
+      tokens.push({ kind: 'op', value: op });
+      i += op.length;
+    } else {
+      word += c;
+      inWord = true;
+      i++;
+    }
+  }
+
+  flush();
+  return tokens;
+}
+
+function analyseScript(script: string, depth: number, result: AnalysedCommand, pipedFrom?: string): void {
+  if (depth > MAX_DEPTH) {
+    result.issues.push({ action: 'deny', reason: 'command is nested too deeply to analyse' });
+    return;
+  }
+
+  const substitutions: string[] = [];
+  const tokens = lex(script, substitutions);
+  let words: Array<Token & { kind: 'word' }> = [];
+  let redirects: Redirect[] = [];
+  let nextPipedFrom = pipedFrom;
+
+  const finish = (): string | undefined => {
+    const segment = words;
+    const segmentRedirects = redirects;
+    words = [];
+    redirects = [];
+
+    // Drop keywords and leading VAR=value assignments
+    while (segment.length > 0 && (SKIPPED_KEYWORDS.has(segment[0].value) || /^[A-Za-z_][A-Za-z0-9_]*=/.test(segment[0].value))) {
+      segment.shift();
+    }
+    if (['for', 'case', 'select'].includes(segment[0]?.value)) {
+      return undefined;
+    }
+    if (segment[0]?.value === 'function') {
+      if (segment[1]) result.functions.push(segment[1].value);
+      return undefined;
+    }
+    if (segment.length === 0 && segmentRedirects.length === 0) {
+      return undefined;
+    }
+
+    const command: SimpleCommand = {
+      program: segment[0]?.value ?? '',
+      args: segment.slice(1).map(w => w.value),
+      redirects: segmentRedirects,
+      pipedFrom: nextPipedFrom,
+      programDynamic: segment[0]?.dynamic ?? false,
+      argsDynamic: segment.slice(1).map(w => w.dynamic),
+    };
+    expandCommand(command, depth, result);
+    return command.program;
+  };
+
+  for (let t = 0; t < tokens.length; t++) {
+    const token = tokens[t];
+    if (token.kind === 'word') {
+      words.push(token);
+    } else if (token.kind === 'redirect') {
+      const target = tokens[t + 1];
+      redirects.push({ op: token.value, target: target?.kind === 'word' ? target.value : '', body: token.body });
+      if (target?.kind === 'word') t++;
+    } else if (token.value === '(' && tokens[t + 1]?.kind === 'op' && tokens[t + 1].value === ')' && words.length === 1) {
+      // name() { ... } function definition
+      result.functions.push(words[0].value);
+      words = [];
+      t++;
+    } else {
+      const program = finish();
+      nextPipedFrom = token.value === '|' || token.value === '|&' ? program : undefined;
+    }
+  }
+  finish();
+
+  for (const substitution of substitutions) {
+    analyseScript(substitution, depth + 1, result);
+  }
+}
+
+/**
+ * Record a program invocation plus whatever it runs in turn: wrapped
+ * commands (sudo, env, xargs, ...), `sh -c` scripts, eval, find -exec and
+ * here-documents fed to a shell
+ */
+function expandCommand(command: SimpleCommand, depth: number, result: AnalysedCommand): void {
+  result.commands.push(command);
+  const name = path.basename(command.program);
+
+  if (command.programDynamic) {
+    result.issues.push({ action: 'ask', reason: `program "${command.program}" is only known at runtime` });
+  }
+
+  if (name in WRAPPERS) {
+    const valued = WRAPPERS[name];
+    let k = 0;
+    while (k < command.args.length) {
+      const arg = command.args[k];
+      if (valued.includes(arg)) k += 2;
+      else if (arg.startsWith('-') || (name === 'env' && arg.includes('='))) k++;
+      else break;
+    }
+    // timeout DURATION COMMAND
+    if (name === 'timeout') k++;
+    if (k < command.args.length) {
+      expandCommand({
+        program: command.args[k],
+        args: command.args.slice(k + 1),
+        redirects: [],
+        pipedFrom: command.pipedFrom,
+        programDynamic: command.argsDynamic[k],
+        argsDynamic: command.argsDynamic.slice(k + 1),
+      }, depth, result);
+    }
+  } else if (SHELLS.has(name)) {
+    const flag = command.args.findIndex(arg => /^-[a-zA-Z]*c[a-zA-Z]*$/.test(arg));
+    const heredoc = command.redirects.find(r => r.op === '<<<' || r.body !== undefined);
+    if (flag !== -1 && flag + 1 < command.args.length) {
+      if (command.argsDynamic[flag + 1]) {
+        result.issues.push({ action: 'ask', reason: `${name} -c runs a script built at runtime` });
+      }
+      analyseScript(command.args[flag + 1], depth + 1, result);
+    } else if (heredoc) {
+      analyseScript(heredoc.body ?? heredoc.target, depth + 1, result);
+    }
+  } else if (name === 'eval') {
+    if (command.argsDynamic.some(Boolean)) {
+      result.issues.push({ action: 'ask', reason: 'eval runs a script built at runtime' });
+    }
+    analyseScript(command.args.join(' '), depth + 1, result);
+  } else if (name === 'find') {
+    command.args.forEach((arg, k) => {
+      if (['-exec', '-execdir', '-ok', '-okdir'].includes(arg)) {
+        const end = command.args.findIndex((a, j) => j > k && (a === ';' || a === '+'));
+        const inner = command.args.slice(k + 1, end === -1 ? undefined : end);
+        if (inner.length > 0) {
+          expandCommand({
+            program: inner[0],
+            args: inner.slice(1),
+            redirects: [],
+            programDynamic: false,
+            argsDynamic: inner.slice(1).map(() => false),
+          }, depth, result);
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Find every program a shell command line would run. Throws on syntax the
+ * tokenizer cannot follow (unterminated quotes or substitutions).
+ */
+export function analyseCommand(command: string): AnalysedCommand {
+  const result: AnalysedCommand = { commands: [], functions: [], issues: [] };
+  analyseScript(command, 0, result);
+  return result;
+}
+
+function matchesName(patterns: string | string[] | undefined, name: string | undefined): boolean {
+  if (patterns === undefined) return true;
+  if (name === undefined) return false;
+  return (Array.isArray(patterns) ? patterns : [patterns]).some(pattern =>
+    new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`).test(name)
+  );
+}
+
+/**
+ * Path named by an argument (`/etc/x`, `~/x`, `../x`, `src/link/x`,
+ * `--out=/x`), or null for words that do not look like paths
+ */
+function pathArgument(arg: string): string | null {
+  const value = /^-{0,2}[\w.-]+=/.test(arg) ? arg.slice(arg.indexOf('=') + 1) : arg;
+  if (value.includes('://')) {
+    return null;
+  }
+  return /^~(\/|$)/.test(value) || value.includes('/') || value === '..' ? value : null;
+}
+
+async function exists(p: string): Promise<boolean> {
+  return fs.access(p).then(() => true, () => false);
+}
+
+function validateRules(rules: unknown, source: string): CommandRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error(`Invalid command policy in ${source}: "rules" must be an array`);
+  }
+  for (const rule of rules) {
+    if (!['allow', 'deny', 'ask'].includes(rule?.action) || !rule.program || typeof rule.reason !== 'string') {
+      throw new Error(`Invalid command policy in ${source}: each rule needs action (allow|deny|ask), program and reason`);
+    }
+    if (rule.args !== undefined) {
+      new RegExp(rule.args);
+    }
+  }
+  return rules as CommandRule[];
+}
+
+/**
+ * Evaluates shell commands against the rules and records each decision
+ */
+export class CommandPolicy {
+  private rules: CommandRule[];
+  private defaultAction: PolicyAction;
+  private configLoaded: Promise<void> | null = null;
+  private approvalHandler: CommandApprovalHandler | null = null;
+  private listeners = new Set<CommandDecisionListener>();
+  private decisions: CommandDecision[] = [];
+
+  constructor(private readonly options: CommandPolicyOptions = {}) {
+    this.rules = [...(options.rules ?? []), ...DEFAULT_COMMAND_RULES];
+    this.defaultAction = options.defaultAction ?? 'allow';
+  }
+
+  /**
+   * Handler asked to confirm commands with an `ask` decision. Without one,
+   * those commands are denied.
+   */
+  setApprovalHandler(handler: CommandApprovalHandler | null): void {
+    this.approvalHandler = handler;
+  }
+
+  onDecision(listener: CommandDecisionListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getDecisions(): CommandDecision[] {
+    return [...this.decisions];
+  }
+
+  getRules(): CommandRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Decide what to do with a command without running or recording it
+   */
+  async evaluate(command: string, cwd: string): Promise<CommandDecision> {
+    await this.loadConfig();
+
+    const decide = (action: PolicyAction, reasons: string[], programs: string[] = []): CommandDecision => ({
+      command,
+      cwd,
+      action,
+      reasons,
+      programs,
+      outcome: action === 'allow' ? 'allowed' : 'denied',
+      timestamp: new Date().toISOString(),
+    });
+
+    let analysed: AnalysedCommand;
+    try {
+      analysed = analyseCommand(command);
+    } catch (error: any) {
+      return decide('deny', [`could not parse command: ${error.message}`]);
+    }
+
+    const findings: PolicyIssue[] = [...analysed.issues];
+    const roots = await this.getTrustedRoots();
+    const realCwd = await realpathDeep(cwd);
+    let effectiveCwd = realCwd;
+
+    if (!roots.some(root => isWithin(root, realCwd))) {
+      findings.push({ action: 'deny', reason: `working directory ${cwd} is outside the trusted directories` });
+    }
+
+    for (const cmd of analysed.commands) {
+      const name = path.basename(cmd.program);
+
+      for (const redirect of cmd.redirects) {
+        if (redirect.op.includes('>') && redirect.target.startsWith('/dev/') &&
+            !SAFE_DEVICES.has(redirect.target) && !redirect.target.startsWith('/dev/fd/')) {
+          findings.push({ action: 'deny', reason: `redirects output to device ${redirect.target}` });
+        }
+      }
+
+      if ((name === 'cd' || name === 'pushd') && cmd.args.length > 0) {
+        const target = cmd.args[cmd.args.length - 1];
+        if (cmd.argsDynamic[cmd.args.length - 1]) {
+          findings.push({ action: 'ask', reason: `changes to a directory only known at runtime (${target})` });
+        } else {
+          effectiveCwd = await realpathDeep(path.resolve(effectiveCwd, target.replace(/^~(?=$|\/)/, os.homedir())));
+          if (!roots.some(root => isWithin(root, effectiveCwd))) {
+            findings.push({ action: 'deny', reason: `changes directory to ${target}, outside the trusted directories` });
+          }
+        }
+      }
+
+      // Paths outside the trusted roots: writes are denied, anything else needs approval.
+      // Words like "/api/" that name nothing on disk are not treated as paths.
+      for (const redirect of cmd.redirects) {
+        if (redirect.op.startsWith('<<') || redirect.target.startsWith('/dev/') || /^&?\d*$/.test(redirect.target)) {
+          continue;
+        }
+        const target = await realpathDeep(path.resolve(effectiveCwd, redirect.target.replace(/^~(?=$|\/)/, os.homedir())));
+        if (!roots.some(root => isWithin(root, target)) && (await exists(path.dirname(target)))) {
+          const writes = redirect.op.includes('>');
+          findings.push({
+            action: writes ? 'deny' : 'ask',
+            reason: `${writes ? 'writes to' : 'reads'} ${redirect.target}, outside the trusted directories`,
+          });
+        }
+      }
+
+      if (name !== 'cd' && name !== 'pushd') {
+        for (let i = 0; i < cmd.args.length; i++) {
+          const arg = cmd.argsDynamic[i] ? null : pathArgument(cmd.args[i]);
+          if (arg === null || arg.startsWith('/dev/')) {
+            continue;
+          }
+          const resolved = path.resolve(effectiveCwd, arg.replace(/^~(?=$|\/)/, os.homedir()));
+          const parent = path.dirname(resolved);
+          if (!(await exists(resolved)) && (parent === path.parse(parent).root || !(await exists(parent)))) {
+            continue;
+          }
+          const target = await realpathDeep(resolved);
+          if (!roots.some(root => isWithin(root, target))) {
+            findings.push({ action: 'ask', reason: `${name}: uses ${arg}, outside the trusted directories` });
+          }
+        }
+      }
+
+      if (analysed.functions.includes(cmd.program) && cmd.pipedFrom === cmd.program) {
+        findings.push({ action: 'deny', reason: `recursive shell function "${cmd.program}" (fork bomb)` });
+      }
+
+      const pipedFrom = cmd.pipedFrom === undefined ? undefined : path.basename(cmd.pipedFrom);
+      const rule = this.rules.find(r =>
+        matchesName(r.program, name) &&
+        (r.pipedFrom === undefined || matchesName(r.pipedFrom, pipedFrom)) &&
+        (r.args === undefined || new RegExp(r.args).test(cmd.args.join(' ')))
+      );
+      if (rule) {
+        findings.push({ action: rule.action, reason: `${name}: ${rule.reason}` });
+      } else if (this.defaultAction !== 'allow' && cmd.program !== '') {
+        findings.push({ action: this.defaultAction, reason: `${name}: no rule allows this program` });
+      }
+    }
+
+    const action = findings.reduce<PolicyAction>(
+      (worst, finding) => (SEVERITY[finding.action] > SEVERITY[worst] ? finding.action : worst),
+      'allow'
+    );
+    const reasons = [...new Set(findings.filter(f => f.action !== 'allow').map(f => f.reason))];
+    const programs = [...new Set(analysed.commands.map(c => c.program).filter(Boolean))];
+
+    return decide(action, reasons, programs);
+  }
+
+  /**
+   * Evaluate, ask for approval when needed, record the decision and throw
+   * CommandPolicyError unless the command may run. `approve` (e.g. the
+   * calling session's approval prompt) takes precedence over the shared handler.
+   */
+  async enforce(command: string, cwd: string, approve?: CommandApprovalHandler): Promise<CommandDecision> {
+    const decision = await this.evaluate(command, cwd);
+    const approvalHandler = approve ?? this.approvalHandler;
+
+    if (decision.action === 'ask') {
+      if (approvalHandler) {
+        decision.outcome = (await approvalHandler(decision)) ? 'approved' : 'rejected';
+      } else {
+        decision.reasons.push('approval required but no approval handler is available');
+      }
+    }
+
+    await this.record(decision);
+
+    if (decision.outcome === 'denied' || decision.outcome === 'rejected') {
+      throw new CommandPolicyError(decision);
+    }
+    return decision;
+  }
+
+  private async record(decision: CommandDecision): Promise<void> {
+    this.decisions.push(decision);
+    if (this.decisions.length > MAX_RECORDED_DECISIONS) {
+      this.decisions.shift();
+    }
+
+    for (const listener of this.listeners) {
+      listener(decision);
+    }
+
+    const auditLogPath = this.options.auditLogPath === undefined
+      ? path.join(HOME, 'command-audit.jsonl')
+      : this.options.auditLogPath;
+    if (auditLogPath) {
+      // The in-memory record above is authoritative; a failed append must not block the command
+      await fs.mkdir(path.dirname(auditLogPath), { recursive: true })
+        .then(() => fs.appendFile(auditLogPath, JSON.stringify(decision) + '\n', 'utf-8'))
+        .catch(() => undefined);
+    }
+  }
+
+  private async getTrustedRoots(): Promise<string[]> {
+    return this.options.trustedRoots
+      ? Promise.all((await this.options.trustedRoots()).map(p => realpathDeep(p)))
+      : getTrustedRoots();
+  }
+
+  /**
+   * Read the user's rules once. A broken config fails the command and is
+   * read again on the next call, so fixing the file takes effect without a
+   * restart.
+   */
+  private loadConfig(): Promise<void> {
+    if (!this.configLoaded) {
+      this.configLoaded = (async () => {
+        const configPath = this.options.configPath;
+        if (!configPath) return;
+
+        let text: string;
+        try {
+          text = await fs.readFile(configPath, 'utf-8');
+        } catch {
+          return;
+        }
+
+        let config: any;
+        try {
+          config = JSON.parse(text);
+        } catch (error: any) {
+          throw new Error(`Invalid command policy in ${configPath}: ${error.message}`);
+        }
+        if (config.rules !== undefined) {
+          this.rules = [...(this.options.rules ?? []), ...validateRules(config.rules, configPath), ...DEFAULT_COMMAND_RULES];
+        }
+        if (config.defaultAction !== undefined) {
+          if (!['allow', 'deny', 'ask'].includes(config.defaultAction)) {
+            throw new Error(`Invalid command policy in ${configPath}: defaultAction must be allow, deny or ask`);
+          }
+          this.defaultAction = config.defaultAction;
+        }
+      })().catch(error => {
+        this.configLoaded = null;
+        throw error;
+      });
+    }
+    return this.configLoaded;
+  }
+}
+
+/**
+ * What a dry run returns instead of running a command: the command and what
+ * the policy would do with it ("would be denied: ..." or "needs approval: ...")
+ */
+export function dryRunCommandResult(decision: CommandDecision, skipped: string) {
+  const reasons = decision.reasons.join('; ');
+  const policyNote = decision.action === 'deny' ? `would be denied: ${reasons}`
+    : decision.action === 'ask' ? `needs approval: ${reasons}`
+    : undefined;
+  return {
+    stdout: '',
+    stderr: '',
+    exitCode: 0,
+    command: decision.command,
+    skipped,
+    policy: decision.action,
+    ...(policyNote ? { policyNote } : {}),
+  };
+}
+
+let commandPolicy: CommandPolicy | null = null;
+
+/**
+ * Shared policy used by every bashExec implementation. User rules are read
+ * from ~/.local-agent/command-policy.json.
+ */
+export function getCommandPolicy(): CommandPolicy {
+  if (!commandPolicy) {
+    commandPolicy = new CommandPolicy({ configPath: path.join(HOME, 'command-policy.json') });
+  }
+  return commandPolicy;
+}
@@ -1,9 +1,12 @@
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
+import path from 'path';
 import { Agent } from '../agent';
-import { Tool } from '../llm/ollama-client';
+import { Tool, ToolContext } from '../llm/ollama-client';
+import { assertTrustedPath } from '../trust';
+import { resolveToolPath } from './toolFunctions';
 
-const execp = promisify(exec);
+const execFilep = promisify(execFile);
 
 /**
  * Custom exceptions for Git operations
@@ -36,6 +39,29 @@ export class NotGitRepositoryError extends Error {
   }
 }
 
+/**
+ * Run git with `args` as argv, so model-supplied values never reach a shell
+ */
+function git(args: string[], cwd: string) {
+  return execFilep('git', args, { cwd });
+}
+
+/**
+ * Working directory of a git tool call, resolved against the agent's
+ * workDir. Throws UntrustedPathError outside the trusted directories.
+ */
+function trustedCwd(cwd: string, context?: ToolContext): Promise<string> {
+  return assertTrustedPath(resolveToolPath(cwd, context));
+}
+
+/**
+ * Real paths of the files a git tool call names, each checked against the
+ * trusted directories
+ */
+function trustedFiles(files: string[], cwd: string): Promise<string[]> {
+  return Promise.all(files.map(file => assertTrustedPath(path.resolve(cwd, file))));
+}
+
 /**
  * Register Git-related tools with an agent
  */
@@ -44,9 +70,11 @@ export function registerGitTools(agent: Agent): void {
   // Git Status Tool
   agent.registerTool(
     'gitStatus',
-    async ({ cwd = '.' }: any) => {
+    async ({ cwd = '.' }: any, context?: ToolContext) => {
+      const dir = await trustedCwd(cwd, context);
+
       try {
-        const { stdout } = await execp('git status --porcelain', { cwd });
+        const { stdout } = await git(['status', '--porcelain'], dir);
         const lines = stdout.trim().split('\n').filter(l => l);
         
         const changes = lines.map(line => {
@@ -70,6 +98,7 @@ export function registerGitTools(agent: Agent): void {
     {
       name: 'gitStatus',
       description: 'Get the status of files in the git repository',
+      readOnly: true,
       parameters: {
         type: 'object',
         properties: {
@@ -85,14 +114,13 @@ export function registerGitTools(agent: Agent): void {
   // Git Diff Tool
   agent.registerTool(
     'gitDiff',
-    async ({ file, staged = false, cwd = '.' }: any) => {
+    async ({ file, staged = false, cwd = '.' }: any, context?: ToolContext) => {
+      const dir = await trustedCwd(cwd, context);
+      const paths = file ? await trustedFiles([String(file)], dir) : [];
+
       try {
-        const cmd = staged 
-          ? `git diff --staged ${file || ''}` 
-          : `git diff ${file || ''}`;
-        
-        const { stdout } = await execp(cmd, { cwd });
-        
+        const { stdout } = await git(['diff', ...(staged ? ['--staged'] : []), '--', ...paths], dir);
+
         return {
           diff: stdout,
           hasChanges: stdout.length > 0,
@@ -105,6 +133,7 @@ export function registerGitTools(agent: Agent): void {
     {
       name: 'gitDiff',
       description: 'Get diff of changes in the repository',
+      readOnly: true,
       parameters: {
         type: 'object',
         properties: {
@@ -128,12 +157,12 @@ export function registerGitTools(agent: Agent): void {
   // Git Log Tool
   agent.registerTool(
     'gitLog',
-    async ({ limit = 10, oneLine = false, cwd = '.' }: any) => {
+    async ({ limit = 10, oneLine = false, cwd = '.' }: any, context?: ToolContext) => {
+      const dir = await trustedCwd(cwd, context);
+
       try {
         const format = oneLine ? '--oneline' : '--pretty=format:%H|%an|%ae|%ad|%s';
-        const cmd = `git log ${format} -n ${limit}`;
-        
-        const { stdout } = await execp(cmd, { cwd });
+        const { stdout } = await git(['log', format, '-n', String(Math.max(1, Math.floor(Number(limit)) || 10))], dir);
         
         if (oneLine) {
           return { commits: stdout.trim().split('\n') };
@@ -152,6 +181,7 @@ export function registerGitTools(agent: Agent): void {
     {
       name: 'gitLog',
       description: 'Get commit history',
+      readOnly: true,
       parameters: {
         type: 'object',
         properties: {
@@ -175,9 +205,11 @@ export function registerGitTools(agent: Agent): void {
   // Git Branch Tool
   agent.registerTool(
     'gitBranch',
-    async ({ cwd = '.' }: any) => {
+    async ({ cwd = '.' }: any, context?: ToolContext) => {
+      const dir = await trustedCwd(cwd, context);
+
       try {
-        const { stdout } = await execp('git branch -a', { cwd });
+        const { stdout } = await git(['branch', '-a'], dir);
         
         const branches = stdout.trim().split('\n').map(line => {
           const isCurrent = line.startsWith('*');
@@ -199,6 +231,7 @@ export function registerGitTools(agent: Agent): void {
     {
       name: 'gitBranch',
       description: 'List all branches in the repository',
+      readOnly: true,
       parameters: {
         type: 'object',
         properties: {
@@ -214,20 +247,20 @@ export function registerGitTools(agent: Agent): void {
   // Git Add Tool
   agent.registerTool(
     'gitAdd',
-    async ({ files, all = false, cwd = '.' }: any) => {
-      try {
-        const filesToAdd = all ? '.' : (Array.isArray(files) ? files.join(' ') : files);
-        
-        if (!filesToAdd) {
-          throw new Error('Either files parameter or all=true must be provided');
-        }
+    async ({ files, all = false, cwd = '.' }: any, context?: ToolContext) => {
+      const dir = await trustedCwd(cwd, context);
+      const names: string[] = all ? ['.'] : (Array.isArray(files) ? files : String(files ?? '').split(/\s+/)).filter(Boolean);
+      if (names.length === 0) {
+        throw new Error('Either files parameter or all=true must be provided');
+      }
+      const paths = await trustedFiles(names, dir);
 
-        const cmd = `git add ${filesToAdd}`;
-        const { stdout, stderr } = await execp(cmd, { cwd });
+      try {
+        const { stdout, stderr } = await git(['add', '--', ...paths], dir);
 
         return {
           success: true,
-          files: filesToAdd,
+          files: names.join(' '),
           output: stdout || stderr,
         };
       } catch (error: any) {
@@ -260,16 +293,15 @@ export function registerGitTools(agent: Agent): void {
   // Git Commit Tool
   agent.registerTool(
     'gitCommit',
-    async ({ message, cwd = '.' }: any) => {
+    async ({ message, cwd = '.' }: any, context?: ToolContext) => {
+      const dir = await trustedCwd(cwd, context);
+
       if (!message || typeof message !== 'string') {
         throw new Error('Commit message is required');
       }
 
       try {
-        const escapedMessage = message.replace(/"/g, '\\"');
-        const cmd = `git commit -m "${escapedMessage}"`;
-        
-        const { stdout, stderr } = await execp(cmd, { cwd });
+        const { stdout, stderr } = await git(['commit', '-m', message], dir);
 
         return {
           success: true,
@@ -303,19 +335,19 @@ export function registerGitTools(agent: Agent): void {
   // Git Create Branch Tool
   agent.registerTool(
     'gitCreateBranch',
-    async ({ name, checkout = true, cwd = '.' }: any) => {
-      if (!name || typeof name !== 'string') {
-        throw new Error('Branch name is required');
+    async ({ name, checkout = true, cwd = '.' }: any, context?: ToolContext) => {
+      const dir = await trustedCwd(cwd, context);
+
+      if (!name || typeof name !== 'string' || name.startsWith('-')) {
+        throw new Error('Branch name is required and cannot start with "-"');
       }
 
       try {
-        const createCmd = `git branch ${name}`;
-        await execp(createCmd, { cwd });
+        await git(['branch', name], dir);
 
         let checkoutOutput = '';
         if (checkout) {
-          const checkoutCmd = `git checkout ${name}`;
-          const result = await execp(checkoutCmd, { cwd });
+          const result = await git(['checkout', name], dir);
           checkoutOutput = result.stdout || result.stderr;
         }
 
@@ -71,6 +71,7 @@ export function registerHTTPTools(agent: Agent): void {
     {
       name: 'httpGet',
       description: 'Make an HTTP GET request',
+      readOnly: true,
       parameters: {
         type: 'object',
         properties: {
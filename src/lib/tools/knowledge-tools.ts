@@ -24,6 +24,7 @@ export const knowledgeGraphToolSchemas = [
   {
     name: 'queryKnowledgeGraph',
     description: 'Query the knowledge graph to find entities and relationships. Use this to discover structural information about files, agents, tasks, and their connections.',
+    readOnly: true,
     parameters: {
       type: 'object',
       properties: {
@@ -57,6 +58,7 @@ export const knowledgeGraphToolSchemas = [
   {
     name: 'getFileContext',
     description: 'Get comprehensive context about a file including dependencies, dependents, functions, who modified it, and related tests. Use this before modifying files.',
+    readOnly: true,
     parameters: {
       type: 'object',
       properties: {
@@ -71,6 +73,7 @@ export const knowledgeGraphToolSchemas = [
   {
     name: 'getAgentHistory',
     description: 'Get execution history for an agent including tasks completed, files modified, and solutions applied. Use this to learn from past agent successes.',
+    readOnly: true,
     parameters: {
       type: 'object',
       properties: {
@@ -123,6 +126,7 @@ export const knowledgeGraphToolSchemas = [
   {
     name: 'findRelatedEntities',
     description: 'Find entities related to a given entity through specific relationship types. Use this to traverse the knowledge graph.',
+    readOnly: true,
     parameters: {
       type: 'object',
       properties: {
@@ -14,6 +14,7 @@ export const memoryToolSchemas = [
   {
     name: 'searchSimilarProblems',
     description: 'Search for similar problems that were solved before. Use this to learn from past successes and avoid repeating work.',
+    readOnly: true,
     parameters: {
       type: 'object',
       properties: {
@@ -38,6 +39,7 @@ export const memoryToolSchemas = [
   {
     name: 'searchConversations',
     description: 'Search conversations semantically to find relevant past discussions. Use this to find context or learn from previous interactions.',
+    readOnly: true,
     parameters: {
       type: 'object',
       properties: {
@@ -72,6 +74,7 @@ export const memoryToolSchemas = [
   {
     name: 'getRelatedContext',
     description: 'Get semantically related context for a query using RAG (Retrieval Augmented Generation). Use this to enhance your understanding before responding.',
+    readOnly: true,
     parameters: {
       type: 'object',
       properties: {
@@ -96,6 +99,7 @@ export const memoryToolSchemas = [
   {
     name: 'getConversationHistory',
     description: 'Get the full conversation history for a specific conversation ID.',
+    readOnly: true,
     parameters: {
       type: 'object',
       properties: {
@@ -114,6 +118,7 @@ export const memoryToolSchemas = [
   {
     name: 'getMemoriesByAgent',
     description: 'Get all memories (conversation turns) from a specific agent.',
+    readOnly: true,
     parameters: {
       type: 'object',
       properties: {
@@ -133,6 +138,7 @@ export const memoryToolSchemas = [
   {
     name: 'getMemoryStats',
     description: 'Get statistics about the memory system including total memories, conversations, and agents.',
+    readOnly: true,
     parameters: {
       type: 'object',
       properties: {},
@@ -5,10 +5,12 @@
 
 import fs from 'fs/promises';
 import path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execp = promisify(exec);
+import { spawn } from 'child_process';
+import { ToolContext } from '../llm/ollama-client';
+import { createUnifiedDiff } from './unified-diff';
+import { parsePatch, applyHunks, FilePatchAction, HunkResult } from './apply-patch';
+import { getCommandPolicy, dryRunCommandResult } from './command-policy';
+import { assertTrustedPath, getTrustedRoots, realpathDeep, isWithin } from '../trust';
 
 /**
  * Custom exceptions
@@ -25,17 +27,6 @@ class FileAccessError extends Error {
   }
 }
 
-class CommandBlacklistedError extends Error {
-  constructor(
-    public readonly command: string,
-    public readonly matchedPattern: string
-  ) {
-    super(`Command blocked by security policy: matched pattern "${matchedPattern}"`);
-    this.name = 'CommandBlacklistedError';
-    Error.captureStackTrace(this, this.constructor);
-  }
-}
-
 class ToolExecutionError extends Error {
   constructor(
     public readonly toolName: string,
@@ -58,6 +49,34 @@ class FileNotReadError extends Error {
   }
 }
 
+class EditMatchError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly occurrences: number
+  ) {
+    super(
+      occurrences === 0
+        ? `old_string was not found in "${filePath}". Read the file again and copy the exact text, including whitespace`
+        : `old_string matches ${occurrences} locations in "${filePath}". Include more surrounding lines to make it unique, or set replace_all to true`
+    );
+    this.name = 'EditMatchError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+class PatchApplyError extends Error {
+  constructor(
+    public readonly failures: Array<{ path: string; reason: string; hunks?: HunkResult[] }>
+  ) {
+    super(
+      `Patch was not applied (no files changed):\n` +
+      failures.map(f => `- ${f.path}: ${f.reason}`).join('\n')
+    );
+    this.name = 'PatchApplyError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
 /**
  * File Access Tracker - Tracks which files have been read in the current session
  * to enforce the rule: "Files must be read before writing"
@@ -87,6 +106,13 @@ class FileAccessTracker {
     this.readFiles.add(normalized);
   }
 
+  /**
+   * Forget a read (e.g. the file was restored by undo) so it must be read again
+   */
+  markAsUnread(filePath: string): void {
+    this.readFiles.delete(path.resolve(filePath));
+  }
+
   /**
    * Check if a file has been read
    */
@@ -140,18 +166,93 @@ export function resetFileAccessTracking(): void {
   FileAccessTracker.getInstance().reset();
 }
 
+/**
+ * Run a shell command in its own process group. Cancelling or timing out
+ * kills the whole group, so processes the command started stop with it.
+ * Rejects like a promisified `exec`: with stdout, stderr and code on the error.
+ */
+export function execShell(
+  cmd: string,
+  options: { cwd: string; timeoutMs: number; maxBuffer: number; signal?: AbortSignal }
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(cmd, { cwd: options.cwd, shell: true, detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+    let stdout = '';
+    let stderr = '';
+    let failure: string | null = null;
+
+    const killGroup = (reason: string) => {
+      failure ??= reason;
+      try {
+        process.kill(-child.pid!, 'SIGTERM');
+      } catch {
+        // Already exited
+      }
+    };
+    const onAbort = () => killGroup('cancelled');
+    const timer = setTimeout(() => killGroup(`timed out after ${options.timeoutMs}ms`), options.timeoutMs);
+
+    const collect = (append: (chunk: string) => void) => (chunk: Buffer) => {
+      append(chunk.toString());
+      if (stdout.length + stderr.length > options.maxBuffer) {
+        killGroup('output exceeded maxBuffer');
+      }
+    };
+    child.stdout!.on('data', collect(chunk => (stdout += chunk)));
+    child.stderr!.on('data', collect(chunk => (stderr += chunk)));
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(Object.assign(error, { stdout, stderr }));
+    });
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      if (code === 0 && !failure) {
+        resolve({ stdout, stderr });
+        return;
+      }
+      const reason = failure ? ` (${failure})` : '';
+      reject(Object.assign(new Error(`Command failed: ${cmd}${reason}\n${stderr}`), {
+        code,
+        signal,
+        killed: failure !== null,
+        stdout,
+        stderr,
+      }));
+    });
+
+    if (options.signal?.aborted) {
+      onAbort();
+    } else {
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
+
+/**
+ * Resolve a tool path argument. Relative paths are taken from the tool
+ * context's working directory when there is one (e.g. a plan worktree).
+ */
+export function resolveToolPath(p: string, context?: Pick<ToolContext, 'workDir'>): string {
+  return context?.workDir ? path.resolve(context.workDir, p) : p;
+}
+
 /**
  * Read file tool - accepts Record<string, any> params
  */
-export async function readFile(params: Record<string, any>): Promise<any> {
+export async function readFile(params: Record<string, any>, context?: ToolContext): Promise<any> {
   const p = params.path;
 
   if (!p || typeof p !== 'string') {
     throw new Error('path parameter is required and must be a string');
   }
 
+  // Throws UntrustedPathError outside the trusted directories
+  const resolvedPath = await assertTrustedPath(resolveToolPath(p, context));
+
   try {
-    const resolvedPath = path.resolve(p);
     const content = await fs.readFile(resolvedPath, 'utf-8');
 
     // Track that this file has been read
@@ -167,7 +268,7 @@ export async function readFile(params: Record<string, any>): Promise<any> {
 /**
  * Write file tool - accepts Record<string, any> params
  */
-export async function writeFile(params: Record<string, any>): Promise<any> {
+export async function writeFile(params: Record<string, any>, context?: ToolContext): Promise<any> {
   const p = params.path;
   const content = params.content;
 
@@ -175,7 +276,7 @@ export async function writeFile(params: Record<string, any>): Promise<any> {
     throw new Error('path parameter is required and must be a string');
   }
 
-  const resolvedPath = path.resolve(p);
+  const resolvedPath = await assertTrustedPath(resolveToolPath(p, context));
   const tracker = FileAccessTracker.getInstance();
 
   // Check if file exists and hasn't been read yet
@@ -189,12 +290,14 @@ export async function writeFile(params: Record<string, any>): Promise<any> {
 
   try {
     const dir = path.dirname(resolvedPath);
+    const before = context?.recordEdit && fileExists ? await fs.readFile(resolvedPath, 'utf-8') : null;
 
     await fs.mkdir(dir, { recursive: true });
     await fs.writeFile(resolvedPath, content ?? '', 'utf-8');
 
     // Mark as read since we just wrote it (so it can be written again in same session)
     tracker.markAsRead(resolvedPath);
+    await context?.recordEdit?.([{ path: resolvedPath, before, after: content ?? '' }]);
 
     return {
       ok: true,
@@ -206,13 +309,239 @@ export async function writeFile(params: Record<string, any>): Promise<any> {
   }
 }
 
+/**
+ * Edit file tool - replaces an exact string instead of rewriting the file.
+ * old_string must match exactly once unless replace_all is set.
+ * Returns a unified diff of the change.
+ */
+export async function editFile(params: Record<string, any>, context?: ToolContext): Promise<any> {
+  const p = params.path;
+  const oldString = params.old_string;
+  const newString = params.new_string;
+  const replaceAll = params.replace_all === true;
+
+  if (!p || typeof p !== 'string') {
+    throw new Error('path parameter is required and must be a string');
+  }
+
+  if (typeof oldString !== 'string' || oldString.length === 0) {
+    throw new Error('old_string parameter is required and must be a non-empty string');
+  }
+
+  if (typeof newString !== 'string') {
+    throw new Error('new_string parameter is required and must be a string');
+  }
+
+  if (oldString === newString) {
+    throw new Error('old_string and new_string are identical; nothing to change');
+  }
+
+  const resolvedPath = await assertTrustedPath(resolveToolPath(p, context));
+  const tracker = FileAccessTracker.getInstance();
+
+  let before: string;
+  try {
+    before = await fs.readFile(resolvedPath, 'utf-8');
+  } catch (error: any) {
+    throw new FileAccessError(p, 'edit', error);
+  }
+
+  // Same rule as writeFile: the model must have seen the current content
+  if (!tracker.hasBeenRead(resolvedPath)) {
+    throw new FileNotReadError(resolvedPath);
+  }
+
+  const occurrences = before.split(oldString).length - 1;
+  if (occurrences === 0 || (occurrences > 1 && !replaceAll)) {
+    throw new EditMatchError(resolvedPath, occurrences);
+  }
+
+  // split/join: new_string is inserted literally ($ patterns are not expanded)
+  const after = before.split(oldString).join(newString);
+
+  try {
+    await fs.writeFile(resolvedPath, after, 'utf-8');
+  } catch (error: any) {
+    throw new FileAccessError(p, 'edit', error);
+  }
+
+  tracker.markAsRead(resolvedPath);
+  await context?.recordEdit?.([{ path: resolvedPath, before, after }]);
+
+  return {
+    ok: true,
+    path: resolvedPath,
+    replacements: occurrences,
+    diff: createUnifiedDiff(path.relative(context?.workDir ?? process.cwd(), resolvedPath) || resolvedPath, before, after),
+  };
+}
+
+/**
+ * Apply patch tool - applies a multi-file unified diff atomically.
+ * Every hunk is matched in memory first (with offset and fuzz); files are
+ * only written if all of them apply, and earlier writes are rolled back if a
+ * later one fails. Existing files must have been read first, as for writeFile.
+ */
+export async function applyPatch(params: Record<string, any>, context?: ToolContext): Promise<any> {
+  const patch = params.patch;
+  const dryRun = params.dry_run === true;
+
+  if (!patch || typeof patch !== 'string') {
+    throw new Error('patch parameter is required and must be a string');
+  }
+
+  const filePatches = parsePatch(patch);
+  if (filePatches.length === 0) {
+    throw new Error('patch contains no file changes; expected "--- a/path" / "+++ b/path" headers followed by @@ hunks');
+  }
+
+  // Every path is checked before anything is read or written
+  const roots = await getTrustedRoots();
+  for (const filePatch of filePatches) {
+    for (const p of [filePatch.oldPath, filePatch.newPath]) {
+      if (p !== null) await assertTrustedPath(resolveToolPath(p, context), roots);
+    }
+  }
+
+  const tracker = FileAccessTracker.getInstance();
+  // Content on disk before the patch (null = missing) and after it
+  const originals = new Map<string, string | null>();
+  const pending = new Map<string, string | null>();
+  const failures: Array<{ path: string; reason: string; hunks?: HunkResult[] }> = [];
+  const files: Array<{ path: string; action: FilePatchAction; from?: string; hunks: HunkResult[] }> = [];
+  const diffs: string[] = [];
+  const baseDir = context?.workDir ?? process.cwd();
+  const relative = (resolvedPath: string) => path.relative(baseDir, resolvedPath) || resolvedPath;
+
+  const current = async (resolvedPath: string): Promise<string | null> => {
+    if (pending.has(resolvedPath)) {
+      return pending.get(resolvedPath)!;
+    }
+    let content: string | null = null;
+    try {
+      content = await fs.readFile(resolvedPath, 'utf-8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new FileAccessError(resolvedPath, 'patch', error);
+      }
+    }
+    originals.set(resolvedPath, content);
+    return content;
+  };
+
+  for (const filePatch of filePatches) {
+    const source = filePatch.oldPath === null ? null : path.resolve(baseDir, filePatch.oldPath);
+    const target = filePatch.newPath === null ? null : path.resolve(baseDir, filePatch.newPath);
+    const label = (filePatch.newPath ?? filePatch.oldPath)!;
+
+    let before = '';
+    if (source !== null) {
+      const content = await current(source);
+      if (content === null) {
+        failures.push({ path: filePatch.oldPath!, reason: 'file does not exist' });
+        continue;
+      }
+      // Files created earlier in this patch need no read
+      if (originals.get(source) !== null && !tracker.hasBeenRead(source)) {
+        throw new FileNotReadError(source);
+      }
+      before = content;
+    }
+
+    if (target !== null && target !== source && (await current(target)) !== null) {
+      failures.push({ path: filePatch.newPath!, reason: 'file already exists' });
+      continue;
+    }
+
+    const { content: after, results } = applyHunks(before, filePatch.hunks);
+    if (after === undefined) {
+      const failed = results.filter(r => !r.applied).map(r => `#${r.index + 1} (line ${r.expectedLine})`);
+      failures.push({ path: label, reason: `hunk ${failed.join(', ')} failed to apply`, hunks: results });
+      continue;
+    }
+
+    if (filePatch.action === 'delete' && after !== '') {
+      failures.push({ path: label, reason: 'file is not empty after removing the patched lines', hunks: results });
+      continue;
+    }
+
+    if (source !== null) pending.set(source, null);
+    if (target !== null) pending.set(target, after);
+
+    // Normalised diff with git-style headers for created, deleted and renamed files
+    let fileDiff = createUnifiedDiff(relative((target ?? source)!), before, after);
+    if (source === null) fileDiff = fileDiff.replace(/^--- .*$/m, '--- /dev/null');
+    if (target === null) fileDiff = fileDiff.replace(/^\+\+\+ .*$/m, '+++ /dev/null');
+    if (filePatch.action === 'rename') fileDiff = fileDiff.replace(/^--- .*$/m, `--- a/${relative(source!)}`);
+    diffs.push(fileDiff);
+
+    files.push({
+      path: label,
+      action: filePatch.action,
+      ...(filePatch.action === 'rename' ? { from: filePatch.oldPath! } : {}),
+      hunks: results,
+    });
+  }
+
+  if (failures.length > 0) {
+    throw new PatchApplyError(failures);
+  }
+
+  const diff = diffs.filter(Boolean).join('\n');
+
+  if (!dryRun) {
+    const written: string[] = [];
+    let failedPath = '';
+    try {
+      for (const [resolvedPath, after] of pending) {
+        failedPath = resolvedPath;
+        if (after === null) {
+          if (originals.get(resolvedPath) !== null) {
+            await fs.unlink(resolvedPath);
+          }
+        } else {
+          await fs.mkdir(path.dirname(resolvedPath), { recursive: true });
+          await fs.writeFile(resolvedPath, after, 'utf-8');
+        }
+        written.push(resolvedPath);
+      }
+    } catch (error: any) {
+      // Put back everything written so far, then report the original failure
+      for (const resolvedPath of written.reverse()) {
+        const original = originals.get(resolvedPath);
+        await (original == null ? fs.rm(resolvedPath, { force: true }) : fs.writeFile(resolvedPath, original, 'utf-8'))
+          .catch(() => undefined);
+      }
+      throw new FileAccessError(failedPath, 'patch', error);
+    }
+
+    for (const [resolvedPath, after] of pending) {
+      if (after !== null) {
+        tracker.markAsRead(resolvedPath);
+      }
+    }
+
+    await context?.recordEdit?.(
+      [...pending].map(([resolvedPath, after]) => ({ path: resolvedPath, before: originals.get(resolvedPath) ?? null, after }))
+    );
+  }
+
+  return {
+    ok: true,
+    dryRun,
+    files,
+    diff,
+  };
+}
+
 /**
  * Search files tool - accepts Record<string, any> params
  */
-export async function searchFiles(params: Record<string, any>): Promise<any> {
+export async function searchFiles(params: Record<string, any>, context?: ToolContext): Promise<any> {
   const dir = params.dir || '.';
   const pattern = params.pattern || '.*';
   const max = params.max || 100;
+  const startDir = await assertTrustedPath(resolveToolPath(dir, context));
 
   try {
     const re = new RegExp(pattern);
@@ -244,7 +573,6 @@ export async function searchFiles(params: Record<string, any>): Promise<any> {
       }
     }
     
-    const startDir = path.resolve(dir);
     await walk(startDir);
     
     return { 
@@ -260,7 +588,7 @@ export async function searchFiles(params: Record<string, any>): Promise<any> {
 /**
  * Blob search tool - accepts Record<string, any> params
  */
-export async function blobSearch(params: Record<string, any>): Promise<any> {
+export async function blobSearch(params: Record<string, any>, context?: ToolContext): Promise<any> {
   const dir = params.dir || '.';
   const q = params.q;
   const maxFiles = params.maxFiles || 50;
@@ -269,6 +597,9 @@ export async function blobSearch(params: Record<string, any>): Promise<any> {
     throw new Error('q (query string) parameter is required');
   }
 
+  const roots = await getTrustedRoots();
+  const startDir = await assertTrustedPath(resolveToolPath(dir, context), roots);
+
   try {
     const hits: Array<{ path: string; snippet: string; line: number }> = [];
     
@@ -284,6 +615,14 @@ export async function blobSearch(params: Record<string, any>): Promise<any> {
               await walk(full);
             }
           } else {
+            // Symlinked files are only read if they point inside the trusted directories
+            if (it.isSymbolicLink()) {
+              const target = await realpathDeep(full);
+              if (!roots.some(root => isWithin(root, target))) {
+                continue;
+              }
+            }
+
             try {
               const txt = await fs.readFile(full, 'utf-8');
               
@@ -314,7 +653,6 @@ export async function blobSearch(params: Record<string, any>): Promise<any> {
       }
     }
     
-    const startDir = path.resolve(dir);
     await walk(startDir);
     
     return { 
@@ -331,42 +669,35 @@ export async function blobSearch(params: Record<string, any>): Promise<any> {
 /**
  * Bash exec tool - accepts Record<string, any> params
  */
-export async function bashExec(params: Record<string, any>): Promise<any> {
+export async function bashExec(params: Record<string, any>, context?: ToolContext): Promise<any> {
   const cmd = params.cmd;
-  const cwd = params.cwd || '.';
+  const cwd = resolveToolPath(params.cwd || '.', context);
   
   if (!cmd || typeof cmd !== 'string') {
     throw new Error('cmd parameter is required and must be a string');
   }
 
-  const blacklist = [
-    'rm -rf',
-    'rm -fr',
-    'shutdown',
-    'reboot',
-    ':(){',
-    'mkfs',
-    'dd if=',
-    'format',
-    '> /dev/',
-    'chmod 777',
-    'curl | bash',
-    'wget | sh',
-  ];
-
-  for (const pattern of blacklist) {
-    if (cmd.toLowerCase().includes(pattern.toLowerCase())) {
-      throw new CommandBlacklistedError(cmd, pattern);
-    }
+  // Dry runs report what the policy would decide instead of running the command
+  if (context?.dryRun) {
+    const decision = await getCommandPolicy().evaluate(cmd, path.resolve(cwd));
+    return dryRunCommandResult(decision, 'Dry run: the command was not executed');
   }
 
+  // Throws CommandPolicyError when the command is denied or not approved
+  await getCommandPolicy().enforce(
+    cmd,
+    path.resolve(cwd),
+    context?.requestApproval && (decision => context.requestApproval!(decision.reasons.join('; '), { kind: 'command', text: cmd }))
+  );
+
   try {
     const resolvedCwd = path.resolve(cwd);
     
-    const { stdout, stderr } = await execp(cmd, { 
-      cwd: resolvedCwd, 
-      timeout: 60_000,
-      maxBuffer: 1024 * 1024 * 10
+    const { stdout, stderr } = await execShell(cmd, {
+      cwd: resolvedCwd,
+      timeoutMs: 60_000,
+      maxBuffer: 1024 * 1024 * 10,
+      signal: context?.signal, // Kills the command and its children on cancel
     });
     
     return { 
@@ -376,6 +707,11 @@ export async function bashExec(params: Record<string, any>): Promise<any> {
       command: cmd
     };
   } catch (error: any) {
+    // Cancelled: propagate instead of reporting a failed command
+    if (context?.signal?.aborted) {
+      throw error;
+    }
+
     return {
       stdout: error.stdout?.trim() || '',
       stderr: error.stderr?.trim() || error.message,
@@ -0,0 +1,144 @@
+/**
+ * Line-based unified diff for showing file changes in transcripts and the TUI
+ */
+
+/**
+ * One line of an edit script
+ */
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+// Above this many cells the LCS table is skipped and the changed block is shown as replaced
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Edit script turning `a` into `b`. Common prefix and suffix are matched
+ * directly; only the middle goes through the LCS table.
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const lines: DiffLine[] = a.slice(0, prefix).map(text => ({ type: ' ' as const, text }));
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    midA.forEach(text => lines.push({ type: '-', text }));
+    midB.forEach(text => lines.push({ type: '+', text }));
+  } else {
+    // lcs[i * cols + j] = LCS length of midA[i..] and midB[j..]
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        lines.push({ type: ' ', text: midA[i++] });
+        j++;
+      } else if (i < midA.length && (j >= midB.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+        lines.push({ type: '-', text: midA[i++] });
+      } else {
+        lines.push({ type: '+', text: midB[j++] });
+      }
+    }
+  }
+
+  a.slice(a.length - suffix).forEach(text => lines.push({ type: ' ', text }));
+  return lines;
+}
+
+/**
+ * Split into lines without the trailing newline. A missing final newline is
+ * kept on the last line as git's marker, so it also shows up as a change.
+ */
+function toLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+
+  if (text.endsWith('\n')) {
+    return text.slice(0, -1).split('\n');
+  }
+
+  const lines = text.split('\n');
+  lines[lines.length - 1] += '\n\\ No newline at end of file';
+  return lines;
+}
+
+/**
+ * Unified diff (git style, `--- a/` / `+++ b/` headers) between two versions
+ * of a file. Returns an empty string when nothing changed.
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  before: string,
+  after: string,
+  contextLines: number = 3
+): string {
+  if (before === after) {
+    return '';
+  }
+
+  const lines = diffLines(toLines(before), toLines(after));
+  const changed = lines
+    .map((line, index) => (line.type === ' ' ? -1 : index))
+    .filter(index => index >= 0);
+
+  // Group changes whose context windows touch into hunks
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length - 1, index + contextLines);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  const output = [`--- a/${filePath}`, `+++ b/${filePath}`];
+
+  for (const [start, end] of ranges) {
+    // Line numbers at the hunk start, counted over the lines before it
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < start; k++) {
+      if (lines[k].type !== '+') oldLine++;
+      if (lines[k].type !== '-') newLine++;
+    }
+
+    const hunk = lines.slice(start, end + 1);
+    const oldCount = hunk.filter(l => l.type !== '+').length;
+    const newCount = hunk.filter(l => l.type !== '-').length;
+
+    output.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`
+    );
+    hunk.forEach(l => output.push(`${l.type}${l.text}`));
+  }
+
+  return output.join('\n');
+}
@@ -3,6 +3,25 @@ import os from 'os';
 import path from 'path';
 const HOME = process.env.AGENT_HOME || (process.env.HOME || os.homedir()) + '/.local-agent';
 const TRUST = path.join(HOME, 'trusted.json');
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * Thrown when a tool touches a path outside the trusted directories
+ */
+export class UntrustedPathError extends Error {
+  constructor(
+    public readonly requestedPath: string,
+    public readonly resolvedPath: string
+  ) {
+    super(
+      `Access denied: "${requestedPath}" is outside the trusted directories` +
+      (resolvedPath !== path.resolve(requestedPath) ? ` (resolves to ${resolvedPath})` : '') +
+      `. Add it with "selek trust add <dir>" if this is intended`
+    );
+    this.name = 'UntrustedPathError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
 
 export async function ensureTrustFile(){
   await fs.mkdir(path.dirname(TRUST), { recursive: true });
@@ -13,7 +32,7 @@ export async function ensureTrustFile(){
   }
 }
 
-export async function listTrusted(){
+export async function listTrusted(): Promise<string[]>{
   await ensureTrustFile();
   const txt = await fs.readFile(TRUST, 'utf-8');
   const obj = JSON.parse(txt);
@@ -23,19 +42,102 @@ export async function listTrusted(){
 export async function addTrusted(dir:string){
   await ensureTrustFile();
   const dirs = await listTrusted();
-  if(!dirs.includes(dir)) dirs.push(dir);
+  const resolved = await realpathDeep(dir);
+  if(!dirs.includes(resolved)) dirs.push(resolved);
   await fs.writeFile(TRUST, JSON.stringify({ dirs }, null, 2), 'utf-8');
   return dirs;
 }
 
+/**
+ * True if `dir` is a trusted directory or inside one
+ */
 export async function isTrusted(dir:string){
   const dirs = await listTrusted();
-  return dirs.includes(dir);
+  const resolved = await realpathDeep(dir);
+  return dirs.some(d => isWithin(d, resolved));
 }
 
 export async function removeTrusted(dir:string){
   const dirs = await listTrusted();
-  const n = dirs.filter((d: string) => d !== dir);
+  const resolved = path.resolve(dir);
+  const real = await realpathDeep(dir);
+  const n = dirs.filter((d: string) => d !== dir && d !== resolved && d !== real);
   await fs.writeFile(TRUST, JSON.stringify({ dirs: n }, null, 2), 'utf-8');
   return n;
 }
+
+/**
+ * True if `target` is `root` or below it (both absolute)
+ */
+export function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Absolute path with symlinks resolved. For paths that do not exist yet the
+ * nearest existing ancestor is resolved, so a new file under a symlinked
+ * directory (or behind a dangling symlink) maps to where it will really be written.
+ */
+export async function realpathDeep(p: string, depth = 0): Promise<string> {
+  const absolute = path.resolve(p);
+  const missing: string[] = [];
+  let current = absolute;
+
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing.reverse());
+    } catch {
+      // Dangling symlink: follow it by hand (bounded, cycles fail realpath too)
+      const link = await fs.readlink(current).catch(() => null);
+      if (link !== null && depth < MAX_SYMLINK_DEPTH) {
+        return path.join(await realpathDeep(path.resolve(path.dirname(current), link), depth + 1), ...missing.reverse());
+      }
+      const parent = path.dirname(current);
+      if (parent === current || link !== null) {
+        return absolute;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Directories tools may use: the folders in trusted.json, with symlinks
+ * resolved. The working directory is not trusted implicitly; entry points
+ * confirm it with ensureFolderTrusted or refuse to start.
+ */
+export async function getTrustedRoots(): Promise<string[]> {
+  return Promise.all((await listTrusted()).map(dir => realpathDeep(dir)));
+}
+
+/**
+ * Resolve `p` and throw UntrustedPathError unless it stays inside a trusted
+ * root once symlinks and `..` are resolved. Returns the real path that was
+ * checked, so callers do not follow a symlink swapped in afterwards.
+ */
+export async function assertTrustedPath(p: string, roots?: string[]): Promise<string> {
+  const real = await realpathDeep(p);
+  const trusted = roots ?? await getTrustedRoots();
+  if (!trusted.some(root => isWithin(root, real))) {
+    throw new UntrustedPathError(p, real);
+  }
+  return real;
+}
+
+/**
+ * First-launch check for the TUI and CLI: untrusted folders are confirmed
+ * once through `confirm` and then recorded in trusted.json. Returns false
+ * if the user declines.
+ */
+export async function ensureFolderTrusted(dir: string, confirm: (dir: string) => Promise<boolean>): Promise<boolean> {
+  if (await isTrusted(dir)) {
+    return true;
+  }
+  if (!(await confirm(await realpathDeep(dir)))) {
+    return false;
+  }
+  await addTrusted(dir);
+  return true;
+}
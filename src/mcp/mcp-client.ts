@@ -110,8 +110,13 @@ export class MCPClientManager {
 
   /**
    * Call a tool on an MCP server
+   * An aborted signal cancels the request on the server
    */
-  async callTool(toolName: string, args: Record<string, any>): Promise<any> {
+  async callTool(
+    toolName: string,
+    args: Record<string, any>,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<any> {
     const toolInfo = this.availableTools.get(toolName);
     
     if (!toolInfo) {
@@ -135,7 +140,8 @@ export class MCPClientManager {
             arguments: args,
           },
         },
-        {}
+        {},
+        { signal: options.signal }
       );
 
       return (response as any).content;
@@ -167,11 +173,14 @@ export class MCPClientManager {
   getToolsForLLM(): Array<{
     name: string;
     description: string;
+    readOnly?: boolean;
     parameters: any;
   }> {
     return this.getAllTools().map(({ name, tool }) => ({
       name,
       description: tool.description || '',
+      // Servers flag side-effect-free tools with the readOnlyHint annotation
+      readOnly: tool.annotations?.readOnlyHint === true,
       parameters: tool.inputSchema,
     }));
   }
@@ -1,23 +1,52 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { Agent, AgentMeta } from '../lib/agent';
-import { OllamaClient } from '../lib/llm/ollama-client';
+import { Agent, AgentMeta, AgentAbortedError } from '../lib/agent';
+import { LLMSource } from '../lib/providers/ProviderFactory';
 import { registerTools } from '../lib/tools';
 import { registerGitTools } from '../lib/tools/git-tools';
 import { registerHTTPTools } from '../lib/tools/http-tools';
 import { MCPClientManager, MCPServerConfig } from '../mcp/mcp-client';
 import { enhanceSystemMessageWithProjectContext } from '../lib/context/ProjectContextLoader';
+import { ContextEvent, describeContextEvent } from '../lib/context/ContextManager';
+import { PermissionManager, PermissionPolicy, ApprovalChoice } from '../lib/permissions/PermissionManager';
+import { SnapshotStore } from '../lib/snapshots/SnapshotStore';
 import fs from 'fs/promises';
 import path from 'path';
 
+// Unanswered approvals are denied after this long so runs cannot hang forever
+const APPROVAL_TIMEOUT_MS = 5 * 60_000;
+
+const APPROVAL_CHOICES: ApprovalChoice[] = ['allow-once', 'allow-always', 'deny'];
+const PERMISSION_DECISIONS = ['allow', 'deny', 'ask'];
+
+/**
+ * Validate a session permission policy from a request body
+ */
+function parsePermissionPolicy(body: any): PermissionPolicy {
+  const policy = body ?? {};
+  const valid = (value: unknown) => value === undefined || PERMISSION_DECISIONS.includes(value as string);
+
+  if (typeof policy !== 'object' || !valid(policy.defaultDecision) || !valid(policy.readOnlyDecision) ||
+      (policy.tools !== undefined && (typeof policy.tools !== 'object' || !Object.values(policy.tools).every(valid)))) {
+    throw new Error('Invalid permission policy: decisions must be "allow", "deny" or "ask"');
+  }
+
+  return {
+    defaultDecision: policy.defaultDecision,
+    readOnlyDecision: policy.readOnlyDecision,
+    tools: policy.tools,
+  };
+}
+
 /**
  * Chat session manager - stores active chat agents
  */
 class ChatSessionManager {
   private sessions: Map<string, Agent> = new Map();
-  private llmClient: OllamaClient;
+  private activeRuns: Map<string, Set<AbortController>> = new Map(); // In-flight runs per session
+  private llmClient: LLMSource | Promise<LLMSource>;
   private mcpServers: MCPServerConfig[] = [];
 
-  constructor(llmClient: OllamaClient) {
+  constructor(llmClient: LLMSource | Promise<LLMSource>) {
     this.llmClient = llmClient;
     this.loadMCPConfig();
   }
@@ -33,7 +62,7 @@ class ChatSessionManager {
     }
   }
 
-  async createSession(sessionId: string, systemPrompt?: string): Promise<Agent> {
+  async createSession(sessionId: string, systemPrompt?: string, permissions: PermissionPolicy = {}): Promise<Agent> {
     // Build enhanced system prompt
     const basePrompt = systemPrompt || `You are Selek, a helpful AI coding assistant with access to powerful tools.
 
@@ -65,13 +94,17 @@ Be helpful, clear, and thorough. Always consider the project context when making
       systemPrompt: enhancedPrompt,
     };
 
-    const agent = new Agent(meta, this.llmClient, 15, this.mcpServers);
+    const agent = new Agent(meta, await this.llmClient, 15, this.mcpServers);
 
     // Register tools
     registerTools(agent);
     registerGitTools(agent);
     registerHTTPTools(agent);
 
+    // Calls with side effects wait for approval through the approvals endpoints (unless the policy says otherwise)
+    agent.setPermissions(new PermissionManager(permissions, { approvalTimeoutMs: APPROVAL_TIMEOUT_MS }));
+    agent.setSnapshots(await SnapshotStore.load(sessionId));
+
     this.sessions.set(sessionId, agent);
     return agent;
   }
@@ -80,9 +113,33 @@ Be helpful, clear, and thorough. Always consider the project context when making
     return this.sessions.get(sessionId);
   }
 
+  /**
+   * Track an in-flight run so deleting the session can abort it
+   */
+  beginRun(sessionId: string): AbortController {
+    const controller = new AbortController();
+    const runs = this.activeRuns.get(sessionId) || new Set<AbortController>();
+    runs.add(controller);
+    this.activeRuns.set(sessionId, runs);
+    return controller;
+  }
+
+  endRun(sessionId: string, controller: AbortController): void {
+    const runs = this.activeRuns.get(sessionId);
+    runs?.delete(controller);
+    if (runs && runs.size === 0) {
+      this.activeRuns.delete(sessionId);
+    }
+  }
+
   async deleteSession(sessionId: string): Promise<void> {
+    // Abort the current turn first so tools and model calls stop
+    this.activeRuns.get(sessionId)?.forEach(controller => controller.abort('session deleted'));
+    this.activeRuns.delete(sessionId);
+
     const agent = this.sessions.get(sessionId);
     if (agent) {
+      agent.getPermissions()?.cancelAll('session deleted');
       await agent.shutdown();
       this.sessions.delete(sessionId);
     }
@@ -99,8 +156,9 @@ Be helpful, clear, and thorough. Always consider the project context when making
 
 /**
  * Create chat API routes
+ * Accepts a pending LLM so the default provider can be resolved from config asynchronously
  */
-export function createChatRoutes(llmClient: OllamaClient): Router {
+export function createChatRoutes(llmClient: LLMSource | Promise<LLMSource>): Router {
   const router = Router();
   const sessionManager = new ChatSessionManager(llmClient);
 
@@ -110,7 +168,7 @@ export function createChatRoutes(llmClient: OllamaClient): Router {
    */
   router.post('/sessions', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { sessionId, systemPrompt } = req.body;
+      const { sessionId, systemPrompt, permissions } = req.body;
 
       if (!sessionId) {
         return res.status(400).json({
@@ -118,6 +176,13 @@ export function createChatRoutes(llmClient: OllamaClient): Router {
         });
       }
 
+      let policy: PermissionPolicy;
+      try {
+        policy = parsePermissionPolicy(permissions);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
       // Check if session already exists
       if (sessionManager.getSession(sessionId)) {
         return res.status(409).json({
@@ -126,7 +191,7 @@ export function createChatRoutes(llmClient: OllamaClient): Router {
         });
       }
 
-      const agent = await sessionManager.createSession(sessionId, systemPrompt);
+      const agent = await sessionManager.createSession(sessionId, systemPrompt, policy);
       const toolInfo = agent.getToolInfo();
 
       res.json({
@@ -138,6 +203,7 @@ export function createChatRoutes(llmClient: OllamaClient): Router {
           total: toolInfo.total,
         },
         mcpServers: agent.getConnectedMCPServers(),
+        permissions: agent.getPermissions()?.getPolicy(),
         created: new Date().toISOString(),
       });
     } catch (error) {
@@ -167,8 +233,37 @@ export function createChatRoutes(llmClient: OllamaClient): Router {
         agent = await sessionManager.createSession(sessionId);
       }
 
+      // Collect truncation/compaction events of this run for the client
+      const contextEvents: ContextEvent[] = [];
+      const unsubscribe = agent.onContextEvent(event => contextEvents.push(event));
+
+      // Approvals answered during this run, reported with the response
+      const approvals: any[] = [];
+      const unsubscribeApprovals = agent.getPermissions()?.onApprovalChange(request => {
+        if (request.status !== 'pending') {
+          approvals.push(request);
+        }
+      });
+
+      // Abort the run if the session is deleted or the client goes away
+      const controller = sessionManager.beginRun(sessionId);
+      const onClose = () => {
+        if (!res.writableEnded) {
+          controller.abort('client disconnected');
+        }
+      };
+      res.on('close', onClose);
+
       const startTime = Date.now();
-      const response = await agent.run(message, contextFiles || []);
+      let response: string;
+      try {
+        response = await agent.run(message, contextFiles || [], { signal: controller.signal });
+      } finally {
+        unsubscribe();
+        unsubscribeApprovals?.();
+        res.off('close', onClose);
+        sessionManager.endRun(sessionId, controller);
+      }
       const duration = (Date.now() - startTime) / 1000;
 
       const stats = agent.getContextStats();
@@ -181,11 +276,21 @@ export function createChatRoutes(llmClient: OllamaClient): Router {
           turns: stats.totalTurns,
           toolCalls: stats.toolCallsCount,
           hasSummary: stats.hasSummary,
+          estimatedTokens: stats.estimatedTokens,
+          contextWindow: stats.contextWindow,
           responseTime: duration,
         },
+        contextEvents: contextEvents.map(event => ({
+          ...event,
+          message: describeContextEvent(event),
+        })),
+        approvals: approvals.map(({ id, toolName, toolCallId, status, choice, note }) => ({
+          id, toolName, toolCallId, status, choice, note,
+        })),
       });
     } catch (error: any) {
-      res.status(500).json({
+      // 410: the run was aborted because its session was deleted
+      res.status(error instanceof AgentAbortedError ? 410 : 500).json({
         error: error.message,
         errorType: error.name,
         sessionId: req.params.sessionId,
@@ -222,7 +327,12 @@ export function createChatRoutes(llmClient: OllamaClient): Router {
           summary: history.map(turn => ({
             timestamp: turn.timestamp,
             messageCount: turn.messages.length,
-            toolCalls: turn.toolCalls.map(tc => tc.name),
+            toolCalls: turn.toolResults.map(record => ({
+              id: record.id,
+              name: record.name,
+              durationMs: record.durationMs,
+              error: record.error,
+            })),
           })),
         },
         mcpServers: agent.getConnectedMCPServers(),
@@ -375,5 +485,263 @@ export function createChatRoutes(llmClient: OllamaClient): Router {
     }
   });
 
+  /**
+   * GET /api/chat/sessions/:sessionId/approvals
+   * List approvals waiting for a decision (?status=all includes resolved ones)
+   */
+  router.get('/sessions/:sessionId/approvals', async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const permissions = sessionManager.getSession(sessionId)?.getPermissions();
+
+      if (!permissions) {
+        return res.status(404).json({
+          error: 'Session not found',
+          sessionId,
+        });
+      }
+
+      const approvals = req.query.status === 'all' ? permissions.getHistory() : permissions.getPending();
+
+      return res.json({
+        sessionId,
+        approvals,
+        count: approvals.length,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/chat/sessions/:sessionId/approvals/:approvalId
+   * Get one approval, including its preview (diff, command or arguments)
+   */
+  router.get('/sessions/:sessionId/approvals/:approvalId', async (req: Request, res: Response) => {
+    try {
+      const { sessionId, approvalId } = req.params;
+      const approval = sessionManager.getSession(sessionId)?.getPermissions()?.getApproval(approvalId);
+
+      if (!approval) {
+        return res.status(404).json({
+          error: 'Approval not found',
+          sessionId,
+          approvalId,
+        });
+      }
+
+      return res.json({ sessionId, approval });
+    } catch (error: any) {
+      return res.status(500).json({
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * POST /api/chat/sessions/:sessionId/approvals/:approvalId
+   * Approve or reject a pending tool call
+   * Body: { decision: 'allow-once' | 'allow-always' | 'deny', note?: string }
+   */
+  router.post('/sessions/:sessionId/approvals/:approvalId', async (req: Request, res: Response) => {
+    try {
+      const { sessionId, approvalId } = req.params;
+      const { decision, note } = req.body;
+      const permissions = sessionManager.getSession(sessionId)?.getPermissions();
+      const approval = permissions?.getApproval(approvalId);
+
+      if (!permissions || !approval) {
+        return res.status(404).json({
+          error: 'Approval not found',
+          sessionId,
+          approvalId,
+        });
+      }
+
+      if (!APPROVAL_CHOICES.includes(decision)) {
+        return res.status(400).json({
+          error: `Invalid decision: expected one of ${APPROVAL_CHOICES.join(', ')}`,
+        });
+      }
+
+      if (!permissions.resolve(approvalId, decision, typeof note === 'string' ? note : undefined)) {
+        return res.status(409).json({
+          error: `Approval already ${approval.status}`,
+          sessionId,
+          approval,
+        });
+      }
+
+      return res.json({
+        success: true,
+        sessionId,
+        approval: permissions.getApproval(approvalId),
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/chat/sessions/:sessionId/permissions
+   * Get the session permission policy and the tools allowed "always"
+   */
+  router.get('/sessions/:sessionId/permissions', async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const permissions = sessionManager.getSession(sessionId)?.getPermissions();
+
+      if (!permissions) {
+        return res.status(404).json({
+          error: 'Session not found',
+          sessionId,
+        });
+      }
+
+      return res.json({
+        sessionId,
+        policy: permissions.getPolicy(),
+        alwaysAllowed: permissions.getAlwaysAllowed(),
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * PUT /api/chat/sessions/:sessionId/permissions
+   * Replace the session permission policy
+   * Body: { defaultDecision?, readOnlyDecision?, tools?: { [toolName]: 'allow' | 'deny' | 'ask' }, resetAlways?: boolean }
+   */
+  router.put('/sessions/:sessionId/permissions', async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const permissions = sessionManager.getSession(sessionId)?.getPermissions();
+
+      if (!permissions) {
+        return res.status(404).json({
+          error: 'Session not found',
+          sessionId,
+        });
+      }
+
+      try {
+        permissions.setPolicy(parsePermissionPolicy(req.body));
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      if (req.body?.resetAlways === true) {
+        permissions.revokeAlways();
+      }
+
+      return res.json({
+        success: true,
+        sessionId,
+        policy: permissions.getPolicy(),
+        alwaysAllowed: permissions.getAlwaysAllowed(),
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/chat/sessions/:sessionId/edits
+   * List the file edits that can be undone, grouped by conversation turn
+   */
+  router.get('/sessions/:sessionId/edits', async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const snapshots = sessionManager.getSession(sessionId)?.getSnapshots();
+
+      if (!snapshots) {
+        return res.status(404).json({
+          error: 'Session not found',
+          sessionId,
+        });
+      }
+
+      return res.json({
+        sessionId,
+        currentTurn: snapshots.getCurrentTurn(),
+        turns: snapshots.getTurns(),
+        edits: snapshots.getEdits().map(edit => ({
+          id: edit.id,
+          turn: edit.turn,
+          tool: edit.tool,
+          files: edit.files.map(f => ({
+            path: f.path,
+            change: f.before === null ? 'created' : f.after === null ? 'deleted' : 'modified',
+          })),
+          timestamp: edit.timestamp,
+        })),
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        error: error.message,
+      });
+    }
+  });
+
+  /**
+   * POST /api/chat/sessions/:sessionId/undo
+   * Undo the last `count` edits, or every edit since the start of `turn`
+   * Body: { count?: number, turn?: number, force?: boolean }
+   */
+  router.post('/sessions/:sessionId/undo', async (req: Request, res: Response) => {
+    try {
+      const { sessionId } = req.params;
+      const { count, turn, force } = req.body || {};
+      const snapshots = sessionManager.getSession(sessionId)?.getSnapshots();
+
+      if (!snapshots) {
+        return res.status(404).json({
+          error: 'Session not found',
+          sessionId,
+        });
+      }
+
+      const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+      if ((count !== undefined && !isPositiveInteger(count)) || (turn !== undefined && !isPositiveInteger(turn))) {
+        return res.status(400).json({ error: 'count and turn must be positive integers' });
+      }
+      if (count !== undefined && turn !== undefined) {
+        return res.status(400).json({ error: 'Use either count or turn, not both' });
+      }
+
+      const result = turn !== undefined
+        ? await snapshots.restoreToTurn(turn, { force: force === true })
+        : await snapshots.undoLast(count ?? 1, { force: force === true });
+
+      if (result.blocked) {
+        return res.status(409).json({
+          error: 'Files changed since the agent edited them; retry with force to overwrite',
+          externallyModified: result.externallyModified,
+        });
+      }
+
+      return res.json({
+        success: true,
+        sessionId,
+        undone: result.undone.map(edit => ({ id: edit.id, turn: edit.turn, tool: edit.tool })),
+        restored: result.restored,
+        externallyModified: result.externallyModified,
+      });
+    } catch (error: any) {
+      return res.status(500).json({
+        error: error.message,
+      });
+    }
+  });
+
   return router;
 }
\ No newline at end of file
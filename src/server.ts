@@ -3,6 +3,11 @@ import { MultiAgentOrchestrator, TaskRequest } from './lib/orchestrator/multi-ag
 import { ConversationStore } from './lib/persistence/conversation-store';
 import { createChatRoutes } from './routes/chat-routes';
 import { OllamaClient } from './lib/llm/ollama-client';
+import { createDefaultLLM, describeLLM } from './lib/providers/ProviderFactory';
+import { GitWorkspace, GitWorkspaceError } from './lib/executor/git-workspace';
+import { AgentLoader, AgentEventBus } from './lib/agents/AgentSystem';
+import { SkillManager } from './lib/skills/SkillManager';
+import { isTrusted } from './lib/trust';
 import dotenv  from 'dotenv';
 import cors from 'cors';
 
@@ -30,6 +35,9 @@ class AgentServer {
   private orchestrator: MultiAgentOrchestrator;
   private conversationStore: ConversationStore;
   private llmClient: OllamaClient;
+  private agentLoader: AgentLoader;
+  private skillManager: SkillManager;
+  private definitionEvents: AgentEventBus;
   private port: number;
 
   constructor(port: number = 3000) {
@@ -45,8 +53,12 @@ class AgentServer {
       model: ollamaModel,
     });
 
-    this.orchestrator = new MultiAgentOrchestrator(ollamaEndpoint, ollamaModel);
+    // Plans and specialized agents run on the default provider from LLM config
+    this.orchestrator = new MultiAgentOrchestrator();
     this.conversationStore = new ConversationStore();
+    this.agentLoader = new AgentLoader('./agents');
+    this.skillManager = new SkillManager('./skills');
+    this.definitionEvents = new AgentEventBus();
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -80,6 +92,14 @@ class AgentServer {
         res.json({
           status: health.healthy ? 'healthy' : 'unhealthy',
           llm: health,
+          definitions: {
+            agents: this.agentLoader.listAgents().length,
+            skills: this.skillManager.getSkillCount(),
+            errors: [
+              ...this.agentLoader.getLoadErrors().map(e => ({ kind: 'agent', ...e })),
+              ...this.skillManager.getLoadErrors().map(e => ({ kind: 'skill', ...e })),
+            ],
+          },
           timestamp: new Date().toISOString(),
         });
       } catch (error: any) {
@@ -93,7 +113,17 @@ class AgentServer {
     // ========================================
     // CHAT API ROUTES (NEW!)
     // ========================================
-    const chatRouter = createChatRoutes(this.llmClient);
+    // Chat sessions run on the default provider from LLM config, falling back to Ollama
+    const chatLLM = createDefaultLLM()
+      .then(llm => {
+        console.log(`✅ Chat provider: ${describeLLM(llm)}`);
+        return llm;
+      })
+      .catch(error => {
+        console.warn(`⚠️  Default provider unavailable (${error.message}), chat will use Ollama`);
+        return this.llmClient;
+      });
+    const chatRouter = createChatRoutes(chatLLM);
     this.app.use('/api/chat', chatRouter);
 
     // ========================================
@@ -103,18 +133,29 @@ class AgentServer {
     // Spawn agents and create plans
     this.app.post('/api/agents/spawn', async (req: Request, res: Response, next: NextFunction) => {
       try {
-        const { task, domain, agents, parallel, autoExecute } = req.body;
+        const { task, domain, agents, parallel, autoExecute, reviewRounds } = req.body;
 
         if (!task || !domain || !agents) {
           throw new APIError(400, 'Missing required fields: task, domain, agents');
         }
 
+        const agentTypes = this.orchestrator.getAgentTypes();
+        const requested: string[] = Array.isArray(agents) ? agents : [agents];
+        const unknown = requested.filter(type => !agentTypes.has(type));
+        if (unknown.length > 0) {
+          throw new APIError(400, `Unknown agent types: ${unknown.join(', ')}. Available types: ${agentTypes.names().join(', ')}`);
+        }
+        if (reviewRounds !== undefined && (!Number.isInteger(reviewRounds) || reviewRounds < 1)) {
+          throw new APIError(400, 'reviewRounds must be a positive integer');
+        }
+
         const taskRequest: TaskRequest = {
           description: task,
           domain,
-          requiredAgents: Array.isArray(agents) ? agents : [agents],
+          requiredAgents: requested,
           autoExecute: autoExecute || false,
           parallel: parallel || false,
+          reviewRounds,
         };
 
         const result = await this.orchestrator.executeTask(taskRequest);
@@ -124,6 +165,7 @@ class AgentServer {
           task: result.taskDescription,
           plans: result.plans,
           execution: result.execution,
+          review: result.review,
           summary: result.summary,
         });
       } catch (error) {
@@ -134,13 +176,13 @@ class AgentServer {
     // Execute a plan
     this.app.post('/api/plans/execute', async (req: Request, res: Response, next: NextFunction) => {
       try {
-        const { planFile, dryRun } = req.body;
+        const { planFile, dryRun, isolate, resume, fromStep, onlyStep, parallel } = req.body;
 
         if (!planFile) {
           throw new APIError(400, 'Missing required field: planFile');
         }
 
-        const result = await this.orchestrator.executePlan(planFile, dryRun || false);
+        const result = await this.orchestrator.executePlan(planFile, dryRun || false, { isolate, resume, fromStep, onlyStep, parallel });
 
         res.json({
           success: result.success,
@@ -150,6 +192,49 @@ class AgentServer {
           error: result.error?.message,
           executionTime: result.executionTime,
           checkpoints: result.checkpointsReached,
+          workspace: result.workspace,
+          rolledBackTo: result.rolledBackTo,
+          timeline: result.timeline,
+          verifications: result.verifications,
+          dryRun: result.dryRun,
+        });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // List plan runs waiting to be accepted or discarded
+    this.app.get('/api/plans/runs', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const runIds = await GitWorkspace.list();
+        const runs = await Promise.all(runIds.map(async runId => (await GitWorkspace.open(runId)).getInfo()));
+
+        res.json({ runs, count: runs.length });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Merge a plan run into the working tree, or drop it
+    this.app.post('/api/plans/runs/:runId/:action(accept|discard)', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { runId, action } = req.params;
+
+        const workspace = await GitWorkspace.open(runId).catch(error => {
+          throw error instanceof GitWorkspaceError ? new APIError(404, error.message) : error;
+        });
+
+        if (action === 'accept') {
+          await workspace.accept();
+        } else {
+          await workspace.discard();
+        }
+
+        res.json({
+          success: true,
+          runId,
+          action,
+          branch: workspace.getBranch(),
         });
       } catch (error) {
         next(error);
@@ -235,6 +320,22 @@ class AgentServer {
       }
     });
 
+    // Get tool call records of a conversation
+    this.app.get('/api/conversations/:id/tool-calls', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { id } = req.params;
+        const toolCalls = await this.conversationStore.getToolCallRecords(id);
+
+        res.json({
+          conversationId: id,
+          toolCalls,
+          count: toolCalls.length,
+        });
+      } catch (error) {
+        next(error);
+      }
+    });
+
     // List conversations
     this.app.get('/api/conversations', async (req: Request, res: Response, next: NextFunction) => {
       try {
@@ -344,6 +445,41 @@ class AgentServer {
     });
   }
 
+  /**
+   * Load AGENT.md agents and skills and reload them when their files change.
+   * Files that fail to load are reported by /health.
+   */
+  private async watchDefinitions(): Promise<void> {
+    this.definitionEvents.onReload(event => {
+      if (event.status === 'error') {
+        console.warn(`⚠️  Failed to reload ${event.kind} ${event.id}: ${event.error}`);
+      } else {
+        console.log(`🔄 ${event.status === 'removed' ? 'Removed' : 'Reloaded'} ${event.kind} ${event.id}`);
+      }
+    });
+
+    try {
+      await this.agentLoader.loadAll();
+      this.agentLoader.watch(this.definitionEvents);
+    } catch (error: any) {
+      console.warn(`⚠️  Agents unavailable: ${error.message}`);
+    }
+
+    try {
+      await this.skillManager.initialize();
+      this.skillManager.watch(this.definitionEvents);
+    } catch (error: any) {
+      console.warn(`⚠️  Skills unavailable: ${error.message}`);
+    }
+  }
+
+  /**
+   * Express app with every route mounted (for embedding or tests)
+   */
+  getApp(): express.Application {
+    return this.app;
+  }
+
   /**
    * Initialize and start server
    */
@@ -351,6 +487,11 @@ class AgentServer {
     try {
       console.log('🚀 Initializing Agent Server...');
 
+      // Tools are confined to trusted folders; a server cannot ask, so the folder must be trusted beforehand
+      if (!(await isTrusted(process.cwd()))) {
+        throw new Error(`${process.cwd()} is not a trusted folder. Run "selek trust add ." to allow agents to work here`);
+      }
+
       // Initialize orchestrator
       await this.orchestrator.initialize();
       console.log('✅ Orchestrator initialized');
@@ -359,6 +500,8 @@ class AgentServer {
       await this.conversationStore.initialize();
       console.log('✅ Conversation store initialized');
 
+      await this.watchDefinitions();
+
       // Check LLM health
       const health = await this.llmClient.healthCheck();
       if (health.healthy) {
@@ -381,15 +524,25 @@ class AgentServer {
         console.log('  POST /api/chat/sessions/:id/clear');
         console.log('  GET  /api/chat/sessions/:id/tools');
         console.log('  GET  /api/chat/sessions/:id/history');
+        console.log('  GET  /api/chat/sessions/:id/approvals');
+        console.log('  POST /api/chat/sessions/:id/approvals/:approvalId');
+        console.log('  GET  /api/chat/sessions/:id/permissions');
+        console.log('  PUT  /api/chat/sessions/:id/permissions');
+        console.log('  GET  /api/chat/sessions/:id/edits');
+        console.log('  POST /api/chat/sessions/:id/undo');
         console.log('\n  🤖 Orchestrator API:');
         console.log('  POST /api/agents/spawn');
         console.log('  POST /api/plans/execute');
+        console.log('  GET  /api/plans/runs');
+        console.log('  POST /api/plans/runs/:runId/accept');
+        console.log('  POST /api/plans/runs/:runId/discard');
         console.log('  GET  /api/agents');
         console.log('  GET  /api/agents/search');
         console.log('\n  💬 Conversation API:');
         console.log('  POST /api/conversations');
         console.log('  GET  /api/conversations');
         console.log('  GET  /api/conversations/:id');
+        console.log('  GET  /api/conversations/:id/tool-calls');
         console.log('  GET  /api/conversations/search');
         console.log('  DELETE /api/conversations/:id');
         console.log('  GET  /api/stats\n');
@@ -6,6 +6,7 @@ import { MultiAgentOrchestrator } from '../lib/orchestrator/multi-agent-orchestr
 import { StreamingClient } from '../lib/streaming/StreamingClient';
 import { ResponseBuffer } from '../lib/streaming/ResponseBuffer';
 import { ConversationHistoryManager, Message } from '../lib/history/ConversationHistoryManager';
+import { isTrusted } from '../lib/trust';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -70,7 +71,7 @@ const ConversationalTUI: React.FC = () => {
         setState(prev => ({ ...prev, status: 'Initializing orchestrator...' }));
 
         // Initialize orchestrator
-        const orchestrator = new MultiAgentOrchestrator(endpoint, model);
+        const orchestrator = new MultiAgentOrchestrator();
         await orchestrator.initialize();
         orchestratorRef.current = orchestrator;
 
@@ -119,8 +120,7 @@ const ConversationalTUI: React.FC = () => {
         **Available Commands:**
         /help - Show detailed help and available commands
         /agents - List currently active agents and their status
-        /spawn <type> <task> - Manually spawn an agent (types: implementation, security, performance)
-        /kill <agent-id> - Terminate a specific agent
+        /spawn <type> <task> - Manually spawn an agent (types: ${orchestrator.getAgentTypes().names().join(', ')})
         /clear - Clear conversation history and start fresh
         /stats - Show conversation and system statistics
         /export [format] - Export conversation (json|markdown|txt)
@@ -380,7 +380,14 @@ const ConversationalTUI: React.FC = () => {
   );
 };
 
-render(<ConversationalTUI />);
+// Agents started here run tools in the current folder, which must be trusted first
+isTrusted(process.cwd()).then(trusted => {
+  if (!trusted) {
+    console.log('Folder not trusted. Run `selek trust add .` or start Selek in a trusted folder.');
+    process.exit(1);
+  }
+  render(<ConversationalTUI />);
+});
 
 
 // ----------------------- Version 5 -------------------------
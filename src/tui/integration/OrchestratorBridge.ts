@@ -325,10 +325,6 @@ private async *streamResponse(
       yield* this.handleSpawnCommand(conversationId, args);
       break;
 
-    case 'kill':
-      yield* this.handleKillCommand(conversationId, args);
-      break;
-
     case 'clear':
       await this.historyManager.deleteConversation(conversationId);
       
@@ -393,10 +389,11 @@ private async *handleSpawnCommand(
   conversationId: string,
   args: string[]
 ): AsyncGenerator<StreamEvent> {
+  const agentTypes = this.orchestrator.getAgentTypes();
   if (args.length < 2) {
     yield {
       type: 'error',
-      error: new Error('Usage: /spawn <type> <task description>\nTypes: implementation, security, performance'),
+      error: new Error(`Usage: /spawn <type> <task description>\nTypes: ${agentTypes.names().join(', ')}`),
     };
     return;
   }
@@ -404,11 +401,11 @@ private async *handleSpawnCommand(
   const agentType = args[0].toLowerCase();
   const task = args.slice(1).join(' ');
 
-  const validTypes = ['implementation', 'security', 'performance'];
-  if (!validTypes.includes(agentType)) {
+  const definition = agentTypes.get(agentType);
+  if (!definition) {
     yield {
       type: 'error',
-      error: new Error(`Invalid agent type: ${agentType}.\nValid types: ${validTypes.join(', ')}`),
+      error: new Error(`Invalid agent type: ${agentType}.\nValid types: ${agentTypes.names().join(', ')}`),
     };
     return;
   }
@@ -419,7 +416,7 @@ private async *handleSpawnCommand(
   };
 
   try {
-    const domain = this.inferDomainFromType(agentType);
+    const domain = definition.defaultDomain;
     
     const taskRequest: TaskRequest = {
       description: task,
@@ -491,73 +488,7 @@ private async *handleSpawnCommand(
 }
 
 /**
- * Handle /kill command
- */
-private async *handleKillCommand(
-  conversationId: string,
-  args: string[]
-): AsyncGenerator<StreamEvent> {
-  if (args.length === 0) {
-    yield {
-      type: 'error',
-      error: new Error('Usage: /kill <agent-id>\nUse /agents to see active agents'),
-    };
-    return;
-  }
-
-  const agentId = args[0];
-  
-  try {
-    // Check if agent exists
-    const agents = this.orchestrator.getAgentRegistry();
-    const agent = agents.find(a => a.agentId === agentId);
-
-    if (!agent) {
-      yield {
-        type: 'error',
-        error: new Error(`Agent not found: ${agentId}\nUse /agents to see active agents`),
-      };
-      return;
-    }
-
-    // Kill the agent (you'll need to implement this in orchestrator)
-    // For now, just acknowledge
-    const response = `⚠️ Terminated agent: ${agentId}\n\nNote: Agent termination is not yet implemented. This is a placeholder.`;
-    
-    yield { type: 'token', data: response };
-    
-    await this.historyManager.saveMessage(conversationId, {
-      role: 'assistant',
-      content: response,
-      metadata: {
-        agentId: 'orchestrator',
-        command: 'kill',
-      },
-    });
-
-  } catch (error: any) {
-    const errorMsg = `❌ Failed to kill agent: ${error.message}`;
-    yield { type: 'error', error: new Error(errorMsg) };
-  }
-}
-
-/**
- * Infer domain from agent type
- */
-private inferDomainFromType(agentType: string): string {
-  switch (agentType) {
-    case 'security':
-      return 'Application Security';
-    case 'performance':
-      return 'Performance Optimization';
-    case 'implementation':
-    default:
-      return 'TypeScript Development';
-  }
-}
-
-/**
- * Get help text with spawn/kill commands
+ * Get help text with spawn commands
  */
 private getHelpText(): string {
   return `
@@ -567,9 +498,8 @@ private getHelpText(): string {
 - /help - Show this help message
 - /agents - List active agents and their status
 - /spawn <type> <task> - Manually spawn an agent
-  Types: implementation, security, performance
+  Types: ${this.orchestrator.getAgentTypes().names().join(', ')}
   Example: /spawn implementation Create a login API
-- /kill <agent-id> - Terminate a specific agent
 - /clear - Clear conversation history
 - /stats - Show conversation and system statistics
 - /export [format] - Export conversation (json|markdown|txt)
@@ -580,13 +510,11 @@ private getHelpText(): string {
 - Mention tasks like "implement X" to auto-spawn agents
 - Use /spawn for manual agent control
 - Use /agents to monitor active agents
-- Use /kill to stop agents
 
 **Examples:**
 - "Implement a user authentication system" (auto-spawns agent)
 - "/spawn security Audit the login flow" (manual spawn)
 - "/agents" (list all agents)
-- "/kill agent-123" (terminate agent)
 - "/stats" (show statistics)
 
 Type your message and press Enter to send.
@@ -4,6 +4,8 @@ import { render, Box, Text } from 'ink';
 import SelectInput from 'ink-select-input';
 import { MultiAgentOrchestrator, TaskRequest } from '../lib/orchestrator/multi-agent-orchestrator';
 import { ConversationStore } from '../lib/persistence/conversation-store';
+import { checkLLMHealth } from '../lib/providers/ProviderFactory';
+import { isTrusted } from '../lib/trust';
 import * as dotenv from 'dotenv';
 import { Agent } from 'http';
 
@@ -124,10 +126,7 @@ const App: React.FC = () => {
     setState(prev => ({ ...prev, message: '⏳ Initializing system...' }));
 
     try {
-      const endpoint = process.env.OLLAMA_ENDPOINT || 'http://localhost:11434';
-      const model = process.env.OLLAMA_MODEL || 'llama3.1:latest';
-
-      const orchestrator = new MultiAgentOrchestrator(endpoint, model);
+      const orchestrator = new MultiAgentOrchestrator();
       await orchestrator.initialize();
 
       const conversationStore = new ConversationStore();
@@ -316,8 +315,7 @@ Conversations:
     }
 
     try {
-      const llm = state.orchestrator.getLLMClient();
-      const health = await llm.healthCheck();
+      const health = await checkLLMHealth(await state.orchestrator.getLLMClient());
 
       if (health.healthy) {
         setState(prev => ({ 
@@ -386,4 +384,11 @@ Conversations:
   );
 };
 
-render(<App />);
\ No newline at end of file
+// Agents started here run tools in the current folder, which must be trusted first
+isTrusted(process.cwd()).then(trusted => {
+  if (!trusted) {
+    console.log('Folder not trusted. Run `selek trust add .` or start Selek in a trusted folder.');
+    process.exit(1);
+  }
+  render(<App />);
+});
\ No newline at end of file
@@ -15,18 +15,29 @@ import {
   AgentMessage,
   AgentCreator,
   getAgentOrchestrator,
+  orderByDelegation,
+  applyStatusUpdate,
+  withoutRunTree,
 } from '../../src/lib/agents/AgentSystem';
 import { getSkillManager } from '@/lib/skills/SkillManager';
 import { MCPClientManager } from '../mcp/mcp-client';
 import { getAgentManager } from '../lib/agents/AgentManager';
-import { OllamaClient } from '../lib/llm/ollama-client';
+import { OllamaClient, ToolCallRecord } from '../lib/llm/ollama-client';
 import { LLMConfigManager, ProviderConfig } from '../lib/config/LLMConfig';
+import { PermissionManager, ApprovalRequest } from '../lib/permissions/PermissionManager';
+import { ensureFolderTrusted } from '../lib/trust';
+import { SnapshotStore, runUndoCommand } from '../lib/snapshots/SnapshotStore';
+import { GitWorkspace } from '../lib/executor/git-workspace';
+import { formatDryRun } from '../lib/executor/dry-run';
 import * as dotenv from 'dotenv';
 import fs from 'fs/promises';
 
 dotenv.config();
 import { createProjectContext } from '../lib/context/ProjectContextLoader';
 
+// Failed runs stay on screen this long before their status is dropped
+const ERROR_STATUS_TTL_MS = 10_000;
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -53,6 +64,7 @@ interface AppState {
     status: AgentStatus['status'];
   }>;
   activeSkills: string[];
+  definitionErrors: string[]; // Agents and skills that failed to (re)load
   
   // UI state
   showAgentList: boolean;
@@ -83,6 +95,9 @@ interface AppState {
   pendingPlan: { agentType: string; planFile: string; content: string } | null;
   awaitingApproval: boolean;
 
+  // Tool call approval (oldest pending request)
+  pendingToolApproval: ApprovalRequest | null;
+
   // Model selection
   currentModel: string;
   availableModels: string[];
@@ -171,9 +186,10 @@ const AgentStatusBox: React.FC<{ status: AgentStatus; agent: any }> = ({
   const elapsed = Math.floor((Date.now() - status.startTime.getTime()) / 1000);
 
   return (
-    <Box flexDirection="column" borderStyle="round" borderColor={getStatusColor(status.status)} paddingX={1} marginBottom={1}>
+    <Box flexDirection="column" borderStyle="round" borderColor={getStatusColor(status.status)} paddingX={1} marginBottom={1} marginLeft={status.depth * 4}>
       <Box>
         <Text>
+          {status.depth > 0 && <Text color="gray">↳ </Text>}
           {agent?.avatar || '🤖'} <Text bold color={getStatusColor(status.status)}>{agent?.name || status.agentId}</Text>
         </Text>
         <Text color="gray"> • </Text>
@@ -343,7 +359,8 @@ const StatusBar: React.FC<{
   currentModel: string;
   currentProvider: string;
   autoSuggestEnabled: boolean;
-}> = ({ status, error, agentCount, skillCount, currentModel, currentProvider, autoSuggestEnabled }) => {
+  definitionErrors: string[];
+}> = ({ status, error, agentCount, skillCount, currentModel, currentProvider, autoSuggestEnabled, definitionErrors }) => {
   const getStatusColor = (): string => {
     if (error) return 'red';
     switch (status) {
@@ -390,6 +407,14 @@ const StatusBar: React.FC<{
       <Text color={autoSuggestEnabled ? 'green' : 'gray'}>
         AutoSuggest: {autoSuggestEnabled ? 'ON' : 'OFF'}
       </Text>
+      {definitionErrors.length > 0 && (
+        <>
+          <Text color="gray"> • </Text>
+          <Text color="red">
+            ⚠ {definitionErrors.length === 1 ? definitionErrors[0] : `${definitionErrors.length} load errors: ${definitionErrors[0]}`}
+          </Text>
+        </>
+      )}
     </Box>
   );
 };
@@ -429,6 +454,68 @@ const AgentCreatorUI: React.FC<{
   );
 };
 
+const MAX_PREVIEW_LINES = 20;
+
+const ToolApprovalPrompt: React.FC<{ request: ApprovalRequest }> = ({ request }) => {
+  const lines = request.preview.text.split('\n');
+  const shown = lines.slice(0, MAX_PREVIEW_LINES);
+
+  const lineColor = (line: string): string => {
+    if (request.preview.kind !== 'diff') return 'white';
+    if (line.startsWith('+++') || line.startsWith('---')) return 'white';
+    if (line.startsWith('+')) return 'green';
+    if (line.startsWith('-')) return 'red';
+    if (line.startsWith('@@')) return 'cyan';
+    return 'gray';
+  };
+
+  return (
+    <Box flexDirection="column" borderStyle="double" borderColor="yellow" paddingX={1} marginTop={1}>
+      <Text bold color="yellow">🔐 {request.agentName} wants to run {request.toolName}</Text>
+      <Text color="gray">{request.reason}</Text>
+      <Box flexDirection="column" paddingLeft={1} marginTop={1}>
+        {shown.map((line, idx) => (
+          <Text key={idx} color={lineColor(line)}>{line || ' '}</Text>
+        ))}
+        {lines.length > shown.length && (
+          <Text color="gray" dimColor>… {lines.length - shown.length} more lines</Text>
+        )}
+      </Box>
+      <Box marginTop={1}>
+        <Text>
+          <Text color="green" bold>[y]</Text> allow once  <Text color="cyan" bold>[a]</Text> always  <Text color="red" bold>[n]</Text> deny
+        </Text>
+      </Box>
+    </Box>
+  );
+};
+
+const TrustPrompt: React.FC<{ dir: string; onAnswer: (trusted: boolean) => void }> = ({ dir, onAnswer }) => {
+  useInput((input, key) => {
+    if (input === 'y') {
+      onAnswer(true);
+    } else if (input === 'n' || key.escape || (key.ctrl && input === 'c')) {
+      onAnswer(false);
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="double" borderColor="yellow" paddingX={1}>
+      <Text bold color="yellow">📁 Trust this folder?</Text>
+      <Text>{dir}</Text>
+      <Box marginTop={1} flexDirection="column">
+        <Text color="gray">Selek has not been used here before. Agents can read, change and run</Text>
+        <Text color="gray">commands in trusted folders only. Manage the list with `selek trust`.</Text>
+      </Box>
+      <Box marginTop={1}>
+        <Text>
+          <Text color="green" bold>[y]</Text> trust  <Text color="red" bold>[n]</Text> exit
+        </Text>
+      </Box>
+    </Box>
+  );
+};
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -449,6 +536,7 @@ const ConversationalTUI: React.FC = () => {
     agentMessages: [],
     availableAgents: [],
     activeSkills: [],
+    definitionErrors: [],
     showAgentList: false,
     showSkillsList: false,
     showAgentCreator: false,
@@ -462,6 +550,7 @@ const ConversationalTUI: React.FC = () => {
     selectedAgentId: null,
     pendingPlan: null,
     awaitingApproval: false,
+    pendingToolApproval: null,
     currentModel: process.env.OLLAMA_MODEL || 'llama3.1:latest',
     availableModels: [],
     ollamaEndpoint: process.env.OLLAMA_ENDPOINT || 'http://localhost:11434',
@@ -485,7 +574,26 @@ const ConversationalTUI: React.FC = () => {
   const ollamaClientRef = useRef<OllamaClient | null>(null);
   const llmConfigRef = useRef<LLMConfigManager | null>(null);
   const mountedRef = useRef(true);
+  const stopWatchingRef = useRef<Array<() => void>>([]);
+  const skillToolNamesRef = useRef<string[]>([]);
   const toolClientRef = useRef<StreamingClientWithTools | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null); // Current response, aborted by Ctrl+C
+  const permissionsRef = useRef(new PermissionManager()); // Tool calls with side effects ask first
+  const snapshotsRef = useRef<SnapshotStore | null>(null); // File edits of this conversation, for /undo
+
+  // Show the oldest pending tool approval
+  useEffect(() => {
+    const permissions = permissionsRef.current;
+    const unsubscribe = permissions.onApprovalChange(() => {
+      if (mountedRef.current) {
+        setState(prev => ({ ...prev, pendingToolApproval: permissions.getPending()[0] ?? null }));
+      }
+    });
+    return () => {
+      unsubscribe();
+      permissions.cancelAll('interface closed');
+    };
+  }, []);
 
   // Initialize system
 useEffect(() => {
@@ -576,6 +684,7 @@ useEffect(() => {
 
       // Register all tools
       registerStandardTools(toolClientRef.current);
+      toolClientRef.current.setPermissions(permissionsRef.current);
       console.log('[Tools] Registered:', toolClientRef.current.getAvailableTools());
 
       // Initialize MCP (Model Context Protocol) servers
@@ -633,7 +742,8 @@ useEffect(() => {
       bufferRef.current = new ResponseBuffer({ flushInterval: 50 });
 
       // Initialize main orchestrator
-      const orchestrator = new MultiAgentOrchestrator(endpoint, model);
+      // Plans and specialized agents run on the default provider from the LLM config
+      const orchestrator = new MultiAgentOrchestrator();
       await orchestrator.initialize();
       orchestratorRef.current = orchestrator;
 
@@ -645,10 +755,16 @@ useEffect(() => {
       );
       bridgeRef.current = bridge;
 
-      // Initialize agent orchestrator
+      // Provider with native tool calling, shared by AGENT.md agents and the skill agent
+      const streamingProvider = createStreamingProviderAdapter(
+        streamingClientRef.current
+      );
+
+      // Initialize agent orchestrator; agents with a `tools` list run a tool loop
       const agentOrchestrator = getAgentOrchestrator(
-        streamingClientRef.current,
-        './agents'
+        streamingProvider,
+        './agents',
+        { mcpManager: mcpManagerRef.current ?? undefined, permissions: permissionsRef.current }
       );
       await agentOrchestrator.initialize();
       agentOrchestratorRef.current = agentOrchestrator;
@@ -660,15 +776,11 @@ useEffect(() => {
       const skillManager = getSkillManager('./skills');
       await skillManager.initialize();
       skillManagerRef.current = skillManager;
+      registerSkillTools();
 
       // Initialize agent manager
       agentManagerRef.current = getAgentManager('./agents');
 
-      // Initialize SkillAwareAgent 
-      const streamingProvider = createStreamingProviderAdapter(
-        streamingClientRef.current
-      );
-
       // Initialize SkillAwareAgent
       const skillAwareAgent = getSkillAwareAgent(
         streamingProvider,
@@ -677,13 +789,19 @@ useEffect(() => {
       await skillAwareAgent.initialize();
 
       // Subscribe to agent events
-      agentOrchestrator.onStatusUpdate((status: any) => {
+      agentOrchestrator.onStatusUpdate((status: AgentStatus) => {
         if (mountedRef.current) {
-          setState(prev => {
-            const newStatuses = new Map(prev.agentStatuses);
-            newStatuses.set(status.agentId, status);
-            return { ...prev, agentStatuses: newStatuses };
-          });
+          setState(prev => ({ ...prev, agentStatuses: applyStatusUpdate(prev.agentStatuses, status) }));
+          if (status.status === 'error') {
+            setTimeout(() => {
+              if (mountedRef.current) {
+                // Unless the run reported something newer since
+                setState(prev => prev.agentStatuses.get(status.runId) === status
+                  ? { ...prev, agentStatuses: withoutRunTree(prev.agentStatuses, status.runId) }
+                  : prev);
+              }
+            }, ERROR_STATUS_TTL_MS).unref();
+          }
         }
       });
 
@@ -696,10 +814,31 @@ useEffect(() => {
         }
       });
 
+      // Reload agents and skills when their files change
+      agentOrchestrator.onReload(event => {
+        if (event.kind === 'skill') {
+          registerSkillTools();
+        }
+        if (mountedRef.current) {
+          setState(prev => ({
+            ...prev,
+            availableAgents: agentOrchestrator.listAgents(),
+            definitionErrors: describeDefinitionErrors(),
+          }));
+        }
+      });
+      stopWatchingRef.current = [
+        agentOrchestrator.watchAgents(),
+        skillManager.watch(agentOrchestrator.getEventBus()),
+      ];
+
       // Create conversation
       const conversationId = await historyManagerRef.current.createConversation(
         `Chat ${new Date().toLocaleString()}`
       );
+      snapshotsRef.current = await SnapshotStore.load(conversationId);
+      toolClientRef.current?.setSnapshots(snapshotsRef.current);
+      agentOrchestrator.setSnapshots(snapshotsRef.current);
 
       let projectContext = '';
       try {
@@ -764,6 +903,7 @@ useEffect(() => {
           initialized: true,
           error: null,
           availableAgents: agents,
+          definitionErrors: describeDefinitionErrors(),
         }));
       }
     } catch (error) {
@@ -786,6 +926,7 @@ useEffect(() => {
 
   return () => {
     mountedRef.current = false;
+    stopWatchingRef.current.forEach(stop => stop());
     historyManagerRef.current?.close();
     bufferRef.current?.dispose();
 
@@ -798,6 +939,30 @@ useEffect(() => {
   };
 }, []);
 
+  /**
+   * Register the tools skills declare on the chat's tool client, replacing
+   * those of skills that were reloaded or removed
+   */
+  const registerSkillTools = () => {
+    const client = toolClientRef.current;
+    if (!client || !skillManagerRef.current) {
+      return;
+    }
+    skillToolNamesRef.current.forEach(name => client.unregisterTool(name));
+    skillToolNamesRef.current = skillManagerRef.current.getTools().map(tool => {
+      client.registerTool(tool.name, tool.run, tool.schema);
+      return tool.name;
+    });
+  };
+
+  /**
+   * "<id>: <reason>" for every agent and skill that failed to load
+   */
+  const describeDefinitionErrors = (): string[] => [
+    ...(agentOrchestratorRef.current?.getLoadErrors() ?? []),
+    ...(skillManagerRef.current?.getLoadErrors() ?? []),
+  ].map(({ id, error }) => `${id}: ${error}`);
+
   const handleCommand = async (input: string): Promise<boolean> => {
     const parts = input.trim().split(/\s+/);
     const command = parts[0].toLowerCase();
@@ -837,8 +1002,23 @@ useEffect(() => {
 • /template-install <template-id> <new-id> - Install template
 
 **Plan Approval:**
+• /preview - Dry-run the pending plan and show the diff it would make
 • /approve - Approve pending plan
 • /reject - Reject pending plan
+• /plan-accept [run] - Merge the latest (or given) plan run into your working tree
+• /plan-discard [run] - Drop a plan run and its branch
+
+**Undo:**
+• /undo [n] - Undo the last n file edits (default 1)
+• /undo turn <n> - Restore files to the start of turn n
+• /undo list - Show recorded edits by turn
+Add "force" to overwrite files changed since the agent edited them
+
+**Tool Approval:**
+Tool calls with side effects (file writes, shell commands) wait for you:
+• y - Allow once
+• a - Always allow this tool for the session
+• n / Esc - Deny
 
 **Other:**
 • /skills - Toggle skills list
@@ -892,8 +1072,9 @@ useEffect(() => {
       case '/reload':
         await agentOrchestratorRef.current?.reloadAgents();
         await skillManagerRef.current?.reload();
+        registerSkillTools();
         const agents = agentOrchestratorRef.current?.listAgents() || [];
-        setState(prev => ({ ...prev, availableAgents: agents }));
+        setState(prev => ({ ...prev, availableAgents: agents, definitionErrors: describeDefinitionErrors() }));
         return true;
 
       case '/clear':
@@ -1192,7 +1373,10 @@ useEffect(() => {
                 ...prev.messages,
                 {
                   role: 'system',
-                  content: `✅ Plan executed successfully!\nSteps completed: ${result.completedSteps.length}\nTime: ${result.executionTime.toFixed(2)}s`
+                  content: `✅ Plan executed successfully!\nSteps completed: ${result.completedSteps.length}\nTime: ${result.executionTime.toFixed(2)}s` +
+                    (result.workspace
+                      ? `\nChanges are on branch ${result.workspace.branch}. /plan-accept to merge them, /plan-discard to drop them`
+                      : '')
                 } as Message
               ],
               pendingPlan: null,
@@ -1201,7 +1385,8 @@ useEffect(() => {
           } else {
             setState(prev => ({
               ...prev,
-              error: `Plan execution failed: ${result?.error?.message}`,
+              error: `Plan execution failed: ${result?.error?.message}` +
+                (result?.rolledBackTo ? ` (rolled back to ${result.rolledBackTo} on ${result.workspace?.branch})` : ''),
               pendingPlan: null,
               isStreaming: false,
             }));
@@ -1217,6 +1402,94 @@ useEffect(() => {
         return true;
       }
 
+      case '/undo': {
+        if (!snapshotsRef.current) {
+          setState(prev => ({ ...prev, error: 'No conversation to undo' }));
+          return true;
+        }
+
+        try {
+          const content = await runUndoCommand(snapshotsRef.current, parts.slice(1));
+          setState(prev => ({
+            ...prev,
+            messages: [...prev.messages, { role: 'system', content: `↩️ ${content}` } as Message],
+          }));
+        } catch (error) {
+          setState(prev => ({
+            ...prev,
+            error: `Undo failed: ${error instanceof Error ? error.message : String(error)}`,
+          }));
+        }
+        return true;
+      }
+
+      case '/plan-accept':
+      case '/plan-discard': {
+        try {
+          const runId = parts[1] ?? (await GitWorkspace.list())[0];
+          if (!runId) {
+            setState(prev => ({ ...prev, error: 'No plan runs to accept or discard' }));
+            return true;
+          }
+
+          const workspace = await GitWorkspace.open(runId);
+          const accepting = command === '/plan-accept';
+          await (accepting ? workspace.accept() : workspace.discard());
+          setState(prev => ({
+            ...prev,
+            messages: [
+              ...prev.messages,
+              {
+                role: 'system',
+                content: accepting ? `✅ Merged ${workspace.getBranch()} into your working tree` : `🗑️ Discarded ${workspace.getBranch()}`,
+              } as Message,
+            ],
+          }));
+        } catch (error) {
+          setState(prev => ({
+            ...prev,
+            error: error instanceof Error ? error.message : String(error),
+          }));
+        }
+        return true;
+      }
+
+      case '/preview': {
+        if (!state.awaitingApproval || !state.pendingPlan) {
+          setState(prev => ({
+            ...prev,
+            error: 'No plan awaiting approval'
+          }));
+          return true;
+        }
+
+        setState(prev => ({ ...prev, isStreaming: true }));
+
+        // The plan stays pending so it can be approved or rejected after the review
+        try {
+          const result = await orchestratorRef.current?.executePlan(state.pendingPlan.planFile, true);
+          setState(prev => ({
+            ...prev,
+            messages: [
+              ...prev.messages,
+              {
+                role: 'system',
+                content: (result?.dryRun ? `🔍 Proposed changes:\n\n${formatDryRun(result.dryRun)}` : '') +
+                  (result?.success ? '\n\n/approve to run the plan, /reject to drop it' : `\n\n❌ Dry run failed: ${result?.error?.message}`)
+              } as Message
+            ],
+            isStreaming: false,
+          }));
+        } catch (error) {
+          setState(prev => ({
+            ...prev,
+            error: `Failed to preview plan: ${error}`,
+            isStreaming: false,
+          }));
+        }
+        return true;
+      }
+
       case '/reject': {
         if (!state.awaitingApproval || !state.pendingPlan) {
           setState(prev => ({
@@ -1307,6 +1580,10 @@ useEffect(() => {
             10
           );
           registerStandardTools(toolClientRef.current);
+          skillToolNamesRef.current = [];
+          registerSkillTools();
+          toolClientRef.current.setPermissions(permissionsRef.current);
+          toolClientRef.current.setSnapshots(snapshotsRef.current);
 
           // Update Ollama client
           ollamaClientRef.current = new OllamaClient({
@@ -1315,7 +1592,7 @@ useEffect(() => {
           });
 
           // Reinitialize orchestrator with new model
-          const orchestrator = new MultiAgentOrchestrator(state.ollamaEndpoint, newModel);
+          const orchestrator = MultiAgentOrchestrator.forOllama(state.ollamaEndpoint, newModel);
           await orchestrator.initialize();
           orchestratorRef.current = orchestrator;
 
@@ -1588,11 +1865,17 @@ useEffect(() => {
       '/template-export ',
       '/template-install ',
       '/approve',
+      '/preview',
       '/models',
       '/model ',
       '/model-current',
       '/autosuggest',
       '/reject',
+      '/plan-accept',
+      '/plan-discard',
+      '/undo',
+      '/undo list',
+      '/undo turn ',
     ];
 
     // Add agent-specific commands
@@ -1788,13 +2071,19 @@ useEffect(() => {
       }
     });
 
+    // Per-call records for this response, persisted with the assistant message
+    const toolCallRecords: ToolCallRecord[] = [];
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     // REPLACED: Use tool-aware streaming
     for await (const event of toolClientRef.current.streamChatWithTools(
       history,
       // On tool call callback
       (toolCall) => {
-        console.log('[Tool] Calling:', toolCall.name, toolCall.arguments);
+        console.log('[Tool] Calling:', toolCall.name, toolCall.id, toolCall.arguments);
         if (mountedRef.current) {
+          const argsPreview = JSON.stringify(toolCall.arguments);
           setState(prev => ({
             ...prev,
             agentMessages: [
@@ -1803,16 +2092,18 @@ useEffect(() => {
                 agentId: 'system',
                 agentName: 'Tool System',
                 type: 'action',
-                content: `Calling tool: ${toolCall.name}`,
+                content: `Calling ${toolCall.name} ${argsPreview}`,
                 timestamp: new Date(),
+                metadata: { toolCallId: toolCall.id, args: toolCall.arguments },
               }
             ],
           }));
         }
       },
       // On tool result callback
-      (toolName, result) => {
-        console.log('[Tool] Result from:', toolName, result);
+      (record) => {
+        console.log('[Tool] Result from:', record.name, record.id, `${record.durationMs}ms`, record.error || record.result);
+        toolCallRecords.push(record);
         if (mountedRef.current) {
           setState(prev => ({
             ...prev,
@@ -1821,14 +2112,18 @@ useEffect(() => {
               {
                 agentId: 'system',
                 agentName: 'Tool System',
-                type: 'result',
-                content: `Tool ${toolName} completed`,
+                type: record.error ? 'error' : 'result',
+                content: record.error
+                  ? `${record.name} failed after ${record.durationMs}ms: ${record.error}`
+                  : `${record.name} completed in ${record.durationMs}ms`,
                 timestamp: new Date(),
+                metadata: { toolCallId: record.id, record },
               }
             ],
           }));
         }
-      }
+      },
+      { signal: abortController.signal }
     )) {
       if (!mountedRef.current) {
         unsubscribe();
@@ -1851,6 +2146,11 @@ useEffect(() => {
         // Tool completed - show brief result
         const resultPreview = JSON.stringify(event.result).slice(0, 100);
         fullResponse += `[✓ ${event.toolName}: ${resultPreview}...]\n\n`;
+
+        // File edits carry a unified diff; show it in full
+        if (typeof event.result?.diff === 'string' && event.result.diff) {
+          fullResponse += `\`\`\`diff\n${event.result.diff}\n\`\`\`\n\n`;
+        }
         if (mountedRef.current) {
           setState(prev => ({ ...prev, streamingContent: fullResponse }));
         }
@@ -1862,6 +2162,7 @@ useEffect(() => {
         await historyManagerRef.current.saveMessage(state.conversationId, {
           role: 'assistant',
           content: fullResponse,
+          metadata: toolCallRecords.length > 0 ? { toolCalls: toolCallRecords } : undefined,
         });
         
         await new Promise(resolve => setTimeout(resolve, 100));
@@ -1878,6 +2179,29 @@ useEffect(() => {
           }));
         }
         break;
+      } else if (event.type === 'aborted') {
+        buffer.flush();
+        unsubscribe();
+
+        // Keep the partial answer and its tool calls so history matches what ran
+        await historyManagerRef.current.saveMessage(state.conversationId, {
+          role: 'assistant',
+          content: `${fullResponse}\n\n[⏹ Cancelled: ${event.reason}]`,
+          metadata: toolCallRecords.length > 0 ? { toolCalls: toolCallRecords } : undefined,
+        });
+
+        const finalMessages = await historyManagerRef.current.getHistory(state.conversationId);
+
+        if (mountedRef.current) {
+          setState(prev => ({
+            ...prev,
+            messages: finalMessages,
+            isStreaming: false,
+            streamingContent: '',
+            status: 'ready',
+          }));
+        }
+        break;
       } else if (event.type === 'error') {
         unsubscribe();
         
@@ -1903,6 +2227,8 @@ useEffect(() => {
         status: 'error',
       }));
     }
+  } finally {
+    abortControllerRef.current = null;
   }
   };
 
@@ -1910,11 +2236,29 @@ useEffect(() => {
   useInput((input, key) => {
     if (!state.initialized) return;
 
+    // Ctrl+C cancels the current response; when idle it exits like Ctrl+D
+    if (key.ctrl && input === 'c' && abortControllerRef.current) {
+      abortControllerRef.current.abort('cancelled by user');
+      return;
+    }
+
     if (key.ctrl && (input === 'c' || input === 'd')) {
       exit();
       return;
     }
 
+    // A pending tool approval takes all other keys
+    if (state.pendingToolApproval) {
+      const choice = input === 'y' ? 'allow-once'
+        : input === 'a' ? 'allow-always'
+        : input === 'n' || key.escape ? 'deny'
+        : null;
+      if (choice) {
+        permissionsRef.current.resolve(state.pendingToolApproval.id, choice);
+      }
+      return;
+    }
+
     // Handle autocomplete suggestions
     if (state.showSuggestions && state.suggestions.length > 0) {
       if (key.upArrow) {
@@ -2012,9 +2356,10 @@ useEffect(() => {
     .filter(m => m.role !== 'system')
     .slice(-8);
 
-  const activeAgents = Array.from(state.agentStatuses.values()).filter(
+  // Delegated runs are listed under the run that started them
+  const activeAgents = orderByDelegation(Array.from(state.agentStatuses.values()).filter(
     s => s.status !== 'idle' && s.status !== 'completed'
-  );
+  ));
 
   const skillCount = skillManagerRef.current?.getSkillCount() || 0;
 
@@ -2138,7 +2483,7 @@ useEffect(() => {
           <Text bold color="yellow">⚡ Active Agents</Text>
           {activeAgents.map(status => {
             const agent = state.availableAgents.find(a => a.id === status.agentId);
-            return <AgentStatusBox key={status.agentId} status={status} agent={agent} />;
+            return <AgentStatusBox key={status.runId} status={status} agent={agent} />;
           })}
         </Box>
       )}
@@ -2171,10 +2516,16 @@ useEffect(() => {
             currentModel={state.currentModel}
             currentProvider={state.currentProvider}
             autoSuggestEnabled={state.autoSuggestEnabled}
+            definitionErrors={state.definitionErrors}
           />
         </Box>
       )}
 
+      {/* Tool Approval */}
+      {state.pendingToolApproval && (
+        <ToolApprovalPrompt request={state.pendingToolApproval} />
+      )}
+
       {/* Input Area */}
       {state.initialized && !state.showAgentCreator && (
         <InputPrompt
@@ -2209,13 +2560,40 @@ useEffect(() => {
       {/* Help */}
       <Box marginTop={1}>
         <Text color="white">
-          {state.initialized 
-            ? 'Type your message or /help for commands • Enter to send • Ctrl+C to exit' 
-            : 'Please wait while the system initializes...'}
+          {!state.initialized
+            ? 'Please wait while the system initializes...'
+            : state.pendingToolApproval
+              ? 'y to allow once • a to always allow • n or Esc to deny • Ctrl+C to cancel the response'
+            : state.isStreaming
+              ? 'Ctrl+C to cancel the response'
+              : 'Type your message or /help for commands • Enter to send • Ctrl+C to exit'}
         </Text>
       </Box>
     </Box>
   );
 };
 
-render(<ConversationalTUI />);
\ No newline at end of file
+// Ask before working in a folder for the first time; tools stay confined to trusted folders
+const confirmTrust = (dir: string): Promise<boolean> =>
+  new Promise(resolve => {
+    const prompt = render(
+      <TrustPrompt
+        dir={dir}
+        onAnswer={trusted => {
+          prompt.unmount();
+          resolve(trusted);
+        }}
+      />,
+      { exitOnCtrlC: false }
+    );
+  });
+
+ensureFolderTrusted(process.cwd(), confirmTrust).then(trusted => {
+  if (!trusted) {
+    console.log('Folder not trusted. Run `selek trust add .` or start Selek in a trusted folder.');
+    process.exit(0);
+  }
+
+  // Ctrl+C is handled in useInput: it cancels a running response before exiting
+  render(<ConversationalTUI />, { exitOnCtrlC: false });
+});
\ No newline at end of file
@@ -0,0 +1,225 @@
+/**
+ * Test script for cancelling agent runs
+ *
+ * Aborting a run stops a running bashExec together with the processes its
+ * command started, leaves the agent's history with every tool call answered,
+ * and DELETE /api/chat/sessions/:id aborts the session's in-flight run.
+ */
+
+import fs from 'fs/promises';
+import { readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import { AddressInfo } from 'net';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether a process is still alive (exited but unreaped processes count as gone)
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  try {
+    return !/\) Z /.test(readFileSync(`/proc/${pid}/stat`, 'utf-8'));
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Wait until a command has written the pid of its background `sleep`
+ */
+async function waitForPid(pidFile: string): Promise<number> {
+  for (let i = 0; i < 100; i++) {
+    const content = await fs.readFile(pidFile, 'utf-8').catch(() => '');
+    if (content.trim()) {
+      return Number(content.trim());
+    }
+    await sleep(50);
+  }
+  throw new Error(`${pidFile} was never written`);
+}
+
+/**
+ * Provider whose first turn runs `cmd` through bashExec and that answers
+ * once tool results arrive; records the messages of every request
+ */
+function scriptedProvider(cmd: string, cwd: string) {
+  const requests: any[][] = [];
+  return {
+    requests,
+    name: 'scripted',
+    models: ['scripted'],
+    async *stream() {
+      yield { type: 'token', data: 'summary' };
+      yield { type: 'done' };
+    },
+    async chatWithTools(messages: any[]) {
+      requests.push(messages);
+      const last = messages[messages.length - 1];
+      if (last.role === 'tool' || last.content === 'Say hi') {
+        return { content: 'hi', toolCalls: [] };
+      }
+      return {
+        content: 'Running it.',
+        toolCalls: [{ id: `call_${requests.length}`, name: 'bashExec', arguments: { cmd, cwd } }],
+      };
+    },
+    async getModelInfo() {
+      return { id: 'scripted', name: 'scripted', contextWindow: 32768, provider: 'scripted', capabilities: [] };
+    },
+    async listModels() {
+      return ['scripted'];
+    },
+    async validateConfig() {
+      return true;
+    },
+    async healthCheck() {
+      return { healthy: true };
+    },
+  };
+}
+
+async function testAgentAbort() {
+  console.log('='.repeat(60));
+  console.log('Testing cancelled agent runs');
+  console.log('='.repeat(60));
+  console.log();
+
+  const dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'selek-agent-abort-')));
+  process.env.AGENT_HOME = path.join(dir, '.home');
+
+  // Imported after AGENT_HOME is set
+  const { addTrusted } = await import('./src/lib/trust');
+  const { bashExec } = await import('./src/lib/tools/toolFunctions');
+  const { Agent, AgentAbortedError } = await import('./src/lib/agent');
+  const { registerTools } = await import('./src/lib/tools');
+  const { createChatRoutes } = await import('./src/routes/chat-routes');
+
+  // The sleep runs in the background so killing only the shell would leave it behind
+  const longCommand = (pidFile: string) => `sleep 30 & echo $! > ${pidFile}; wait; touch ${pidFile}.done`;
+  const pids: number[] = [];
+
+  try {
+    await addTrusted(dir);
+
+    // TEST 1: bashExec
+    console.log('TEST 1: Aborting bashExec kills the command and its children');
+    console.log('-'.repeat(60));
+    const pidFile = path.join(dir, 'exec.pid');
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    const running = bashExec({ cmd: longCommand(pidFile), cwd: dir }, { callId: 'exec', signal: controller.signal }).catch(error => error);
+    const pid = await waitForPid(pidFile);
+    pids.push(pid);
+    check(isRunning(pid), 'The command is running');
+
+    controller.abort('cancelled by test');
+    const result = await running;
+    await sleep(200);
+    check(result instanceof Error && Date.now() - startedAt < 10_000, 'bashExec rejects right after the abort');
+    check(!isRunning(pid), 'The background process of the command is killed');
+    check(!(await fs.access(`${pidFile}.done`).then(() => true, () => false)), 'The rest of the command never runs');
+    console.log();
+
+    // TEST 2: Agent history
+    console.log('TEST 2: History stays consistent after an abort');
+    console.log('-'.repeat(60));
+    const agentPid = path.join(dir, 'agent.pid');
+    const provider = scriptedProvider(longCommand(agentPid), dir);
+    const agent = new Agent({ name: 'abort', role: 'sub-agent' }, provider as any, 5);
+    registerTools(agent);
+
+    const runController = new AbortController();
+    const run = agent.run('Run the long command', [], { signal: runController.signal }).catch(error => error);
+    pids.push(await waitForPid(agentPid));
+    runController.abort('cancelled by user');
+    const aborted = await run;
+
+    check(aborted instanceof AgentAbortedError && aborted.reason === 'cancelled by user', 'The run rejects with AgentAbortedError');
+    check(!isRunning(pids[1]), 'The running command is killed');
+
+    const [turn] = agent.getHistory();
+    const roles = turn.messages.map(m => m.role).join(',');
+    console.log(`  ${roles}`);
+    check(turn.aborted === true && roles === 'user,assistant,tool,assistant', 'The aborted turn is recorded');
+    check(turn.messages[2].tool_call_id === turn.messages[1].tool_calls![0].id, 'The tool call is answered');
+    check(turn.toolResults.length === 1 && turn.toolResults[0].id === 'call_1' && typeof turn.toolResults[0].error === 'string', 'The call is recorded with its error');
+    check(turn.messages[3].content === '[Run aborted: cancelled by user]', 'The turn ends with a note');
+
+    const answer = await agent.run('Say hi');
+    const sent = provider.requests[provider.requests.length - 1];
+    const calls = sent.flatMap((m: any) => (m.tool_calls ?? []).map((c: any) => c.id));
+    const answered = sent.filter((m: any) => m.role === 'tool').map((m: any) => m.tool_call_id);
+    check(answer === 'hi' && calls.length === 1 && calls.every((id: string) => answered.includes(id)), 'The next run sends every tool call with its result');
+    console.log();
+
+    // TEST 3: Chat API
+    console.log('TEST 3: DELETE /api/chat/sessions/:id aborts the in-flight run');
+    console.log('-'.repeat(60));
+    const sessionPid = path.join(dir, 'session.pid');
+    const app = express();
+    app.use(express.json());
+    app.use('/api/chat', createChatRoutes(scriptedProvider(longCommand(sessionPid), dir) as any));
+    const listener = app.listen(0, '127.0.0.1');
+    await new Promise<void>(resolve => listener.once('listening', resolve));
+    const baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}/api/chat`;
+    const post = (url: string, body: any) => fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    try {
+      const created = await post(`${baseUrl}/sessions`, { sessionId: 'abort-me', permissions: { defaultDecision: 'allow' } });
+      check(created.status === 200, 'The session is created');
+
+      const message = post(`${baseUrl}/sessions/abort-me/messages`, { message: 'Run the long command' });
+      pids.push(await waitForPid(sessionPid));
+      const deleted = await fetch(`${baseUrl}/sessions/abort-me`, { method: 'DELETE' });
+      const response = await message;
+      const body: any = await response.json();
+      await sleep(200);
+
+      check(deleted.status === 200, 'The session is deleted');
+      check(response.status === 410 && body.errorType === 'AgentAbortedError' && body.error.includes('session deleted'), 'The in-flight message answers 410');
+      check(!isRunning(pids[2]), 'The running command is killed');
+      check((await fetch(`${baseUrl}/sessions/abort-me`)).status === 404, 'The session is gone');
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+    }
+    console.log();
+  } finally {
+    pids.filter(isRunning).forEach(pid => process.kill(pid, 'SIGKILL'));
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Agent Abort Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testAgentAbort()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,136 @@
+/**
+ * Test script for AGENT.md definitions
+ *
+ * Checks front-matter against the agent schema with line numbers, resolves
+ * `extends` between agents, and keeps a version history of agents changed
+ * through the AgentManager that can be diffed and rolled back.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AgentLoader } from './src/lib/agents/AgentSystem';
+import { AgentManager } from './src/lib/agents/AgentManager';
+import {
+  AgentDefinitionError,
+  formatAgentIssue,
+  parseAgentFile,
+  validateAgentDefinitions,
+} from './src/lib/agents/agent-definition';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+async function testAgentDefinition() {
+  console.log('='.repeat(60));
+  console.log('Testing AGENT.md definitions');
+  console.log('='.repeat(60));
+  console.log();
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-agent-definition-'));
+  const write = async (id: string, content: string) => {
+    await fs.mkdir(path.join(dir, id), { recursive: true });
+    await fs.writeFile(path.join(dir, id, 'AGENT.md'), content, 'utf-8');
+  };
+
+  try {
+    // TEST 1: Schema
+    console.log('TEST 1: Front-matter is checked against the schema');
+    console.log('-'.repeat(60));
+    const issues = (content: string) => parseAgentFile(content, 'agents/demo/AGENT.md').issues.map(formatAgentIssue);
+    const typo = issues('---\nid: demo\nname: Demo\ndescription: Test\nmax_iteration: 5\ntools: [readFile, 3]\ntemperature: 3\n---\n\nYou are demo.\n');
+    typo.forEach(issue => console.log(`  ${issue}`));
+    check(typo[0] === 'agents/demo/AGENT.md:5:1 max_iteration: unknown field (did you mean "max_iterations"?)', 'Unknown fields are reported with their line and a suggestion');
+    check(typo[1] === 'agents/demo/AGENT.md:6:19 tools[1]: must be string', 'Wrong types point at the value');
+    check(typo[2].startsWith('agents/demo/AGENT.md:7:14 temperature: must be <= 2'), 'Out of range values are reported');
+    check(issues('---\nid: demo\n---\n').join('\n').includes('name: missing required field'), 'Agents without a base need a name');
+    check(issues('---\nid: demo\nname: [Demo\n---\n').length === 1, 'YAML syntax errors are reported');
+    check(issues('---\nid: other\nname: Demo\ndescription: Test\n---\n')[0].includes('id: must match the agent\'s directory name "demo"'), 'The id must match the directory');
+    check(issues('You are demo.\n')[0].includes('missing YAML front-matter'), 'Files without front-matter are rejected');
+    const shipped = await validateAgentDefinitions(path.resolve('agents'));
+    check(shipped.length > 0 && shipped.every(r => r.issues.length === 0), 'The bundled agents are valid');
+    console.log();
+
+    // TEST 2: extends
+    console.log('TEST 2: Agents inherit from their base agent');
+    console.log('-'.repeat(60));
+    await write('base', '---\nid: base\nname: Base\ndescription: Base agent\ntemperature: 0.2\nmax_iterations: 4\ntools: [readFile, writeFile]\n---\n\nYou are careful.\n');
+    await write('child', '---\nid: child\nextends: base\ntools: [readFile]\n---\n\nOnly review code.\n');
+    await write('grandchild', '---\nid: grandchild\nextends: child\nname: Grandchild\ntemperature: 0\n---\n\nBe brief.\n');
+    await write('orphan', '---\nid: orphan\nextends: missing\n---\n');
+    await write('loop-a', '---\nid: loop-a\nextends: loop-b\n---\n');
+    await write('loop-b', '---\nid: loop-b\nextends: loop-a\n---\n');
+    await write('broken', '---\nid: broken\nname: Broken\ndescription: Typo\nmax_iteration: 5\n---\n');
+    await write('heir', '---\nid: heir\nname: Heir\ndescription: Heir\nextends: broken\n---\n');
+
+    const loader = new AgentLoader(dir);
+    const child = await loader.loadAgent('child');
+    check(child.metadata.name === 'Base' && child.metadata.extends === 'base', 'Name and description are inherited');
+    check(child.config.tools!.join(',') === 'readFile' && child.config.temperature === 0.2, 'Fields override the base, lists are replaced');
+    check(child.config.systemPrompt === 'You are careful.\n\nOnly review code.', 'The prompt extends the base prompt');
+    const grandchild = await loader.loadAgent('grandchild');
+    check(grandchild.config.temperature === 0 && grandchild.metadata.max_iterations === 4, 'Inheritance follows the whole chain');
+    check(grandchild.config.systemPrompt.split('\n\n').length === 3, 'Every prompt in the chain is kept');
+
+    const rejected = await loader.loadAgent('broken').catch(error => error);
+    check(rejected instanceof AgentDefinitionError && rejected.message.includes('max_iteration: unknown field'), 'Invalid agents are not loaded');
+    const results = await validateAgentDefinitions(dir);
+    const messages = (id: string) => results.find(r => r.agentId === id)!.issues.map(i => `${i.line}:${i.path}: ${i.message}`);
+    check(messages('orphan')[0] === '3:extends: base agent "missing" not found', 'Missing base agents are reported at the extends line');
+    check(messages('loop-a')[0].includes('inheritance cycle: loop-a -> loop-b -> loop-a'), 'Inheritance cycles are reported');
+    check(messages('heir')[0] === '5:extends: base agent "broken" is invalid', 'Agents with an invalid base are reported');
+    check(messages('base').length === 0 && messages('grandchild').length === 0, 'Valid agents have no issues');
+    console.log();
+
+    // TEST 3: History
+    console.log('TEST 3: Versions of an agent can be diffed and rolled back');
+    console.log('-'.repeat(60));
+    const manager = new AgentManager(dir, path.join(dir, '.templates'));
+    await manager.createAgent({ id: 'writer', name: 'Writer', description: 'Writes: docs', systemPrompt: 'Write docs.' });
+    await manager.updateAgent('writer', { temperature: 0.3, systemPrompt: 'Write short docs.' });
+    const history = manager.getHistory('writer');
+    let versions = await history.list();
+    check(versions.map(v => `${v.version}:${v.reason}`).join(',') === '1:created,2:updated', 'Creating and updating save versions');
+    const diff = await history.diff(1, 2);
+    console.log(diff);
+    check(diff.includes('-temperature: 0.7') && diff.includes('+temperature: 0.3') && diff.includes('+Write short docs.'), 'Versions can be diffed');
+
+    const bad = await manager.updateAgent('writer', { temperature: 5 }).catch(error => error);
+    check(bad instanceof AgentDefinitionError && (await history.list()).length === 2, 'Invalid updates are rejected and not saved');
+
+    const rolledBack = await manager.rollbackAgent('writer', 1);
+    versions = await history.list();
+    check(rolledBack.config.temperature === 0.7 && rolledBack.config.systemPrompt === 'Write docs.', 'Rollback restores the old version');
+    check(versions.length === 3 && versions[2].reason === 'rollback to v1' && (await history.diff(1)) === '', 'Rollback is saved as a new version');
+
+    await manager.updateAgent('child', { name: 'Reviewer' });
+    const updated = await fs.readFile(path.join(dir, 'child', 'AGENT.md'), 'utf-8');
+    check(updated.includes('extends: base') && !updated.includes('You are careful.'), 'Updates keep inherited fields inherited');
+    const childVersions = await manager.getHistory('child').list();
+    check(childVersions.map(v => v.reason).join(',') === 'initial,updated', 'Files written by hand are saved before the first update');
+    console.log();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Agent Definition Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testAgentDefinition()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,237 @@
+/**
+ * Test script for agent delegation
+ *
+ * Runs AGENT.md agents against a scripted provider: a coordinator hands
+ * sub-tasks to other agents with the delegateToAgent tool, gets back the
+ * end of their answers, and is stopped by the depth and budget limits.
+ * Sub-agent statuses carry their place in the delegation tree, and a
+ * finished tree is dropped from the statuses the TUI keeps. Aborting the
+ * coordinator cancels its sub-agents.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AgentOrchestrator, AgentStatus, orderByDelegation, applyStatusUpdate, withoutRunTree } from './src/lib/agents/AgentSystem';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+type Turn = { content?: string; toolCalls?: Array<{ name: string; arguments: Record<string, any> }> };
+type Script = (toolResults: any[]) => Turn;
+
+/**
+ * Provider that answers per agent (recognized by its system prompt). Tool
+ * agents get one scripted turn per model call with the tool results so far.
+ */
+function scriptedProvider(scripts: Record<string, Script>, plain: Record<string, string>) {
+  let callCounter = 0;
+  const agentOf = (messages: any[]) => /You are (\S+)\./.exec(messages[0]?.content ?? '')?.[1] ?? '';
+  return {
+    name: 'scripted',
+    models: ['scripted'],
+    async *stream(messages: any[]) {
+      const agent = agentOf(messages);
+      if (!(agent in plain)) {
+        yield { type: 'error', error: new Error(`${agent} has no answer`) };
+        return;
+      }
+      yield { type: 'token', data: plain[agent] };
+      yield { type: 'done' };
+    },
+    async chatWithTools(messages: any[]) {
+      const results = messages.filter(m => m.role === 'tool').map(m => JSON.parse(m.content));
+      const turn = scripts[agentOf(messages)](results);
+      return {
+        content: turn.content ?? '',
+        toolCalls: (turn.toolCalls ?? []).map(call => ({ id: `call_${++callCounter}`, ...call })),
+      };
+    },
+    async getModelInfo() {
+      return { id: 'scripted', name: 'scripted', contextWindow: 32768, provider: 'scripted', capabilities: [] };
+    },
+  };
+}
+
+const delegate = (agentId: string, task: string) => ({ name: 'delegateToAgent', arguments: { agentId, task } });
+
+async function testAgentDelegation() {
+  console.log('='.repeat(60));
+  console.log('Testing agent delegation');
+  console.log('='.repeat(60));
+  console.log();
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-delegation-'));
+  const write = async (id: string, fields: string) => {
+    await fs.mkdir(path.join(dir, id), { recursive: true });
+    await fs.writeFile(path.join(dir, id, 'AGENT.md'), `---\nid: ${id}\nname: ${id}\ndescription: ${id} agent\n${fields}\n---\n\nYou are ${id}.\n`, 'utf-8');
+  };
+
+  try {
+    await write('coordinator', 'tools: [delegateToAgent]');
+    await write('nester', 'tools: [delegateToAgent]');
+    await write('worker', 'max_iterations: 3');
+    await write('broken', 'max_iterations: 3');
+
+    const longAnswer = `${'x'.repeat(3000)}\nSUMMARY: the login handler is in src/auth.ts`;
+    const plain = { worker: longAnswer };
+
+    const run = async (scripts: Record<string, Script>, limits?: { maxDepth?: number; maxDelegations?: number }) => {
+      const orchestrator = new AgentOrchestrator(scriptedProvider(scripts, plain), dir, {
+        registerTools: () => undefined,
+        delegation: limits,
+      });
+      await orchestrator.initialize();
+      const statuses: AgentStatus[] = [];
+      orchestrator.onStatusUpdate(status => statuses.push(status));
+      const result = await orchestrator.executeAgent('coordinator', 'Find the login handler');
+      return { result, statuses };
+    };
+
+    // TEST 1: Delegation
+    console.log('TEST 1: A coordinator delegates to a sub-agent');
+    console.log('-'.repeat(60));
+    let received: any = null;
+    const { result, statuses } = await run({
+      coordinator: results => {
+        if (results.length === 0) {
+          return { toolCalls: [delegate('worker', 'Locate the login handler')] };
+        }
+        received = results[0];
+        return { content: 'Done' };
+      },
+    });
+    check(result.success && result.output === 'Done', 'Coordinator finishes after the sub-agent');
+    check(received.agentId === 'worker' && received.success === true, 'Sub-agent result is returned to the coordinator');
+    check(received.summary.endsWith('SUMMARY: the login handler is in src/auth.ts') && received.summary.length < longAnswer.length,
+      'Long answers are cut down to their end');
+    const root = statuses.find(s => s.agentId === 'coordinator')!;
+    const child = statuses.find(s => s.agentId === 'worker')!;
+    check(root.depth === 0 && root.parentRunId === undefined, 'Coordinator runs at the root');
+    check(child.depth === 1 && child.parentRunId === root.runId && child.runId !== root.runId, 'Sub-agent status points at its parent run');
+    const latest = [...new Map(statuses.map(s => [s.runId, s])).values()];
+    check(orderByDelegation(latest.reverse()).map(s => s.agentId).join(',') === 'coordinator,worker', 'Statuses order as a tree');
+    console.log();
+
+    // TEST 2: Depth
+    console.log('TEST 2: Depth limit');
+    console.log('-'.repeat(60));
+    let nesterResult: any = null;
+    let coordinatorResult: any = null;
+    await run({
+      coordinator: results => {
+        if (results.length === 0) {
+          return { toolCalls: [delegate('nester', 'Ask the worker')] };
+        }
+        coordinatorResult = results[0];
+        return { content: 'Done' };
+      },
+      nester: results => {
+        if (results.length === 0) {
+          return { toolCalls: [delegate('worker', 'Locate it')] };
+        }
+        nesterResult = results[0];
+        return { content: 'Could not delegate' };
+      },
+    }, { maxDepth: 1 });
+    check(/only be 1 level\(s\) deep/.test(nesterResult.error ?? ''), 'Sub-agents beyond maxDepth are refused');
+    check(coordinatorResult.success === true && coordinatorResult.summary.includes('Could not delegate'), 'The refusal goes back to the delegating agent only');
+    console.log();
+
+    // TEST 3: Budget and failures
+    console.log('TEST 3: Budget, unknown agents and failing sub-agents');
+    console.log('-'.repeat(60));
+    let budgetResults: any[] = [];
+    await run({
+      coordinator: results => {
+        if (results.length === 0) {
+          return { toolCalls: [delegate('worker', 'One'), delegate('worker', 'Two')] };
+        }
+        budgetResults = results;
+        return { content: 'Done' };
+      },
+    }, { maxDelegations: 1 });
+    check(budgetResults[0].success === true && /budget of 1 sub-agent run/.test(budgetResults[1].error ?? ''), 'Runs beyond maxDelegations are refused');
+
+    let failures: any[] = [];
+    await run({
+      coordinator: results => {
+        if (results.length === 0) {
+          return { toolCalls: [delegate('missing', 'Anything'), delegate('broken', 'Anything')] };
+        }
+        failures = results;
+        return { content: 'Done' };
+      },
+    });
+    check(/Agent not found: missing/.test(failures[0].error ?? ''), 'Unknown agents are reported');
+    check(failures[1].success === false && /broken has no answer/.test(failures[1].error), 'A failing sub-agent is reported as unsuccessful');
+    console.log();
+
+    // TEST 4: Pruning
+    console.log('TEST 4: Finished delegation trees are pruned');
+    console.log('-'.repeat(60));
+    const seen: number[] = [];
+    const folded = statuses.reduce((map, status) => {
+      const next = applyStatusUpdate(map, status);
+      seen.push(next.size);
+      return next;
+    }, new Map<string, AgentStatus>());
+    check(Math.max(...seen) === 2, 'Root and sub-agent runs are tracked while running');
+    check(folded.size === 0, 'A completed root run is dropped with its sub-agent runs');
+
+    const running = new Map<string, AgentStatus>([
+      [root.runId, { ...root, status: 'working' }],
+      [child.runId, { ...child, status: 'error' }],
+      ['grandchild', { ...child, runId: 'grandchild', parentRunId: child.runId, depth: 2 }],
+    ]);
+    check([...withoutRunTree(running, child.runId).keys()].join() === root.runId, 'Dropping a failed run drops the runs it delegated');
+    check(applyStatusUpdate(running, { ...child, status: 'completed' }).size === 3, 'Completed sub-agent runs stay until their root completes');
+    console.log();
+
+    // TEST 5: Cancellation
+    console.log('TEST 5: Aborting the coordinator cancels its sub-agents');
+    console.log('-'.repeat(60));
+    const controller = new AbortController();
+    let nesterTurns = 0;
+    const cancelling = new AgentOrchestrator(scriptedProvider({
+      coordinator: () => ({ toolCalls: [delegate('nester', 'Ask the worker')] }),
+      nester: () => {
+        nesterTurns++;
+        controller.abort('cancelled by the user');
+        return { toolCalls: [delegate('worker', 'Locate it')] };
+      },
+    }, plain), dir, { registerTools: () => undefined });
+    await cancelling.initialize();
+    const started: string[] = [];
+    cancelling.onStatusUpdate(status => started.push(status.agentId));
+    const cancelled = await cancelling.executeAgent('coordinator', 'Find the login handler', undefined, controller.signal)
+      .then(() => null, error => error);
+    check(/cancelled by the user/.test(cancelled?.cause?.message ?? ''), 'The coordinator run is aborted');
+    check(nesterTurns === 1, 'The sub-agent stops after the abort');
+    check(started.includes('nester') && !started.includes('worker'), 'No further sub-agents are started');
+    console.log();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Agent Delegation Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testAgentDelegation()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,188 @@
+/**
+ * Test script for tool-enabled AGENT.md agents
+ *
+ * Loads agents from a temporary directory and runs them against a scripted
+ * provider: agents with a `tools` list get a tool loop limited to those
+ * tools (including MCP tools by server-qualified name), capped at
+ * `max_iterations`, with every call reported as an `action` message.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AgentOrchestrator, AgentMessage } from './src/lib/agents/AgentSystem';
+import { PermissionManager } from './src/lib/permissions/PermissionManager';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+function agentMarkdown(id: string, fields: string): string {
+  return `---
+id: ${id}
+name: ${id}
+description: Test agent
+${fields}
+---
+
+You are ${id}.
+`;
+}
+
+/**
+ * Provider that answers from a script of tool-calling turns and records
+ * the tools it was offered
+ */
+function scriptedProvider(turns: Array<{ content?: string; toolCalls?: Array<{ name: string; arguments: Record<string, any> }> }>) {
+  const offered: string[][] = [];
+  let streamed = 0;
+  let turn = 0;
+  return {
+    offered,
+    streamed: () => streamed,
+    name: 'scripted',
+    models: ['scripted'],
+    async *stream() {
+      streamed++;
+      yield { type: 'token', data: 'plain answer' };
+      yield { type: 'done' };
+    },
+    async chatWithTools(_messages: any[], tools: Array<{ name: string }>) {
+      offered.push(tools.map(t => t.name).sort());
+      const next = turns[Math.min(turn++, turns.length - 1)];
+      return {
+        content: next.content ?? '',
+        toolCalls: (next.toolCalls ?? []).map((call, i) => ({ id: `call_${turn}_${i}`, ...call })),
+      };
+    },
+    async getModelInfo() {
+      return { id: 'scripted', name: 'scripted', contextWindow: 32768, provider: 'scripted', capabilities: [] };
+    },
+  };
+}
+
+async function testAgentTools() {
+  console.log('='.repeat(60));
+  console.log('Testing tool-enabled AGENT.md agents');
+  console.log('='.repeat(60));
+  console.log();
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-agent-tools-'));
+  const write = async (id: string, fields: string) => {
+    await fs.mkdir(path.join(dir, id), { recursive: true });
+    await fs.writeFile(path.join(dir, id, 'AGENT.md'), agentMarkdown(id, fields), 'utf-8');
+  };
+
+  try {
+    await write('reader', 'max_iterations: 5\ntools: [lookup, docs__search]');
+    await write('looper', 'max_iterations: 2\ntools: [lookup]');
+    await write('guarded', 'requires_approval: true\ntools: [lookup, save]');
+    await write('talker', 'max_iterations: 3');
+
+    // Local and MCP tools the environment offers
+    const calls: string[] = [];
+    const registerTools = (agent: any) => {
+      const tool = (name: string, readOnly: boolean) => agent.registerTool(
+        name,
+        async (params: Record<string, any>) => { calls.push(name); return { [name]: params }; },
+        { name, description: name, readOnly, parameters: { type: 'object', properties: {}, required: [] } }
+      );
+      tool('lookup', true);
+      tool('save', false);
+      tool('bashExec', false);
+    };
+    const mcpManager = {
+      getToolsForLLM: () => [
+        { name: 'docs__search', description: 'Search docs', readOnly: true, parameters: { type: 'object', properties: {} } },
+        { name: 'docs__delete', description: 'Delete docs', readOnly: false, parameters: { type: 'object', properties: {} } },
+      ],
+      callTool: async (name: string) => { calls.push(name); return [{ type: 'text', text: 'found' }]; },
+    };
+
+    const run = async (agentId: string, provider: ReturnType<typeof scriptedProvider>, permissions?: PermissionManager) => {
+      const orchestrator = new AgentOrchestrator(provider, dir, { registerTools, mcpManager: mcpManager as any, permissions });
+      await orchestrator.initialize();
+      const messages: AgentMessage[] = [];
+      orchestrator.onMessage(message => messages.push(message));
+      const result = await orchestrator.executeAgent(agentId, 'Find the docs').catch(error => error);
+      return { result, messages };
+    };
+
+    // TEST 1: Tool loop
+    console.log('TEST 1: Agents with tools run a tool loop');
+    console.log('-'.repeat(60));
+    const provider = scriptedProvider([
+      { toolCalls: [{ name: 'lookup', arguments: { q: 'auth' } }, { name: 'docs__search', arguments: { q: 'login' } }] },
+      { content: 'Found it' },
+    ]);
+    const { result, messages } = await run('reader', provider);
+    check(result.success === true && result.output === 'Found it', 'Final answer is the task output');
+    check(provider.offered[0].join(',') === 'docs__search,lookup', 'Only allowlisted tools are offered');
+    check(calls.join(',') === 'lookup,docs__search', 'Local and MCP tools are called');
+    const actions = messages.filter(m => m.type === 'action');
+    check(actions.length === 2 && actions[0].content === 'lookup({"q":"auth"})', 'Each tool call is an action message');
+    check(actions[1].metadata?.tool === 'docs__search' && actions[1].metadata?.error === undefined, 'Action metadata names the tool');
+    check(provider.streamed() === 0, 'Tool agents do not use the plain stream');
+    console.log();
+
+    // TEST 2: Iteration cap
+    console.log('TEST 2: max_iterations caps the loop');
+    console.log('-'.repeat(60));
+    const endless = scriptedProvider([{ toolCalls: [{ name: 'lookup', arguments: {} }] }]);
+    const looped = await run('looper', endless);
+    check(looped.result.name === 'AgentExecutionError' && /maximum iterations \(2\)/.test(looped.result.cause?.message), 'Loop stops after max_iterations');
+    check(endless.offered.length === 2, 'Model is asked max_iterations times');
+    console.log();
+
+    // TEST 3: requires_approval
+    console.log('TEST 3: requires_approval asks before side effects');
+    console.log('-'.repeat(60));
+    calls.length = 0;
+    const permissions = new PermissionManager();
+    const asked: string[] = [];
+    permissions.onApprovalChange(request => {
+      if (request.status === 'pending') {
+        asked.push(request.toolName);
+        setImmediate(() => permissions.resolve(request.id, 'deny', 'from test'));
+      }
+    });
+    const guarded = await run('guarded', scriptedProvider([
+      { toolCalls: [{ name: 'lookup', arguments: {} }, { name: 'save', arguments: { text: 'x' } }] },
+      { content: 'Could not save' },
+    ]), permissions);
+    check(asked.join(',') === 'save' && calls.join(',') === 'lookup', 'Only the mutating call needed approval');
+    const denied = guarded.messages.find(m => m.type === 'action' && m.metadata?.tool === 'save');
+    check(denied?.content.includes('Permission denied') === true, 'Denied calls are reported as actions');
+    console.log();
+
+    // TEST 4: No tools
+    console.log('TEST 4: Agents without tools stream a single answer');
+    console.log('-'.repeat(60));
+    const plain = scriptedProvider([]);
+    const talked = await run('talker', plain);
+    check(talked.result.output === 'plain answer' && plain.streamed() === 1 && plain.offered.length === 0, 'Plain agents keep the single stream call');
+    console.log();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Agent Tool Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testAgentTools()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
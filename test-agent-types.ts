@@ -0,0 +1,139 @@
+/**
+ * Test script for the agent type registry
+ *
+ * Checks the built-in types, registering a third-party type, and that the
+ * orchestrator spawns the registered class with its template and rejects
+ * unknown types before any agent runs.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getAgentTypeRegistry, AgentTypeRegistry } from './src/lib/agents/agent-types';
+import { SpecializedAgent } from './src/lib/agents/specialized-agent';
+import { ImplementationAgent } from './src/lib/agents/implementation-agent';
+import { SecurityAgent } from './src/lib/agents/security-agent';
+import { PerformanceAgent } from './src/lib/agents/performance-agent';
+import { MultiAgentOrchestrator } from './src/lib/orchestrator/multi-agent-orchestrator';
+import { AnthropicProvider } from './src/lib/providers/AnthropicProvider';
+import { getLLMConfigManager } from './src/lib/config/LLMConfig';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+class DocsAgent extends SpecializedAgent {
+  protected getRequiredSections(): string[] {
+    return ['# ', '## Pages'];
+  }
+
+  protected getAgentType(): string {
+    return 'docs';
+  }
+}
+
+async function testAgentTypes() {
+  console.log('='.repeat(60));
+  console.log('Testing agent type registry');
+  console.log('='.repeat(60));
+  console.log();
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-agent-types-'));
+
+  try {
+    // TEST 1: Built-in types
+    console.log('TEST 1: Built-in types');
+    console.log('-'.repeat(60));
+    const registry = getAgentTypeRegistry();
+    check(registry === getAgentTypeRegistry(), 'Registry is shared');
+    check(registry.names().join(',') === 'implementation,security,performance', 'Built-in types are registered');
+    check(registry.resolve('security').agentClass === SecurityAgent, 'security maps to SecurityAgent');
+    check(registry.resolve('performance').agentClass === PerformanceAgent, 'performance maps to PerformanceAgent');
+    check(registry.resolve('implementation').templateFile === 'implementation-agent.md', 'Types name their template file');
+    console.log();
+
+    // TEST 2: Registration
+    console.log('TEST 2: Third-party types');
+    console.log('-'.repeat(60));
+    const own = new AgentTypeRegistry();
+    const docs = { name: 'docs', description: 'Docs', agentClass: DocsAgent, templateFile: 'docs.md', defaultDomain: 'Documentation' };
+    own.register(docs);
+    check(own.get('docs')?.agentClass === DocsAgent, 'New types can be registered');
+    let error: any = null;
+    try { own.register(docs); } catch (e) { error = e; }
+    check(error?.name === 'AgentTypeRegistrationError', 'Duplicate names are rejected');
+    own.register({ ...docs, description: 'Docs v2' }, { replace: true });
+    check(own.get('docs')?.description === 'Docs v2', 'replace overrides a type');
+    error = null;
+    try { own.register({ ...docs, name: 'Docs Agent' }); } catch (e) { error = e; }
+    check(error?.message.includes('lower-case') === true, 'Invalid names are rejected');
+    error = null;
+    try { own.register({ ...docs, name: 'plain', agentClass: class {} as any }); } catch (e) { error = e; }
+    check(error?.message.includes('extend SpecializedAgent') === true, 'Classes must extend SpecializedAgent');
+    error = null;
+    try { own.validate(['docs', 'testing', 'i18n']); } catch (e) { error = e; }
+    check(error?.name === 'UnknownAgentTypeError' && error.agentTypes.join(',') === 'testing,i18n', 'validate names every unknown type');
+    check(error.message.includes('Available types: docs'), 'The error lists the available types');
+    console.log();
+
+    // TEST 3: Orchestrator
+    console.log('TEST 3: Orchestrator spawns registered classes');
+    console.log('-'.repeat(60));
+    await fs.writeFile(path.join(dir, 'security-agent.md'), 'Security for {DOMAIN}', 'utf-8');
+    await fs.writeFile(path.join(dir, 'docs.md'), 'Docs for {DOMAIN}', 'utf-8');
+    const orchestrator = MultiAgentOrchestrator.forOllama('http://localhost:1', 'test', path.join(dir, 'plans'), dir);
+    const spawn = (type: string, domain: string) => (orchestrator as any).spawnAgent(type, domain);
+    const security = await spawn('security', 'Payments');
+    check(security instanceof SecurityAgent && !(security instanceof ImplementationAgent), 'security spawns a SecurityAgent');
+    check(security.meta.systemPrompt === 'Security for Payments', 'Its template is loaded');
+    registry.register(docs);
+    const docsAgent = await spawn('docs', '');
+    check(docsAgent instanceof DocsAgent && docsAgent.meta.systemPrompt === 'Docs for Documentation', 'Registered types spawn with their default domain');
+    registry.unregister('docs');
+    error = null;
+    await orchestrator.executeTask({ description: 'x', domain: 'y', requiredAgents: ['implementation', 'testing'], autoExecute: false })
+      .catch(e => { error = e; });
+    check(error?.name === 'UnknownAgentTypeError', 'Tasks with unknown types fail before spawning');
+    console.log();
+
+    // TEST 4: Default provider
+    console.log('TEST 4: Without an LLM the orchestrator uses the default provider');
+    console.log('-'.repeat(60));
+    const config = getLLMConfigManager(path.join(dir, 'config'));
+    await config.load();
+    await config.setApiKey('anthropic', 'sk-test');
+    await config.enableProvider('anthropic');
+    await config.setDefaultProvider('anthropic');
+    const onDefault = new MultiAgentOrchestrator(null, path.join(dir, 'plans'), dir);
+    error = null;
+    try { onDefault.getPlanExecutor(); } catch (e) { error = e; }
+    check(error?.name === 'OrchestratorInitError', 'The executor needs initialize() first');
+    const llm = await onDefault.getLLMClient();
+    check(llm instanceof AnthropicProvider && (await onDefault.getLLMClient()) === llm, 'The configured default provider is created once');
+    const onProvider = await (onDefault as any).spawnAgent('security', 'Payments');
+    check(onProvider.llm.getProvider() === llm, 'Spawned agents run on it');
+    console.log();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Agent Type Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testAgentTypes()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,203 @@
+/**
+ * Test script for the applyPatch tool
+ *
+ * Covers multi-file patches (modify, create, delete, rename), offset and
+ * fuzz reporting, atomic rejection, dry runs and the read-before-write rule
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const dir = 'test-apply-patch-tmp';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+async function exists(p: string): Promise<boolean> {
+  return fs.access(p).then(() => true, () => false);
+}
+
+async function expectError(name: string, run: () => Promise<unknown>, description: string) {
+  try {
+    await run();
+  } catch (error: any) {
+    check(error.name === name, `${description} (${error.name})`);
+    console.log(`   Message: ${error.message.split('\n').join('\n   ')}`);
+    return;
+  }
+  throw new Error(`${description} - no error thrown`);
+}
+
+async function setup(resetFileAccessTracking: () => void): Promise<void> {
+  await fs.rm(dir, { recursive: true, force: true });
+  await fs.mkdir(dir);
+  // Two extra lines at the top so the patch below applies at an offset
+  await fs.writeFile(`${dir}/main.ts`, '// header\n// header\nimport a from "a";\n\nfunction run() {\n  return a();\n}\n\nrun();\n', 'utf-8');
+  await fs.writeFile(`${dir}/old.ts`, 'export const legacy = true;\n', 'utf-8');
+  await fs.writeFile(`${dir}/util.ts`, 'export const x = 1;\nexport const y = 2;\n', 'utf-8');
+  resetFileAccessTracking();
+}
+
+const multiFilePatch = `diff --git a/${dir}/main.ts b/${dir}/main.ts
+--- a/${dir}/main.ts
++++ b/${dir}/main.ts
+@@ -1,5 +1,6 @@
+ import a from "a";
++import b from "b";
+
+ function run() {
+-  return a();
++  return a() + b();
+ }
+diff --git a/${dir}/added.ts b/${dir}/added.ts
+new file mode 100644
+--- /dev/null
++++ b/${dir}/added.ts
+@@ -0,0 +1,2 @@
++export const added = 1;
++export const more = 2;
+diff --git a/${dir}/old.ts b/${dir}/old.ts
+deleted file mode 100644
+--- a/${dir}/old.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-export const legacy = true;
+diff --git a/${dir}/util.ts b/${dir}/helpers.ts
+similarity index 60%
+rename from ${dir}/util.ts
+rename to ${dir}/helpers.ts
+--- a/${dir}/util.ts
++++ b/${dir}/helpers.ts
+@@ -1,2 +1,2 @@
+ export const x = 1;
+-export const y = 2;
++export const y = 3;
+`;
+
+async function testApplyPatch() {
+  console.log('='.repeat(60));
+  console.log('Testing applyPatch');
+  console.log('='.repeat(60));
+  console.log();
+
+  // File tools only work in trusted folders, listed in AGENT_HOME
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-apply-patch-'));
+  process.env.AGENT_HOME = home;
+
+  // Imported after AGENT_HOME is set
+  const { readFile, applyPatch, resetFileAccessTracking } = await import('./src/lib/tools/toolFunctions');
+  const { addTrusted } = await import('./src/lib/trust');
+  await fs.mkdir(dir, { recursive: true });
+  await addTrusted(dir);
+
+  try {
+    // TEST 1: Existing files must be read first
+    console.log('TEST 1: Patching WITHOUT reading first');
+    console.log('-'.repeat(60));
+    await setup(resetFileAccessTracking);
+    await expectError('FileNotReadError', () => applyPatch({ patch: multiFilePatch }), 'Unread file is rejected');
+    check(!(await exists(`${dir}/added.ts`)), 'Nothing was created');
+    console.log();
+
+    for (const file of ['main.ts', 'old.ts', 'util.ts']) {
+      await readFile({ path: `${dir}/${file}` });
+    }
+
+    // TEST 2: Dry run reports without writing
+    console.log('TEST 2: Dry run');
+    console.log('-'.repeat(60));
+    const dry = await applyPatch({ patch: multiFilePatch, dry_run: true });
+    check(dry.ok && dry.dryRun && dry.files.length === 4, 'All four files would change');
+    check(!(await exists(`${dir}/added.ts`)) && (await exists(`${dir}/old.ts`)), 'No files touched');
+    console.log();
+
+    // TEST 3: Multi-file patch with offset
+    console.log('TEST 3: Modify, create, delete and rename in one patch');
+    console.log('-'.repeat(60));
+    const result = await applyPatch({ patch: multiFilePatch });
+    const main = await fs.readFile(`${dir}/main.ts`, 'utf-8');
+    check(main.includes('import b from "b";\n') && main.includes('return a() + b();'), 'main.ts modified');
+    check(result.files[0].hunks[0].offset === 2 && result.files[0].hunks[0].fuzz === 0, 'Offset of 2 lines reported');
+    check((await fs.readFile(`${dir}/added.ts`, 'utf-8')) === 'export const added = 1;\nexport const more = 2;\n', 'added.ts created');
+    check(!(await exists(`${dir}/old.ts`)), 'old.ts deleted');
+    check(
+      !(await exists(`${dir}/util.ts`)) && (await fs.readFile(`${dir}/helpers.ts`, 'utf-8')).includes('y = 3'),
+      'util.ts renamed to helpers.ts and edited'
+    );
+    check(result.files[3].action === 'rename' && result.files[3].from === `${dir}/util.ts`, 'Rename reported');
+    console.log(result.diff);
+    console.log();
+
+    // TEST 4: Fuzz on stale context
+    console.log('TEST 4: Fuzzy match');
+    console.log('-'.repeat(60));
+    const fuzzy = await applyPatch({
+      patch: `--- a/${dir}/main.ts
++++ b/${dir}/main.ts
+@@ -7,3 +7,3 @@
+ }
+-run();
++void run();
+ // trailing line that is not in the file
+`,
+    });
+    check(fuzzy.files[0].hunks[0].fuzz === 1, 'Hunk applied with fuzz 1');
+    check((await fs.readFile(`${dir}/main.ts`, 'utf-8')).endsWith('}\n\nvoid run();\n'), 'Change applied');
+    console.log();
+
+    // TEST 5: One failing hunk rejects the whole patch
+    console.log('TEST 5: Atomic rejection');
+    console.log('-'.repeat(60));
+    const before = await fs.readFile(`${dir}/main.ts`, 'utf-8');
+    await expectError('PatchApplyError', () => applyPatch({
+      patch: `--- /dev/null
++++ b/${dir}/never.ts
+@@ -0,0 +1 @@
++export const never = true;
+--- a/${dir}/main.ts
++++ b/${dir}/main.ts
+@@ -1,3 +1,3 @@
+ this line
+-does not
++exist
+ anywhere
+`,
+    }), 'Mismatched hunk is rejected');
+    check(!(await exists(`${dir}/never.ts`)), 'New file from the same patch not created');
+    check((await fs.readFile(`${dir}/main.ts`, 'utf-8')) === before, 'main.ts unchanged');
+    console.log();
+
+    // TEST 6: Malformed patches
+    console.log('TEST 6: Malformed patch');
+    console.log('-'.repeat(60));
+    await expectError('PatchParseError', () => applyPatch({
+      patch: `--- a/${dir}/main.ts\n+++ b/${dir}/main.ts\n@@ -1,4 +1,4 @@\n-void run();\n`,
+    }), 'Truncated hunk is rejected');
+    console.log();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.rm(home, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('applyPatch Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testApplyPatch()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
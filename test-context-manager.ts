@@ -0,0 +1,132 @@
+/**
+ * Test script for the token-budget ContextManager
+ *
+ * Drives ContextManager directly with a small context window and a stub
+ * summarizer, covering tool output truncation, elision and compaction
+ */
+
+import { ContextManager, ContextEvent, ConversationTurn, estimateMessageTokens } from './src/lib/context/ContextManager';
+import { Message, ToolCall } from './src/lib/llm/ollama-client';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+function makeTurn(index: number, toolOutputChars: number): ConversationTurn {
+  const call: ToolCall = { id: `call_${index}`, name: 'readFile', arguments: { path: `src/file${index}.ts` } };
+  const messages: Message[] = [
+    { role: 'user', content: `Read src/file${index}.ts` },
+    { role: 'assistant', content: '', tool_calls: [call] },
+    { role: 'tool', content: 'x'.repeat(toolOutputChars), tool_call_id: call.id, tool_name: call.name },
+    { role: 'assistant', content: `Done with file ${index}` },
+  ];
+  return {
+    messages,
+    toolCalls: [call],
+    toolResults: [{ id: call.id, name: call.name, args: call.arguments, result: 'ok', startedAt: new Date().toISOString(), durationMs: 1 }],
+    timestamp: new Date(),
+  };
+}
+
+const totalTokens = (messages: Message[]) => messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+
+async function testContextManager() {
+  console.log('='.repeat(60));
+  console.log('Testing ContextManager');
+  console.log('='.repeat(60));
+  console.log();
+
+  const base = (): Message[] => [{ role: 'system', content: 'You are a test agent.' }];
+
+  // TEST 1: Large tool outputs are truncated
+  console.log('TEST 1: Tool output truncation');
+  console.log('-'.repeat(60));
+  const events: ContextEvent[] = [];
+  const truncating = new ContextManager({ contextWindow: 1000, reserveTokens: 200, maxToolOutputTokens: 100 });
+  truncating.onEvent(e => events.push(e));
+  const output = truncating.truncateToolOutput('y'.repeat(2000), { id: 'call_t', name: 'readFile', arguments: {} });
+
+  check(output.length < 2000 && output.includes('truncated'), 'Output is capped with a marker');
+  check(events[0]?.type === 'tool-output-truncated', 'Truncation event emitted');
+  console.log();
+
+  // TEST 2: Old tool outputs are elided before compacting
+  console.log('TEST 2: Elision of old tool outputs');
+  console.log('-'.repeat(60));
+  events.length = 0;
+  const eliding = new ContextManager({ contextWindow: 1000, reserveTokens: 200 }, async () => 'unused');
+  eliding.onEvent(e => events.push(e));
+  eliding.addTurn(makeTurn(1, 3000));
+  const current: Message[] = [{ role: 'user', content: 'Next question' }];
+  const fitted = await eliding.fit(base, current);
+
+  check(events.some(e => e.type === 'tool-outputs-elided'), 'Elision event emitted');
+  check(!events.some(e => e.type === 'history-compacted'), 'No compaction needed after elision');
+  check(totalTokens(fitted) <= 640, 'Prompt fits the compaction threshold');
+  check(fitted.some(m => m.content === 'Read src/file1.ts'), 'Turn messages are kept');
+  console.log();
+
+  // TEST 3: Older turns are compacted into an LLM summary
+  console.log('TEST 3: Compaction with LLM summary');
+  console.log('-'.repeat(60));
+  events.length = 0;
+  let summarized: Message[] = [];
+  const compacting = new ContextManager(
+    { contextWindow: 1000, reserveTokens: 200, keepRecentTurns: 1 },
+    async messages => {
+      summarized = messages;
+      return '- Files: src/file1.ts, src/file2.ts\n- Open TODOs: none';
+    }
+  );
+  compacting.onEvent(e => events.push(e));
+  for (let i = 1; i <= 6; i++) {
+    const turn = makeTurn(i, 40);
+    turn.messages[0].content += ` ${'please '.repeat(40)}`;
+    compacting.addTurn(turn);
+  }
+  const compacted = await compacting.fit(base, current);
+  const compaction = events.find(e => e.type === 'history-compacted');
+
+  check(!!compaction && compaction.type === 'history-compacted' && !compaction.usedFallback, 'Compaction event with LLM summary');
+  check(summarized.some(m => m.content.startsWith('Read src/file1.ts')), 'Summarizer received the oldest turn');
+  check(compacting.getContextSummary().includes('src/file1.ts'), 'Summary keeps file paths');
+  check(compacting.getTurns().length === 1, 'Most recent turn kept verbatim');
+  check(totalTokens(compacted) < compaction!.tokensBefore, 'Prompt shrank');
+  console.log();
+
+  // TEST 4: Fallback summary when the summarizer fails
+  console.log('TEST 4: Fallback summary');
+  console.log('-'.repeat(60));
+  events.length = 0;
+  const failing = new ContextManager(
+    { contextWindow: 1000, reserveTokens: 200, keepRecentTurns: 0 },
+    async () => { throw new Error('model offline'); }
+  );
+  failing.onEvent(e => events.push(e));
+  failing.addTurn(makeTurn(1, 40));
+  failing.getTurns()[0].messages[0].content += ' ' + 'z'.repeat(4000);
+  await failing.fit(base, current);
+  const fallback = events.find(e => e.type === 'history-compacted');
+
+  check(!!fallback && fallback.type === 'history-compacted' && fallback.usedFallback, 'Fallback summary used');
+  check(failing.getContextSummary().includes('readFile'), 'Fallback summary lists tools');
+  console.log();
+
+  console.log('='.repeat(60));
+  console.log('ContextManager Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testContextManager()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
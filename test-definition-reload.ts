@@ -0,0 +1,153 @@
+/**
+ * Test script for hot reload of agents and skills
+ *
+ * Watches temporary agent and skill directories: edited definitions are
+ * re-parsed after a short debounce and reported on the AgentEventBus, files
+ * that fail to parse keep the previous version and report the error, and
+ * agents that extend a changed agent are reloaded with it.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AgentOrchestrator } from './src/lib/agents/AgentSystem';
+import { SkillManager } from './src/lib/skills/SkillManager';
+import { DefinitionReloadEvent } from './src/lib/definition-watcher';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+const DEBOUNCE_MS = 50;
+
+const agentMarkdown = (id: string, description: string, fields = '') =>
+  `---\nid: ${id}\nname: ${id}\ndescription: ${description}\n${fields}---\n\nYou are ${id}.\n`;
+const skillMarkdown = (name: string, description: string) =>
+  `---\nname: ${name}\ndescription: ${description}\n---\n\n# ${name}\n`;
+
+async function testDefinitionReload() {
+  console.log('='.repeat(60));
+  console.log('Testing hot reload of agents and skills');
+  console.log('='.repeat(60));
+  console.log();
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-reload-'));
+  const agentsDir = path.join(dir, 'agents');
+  const skillsDir = path.join(dir, 'skills');
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, content, 'utf-8');
+  };
+  const agentFile = (id: string) => path.join(agentsDir, id, 'AGENT.md');
+  const skillFile = (name: string) => path.join(skillsDir, name, 'SKILL.md');
+  const stops: Array<() => void> = [];
+
+  try {
+    await write(agentFile('writer'), agentMarkdown('writer', 'Writes docs'));
+    await write(agentFile('base'), agentMarkdown('base', 'Base agent'));
+    await write(agentFile('child'), '---\nid: child\nextends: base\n---\n\nBe brief.\n');
+    await write(skillFile('summarize'), skillMarkdown('summarize', 'Summarizes text'));
+
+    const orchestrator = new AgentOrchestrator({}, agentsDir);
+    await orchestrator.initialize();
+    const skills = new SkillManager(skillsDir);
+    await skills.initialize();
+
+    // Every reload event, and a way to wait for the next batch
+    const events: DefinitionReloadEvent[] = [];
+    orchestrator.onReload(event => events.push(event));
+    const settle = async (count: number) => {
+      const deadline = Date.now() + 5000;
+      while (events.length < count && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      // Give stray events a chance to arrive
+      await new Promise(resolve => setTimeout(resolve, DEBOUNCE_MS * 4));
+      return events.splice(0);
+    };
+    stops.push(orchestrator.watchAgents(DEBOUNCE_MS), skills.watch(orchestrator.getEventBus(), DEBOUNCE_MS));
+
+    // TEST 1: Edits
+    console.log('TEST 1: Edited agents are reloaded');
+    console.log('-'.repeat(60));
+    await write(agentFile('writer'), agentMarkdown('writer', 'Writes'));
+    await write(agentFile('writer'), agentMarkdown('writer', 'Writes short'));
+    await write(agentFile('writer'), agentMarkdown('writer', 'Writes short docs'));
+    let batch = await settle(1);
+    check(batch.length === 1 && batch[0].kind === 'agent' && batch[0].id === 'writer' && batch[0].status === 'loaded', 'Quick edits cause one reload');
+    check(orchestrator.getAgent('writer')!.metadata.description === 'Writes short docs', 'The orchestrator uses the new version');
+    console.log();
+
+    // TEST 2: Broken files
+    console.log('TEST 2: Broken files keep the previous version');
+    console.log('-'.repeat(60));
+    await write(agentFile('writer'), agentMarkdown('writer', 'Broken', 'max_iteration: 5\n'));
+    batch = await settle(1);
+    console.log(`  ${batch[0]?.error}`);
+    check(batch[0]?.status === 'error' && /AGENT\.md:5:1 max_iteration: unknown field/.test(batch[0].error ?? ''), 'The error names the file, line and field');
+    check(orchestrator.getAgent('writer')!.metadata.description === 'Writes short docs', 'The previous version stays in use');
+    check(orchestrator.getLoadErrors()[0]?.id === 'writer', 'Load errors are kept for the status bar and health check');
+    await write(agentFile('writer'), agentMarkdown('writer', 'Fixed'));
+    batch = await settle(1);
+    check(batch[0]?.status === 'loaded' && orchestrator.getLoadErrors().length === 0, 'Fixing the file clears the error');
+    console.log();
+
+    // TEST 3: Inheritance
+    console.log('TEST 3: Agents extending a changed agent are reloaded');
+    console.log('-'.repeat(60));
+    await write(agentFile('base'), agentMarkdown('base', 'New base'));
+    batch = await settle(2);
+    check(batch.map(e => e.id).sort().join(',') === 'base,child', 'The base and its child are reloaded');
+    check(orchestrator.getAgent('child')!.metadata.description === 'New base', 'The child inherits the new version');
+    console.log();
+
+    // TEST 4: Removal
+    console.log('TEST 4: Removed agents and ignored files');
+    console.log('-'.repeat(60));
+    await write(path.join(agentsDir, 'writer', '.history', 'v1.md'), 'old');
+    batch = await settle(0);
+    check(batch.length === 0, 'Changes under .history are ignored');
+    await fs.rm(path.join(agentsDir, 'writer'), { recursive: true });
+    batch = await settle(1);
+    check(batch[0]?.status === 'removed' && orchestrator.getAgent('writer') === undefined, 'Deleted agents are removed');
+    console.log();
+
+    // TEST 5: Skills
+    console.log('TEST 5: Skills are reloaded');
+    console.log('-'.repeat(60));
+    await write(skillFile('summarize'), skillMarkdown('summarize', 'Summarizes long text'));
+    batch = await settle(1);
+    check(batch[0]?.kind === 'skill' && skills.getSkill('summarize')!.metadata.description === 'Summarizes long text', 'Edited skills are reloaded');
+    await write(skillFile('summarize'), '---\nname: summarize\n---\n');
+    batch = await settle(1);
+    check(batch[0]?.status === 'error' && /required metadata/.test(batch[0].error ?? ''), 'Broken skills report the error');
+    check(skills.getSkill('summarize')!.metadata.description === 'Summarizes long text', 'Broken skills keep the previous version');
+    await write(skillFile('translate'), skillMarkdown('translate', 'Translates text'));
+    batch = await settle(1);
+    check(batch[0]?.status === 'loaded' && skills.getSkillCount() === 2, 'New skills are picked up');
+    console.log();
+  } finally {
+    stops.forEach(stop => stop());
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Definition Reload Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testDefinitionReload()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
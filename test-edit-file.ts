@@ -0,0 +1,122 @@
+/**
+ * Test script for the editFile tool
+ *
+ * Covers the read-before-edit rule, missing and ambiguous matches,
+ * replace_all and the returned unified diff
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+async function expectError(name: string, run: () => Promise<unknown>, description: string) {
+  try {
+    await run();
+    console.log(`❌ FAIL: ${description} - no error thrown`);
+    throw new Error(description);
+  } catch (error: any) {
+    if (error.name !== name) {
+      console.log(`❌ FAIL: ${description} - wrong error type: ${error.name}`);
+      throw error;
+    }
+    console.log(`✅ PASS: ${description}`);
+    console.log(`   Message: ${error.message}`);
+  }
+}
+
+async function testEditFile() {
+  console.log('='.repeat(60));
+  console.log('Testing editFile');
+  console.log('='.repeat(60));
+  console.log();
+
+  // File tools only work in trusted folders, listed in AGENT_HOME
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-edit-file-'));
+  process.env.AGENT_HOME = path.join(dir, '.home');
+
+  // Imported after AGENT_HOME is set
+  const { readFile, editFile, resetFileAccessTracking } = await import('./src/lib/tools/toolFunctions');
+  const { addTrusted } = await import('./src/lib/trust');
+  await addTrusted(dir);
+
+  const testFilePath = path.join(dir, 'test-edit-file.txt');
+  await fs.writeFile(testFilePath, 'alpha\nbeta\ngamma\nbeta\ndelta\n', 'utf-8');
+  resetFileAccessTracking();
+  console.log(`✓ Created test file: ${testFilePath}`);
+  console.log();
+
+  try {
+    // TEST 1: Edit without reading first
+    console.log('TEST 1: Editing WITHOUT reading first');
+    console.log('-'.repeat(60));
+    await expectError(
+      'FileNotReadError',
+      () => editFile({ path: testFilePath, old_string: 'alpha', new_string: 'ALPHA' }),
+      'Correctly threw FileNotReadError'
+    );
+    console.log();
+
+    await readFile({ path: testFilePath });
+
+    // TEST 2: Missing and ambiguous matches
+    console.log('TEST 2: Missing and ambiguous matches');
+    console.log('-'.repeat(60));
+    await expectError(
+      'EditMatchError',
+      () => editFile({ path: testFilePath, old_string: 'epsilon', new_string: 'x' }),
+      'Missing old_string is rejected'
+    );
+    await expectError(
+      'EditMatchError',
+      () => editFile({ path: testFilePath, old_string: 'beta', new_string: 'BETA' }),
+      'Ambiguous old_string is rejected'
+    );
+    const unchanged = await fs.readFile(testFilePath, 'utf-8');
+    if (unchanged !== 'alpha\nbeta\ngamma\nbeta\ndelta\n') {
+      throw new Error('File changed after a failed edit');
+    }
+    console.log('✅ PASS: File untouched after failed edits');
+    console.log();
+
+    // TEST 3: Unique edit returns a diff
+    console.log('TEST 3: Unique edit with diff');
+    console.log('-'.repeat(60));
+    const single = await editFile({ path: testFilePath, old_string: 'gamma', new_string: 'GAMMA $& $1' });
+    if (single.replacements !== 1 || !single.diff.includes('-gamma') || !single.diff.includes('+GAMMA $& $1')) {
+      throw new Error(`Unexpected result: ${JSON.stringify(single)}`);
+    }
+    console.log('✅ PASS: One replacement, new_string inserted literally');
+    console.log(single.diff);
+    console.log();
+
+    // TEST 4: replace_all
+    console.log('TEST 4: replace_all');
+    console.log('-'.repeat(60));
+    const all = await editFile({ path: testFilePath, old_string: 'beta', new_string: 'BETA', replace_all: true });
+    const content = await fs.readFile(testFilePath, 'utf-8');
+    if (all.replacements !== 2 || content !== 'alpha\nBETA\nGAMMA $& $1\nBETA\ndelta\n') {
+      throw new Error(`Unexpected content: ${JSON.stringify(content)}`);
+    }
+    console.log('✅ PASS: All occurrences replaced');
+    console.log();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test file');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('editFile Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testEditFile()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,191 @@
+/**
+ * Test script for OllamaClient tool calling
+ *
+ * Runs OllamaClient.chatWithTools against a local HTTP stub that mimics
+ * Ollama's /api/chat, covering the native `tools` path and the prompt fallback
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OllamaClient, Message, Tool } from './src/lib/llm/ollama-client';
+
+const readFileTool: Tool = {
+  name: 'readFile',
+  description: 'Read the contents of a file',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Path to the file to read' },
+    },
+    required: ['path'],
+  },
+};
+
+const receivedBodies: any[] = [];
+
+/**
+ * Stub /api/chat:
+ * - "native-model" answers with structured tool_calls, then plain text once tool results arrive
+ * - "legacy-model" rejects the `tools` field like Ollama does and answers with a ```json block
+ */
+function createStubServer(): http.Server {
+  return http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = JSON.parse(raw || '{}');
+      receivedBodies.push(body);
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.url !== '/api/chat') {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ error: 'not found' }));
+        return;
+      }
+
+      const hasToolResults = body.messages.some((m: any) => m.role === 'tool');
+
+      if (body.model === 'native-model') {
+        const message = hasToolResults
+          ? { role: 'assistant', content: 'Both files read.' }
+          : {
+              role: 'assistant',
+              content: '',
+              tool_calls: [
+                { function: { name: 'readFile', arguments: { path: 'a.txt' } } },
+                { function: { name: 'readFile', arguments: '{"path":"b.txt"}' } },
+              ],
+            };
+        res.end(JSON.stringify({ model: body.model, created_at: new Date().toISOString(), message, done: true }));
+        return;
+      }
+
+      if (body.tools) {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: `registry.ollama.ai/library/${body.model} does not support tools` }));
+        return;
+      }
+
+      const content = 'Reading the file now.\n```json\n{"tool": "readFile", "arguments": {"path": "c.txt"}}\n```';
+      res.end(JSON.stringify({
+        model: body.model,
+        created_at: new Date().toISOString(),
+        message: { role: 'assistant', content },
+        done: true,
+      }));
+    });
+  });
+}
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+async function testToolCalling() {
+  console.log('='.repeat(60));
+  console.log('Testing OllamaClient Tool Calling');
+  console.log('='.repeat(60));
+  console.log();
+
+  const server = createStubServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+  console.log(`✓ Stub /api/chat listening on ${baseUrl}`);
+  console.log();
+
+  try {
+    // TEST 1: Native tool calls
+    console.log('TEST 1: Native tool calls via the `tools` field');
+    console.log('-'.repeat(60));
+    const native = new OllamaClient({ baseUrl, model: 'native-model', maxRetries: 1 });
+    const messages: Message[] = [{ role: 'user', content: 'Read a.txt and b.txt' }];
+    const first = await native.chatWithTools(messages, [readFileTool]);
+
+    const sent = receivedBodies[receivedBodies.length - 1];
+    check(Array.isArray(sent.tools) && sent.tools[0].function.name === 'readFile', 'Request carries native tool schema');
+    check(!sent.messages.some((m: any) => m.role === 'system'), 'No tool prompt injected in native mode');
+    check(first.mode === 'native', 'Response reports native mode');
+    check(first.toolCalls.length === 2, 'Both tool calls returned');
+    check(first.toolCalls[1].arguments.path === 'b.txt', 'String arguments are parsed as JSON');
+    check(
+      !!first.toolCalls[0].id && first.toolCalls[0].id !== first.toolCalls[1].id,
+      'Each tool call has a distinct id'
+    );
+    console.log();
+
+    // TEST 2: Tool results are sent back per call
+    console.log('TEST 2: Tool results answered per call id');
+    console.log('-'.repeat(60));
+    const followUp: Message[] = [
+      ...messages,
+      { role: 'assistant', content: first.content, tool_calls: first.toolCalls },
+      ...first.toolCalls.map(tc => ({
+        role: 'tool' as const,
+        content: JSON.stringify({ path: tc.arguments.path }),
+        tool_call_id: tc.id,
+        tool_name: tc.name,
+      })),
+    ];
+    const second = await native.chatWithTools(followUp, [readFileTool]);
+    const sentFollowUp = receivedBodies[receivedBodies.length - 1];
+    const toolMessages = sentFollowUp.messages.filter((m: any) => m.role === 'tool');
+
+    check(toolMessages.length === 2, 'One tool message per call');
+    check(toolMessages.every((m: any) => m.tool_name === 'readFile'), 'Tool messages name their tool');
+    check(sentFollowUp.messages[1].tool_calls.length === 2, 'Assistant message keeps its tool calls');
+    check(second.toolCalls.length === 0 && second.content === 'Both files read.', 'Final answer has no tool calls');
+    console.log();
+
+    // TEST 3: Fallback to prompt-based tool calling
+    console.log('TEST 3: Prompt-based fallback when tools are unsupported');
+    console.log('-'.repeat(60));
+    const legacy = new OllamaClient({ baseUrl, model: 'legacy-model', maxRetries: 1 });
+    const bodiesBefore = receivedBodies.length;
+    const fallback = await legacy.chatWithTools(messages, [readFileTool]);
+
+    check(receivedBodies.length - bodiesBefore === 2, 'Native attempt followed by prompt attempt');
+    check(fallback.mode === 'prompt', 'Response reports prompt mode');
+    check(fallback.toolCalls.length === 1 && fallback.toolCalls[0].arguments.path === 'c.txt', 'Tool call parsed from JSON block');
+    check(!!fallback.toolCalls[0].id, 'Parsed tool call has an id');
+
+    await legacy.chatWithTools(messages, [readFileTool]);
+    check(receivedBodies.length - bodiesBefore === 3, 'Fallback is remembered for later requests');
+    console.log();
+
+    // TEST 4: Tool results folded into one user message in prompt mode
+    console.log('TEST 4: Tool results folded for prompt mode');
+    console.log('-'.repeat(60));
+    await legacy.chatWithTools([
+      ...messages,
+      { role: 'assistant', content: fallback.content, tool_calls: fallback.toolCalls },
+      { role: 'tool', content: '{"ok":true}', tool_call_id: fallback.toolCalls[0].id, tool_name: 'readFile' },
+    ], [readFileTool]);
+    const sentPrompt = receivedBodies[receivedBodies.length - 1];
+    const last = sentPrompt.messages[sentPrompt.messages.length - 1];
+
+    check(!sentPrompt.messages.some((m: any) => m.role === 'tool'), 'No tool-role messages sent in prompt mode');
+    check(last.role === 'user' && last.content.includes(fallback.toolCalls[0].id), 'Result references its call id');
+    console.log();
+  } finally {
+    server.close();
+  }
+
+  console.log('='.repeat(60));
+  console.log('OllamaClient Tool Calling Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testToolCalling()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
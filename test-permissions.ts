@@ -0,0 +1,172 @@
+/**
+ * Test script for per-tool-call permissions
+ *
+ * Covers policy decisions, allow once / always / deny, cancellation and
+ * expiry of pending approvals, diff previews and approvals requested from
+ * inside bashExec through the tool context
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { PermissionManager, ApprovalRequest } from './src/lib/permissions/PermissionManager';
+import type { ToolCall } from './src/lib/llm/ollama-client';
+
+const dir = 'test-permissions-tmp';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+function call(name: string, args: Record<string, any>): ToolCall {
+  return { id: `call_${name}`, name, arguments: args };
+}
+
+/**
+ * Answer every approval as soon as it is requested
+ */
+function autoAnswer(permissions: PermissionManager, answer: (request: ApprovalRequest) => 'allow-once' | 'allow-always' | 'deny') {
+  return permissions.onApprovalChange(request => {
+    if (request.status === 'pending') {
+      setImmediate(() => permissions.resolve(request.id, answer(request), 'from test'));
+    }
+  });
+}
+
+async function testPermissions() {
+  console.log('='.repeat(60));
+  console.log('Testing tool permissions');
+  console.log('='.repeat(60));
+  console.log();
+
+  // bashExec reads the command policy and trusted folders from AGENT_HOME and writes its audit log there
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-permissions-'));
+  process.env.AGENT_HOME = home;
+
+  // Imported after AGENT_HOME is set
+  const { PermissionManager, buildApprovalPreview } = await import('./src/lib/permissions/PermissionManager');
+  const { bashExec } = await import('./src/lib/tools/toolFunctions');
+  const { addTrusted } = await import('./src/lib/trust');
+
+  try {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(`${dir}/dist`, { recursive: true });
+    await fs.writeFile(`${dir}/notes.txt`, 'first\nsecond\n', 'utf-8');
+    await addTrusted(path.resolve(dir));
+
+    // TEST 1: Static decisions
+    console.log('TEST 1: Policy decisions');
+    console.log('-'.repeat(60));
+    const policy = new PermissionManager({ tools: { httpFetch: 'deny', writeFile: 'allow' } });
+    check(policy.decide('readFile', { agentName: 'a', readOnly: true }).decision === 'allow', 'Read-only tools are allowed by default');
+    check(policy.decide('bashExec', { agentName: 'a', readOnly: false }).decision === 'ask', 'Tools with side effects ask by default');
+    check(policy.decide('httpFetch', { agentName: 'a', readOnly: true }).decision === 'deny', 'Per-tool deny wins');
+    check(policy.decide('writeFile', { agentName: 'a', readOnly: false }).decision === 'allow', 'Per-tool allow applies');
+    check(
+      policy.decide('writeFile', { agentName: 'a', readOnly: false, requiresApproval: true }).decision === 'ask',
+      'Agent requires_approval overrides a per-tool allow'
+    );
+    const denied = await policy.authorize(call('httpFetch', { url: 'https://example.com' }), { agentName: 'a', readOnly: true });
+    check(!denied.allowed && policy.getHistory().length === 0, 'Denied calls never create an approval');
+    console.log();
+
+    // TEST 2: Allow once, always and deny
+    console.log('TEST 2: Answering approvals');
+    console.log('-'.repeat(60));
+    const permissions = new PermissionManager();
+    const answers: Array<'allow-once' | 'allow-always' | 'deny'> = ['allow-once', 'deny', 'allow-always'];
+    const unsubscribe = autoAnswer(permissions, () => answers.shift()!);
+    const options = { agentName: 'coder', readOnly: false };
+
+    check((await permissions.authorize(call('editFile', {}), options)).allowed, 'Allow once lets the call run');
+    const rejected = await permissions.authorize(call('editFile', {}), options);
+    check(!rejected.allowed && rejected.reason.includes('denied by the user: from test'), 'Deny blocks the call with the note');
+    check((await permissions.authorize(call('editFile', {}), options)).allowed, 'Always lets the call run');
+    check(permissions.getAlwaysAllowed().includes('editFile'), 'Always is remembered for the tool');
+    const before = permissions.getHistory().length;
+    check((await permissions.authorize(call('editFile', {}), options)).allowed && permissions.getHistory().length === before, 'Later calls skip the prompt');
+    unsubscribe();
+    console.log();
+
+    // TEST 3: Cancellation and expiry
+    console.log('TEST 3: Cancel and expire');
+    console.log('-'.repeat(60));
+    const controller = new AbortController();
+    const waiting = permissions.authorize(call('bashExec', { cmd: 'make' }), { ...options, signal: controller.signal });
+    await new Promise(resolve => setImmediate(resolve)); // Preview is built first
+    check(permissions.getPending().length === 1, 'Pending approval is listed');
+    controller.abort('cancelled by user');
+    const cancelled = await waiting;
+    check(!cancelled.allowed && cancelled.request?.status === 'cancelled', 'Abort cancels the approval');
+    check(!permissions.resolve(cancelled.request!.id, 'allow-once'), 'Resolved approvals cannot be answered again');
+
+    const expiring = new PermissionManager({}, { approvalTimeoutMs: 50 });
+    const expired = await expiring.authorize(call('writeFile', { path: 'x', content: '' }), options);
+    check(!expired.allowed && expired.request?.status === 'expired', 'Unanswered approvals expire as denied');
+    console.log();
+
+    // TEST 4: Previews
+    console.log('TEST 4: Previews');
+    console.log('-'.repeat(60));
+    const writePreview = await buildApprovalPreview(call('writeFile', { path: `${dir}/notes.txt`, content: 'first\nchanged\n' }));
+    check(writePreview.kind === 'diff' && writePreview.text.includes('-second') && writePreview.text.includes('+changed'), 'writeFile shows a diff');
+    const editPreview = await buildApprovalPreview(call('editFile', { path: `${dir}/notes.txt`, old_string: 'first', new_string: 'one' }));
+    check(editPreview.kind === 'diff' && editPreview.text.includes('+one'), 'editFile shows a diff');
+    const worktreePreview = await buildApprovalPreview(
+      call('editFile', { path: 'notes.txt', old_string: 'second', new_string: 'two' }),
+      { workDir: path.resolve(dir) }
+    );
+    check(worktreePreview.kind === 'diff' && worktreePreview.text.includes('--- a/notes.txt') && worktreePreview.text.includes('-second'),
+      'Relative paths are read and labelled from the working directory');
+    const commandPreview = await buildApprovalPreview(call('bashExec', { cmd: 'npm test' }));
+    check(commandPreview.kind === 'command' && commandPreview.text === 'npm test', 'bashExec shows the command');
+    console.log(writePreview.text);
+    console.log();
+
+    // TEST 5: Approval from inside a tool
+    console.log('TEST 5: bashExec asks through the tool context');
+    console.log('-'.repeat(60));
+    const shell = new PermissionManager();
+    const asked: ApprovalRequest[] = [];
+    const stop = autoAnswer(shell, request => {
+      asked.push(request);
+      return 'allow-once';
+    });
+    const rmCall = call('bashExec', { cmd: 'rm -rf dist', cwd: dir });
+    await bashExec(rmCall.arguments, { callId: rmCall.id, requestApproval: shell.approverFor(rmCall, 'coder') });
+    check(asked.length === 1 && asked[0].preview.kind === 'command', 'Risky command asked once');
+    check(!(await fs.access(`${dir}/dist`).then(() => true, () => false)), 'Approved command ran');
+    stop();
+
+    autoAnswer(shell, () => 'deny');
+    let error: any = null;
+    await bashExec(rmCall.arguments, { callId: rmCall.id, requestApproval: shell.approverFor(rmCall, 'coder') }).catch(e => { error = e; });
+    check(error?.name === 'CommandPolicyError', 'Denied command is refused');
+    const audit = await fs.readFile(path.join(home, 'command-audit.jsonl'), 'utf-8');
+    check(audit.trim().split('\n').length === 2, 'Decisions are audited in the test home only');
+    console.log();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.rm(home, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Permission Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testPermissions()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
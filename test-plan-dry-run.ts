@@ -0,0 +1,164 @@
+/**
+ * Test script for plan dry runs
+ *
+ * Dry-runs a structured plan with scripted steps in a temporary repository:
+ * the steps run in a scratch worktree that is removed afterwards, shell
+ * commands are recorded but not run, commands the command policy would not
+ * allow are flagged, and the result holds a diff per step.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+const PLAN = `---
+planSchema: 1
+title: Greeting feature
+steps:
+  - id: "1.1"
+    title: Greeting
+    files: [src/greeting.ts]
+  - id: "1.2"
+    title: Readme
+    files: [README.md]
+checkpoints:
+  - id: done
+    title: Feature works
+    steps: ["1.1", "1.2"]
+    verify:
+      - npm test
+      - { exists: src/greeting.ts }
+---
+
+# Greeting feature
+`;
+
+async function testPlanDryRun() {
+  console.log('='.repeat(60));
+  console.log('Testing plan dry runs');
+  console.log('='.repeat(60));
+  console.log();
+
+  const originalCwd = process.cwd();
+  const repo = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'selek-dry-run-')));
+  process.env.AGENT_HOME = path.join(repo, '.home');
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+  const exists = (file: string) => fs.access(file).then(() => true, () => false);
+
+  // Imported after AGENT_HOME is set
+  const { PlanExecutor } = await import('./src/lib/executor/plan-executor');
+  const { addTrusted } = await import('./src/lib/trust');
+  const { GitWorkspace } = await import('./src/lib/executor/git-workspace');
+  const { formatDryRun } = await import('./src/lib/executor/dry-run');
+  const tools = await import('./src/lib/tools/toolFunctions');
+  const { OllamaClient } = await import('./src/lib/llm/ollama-client');
+
+  try {
+    process.chdir(repo);
+    await addTrusted(repo);
+    git('init', '-q');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    await fs.writeFile('.gitignore', '.home/\n*.state.json\n', 'utf-8');
+    await fs.writeFile('README.md', '# Demo\n', 'utf-8');
+    await fs.writeFile('plan.md', PLAN, 'utf-8');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'base');
+    const base = git('rev-parse', 'HEAD');
+    const marker = path.join(repo, 'command-ran');
+
+    // Steps edit files and run a command through the step agent's own tools
+    const executor = new PlanExecutor(new OllamaClient({ baseUrl: 'http://localhost:1' }));
+    let failStep = '';
+    (executor as any).executeStep = async (
+      step: { stepNumber: string; filesAffected: string[] },
+      _plan: string,
+      agent: any,
+      options: any
+    ) => {
+      const context = { callId: `call_${step.stepNumber}`, workDir: agent.getWorkDir() ?? undefined };
+      const file = step.filesAffected[0];
+      await tools.readFile({ path: file }, context).catch(() => undefined);
+      const args = { path: file, content: `// step ${step.stepNumber}\n` };
+      await tools.writeFile(args, context);
+      options.onToolResult({ id: context.callId, name: 'writeFile', args, startedAt: new Date().toISOString(), durationMs: 1 });
+
+      const command = { cmd: step.stepNumber === '1.2' ? `sudo touch ${marker}` : `touch ${marker}` };
+      const output = await agent.executeTool({ id: `bash_${step.stepNumber}`, name: 'bashExec', arguments: command });
+      check(typeof output.skipped === 'string', `Step ${step.stepNumber} is told its command was skipped`);
+      options.onToolResult({ id: `bash_${step.stepNumber}`, name: 'bashExec', args: command, result: output, startedAt: new Date().toISOString(), durationMs: 1 });
+      if (step.stepNumber === failStep) {
+        throw new Error('model gave up');
+      }
+    };
+
+    // TEST 1: Report
+    console.log('TEST 1: Dry run reports a diff per step');
+    console.log('-'.repeat(60));
+    const result = await executor.executePlan('plan.md', true);
+    check(result.success && result.dryRun !== undefined, 'Dry run succeeds with a report');
+    const report = result.dryRun!;
+    const step = (id: string) => report.steps.find(s => s.stepNumber === id)!;
+    check(report.baseCommit === base, 'Report names the commit it applies to');
+    check(step('1.1').files.join(',') === 'src/greeting.ts' && step('1.1').diff.includes('+// step 1.1'), 'New files are in the step diff');
+    check(step('1.2').files.join(',') === 'README.md' && step('1.2').diff.includes('-# Demo'), 'Edits are in the step diff');
+    check(report.diff.includes('src/greeting.ts') && report.diff.includes('README.md'), 'Full diff covers every step');
+    check(step('1.1').commands.join() === `touch ${marker}`, 'Shell commands are recorded');
+    check(step('1.1').policyNotes.length === 0 && step('1.2').policyNotes[0]?.note === 'needs approval: sudo: runs with elevated privileges', 'Commands the policy would not allow are flagged');
+    check(report.checkpointCommands[0].commands.join() === 'npm test', 'Checkpoint commands are listed');
+    check(result.checkpointsReached.length === 0, 'Checkpoints are not verified');
+    const text = formatDryRun(report);
+    console.log(text);
+    check(text.includes('=== Step 1.1: Greeting') && text.includes(`$ touch ${marker}`), 'Report groups commands and diffs by step');
+    check(text.includes(`$ sudo touch ${marker}\n  (needs approval: sudo: runs with elevated privileges)`), 'Report shows the policy decision under the command');
+    check(text.endsWith('2 step(s) would change 2 file(s) and run 2 command(s), 1 of them denied or needing approval by the command policy'), 'Report ends with a summary');
+    console.log();
+
+    // TEST 2: Nothing changes
+    console.log('TEST 2: The repository is untouched');
+    console.log('-'.repeat(60));
+    check(!(await exists(marker)), 'Shell commands did not run');
+    check(git('rev-parse', 'HEAD') === base && git('status', '--porcelain') === '', 'Working tree and branch are unchanged');
+    check((await GitWorkspace.list()).length === 0 && git('tag') === '', 'Scratch worktree, branch and tags are removed');
+    check(!(await exists('plan.state.json')), 'No execution state is saved');
+    console.log();
+
+    // TEST 3: Failure
+    console.log('TEST 3: A failing step ends the dry run with what was proposed so far');
+    console.log('-'.repeat(60));
+    failStep = '1.2';
+    const failed = await executor.executePlan('plan.md', true, { parallel: 1 });
+    check(!failed.success && failed.failedStep === '1.2', 'Failed step is reported');
+    check(failed.dryRun!.steps[1].error === 'model gave up' && failed.dryRun!.steps[0].diff !== '', 'Earlier diffs are kept');
+    check((await GitWorkspace.list()).length === 0, 'Scratch worktree is removed');
+    console.log();
+  } finally {
+    process.chdir(originalCwd);
+    await fs.rm(repo, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Plan Dry Run Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testPlanDryRun()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,208 @@
+/**
+ * Test script for the structured plan format
+ *
+ * Covers validating plan front-matter against the schema, reading plans
+ * that only have markdown headings, giving generated plans their
+ * front-matter in SpecializedAgent.execute and loading both formats in
+ * PlanExecutor.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+const STRUCTURED = `---
+planSchema: 1
+title: Greeting feature
+steps:
+  - id: "1.1"
+    title: Create greeting module
+    files: [src/greeting.ts]
+  - id: "1.2"
+    title: Add tests
+    dependsOn: ["1.1"]
+    verify: [npm test]
+checkpoints:
+  - id: greeting-works
+    title: Greeting works
+    steps: ["1.1", "1.2"]
+    verify: [npm test]
+---
+
+# Greeting feature
+
+## Context Summary
+Says hello.
+
+## Rollback Strategy
+Revert.
+`;
+
+const MARKDOWN = `# Greeting Feature
+
+**Domain:** backend
+**Complexity:** Simple
+
+## Context Summary
+Says hello.
+
+## Implementation Steps
+
+### Step 1.1: Create greeting module
+### Step 1.2: Add farewell
+### Step 2.1: Add tests
+
+## Error Handling Strategy
+## Type Safety
+## Testing Requirements
+## Success Metrics
+## Incremental Implementation Checkpoints
+
+- [ ] Checkpoint 1: Module exists - file check
+- [ ] Checkpoint 2: Tests exist - npm test
+
+## Rollback Strategy
+Revert.
+`;
+
+async function testPlanFormat() {
+  console.log('='.repeat(60));
+  console.log('Testing the structured plan format');
+  console.log('='.repeat(60));
+  console.log();
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-plan-format-'));
+  process.env.AGENT_HOME = path.join(dir, '.home');
+
+  // Imported after AGENT_HOME is set
+  const { parsePlanDocument, validatePlanSpec } = await import('./src/lib/executor/plan-format');
+  const { ImplementationAgent } = await import('./src/lib/agents/implementation-agent');
+  const { PlanExecutor } = await import('./src/lib/executor/plan-executor');
+  const { OllamaClient } = await import('./src/lib/llm/ollama-client');
+
+  try {
+    // TEST 1: Structured plans
+    console.log('TEST 1: Front-matter is read and normalized');
+    console.log('-'.repeat(60));
+    const structured = parsePlanDocument(STRUCTURED);
+    check(structured.structured && structured.issues.length === 0, 'A valid plan has no issues');
+    check(structured.spec.steps[1].phase === '1' && structured.spec.steps[0].dependsOn.length === 0, 'Optional fields get defaults');
+    check(structured.spec.checkpoints[0].method === 'Run npm test', 'Checkpoint method falls back to its commands');
+    check(structured.body.trimStart().startsWith('# Greeting feature'), 'Body is the markdown after the front-matter');
+    console.log();
+
+    // TEST 2: Schema errors
+    console.log('TEST 2: Schema errors point at the field');
+    console.log('-'.repeat(60));
+    const issues = validatePlanSpec({
+      title: 'Broken',
+      steps: [
+        { id: 1.1, title: 'Numeric id' },
+        { id: '2.1', title: 'Needs 9.9', dependsOn: ['9.9'], depends_on: ['1.1'] },
+        { id: '3.1', title: 'Loop A', dependsOn: ['3.2'] },
+        { id: '3.2', title: 'Loop B', dependsOn: ['3.1'] },
+      ],
+      checkpoints: [{ id: 'cp', title: 'Never', steps: ['4.1'] }],
+    });
+    const has = (message: string) => issues.includes(message);
+    check(has('steps[0].id: must be a string, quote numbers like "1.1"'), 'Unquoted numeric ids are reported');
+    check(has('steps[1].dependsOn[0]: unknown step "9.9"'), 'Unknown dependencies are reported');
+    check(has('steps[1]: unknown field "depends_on"'), 'Misspelled fields are reported');
+    check(has('steps: dependency cycle 3.1 -> 3.2 -> 3.1'), 'Dependency cycles are reported');
+    check(has('checkpoints[0].steps[0]: unknown step "4.1"'), 'Checkpoints must link existing steps');
+    const idIssues = validatePlanSpec({
+      title: 'Ids',
+      steps: [{ id: 'step 1', title: 'Space' }, { id: '1..2', title: 'Dots' }, { id: '2.1', title: 'Fine' }],
+      checkpoints: [
+        { id: 'cp:1', title: 'Colon', steps: ['2.1'] },
+        { id: 'start', title: 'Reserved', steps: ['2.1'] },
+      ],
+    });
+    idIssues.forEach(issue => console.log(`  ${issue}`));
+    check(idIssues.includes('steps[0].id: "step 1" must start with a letter or digit and contain only letters, digits, ".", "_" and "-"'), 'Step ids with spaces are reported');
+    check(idIssues.includes('steps[1].id: "1..2" must not contain ".."'), 'Ids with ".." are reported');
+    check(idIssues.some(issue => issue.startsWith('checkpoints[0].id: "cp:1" must start')), 'Checkpoint ids that are not valid tag names are reported');
+    check(idIssues.includes('checkpoints[1].id: "start" is reserved for the commit a run starts from'), 'The "start" checkpoint id is reserved');
+    check(!idIssues.some(issue => issue.startsWith('steps[2]')), 'Dotted step numbers are accepted');
+    const brokenYaml = parsePlanDocument('---\nsteps: [\n---\n# x\n');
+    check(brokenYaml.issues[0]?.startsWith('front-matter: invalid YAML') ?? false, 'Invalid YAML is reported');
+    check(!brokenYaml.structured, 'A plan with invalid YAML is not treated as structured');
+    console.log();
+
+    // TEST 3: Markdown plans
+    console.log('TEST 3: Markdown plans are still accepted');
+    console.log('-'.repeat(60));
+    const markdown = parsePlanDocument(MARKDOWN);
+    check(!markdown.structured && markdown.spec.steps.length === 3, 'Steps come from the headings');
+    check(markdown.spec.checkpoints[0].steps.join(',') === '1.1,1.2', 'Checkpoints cover the steps of their phase');
+    check(markdown.spec.domain === 'backend', 'Metadata fields are read');
+    console.log();
+
+    // TEST 4: Generated plans
+    console.log('TEST 4: SpecializedAgent writes plans with front-matter');
+    console.log('-'.repeat(60));
+    const agent = new ImplementationAgent({
+      agentId: 'implementation-test',
+      domain: 'backend',
+      promptTemplatePath: path.join(dir, 'unused.md'),
+      outputDir: path.join(dir, 'plans'),
+      llm: new OllamaClient({ baseUrl: 'http://localhost:1' }),
+    });
+    (agent as any).promptTemplate = 'Plan things';
+    let response = '```markdown\n' + MARKDOWN + '```';
+    (agent as any).run = async () => response;
+
+    const output = await agent.execute('Add greeting');
+    const saved = parsePlanDocument(await fs.readFile(output.planFile, 'utf-8'));
+    check(saved.structured && saved.issues.length === 0, 'Saved plan has valid front-matter');
+    check(saved.spec.steps.map(s => s.id).join(',') === '1.1,1.2,2.1', 'Front-matter lists the markdown steps');
+    check(saved.body.includes('## Rollback Strategy'), 'Markdown is kept below it');
+
+    response = MARKDOWN.replace('# Greeting Feature', '---\ntitle: Bad\nsteps:\n  - id: "1.1"\n---\n# Greeting Feature');
+    let error: any = null;
+    await agent.execute('Add greeting').catch(e => { error = e; });
+    check(error?.name === 'PlanGenerationError' && error.message.includes('steps[0].title: required non-empty string'), 'Invalid front-matter fails with the schema error');
+    console.log();
+
+    // TEST 5: Executor
+    console.log('TEST 5: PlanExecutor loads both formats');
+    console.log('-'.repeat(60));
+    const executor = new PlanExecutor(new OllamaClient({ baseUrl: 'http://localhost:1' }));
+    await fs.writeFile(path.join(dir, 'structured.md'), STRUCTURED, 'utf-8');
+    const parsePlan = (file: string) => (executor as any).parsePlan(file);
+    const fromStructured = await parsePlan(path.join(dir, 'structured.md'));
+    check(fromStructured.checkpoints.map((c: { id: string }) => c.id).join(',') === 'greeting-works', 'Structured plan loads');
+    const fromMarkdown = await parsePlan(output.planFile);
+    check(fromMarkdown.steps.length === 3, 'Generated plan loads');
+    await fs.writeFile(path.join(dir, 'invalid.md'), STRUCTURED.replace('steps: ["1.1", "1.2"]', 'steps: []'), 'utf-8');
+    const invalid = await executor.executePlan(path.join(dir, 'invalid.md'));
+    check(invalid.error?.name === 'PlanValidationError' && invalid.error.message.includes('checkpoints[0].steps'), 'Invalid plans are rejected before running');
+    console.log();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Plan Format Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testPlanFormat()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,171 @@
+/**
+ * Test script for parallel plan steps
+ *
+ * Runs a structured plan with scripted, slow steps in a temporary
+ * repository: independent steps overlap, steps that share files or depend
+ * on each other do not, each step is committed with only its own files and
+ * the timeline reports what ran together.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+const PLAN = `---
+planSchema: 1
+title: Parallel feature
+steps:
+  - id: "1.1"
+    title: Greeting
+    files: [src/greeting.ts]
+  - id: "1.2"
+    title: Farewell
+    files: [src/farewell.ts]
+  - id: "1.3"
+    title: Greeting options
+    files: [src/greeting.ts]
+  - id: "2.1"
+    title: Tests
+    dependsOn: ["1.1", "1.2"]
+    files: [test/]
+checkpoints:
+  - id: modules
+    title: Modules exist
+    steps: ["1.1", "1.2", "1.3"]
+---
+
+# Parallel feature
+`;
+
+const overlaps = (a: { startMs: number; endMs: number }, b: { startMs: number; endMs: number }) =>
+  a.startMs < b.endMs && b.startMs < a.endMs;
+
+async function testPlanParallel() {
+  console.log('='.repeat(60));
+  console.log('Testing parallel plan steps');
+  console.log('='.repeat(60));
+  console.log();
+
+  const originalCwd = process.cwd();
+  const repo = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'selek-parallel-')));
+  process.env.AGENT_HOME = path.join(repo, '.home');
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+
+  // Imported after AGENT_HOME is set
+  const { PlanExecutor } = await import('./src/lib/executor/plan-executor');
+  const { addTrusted } = await import('./src/lib/trust');
+  const { GitWorkspace } = await import('./src/lib/executor/git-workspace');
+  const { formatTimeline } = await import('./src/lib/executor/step-scheduler');
+  const tools = await import('./src/lib/tools/toolFunctions');
+  const { OllamaClient } = await import('./src/lib/llm/ollama-client');
+
+  try {
+    process.chdir(repo);
+    await addTrusted(repo);
+    git('init', '-q');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    await fs.writeFile('.gitignore', '.home/\n*.state.json\n', 'utf-8');
+    await fs.writeFile('plan.md', PLAN, 'utf-8');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'base');
+
+    // Each step writes its files slowly through its own agent's working directory
+    const executor = new PlanExecutor(new OllamaClient({ baseUrl: 'http://localhost:1' }));
+    const agents = new Set<unknown>();
+    let validatedAfter: string[] = [];
+    (executor as any).executeStep = async (
+      step: { stepNumber: string; filesAffected: string[] },
+      _plan: string,
+      agent: { getWorkDir(): string | null },
+      options: any
+    ) => {
+      agents.add(agent);
+      const context = { callId: `call_${step.stepNumber}`, workDir: agent.getWorkDir() ?? undefined };
+      const file = step.filesAffected[0].endsWith('/') ? `${step.filesAffected[0]}step.test.ts` : step.filesAffected[0];
+      await tools.readFile({ path: file }, context).catch(() => undefined);
+      await new Promise(resolve => setTimeout(resolve, 300));
+      const args = { path: file, content: `// ${step.stepNumber}\n` };
+      await tools.writeFile(args, context);
+      options.onToolResult({ id: context.callId, name: 'writeFile', args, startedAt: new Date().toISOString(), durationMs: 300 });
+    };
+    (executor as any).reviewCheckpoint = async () => {
+      validatedAfter = (await fs.readdir(path.join((executor as any).agent.getWorkDir(), 'src'))).sort();
+      return { valid: true, details: 'Validation passed' };
+    };
+
+    // TEST 1: Scheduling
+    console.log('TEST 1: Independent steps run together');
+    console.log('-'.repeat(60));
+    const result = await executor.executePlan('plan.md');
+    check(result.success && result.timeline?.length === 4, 'Every step is on the timeline');
+    const entry = (id: string) => result.timeline!.find(e => e.stepNumber === id)!;
+    check(overlaps(entry('1.1'), entry('1.2')), 'Steps with separate files overlap');
+    check(!overlaps(entry('1.1'), entry('1.3')), 'Steps sharing a file run one after the other');
+    check(entry('2.1').startMs >= Math.max(entry('1.1').endMs, entry('1.2').endMs), 'A step waits for its dependencies');
+    check(agents.size === 4, 'Each step gets its own agent');
+    check(validatedAfter.join(',') === 'farewell.ts,greeting.ts', 'Checkpoint is verified once its steps are done');
+    console.log();
+
+    // TEST 2: Commits
+    console.log('TEST 2: Each step is committed with its own files');
+    console.log('-'.repeat(60));
+    const branch = result.workspace!.branch;
+    const commits = git('log', '--format=%s', branch).split('\n');
+    check(commits.filter(c => c.startsWith('Step ')).length === 4, 'One commit per step');
+    const filesOf = (subject: string) =>
+      git('show', '--name-only', '--format=', `${branch}^{/${subject}}`).split('\n').join(',');
+    check(filesOf('Step 1.2:') === 'src/farewell.ts', 'A parallel step commits only its files');
+    check(filesOf('Step 2.1:') === 'test/step.test.ts', 'Directories declared as files are committed');
+    console.log();
+
+    // TEST 3: Report
+    console.log('TEST 3: Timeline report');
+    console.log('-'.repeat(60));
+    const report = formatTimeline(result.timeline!);
+    console.log(report);
+    check(report.includes('lane 2') && report.includes('with 1.1'), 'Report shows lanes and overlapping steps');
+    check(report.split('\n').pop()!.startsWith('4 step(s) in'), 'Report ends with a summary');
+    await (await GitWorkspace.open(result.workspace!.runId)).discard();
+    console.log();
+
+    // TEST 4: Sequential
+    console.log('TEST 4: parallel: 1 runs steps in order');
+    console.log('-'.repeat(60));
+    agents.clear();
+    const sequential = await executor.executePlan('plan.md', false, { parallel: 1 });
+    check(sequential.timeline!.every(e => e.parallelWith.length === 0 && e.lane === 1), 'No step overlaps another');
+    check(sequential.timeline!.map(e => e.stepNumber).join(',') === '1.1,1.2,1.3,2.1', 'Steps run in plan order');
+    check(agents.size === 1, 'The executor agent runs every step');
+    await (await GitWorkspace.open(sequential.workspace!.runId)).discard();
+    console.log();
+  } finally {
+    process.chdir(originalCwd);
+    await fs.rm(repo, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Parallel Plan Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testPlanParallel()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
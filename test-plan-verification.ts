@@ -0,0 +1,203 @@
+/**
+ * Test script for command-based checkpoint verification
+ *
+ * Runs structured plans with scripted steps in a temporary repository and
+ * checks that checkpoints are decided by their verification actions (exit
+ * codes, file checks, regex checks), with the model's verdict kept only as
+ * a second opinion, the check output attached to the result and checks
+ * that time out stopped together with the processes they started.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { readFileSync } from 'fs';
+import { execFileSync } from 'child_process';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+/**
+ * Whether a process is still alive (exited but unreaped processes count as gone)
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  try {
+    return !/\) Z /.test(readFileSync(`/proc/${pid}/stat`, 'utf-8'));
+  } catch {
+    return true;
+  }
+}
+
+const plan = (checkpointVerify: string) => `---
+planSchema: 1
+title: Verified feature
+steps:
+  - id: "1.1"
+    title: Greeting
+    files: [src/greeting.ts]
+checkpoints:
+  - id: greeting
+    title: Greeting module works
+    steps: ["1.1"]
+    verify:
+${checkpointVerify}
+---
+
+# Verified feature
+`;
+
+async function testPlanVerification() {
+  console.log('='.repeat(60));
+  console.log('Testing checkpoint verification');
+  console.log('='.repeat(60));
+  console.log();
+
+  const originalCwd = process.cwd();
+  const repo = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'selek-verify-')));
+  process.env.AGENT_HOME = path.join(repo, '.home');
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf-8' }).trim();
+
+  // Imported after AGENT_HOME is set
+  const { PlanExecutor } = await import('./src/lib/executor/plan-executor');
+  const { addTrusted } = await import('./src/lib/trust');
+  const { GitWorkspace } = await import('./src/lib/executor/git-workspace');
+  const { loadPlanState } = await import('./src/lib/executor/plan-state');
+  const { runVerification } = await import('./src/lib/executor/checkpoint-verifier');
+  const { parsePlanDocument, stringifyPlanDocument } = await import('./src/lib/executor/plan-format');
+  const tools = await import('./src/lib/tools/toolFunctions');
+  const { OllamaClient } = await import('./src/lib/llm/ollama-client');
+
+  try {
+    process.chdir(repo);
+    await addTrusted(repo);
+    git('init', '-q');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    await fs.writeFile('.gitignore', '.home/\n*.state.json\n', 'utf-8');
+    await fs.writeFile('base.txt', 'base\n', 'utf-8');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'base');
+
+    // The step writes the module; the model's verdict is scripted
+    const executor = new PlanExecutor(new OllamaClient({ baseUrl: 'http://localhost:1' }));
+    let modelVerdict = { valid: true, details: 'Validation passed' };
+    let reviews = 0;
+    (executor as any).executeStep = async (_step: unknown, _plan: string, agent: { getWorkDir(): string | null }) => {
+      const context = { callId: 'call_1', workDir: agent.getWorkDir() ?? undefined };
+      await tools.writeFile({ path: 'src/greeting.ts', content: 'export const greet = () => "hi";\n' }, context);
+    };
+    (executor as any).reviewCheckpoint = async () => {
+      reviews++;
+      return modelVerdict;
+    };
+
+    // TEST 1: Checks decide
+    console.log('TEST 1: Passing checks pass the checkpoint even if the model disagrees');
+    console.log('-'.repeat(60));
+    await fs.writeFile('plan.md', plan([
+      '      - node -e "process.exit(0)"',
+      '      - { run: "node -e \\"process.exit(2)\\"", exitCode: 2 }',
+      '      - { exists: src/greeting.ts }',
+      '      - { absent: broken.ts }',
+      '      - { file: src/greeting.ts, matches: "^export const greet" }',
+    ].join('\n')), 'utf-8');
+    modelVerdict = { valid: false, details: 'looks unfinished' };
+    const ok = await executor.executePlan('plan.md');
+    check(ok.success, 'Plan succeeds');
+    const verification = ok.verifications![0];
+    check(verification.verifiedBy === 'commands' && verification.checks.length === 5, 'Every check ran');
+    check(verification.checks.every(c => c.passed), 'All checks passed');
+    check(verification.checks[1].exitCode === 2, 'Expected exit codes other than 0 are honoured');
+    check(verification.modelVerdict?.valid === false && verification.modelVerdict.details === 'looks unfinished', 'Model verdict is kept as a second opinion');
+    const state = (await loadPlanState('plan.md'))!;
+    check(state.checkpoints[0].status === 'passed' && state.checkpoints[0].checks?.length === 5, 'Check outcomes are saved in the state');
+    await (await GitWorkspace.open(ok.workspace!.runId)).discard();
+    console.log();
+
+    // TEST 2: A failing check
+    console.log('TEST 2: A failing check fails the checkpoint even if the model approves');
+    console.log('-'.repeat(60));
+    await fs.writeFile('plan.md', plan([
+      '      - node -e "console.log(\'boom\'); process.exit(3)"',
+      '      - { file: src/greeting.ts, matches: "farewell" }',
+    ].join('\n')), 'utf-8');
+    modelVerdict = { valid: true, details: 'Validation passed' };
+    reviews = 0;
+    const failed = await executor.executePlan('plan.md');
+    check(!failed.success && failed.error?.name === 'CheckpointValidationError', 'Checkpoint fails');
+    const [command, regex] = failed.verifications![0].checks;
+    check(!command.passed && command.exitCode === 3 && command.output.includes('boom'), 'Command output and exit code are attached');
+    check(!regex.passed && regex.output.includes('does not match'), 'Regex checks report the mismatch');
+    check(failed.error!.message.includes('exit 3') && failed.error!.message.includes('boom'), 'Error names the failed checks');
+    check(reviews === 0, 'The model is not asked once a check failed');
+    check(failed.rolledBackTo === 'start', 'Workspace is rolled back');
+    await (await GitWorkspace.open(failed.workspace!.runId)).discard();
+    console.log();
+
+    // TEST 3: Schema
+    console.log('TEST 3: Verification actions in the plan schema');
+    console.log('-'.repeat(60));
+    const bad = parsePlanDocument(plan([
+      '      - { run: make, exists: out }',
+      '      - { run: make, exitCode: zero }',
+      '      - { file: a.ts, matches: "(" }',
+      '      - { test: npm test, extra: 1 }',
+    ].join('\n')));
+    console.log(bad.issues.join('\n'));
+    check(bad.issues.some(i => i.startsWith('checkpoints[0].verify[0]: needs exactly one of')), 'Ambiguous actions are rejected');
+    check(bad.issues.includes('checkpoints[0].verify[1].exitCode: must be an integer'), 'Exit codes must be integers');
+    check(bad.issues.some(i => i.startsWith('checkpoints[0].verify[2].matches: invalid regular expression')), 'Invalid patterns are rejected');
+    check(bad.issues.some(i => i.startsWith('checkpoints[0].verify[3]') && i.includes('extra')), 'Unknown keys are rejected');
+    const good = parsePlanDocument(plan('      - npm run build\n      - { test: npm test }\n      - { exists: dist }'));
+    check(good.spec.checkpoints[0].method === 'Run npm run build; Test suite npm test; File dist exists', 'Method defaults to the checks');
+    const again = parsePlanDocument(stringifyPlanDocument(good.spec, good.body));
+    check(JSON.stringify(again.spec.checkpoints[0].verify) === JSON.stringify(good.spec.checkpoints[0].verify), 'Actions survive a round trip');
+    console.log();
+
+    // TEST 4: Timeouts
+    console.log('TEST 4: A check that times out is stopped with the processes it started');
+    console.log('-'.repeat(60));
+    const pidFile = path.join(repo, 'check.pid');
+    const [slow] = await runVerification([
+      { kind: 'test', command: `sleep 30 & echo $! > ${pidFile}; wait`, exitCode: 0, timeoutMs: 500 },
+    ], repo);
+    const pid = Number((await fs.readFile(pidFile, 'utf-8')).trim());
+    await new Promise(resolve => setTimeout(resolve, 200));
+    const alive = isRunning(pid);
+    if (alive) {
+      process.kill(pid, 'SIGKILL');
+    }
+    check(!slow.passed && slow.output.includes('killed after 500ms') && slow.durationMs < 10_000, 'The check fails after its timeout');
+    check(!alive, 'The background process of the check is killed');
+    console.log();
+  } finally {
+    process.chdir(originalCwd);
+    await fs.rm(repo, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Checkpoint Verification Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testPlanVerification()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
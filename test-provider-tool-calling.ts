@@ -0,0 +1,296 @@
+/**
+ * Test script for native tool calling through ProviderLLMAdapter
+ *
+ * Points the Anthropic and OpenAI SDKs at a local HTTP stub that answers
+ * with canned `tool_use` / `tool_calls` payloads, and checks the ToolCalls
+ * the adapter returns and the follow-up messages it sends back
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ProviderLLMAdapter } from './src/lib/providers/ProviderLLMAdapter';
+import { BaseProvider } from './src/lib/providers/provider-base';
+import { Message, ProviderError, StreamEvent, ToolChatMessage, ToolDefinition } from './src/lib/providers/types';
+
+const readFileTool: ToolDefinition = {
+  name: 'readFile',
+  description: 'Read the contents of a file',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', description: 'Path to the file to read' },
+    },
+    required: ['path'],
+  },
+};
+
+const receivedBodies: Array<{ url: string; body: any }> = [];
+
+/**
+ * Stub /v1/messages and /v1/chat/completions:
+ * both ask for two readFile calls, then answer in text once tool results arrive
+ */
+function createStubServer(): http.Server {
+  return http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = JSON.parse(raw || '{}');
+      receivedBodies.push({ url: req.url || '', body });
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.url === '/v1/messages') {
+        const last = body.messages[body.messages.length - 1];
+        const hasToolResults = Array.isArray(last.content) && last.content.some((b: any) => b.type === 'tool_result');
+        const content = hasToolResults
+          ? [{ type: 'text', text: 'Both files read.' }]
+          : [
+              { type: 'text', text: 'Reading both files.' },
+              { type: 'tool_use', id: 'toolu_01', name: 'readFile', input: { path: 'a.txt' } },
+              { type: 'tool_use', id: 'toolu_02', name: 'readFile', input: { path: 'b.txt' } },
+            ];
+        res.end(JSON.stringify({
+          id: 'msg_01',
+          type: 'message',
+          role: 'assistant',
+          model: body.model,
+          content,
+          stop_reason: hasToolResults ? 'end_turn' : 'tool_use',
+          stop_sequence: null,
+          usage: { input_tokens: 10, output_tokens: 10 },
+        }));
+        return;
+      }
+
+      if (req.url === '/v1/chat/completions') {
+        const last = body.messages[body.messages.length - 1];
+        const args = last.content === 'bad json' ? '{"path": ' : '{"path":"a.txt"}';
+        const message = last.role === 'tool'
+          ? { role: 'assistant', content: 'Both files read.' }
+          : {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                { id: 'call_01', type: 'function', function: { name: 'readFile', arguments: args } },
+                { id: 'call_02', type: 'function', function: { name: 'readFile', arguments: '{"path":"b.txt"}' } },
+              ],
+            };
+        res.end(JSON.stringify({
+          id: 'chatcmpl-01',
+          object: 'chat.completion',
+          created: Math.floor(Date.now() / 1000),
+          model: body.model,
+          choices: [{ index: 0, message, finish_reason: last.role === 'tool' ? 'stop' : 'tool_calls' }],
+        }));
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'not found' }));
+    });
+  });
+}
+
+/**
+ * Provider that only streams text
+ */
+class TextOnlyProvider implements BaseProvider {
+  readonly name = 'TextOnly';
+  readonly models = ['text-model'];
+  received: Message[] = [];
+
+  async *stream(messages: Message[]): AsyncIterableIterator<StreamEvent> {
+    this.received = messages;
+    yield { type: 'token', data: 'No tools ' };
+    yield { type: 'token', data: 'here.' };
+    yield { type: 'done' };
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.models;
+  }
+
+  async getModelInfo(modelId: string) {
+    return { id: modelId, name: modelId, contextWindow: 4096, provider: this.name };
+  }
+
+  async validateConfig(): Promise<boolean> {
+    return true;
+  }
+
+  async healthCheck(): Promise<{ healthy: boolean; message?: string }> {
+    return { healthy: true };
+  }
+}
+
+/**
+ * Conversation after the assistant's tool calls, answered the way the Agent does
+ */
+function followUp(messages: ToolChatMessage[], content: string, toolCalls: ToolChatMessage['tool_calls'] = []): ToolChatMessage[] {
+  return [
+    ...messages,
+    { role: 'assistant', content, tool_calls: toolCalls },
+    ...toolCalls.map(tc => ({
+      role: 'tool' as const,
+      content: JSON.stringify({ path: tc.arguments.path, content: `contents of ${tc.arguments.path}` }),
+      tool_call_id: tc.id,
+      tool_name: tc.name,
+    })),
+  ];
+}
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+async function testProviderToolCalling() {
+  console.log('='.repeat(60));
+  console.log('Testing Provider Tool Calling');
+  console.log('='.repeat(60));
+  console.log();
+
+  const server = createStubServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+  process.env.ANTHROPIC_BASE_URL = baseUrl;
+  process.env.OPENAI_BASE_URL = `${baseUrl}/v1`;
+  console.log(`✓ Stub provider API listening on ${baseUrl}`);
+  console.log();
+
+  // Imported after the base URLs are set
+  const { AnthropicProvider } = await import('./src/lib/providers/AnthropicProvider');
+  const { OpenAIProvider } = await import('./src/lib/providers/OpenAIProvider');
+
+  const messages: ToolChatMessage[] = [
+    { role: 'system', content: 'You are a careful assistant.' },
+    { role: 'user', content: 'Read a.txt and b.txt' },
+  ];
+
+  try {
+    // TEST 1: Anthropic tool_use blocks
+    console.log('TEST 1: Anthropic tool_use blocks become ToolCalls');
+    console.log('-'.repeat(60));
+    const anthropic = new ProviderLLMAdapter(new AnthropicProvider({ apiKey: 'test-key', maxRetries: 1 }));
+    const first = await anthropic.chatWithTools(messages, [readFileTool]);
+    const sent = receivedBodies[receivedBodies.length - 1].body;
+
+    check(sent.system === 'You are a careful assistant.' && sent.messages.every((m: any) => m.role !== 'system'), 'System prompt is sent as `system`');
+    check(sent.tools[0].name === 'readFile' && sent.tools[0].input_schema.required[0] === 'path', 'Tools are sent with an input_schema');
+    check(first.content === 'Reading both files.' && first.stopReason === 'tool_use', 'Text blocks become the content');
+    check(
+      first.toolCalls.length === 2 &&
+        first.toolCalls[0].id === 'toolu_01' && first.toolCalls[0].arguments.path === 'a.txt' &&
+        first.toolCalls[1].id === 'toolu_02' && first.toolCalls[1].arguments.path === 'b.txt',
+      'Each tool_use block becomes a ToolCall with its id and input'
+    );
+    console.log();
+
+    // TEST 2: Anthropic tool_result follow-up
+    console.log('TEST 2: Tool results go back as tool_result blocks');
+    console.log('-'.repeat(60));
+    const second = await anthropic.chatWithTools(followUp(messages, first.content, first.toolCalls), [readFileTool]);
+    const sentFollowUp = receivedBodies[receivedBodies.length - 1].body;
+    const [user, assistant, results] = sentFollowUp.messages;
+
+    check(sentFollowUp.messages.length === 3 && user.role === 'user', 'Follow-up has the user, assistant and tool result turns');
+    check(
+      assistant.role === 'assistant' &&
+        assistant.content[0].type === 'text' &&
+        assistant.content[1].type === 'tool_use' && assistant.content[1].id === 'toolu_01' && assistant.content[1].input.path === 'a.txt' &&
+        assistant.content[2].id === 'toolu_02',
+      'Assistant turn repeats its text and tool_use blocks'
+    );
+    check(
+      results.role === 'user' && results.content.length === 2 &&
+        results.content.every((b: any) => b.type === 'tool_result') &&
+        results.content[0].tool_use_id === 'toolu_01' && results.content[1].tool_use_id === 'toolu_02' &&
+        results.content[1].content.includes('contents of b.txt'),
+      'Both results are grouped in one user turn, each answering its tool_use id'
+    );
+    check(second.content === 'Both files read.' && second.toolCalls.length === 0, 'Final answer has no tool calls');
+    console.log();
+
+    // TEST 3: OpenAI tool_calls
+    console.log('TEST 3: OpenAI tool_calls become ToolCalls');
+    console.log('-'.repeat(60));
+    const openai = new ProviderLLMAdapter(new OpenAIProvider({ apiKey: 'test-key', maxRetries: 1 }));
+    const calls = await openai.chatWithTools(messages, [readFileTool]);
+    const sentOpenAI = receivedBodies[receivedBodies.length - 1].body;
+
+    check(sentOpenAI.tools[0].type === 'function' && sentOpenAI.tools[0].function.parameters.required[0] === 'path', 'Tools are sent as functions');
+    check(sentOpenAI.messages[0].role === 'system', 'System prompt stays a system message');
+    check(
+      calls.content === '' && calls.stopReason === 'tool_calls' &&
+        calls.toolCalls.length === 2 &&
+        calls.toolCalls[0].id === 'call_01' && calls.toolCalls[0].arguments.path === 'a.txt' &&
+        calls.toolCalls[1].id === 'call_02' && calls.toolCalls[1].arguments.path === 'b.txt',
+      'JSON arguments are parsed into each ToolCall'
+    );
+
+    const bad = await openai.chatWithTools([{ role: 'user', content: 'bad json' }], [readFileTool]).catch(error => error);
+    check(bad instanceof ProviderError && bad.message.includes('invalid JSON arguments'), 'Invalid JSON arguments are a ProviderError');
+    console.log();
+
+    // TEST 4: OpenAI tool messages
+    console.log('TEST 4: Tool results go back as tool messages');
+    console.log('-'.repeat(60));
+    const done = await openai.chatWithTools(followUp(messages, calls.content, calls.toolCalls), [readFileTool]);
+    const sentTools = receivedBodies[receivedBodies.length - 1].body.messages;
+
+    check(
+      sentTools[2].role === 'assistant' && sentTools[2].content === null &&
+        sentTools[2].tool_calls.length === 2 &&
+        sentTools[2].tool_calls[0].id === 'call_01' &&
+        JSON.parse(sentTools[2].tool_calls[0].function.arguments).path === 'a.txt',
+      'Assistant message repeats its tool_calls with string arguments'
+    );
+    check(
+      sentTools.length === 5 &&
+        sentTools[3].role === 'tool' && sentTools[3].tool_call_id === 'call_01' &&
+        sentTools[4].role === 'tool' && sentTools[4].tool_call_id === 'call_02' && sentTools[4].content.includes('contents of b.txt'),
+      'One tool message per call, answering its call id'
+    );
+    check(done.content === 'Both files read.' && done.toolCalls.length === 0, 'Final answer has no tool calls');
+    console.log();
+
+    // TEST 5: Providers without native tool use
+    console.log('TEST 5: Providers without native tool use run as plain chat');
+    console.log('-'.repeat(60));
+    const provider = new TextOnlyProvider();
+    const textOnly = new ProviderLLMAdapter(provider);
+    const plain = await textOnly.chatWithTools(followUp(messages, '', [{ id: 'x1', name: 'readFile', arguments: { path: 'a.txt' } }]), [readFileTool]);
+
+    check(plain.content === 'No tools here.' && plain.toolCalls.length === 0, 'Streamed text is returned without tool calls');
+    check(
+      provider.received[provider.received.length - 1].role === 'user' &&
+        provider.received[provider.received.length - 1].content.startsWith('Tool "readFile" result:'),
+      'Tool results are flattened into user messages'
+    );
+    check((await textOnly.getModelInfo()).id === 'text-model', 'Model info falls back to the first model');
+    check((await anthropic.getModelInfo()).id === 'claude-sonnet-4-20250514', 'Model info uses the current model');
+    console.log();
+  } finally {
+    delete process.env.ANTHROPIC_BASE_URL;
+    delete process.env.OPENAI_BASE_URL;
+    server.close();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Provider Tool Calling Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testProviderToolCalling()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
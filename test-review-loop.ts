@@ -0,0 +1,227 @@
+/**
+ * Test script for plan review rounds
+ *
+ * Runs the orchestrator with scripted implementation, security and
+ * performance agents: reviewers return structured findings, the planner
+ * revises its plan and answers them, and the loop stops when nothing blocks
+ * or the round limit is reached.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MultiAgentOrchestrator } from './src/lib/orchestrator/multi-agent-orchestrator';
+import { buildReviewReport, formatReviewReport } from './src/lib/orchestrator/review-loop';
+import { parseReviewDocument, isBlockingFinding } from './src/lib/agents/review-format';
+import { parsePlanDocument } from './src/lib/executor/plan-format';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+const PLAN_SECTIONS = ['Context Summary', 'Implementation Steps', 'Error Handling Strategy', 'Type Safety',
+  'Testing Requirements', 'Success Metrics', 'Incremental Implementation Checkpoints', 'Rollback Strategy'];
+const SECURITY_SECTIONS = ['Threat Analysis', 'OWASP Top 10 Assessment', 'Security Requirements', 'Vulnerability Assessment',
+  'Mitigation Strategies', 'Compliance Requirements', 'Security Testing', 'Incident Response Plan'];
+const PERFORMANCE_SECTIONS = ['Performance Baseline', 'Bottleneck Analysis', 'Optimization Strategy', 'Resource Utilization',
+  'Scalability Assessment', 'Caching Strategy', 'Database Optimization', 'Performance Testing', 'Monitoring & Alerting'];
+
+const body = (title: string, sections: string[]) => `# ${title}\n\n${sections.map(s => `## ${s}\n`).join('\n')}`;
+
+function plan(responses: string = ''): string {
+  return `---
+planSchema: 1
+title: Password reset
+steps:
+  - id: "1.1"
+    title: Reset endpoint
+    files: [src/reset.ts]
+${responses}---
+
+${body('Password reset', PLAN_SECTIONS)}`;
+}
+
+function review(findings: Array<[string, string, string]>, sections: string[]): string {
+  const list = findings.length === 0 ? 'findings: []\n' : 'findings:\n' + findings.map(([id, severity, title]) =>
+    `  - id: ${id}\n    severity: ${severity}\n    title: ${title}\n    location: step 1.1\n    recommendation: Fix it\n`).join('');
+  return `---\nreviewSchema: 1\n${list}---\n\n${body('Review', sections)}`;
+}
+
+async function testReviewLoop() {
+  console.log('='.repeat(60));
+  console.log('Testing plan review rounds');
+  console.log('='.repeat(60));
+  console.log();
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-review-'));
+
+  try {
+    for (const type of ['implementation', 'security', 'performance']) {
+      await fs.writeFile(path.join(dir, `${type}-agent.md`), `${type} agent for {DOMAIN}`, 'utf-8');
+    }
+
+    // Every agent answers from a script; prompts are kept for inspection
+    let scripts: Record<string, string[]> = {};
+    const prompts: Record<string, string[]> = {};
+    const orchestrator = MultiAgentOrchestrator.forOllama('http://localhost:1', 'test', path.join(dir, 'plans'), dir);
+    const spawn = (orchestrator as any).spawnAgent.bind(orchestrator);
+    (orchestrator as any).spawnAgent = async (type: string, domain: string) => {
+      const agent = await spawn(type, domain);
+      agent.run = async (prompt: string) => {
+        (prompts[type] ??= []).push(prompt);
+        const next = scripts[type].shift();
+        if (next === undefined) {
+          throw new Error(`No scripted answer left for ${type}`);
+        }
+        return next;
+      };
+      return agent;
+    };
+    let executed = false;
+    (orchestrator.getPlanExecutor() as any).executePlan = async () => {
+      executed = true;
+      throw new Error('should not run');
+    };
+
+    // TEST 1: Review format
+    console.log('TEST 1: Review front-matter');
+    console.log('-'.repeat(60));
+    const parsed = parseReviewDocument(review([['SEC-1', 'high', 'Tokens are logged']], SECURITY_SECTIONS));
+    check(parsed.issues.length === 0 && parsed.findings[0].location === 'step 1.1', 'Findings are read from the front-matter');
+    check(isBlockingFinding(parsed.findings[0]) && !isBlockingFinding({ severity: 'medium' }), 'Critical and high findings block');
+    const invalid = parseReviewDocument('---\nreviewSchema: 1\nfindings:\n  - id: SEC-1\n    severity: urgent\n    title: x\n  - id: SEC-1\n    severity: low\n    title: y\n---\n');
+    check(invalid.issues.some(i => i.startsWith('findings[0].severity')) && invalid.issues.some(i => i.includes('duplicate finding')), 'Schema problems are reported per finding');
+    check(parseReviewDocument('# Review\n').issues.length === 1, 'A review without front-matter is rejected');
+    console.log();
+
+    // TEST 2: Converging review
+    console.log('TEST 2: Blocking findings are fed back until none block');
+    console.log('-'.repeat(60));
+    scripts = {
+      implementation: [
+        plan(),
+        plan(`reviewResponses:
+  - { finding: SEC-1, decision: addressed, note: Tokens are redacted }
+  - { finding: SEC-2, decision: accepted, note: Internal only }
+  - { finding: PERF-1, decision: deferred, note: After launch }
+`),
+      ],
+      security: [
+        review([['SEC-1', 'high', 'Tokens are logged'], ['SEC-2', 'low', 'Verbose errors']], SECURITY_SECTIONS),
+        review([['SEC-2', 'low', 'Verbose errors']], SECURITY_SECTIONS),
+      ],
+      performance: [
+        review([['PERF-1', 'medium', 'No rate limit cache']], PERFORMANCE_SECTIONS),
+        review([['PERF-1', 'medium', 'No rate limit cache']], PERFORMANCE_SECTIONS),
+      ],
+    };
+    const result = await orchestrator.executeTask({
+      description: 'Add password reset',
+      domain: 'Node.js API',
+      requiredAgents: ['implementation', 'security', 'performance'],
+      autoExecute: false,
+    });
+    const report = result.review!;
+    const status = (id: string) => report.findings.find(f => f.id === id)!;
+    check(report.rounds.length === 2 && report.converged && report.blockingOpen === 0, 'Loop stops once nothing blocks');
+    check(prompts.implementation[1].includes('SEC-1 [high, blocking] (security) Tokens are logged'), 'Planner is given the findings');
+    check(prompts.security[1].includes('SEC-1 [high] Tokens are logged - addressed: Tokens are redacted'), 'Reviewers see the planner\'s responses');
+    check(!prompts.security[1].includes('PERF-1'), 'Reviewers only see their own findings');
+    check(result.plans.implementation.endsWith('-r2.md'), 'Revised plan replaces the original');
+    const revised = parsePlanDocument(await fs.readFile(result.plans.implementation, 'utf-8'));
+    check(revised.issues.length === 0 && revised.spec.reviewResponses.length === 3, 'Revision keeps its review responses');
+    check(status('SEC-1').status === 'resolved' && status('SEC-1').closedInRound === 2, 'Fixed findings are resolved');
+    check(status('SEC-2').status === 'accepted', 'Accepted findings are accepted');
+    check(status('PERF-1').status === 'deferred' && status('PERF-1').reviewer === 'performance', 'Open findings are deferred');
+    check(result.summary.includes('### Resolved') && result.summary.includes('Tokens are redacted'), 'Summary reports each finding');
+    const records = orchestrator.getAgentRegistry();
+    check(records.length === 6, 'Every review and revision is registered');
+    console.log();
+
+    // TEST 3: Round limit
+    console.log('TEST 3: The loop ends at the round limit');
+    console.log('-'.repeat(60));
+    scripts = {
+      implementation: [plan(), plan('reviewResponses:\n  - { finding: SEC-1, decision: deferred, note: Needs a design }\n')],
+      security: [
+        review([['SEC-1', 'critical', 'Reset tokens never expire']], SECURITY_SECTIONS),
+        review([['SEC-1', 'critical', 'Reset tokens never expire']], SECURITY_SECTIONS),
+      ],
+    };
+    const limited = await orchestrator.executeTask({
+      description: 'Add password reset',
+      domain: 'Node.js API',
+      requiredAgents: ['implementation', 'security'],
+      autoExecute: true,
+      reviewRounds: 2,
+    });
+    check(limited.review!.rounds.length === 2 && scripts.implementation.length === 0, 'Planner revises once for two rounds');
+    check(!limited.review!.converged && limited.review!.blockingOpen === 1, 'Open blocking findings are reported');
+    check(limited.review!.findings[0].status === 'deferred', 'Unresolved finding is deferred');
+    check(!executed && limited.execution === undefined, 'Plans with blocking findings are not auto-executed');
+    console.log();
+
+    // TEST 4: Reviewers alone
+    console.log('TEST 4: Reviewers without an implementation agent');
+    console.log('-'.repeat(60));
+    scripts = { security: [review([], SECURITY_SECTIONS)] };
+    const alone = await orchestrator.executeTask({
+      description: 'Audit login',
+      domain: 'Node.js API',
+      requiredAgents: ['security'],
+      autoExecute: false,
+    });
+    check(alone.review === undefined && alone.plans.security !== undefined, 'Reviewers write a single review');
+    console.log();
+
+    // TEST 5: Report
+    console.log('TEST 5: Report');
+    console.log('-'.repeat(60));
+    const finding = { id: 'SEC-9', severity: 'high' as const, title: 'T', location: '', recommendation: '', reviewer: 'security' };
+    const single = buildReviewReport([{ round: 1, planFile: 'p.md', findings: [finding], responses: [] }]);
+    const text = formatReviewReport(single);
+    console.log(text);
+    check(!single.converged && text.includes('1 blocking finding(s) open') && text.includes('### Deferred'), 'Report shows open findings');
+
+    const clash = { ...finding, id: 'F-1' };
+    const rounds = [
+      {
+        round: 1, planFile: 'p.md',
+        findings: [clash, { ...clash, reviewer: 'performance', severity: 'medium' as const }],
+        responses: [
+          { finding: 'performance:F-1', decision: 'accepted' as const, note: 'Fine for now' },
+          { finding: 'F-1', decision: 'addressed' as const, note: 'Ambiguous' },
+        ],
+      },
+      { round: 2, planFile: 'p-r2.md', findings: [{ ...clash, reviewer: 'performance', severity: 'medium' as const }], responses: [] },
+    ];
+    const shared = buildReviewReport(rounds);
+    const [security, performance] = shared.findings;
+    check(shared.findings.length === 2 && security.reviewer === 'security' && performance.reviewer === 'performance', 'Reviewers using the same id keep separate findings');
+    check(security.status === 'resolved' && security.closedInRound === 2 && security.response === undefined, 'Each finding is resolved on its own');
+    check(performance.status === 'accepted' && performance.response?.note === 'Fine for now', 'Responses naming <reviewer>:<id> answer one finding');
+    console.log();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Plan Review Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testReviewLoop()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,218 @@
+/**
+ * Test script for executable skills
+ *
+ * Skills declare tools in SKILL.md: script tools run a file from scripts/
+ * without a shell, with a minimal environment and under the command policy;
+ * template tools render files from templates/ with the model's arguments
+ * and write them through writeFile.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+const SKILL = `---
+name: release-notes
+description: Drafts release notes
+requires_code_execution: true
+tools:
+  - name: summarize
+    description: Summarize a change
+    parameters:
+      title:
+        type: string
+        required: true
+      level:
+        type: string
+        enum: [patch, minor, major]
+        default: patch
+      count:
+        type: integer
+    script: summarize.sh
+    args: ["--title", "{{title}}"]
+  - name: slow
+    description: Never finishes in time
+    script: slow.sh
+    timeout: 1
+  - name: draft
+    description: Write a release notes file
+    parameters:
+      version:
+        type: string
+        required: true
+      title:
+        type: string
+        required: true
+    files:
+      - template: notes.md
+        output: "notes/{{version}}-{{title | kebab}}.md"
+      - template: notes.md
+---
+
+# Release notes
+`;
+
+const SUMMARIZE = `echo "args: $1 $2"
+echo "level: $SKILL_PARAM_LEVEL"
+echo "params: $SKILL_PARAMS"
+echo "secret: \${SELEK_TEST_SECRET:-unset}"
+echo "dir: $(basename "$SKILL_DIR")"
+`;
+
+async function testSkillExecutor() {
+  console.log('='.repeat(60));
+  console.log('Testing executable skills');
+  console.log('='.repeat(60));
+  console.log();
+
+  const dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'selek-skill-executor-')));
+  process.env.AGENT_HOME = path.join(dir, '.home');
+  process.env.SELEK_TEST_SECRET = 'hunter2';
+  const skillsDir = path.join(dir, 'skills');
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(skillsDir, file)), { recursive: true });
+    await fs.writeFile(path.join(skillsDir, file), content, 'utf-8');
+  };
+
+  // Imported after AGENT_HOME is set
+  const { addTrusted } = await import('./src/lib/trust');
+  const { SkillLoader } = await import('./src/lib/skills/SkillLoader');
+  const { SkillExecutor, TemplateRenderError, renderTemplate } = await import('./src/lib/skills/SkillExecutor');
+  const { CommandPolicy, CommandPolicyError } = await import('./src/lib/tools/command-policy');
+
+  try {
+    await addTrusted(dir);
+    await write('release-notes/SKILL.md', SKILL);
+    await write('release-notes/scripts/summarize.sh', SUMMARIZE);
+    await write('release-notes/scripts/slow.sh', 'sleep 5\n');
+    await write('release-notes/templates/notes.md', '# {{ version }}: {{ title }}\n\n- {{ title | pascal }}\n');
+    await write('unsafe/SKILL.md', SKILL.replace('requires_code_execution: true', 'requires_code_execution: false').replace('{{title}}"]', '{{name}}"]').replace('name: release-notes', 'name: unsafe'));
+
+    const loader = new SkillLoader(skillsDir);
+    await loader.loadAll();
+    const skill = loader.getSkill('release-notes')!;
+    const policy = new CommandPolicy({ trustedRoots: async () => [dir], auditLogPath: null });
+    const executor = new SkillExecutor(policy);
+    const tools = new Map(executor.getTools(skill).map(tool => [tool.name, tool]));
+    const context = { workDir: dir };
+
+    // TEST 1: Declarations
+    console.log('TEST 1: Tool declarations are checked when the skill loads');
+    console.log('-'.repeat(60));
+    check([...tools.keys()].join(',') === 'release-notes__summarize,release-notes__slow,release-notes__draft', 'Tools are named <skill>__<tool>');
+    const schema = tools.get('release-notes__summarize')!.schema;
+    check(schema.parameters.required!.join(',') === 'title' && schema.parameters.properties.level.enum!.join(',') === 'patch,minor,major', 'Parameters become the tool schema');
+    const unsafe = loader.getLoadErrors().find(e => e.id === 'unsafe')?.error ?? '';
+    console.log(`  ${unsafe}`);
+    check(unsafe.includes('script tools need requires_code_execution: true'), 'Scripts need requires_code_execution');
+    check(unsafe.includes('uses undeclared parameter "name"'), 'Placeholders must be declared parameters');
+    check(unsafe.includes('template "notes.md" not found'), 'Templates must exist');
+    console.log();
+
+    // TEST 2: Templates
+    console.log('TEST 2: Templates render with filters');
+    console.log('-'.repeat(60));
+    check(renderTemplate('{{ name | pascal }} {{name|camel}} {{ name | kebab }} {{ name | snake }}', { name: 'rate limiterV2' }) === 'RateLimiterV2 rateLimiterV2 rate-limiter-v2 rate_limiter_v2', 'Case filters split words');
+    check(renderTemplate('{{{ name | upper }}}', { name: 'x' }) === '{X}', 'Braces around a placeholder are kept');
+    const missing = (() => { try { renderTemplate('{{ nope }}', {}); } catch (error) { return error; } })();
+    check(missing instanceof TemplateRenderError && missing.message.includes('"nope"'), 'Missing variables are an error');
+    console.log();
+
+    // TEST 3: Scripts
+    console.log('TEST 3: Scripts run without a shell and with a minimal environment');
+    console.log('-'.repeat(60));
+    const summarize = tools.get('release-notes__summarize')!;
+    const result = await summarize.run({ title: 'Fix; touch pwned $(id)', count: '3' }, context);
+    console.log(result.stdout);
+    check(result.exitCode === 0 && result.stdout.includes('args: --title Fix; touch pwned $(id)'), 'Arguments reach the script verbatim');
+    check(!(await fs.access(path.join(dir, 'pwned')).then(() => true, () => false)), 'Arguments are not run by a shell');
+    check(result.stdout.includes('level: patch') && result.stdout.includes('"count":3'), 'Defaults are applied and numbers are converted');
+    check(result.stdout.includes('secret: unset') && result.stdout.includes('dir: release-notes'), 'Only a few environment variables are passed on');
+    check(result.command.startsWith('bash ') && result.command.includes("'Fix; touch pwned $(id)'"), 'The command is reported quoted');
+
+    const invalid = await summarize.run({ level: 'huge', extra: 1 }, context).catch(error => error);
+    console.log(`  ${invalid.message}`);
+    check(/missing "title"/.test(invalid.message) && /unknown argument "extra"/.test(invalid.message) && /level must be equal to one of the allowed values/.test(invalid.message), 'Invalid arguments are rejected');
+
+    const slow = await tools.get('release-notes__slow')!.run({}, context);
+    check(slow.exitCode !== 0 && typeof slow.error === 'string', 'Scripts are stopped after their timeout');
+
+    const dryRun = await summarize.run({ title: 'x' }, { ...context, dryRun: true });
+    check(dryRun.skipped !== undefined && dryRun.stdout === '' && dryRun.policy === 'allow' && dryRun.policyNote === undefined, 'Dry runs do not execute scripts');
+    console.log();
+
+    // TEST 4: Policy
+    console.log('TEST 4: Scripts go through the command policy');
+    console.log('-'.repeat(60));
+    const strict = new SkillExecutor(new CommandPolicy({
+      trustedRoots: async () => [dir],
+      auditLogPath: null,
+      rules: [{ action: 'ask', program: 'bash', reason: 'runs a skill script' }],
+    })).getTools(skill)[0];
+    const prompts: string[] = [];
+    const rejected = await strict.run({ title: 'x' }, { ...context, requestApproval: async (reason: string) => { prompts.push(reason); return false; } }).catch(error => error);
+    check(rejected instanceof CommandPolicyError && prompts[0] === 'bash: runs a skill script', 'Scripts needing approval ask first');
+    const approved = await strict.run({ title: 'x' }, { ...context, requestApproval: async () => true });
+    check(approved.exitCode === 0, 'Approved scripts run');
+    const askDryRun = await strict.run({ title: 'x' }, { ...context, dryRun: true, requestApproval: async (reason: string) => { prompts.push(reason); return true; } });
+    check(askDryRun.policy === 'ask' && askDryRun.policyNote === 'needs approval: bash: runs a skill script' && prompts.length === 1, 'Dry runs report scripts needing approval without asking');
+    const denied = new SkillExecutor(new CommandPolicy({
+      trustedRoots: async () => [dir],
+      auditLogPath: null,
+      rules: [{ action: 'deny', program: 'bash', reason: 'no scripts here' }],
+    })).getTools(skill)[0];
+    const deniedDryRun = await denied.run({ title: 'x' }, { ...context, dryRun: true });
+    check(deniedDryRun.policy === 'deny' && deniedDryRun.policyNote === 'would be denied: bash: no scripts here' && deniedDryRun.stdout === '', 'Dry runs report scripts the policy would deny');
+    const outside = await summarize.run({ title: 'x' }, { workDir: os.tmpdir() }).catch(error => error);
+    check(outside instanceof CommandPolicyError, 'Scripts cannot run outside the trusted directories');
+    console.log();
+
+    // TEST 5: Files
+    console.log('TEST 5: Template tools write files');
+    console.log('-'.repeat(60));
+    const edits: any[] = [];
+    const draft = tools.get('release-notes__draft')!;
+    const drafted = await draft.run({ version: '1.2.0', title: 'Faster reload' }, { ...context, recordEdit: async (changes: any[]) => { edits.push(...changes); } });
+    const notes = path.join(dir, 'notes', '1.2.0-faster-reload.md');
+    check(drafted.files[0].path === notes && (await fs.readFile(notes, 'utf-8')) === '# 1.2.0: Faster reload\n\n- FasterReload\n', 'Rendered files are written');
+    check(drafted.files[1].content.startsWith('# 1.2.0') && edits.length === 1, 'Files without an output are returned, written files are recorded');
+
+    await fs.writeFile(path.join(dir, 'notes', '2.0.0-big.md'), 'hand written', 'utf-8');
+    const overwrite = await draft.run({ version: '2.0.0', title: 'big' }, context).catch(error => error);
+    check(overwrite?.name === 'FileNotReadError', 'Existing files are not overwritten unless read first');
+
+    const bundled = await new SkillLoader(path.resolve('skills')).loadSkill('code-generator');
+    const scaffold = executor.getTools(bundled).find(tool => tool.name === 'code-generator__scaffold_class')!;
+    const created = await scaffold.run({ name: 'rate limiter', description: 'Limits requests per client.', directory: 'lib' }, context);
+    const source = await fs.readFile(path.join(dir, 'lib', 'RateLimiter.ts'), 'utf-8');
+    check(created.files.length === 2 && source.includes('export class RateLimiter {') && source.includes(' * Limits requests per client.'), 'The code-generator skill scaffolds a class and its test');
+    console.log();
+  } finally {
+    delete process.env.SELEK_TEST_SECRET;
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Skill Executor Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testSkillExecutor()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
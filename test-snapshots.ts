@@ -0,0 +1,123 @@
+/**
+ * Test script for file snapshots and undo
+ *
+ * Covers recording writeFile, editFile and applyPatch through the tool
+ * context, undoing the last N edits, restoring to a conversation turn,
+ * detecting files changed outside the agent and reloading the store from
+ * its checkpoint. Uses a temporary AGENT_HOME for the checkpoints.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const dir = 'test-snapshots-tmp';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+async function testSnapshots() {
+  console.log('='.repeat(60));
+  console.log('Testing file snapshots and undo');
+  console.log('='.repeat(60));
+  console.log();
+
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-snapshots-'));
+  process.env.AGENT_HOME = home;
+
+  // Imported after AGENT_HOME is set
+  const tools = await import('./src/lib/tools/toolFunctions');
+  const { SnapshotStore, listSnapshotSessions, runUndoCommand } = await import('./src/lib/snapshots/SnapshotStore');
+  const { addTrusted } = await import('./src/lib/trust');
+
+  const read = (name: string) => fs.readFile(`${dir}/${name}`, 'utf-8').catch(() => null);
+
+  try {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir);
+    await fs.writeFile(`${dir}/a.txt`, 'one\ntwo\n', 'utf-8');
+    await addTrusted(dir);
+
+    const store = await SnapshotStore.load('test-session');
+    let calls = 0;
+    const context = (tool: string) => ({ callId: `call_${++calls}`, recordEdit: store.recorder(tool, `call_${calls}`) });
+
+    // TEST 1: Recording
+    console.log('TEST 1: Tools record their edits');
+    console.log('-'.repeat(60));
+    check(store.beginTurn('Rename two to three') === 1, 'Turns are numbered from 1');
+    await tools.readFile({ path: `${dir}/a.txt` });
+    await tools.editFile({ path: `${dir}/a.txt`, old_string: 'two', new_string: 'three' }, context('editFile'));
+    await tools.writeFile({ path: `${dir}/b.txt`, content: 'new file\n' }, context('writeFile'));
+
+    store.beginTurn('Patch both files');
+    await tools.applyPatch({
+      patch: `--- a/${dir}/a.txt\n+++ b/${dir}/a.txt\n@@ -1,2 +1,2 @@\n one\n-three\n+four\n` +
+        `--- a/${dir}/b.txt\n+++ b/${dir}/b.txt\n@@ -1 +1 @@\n-new file\n+patched\n`,
+    }, context('applyPatch'));
+    await tools.applyPatch({ patch: `--- a/${dir}/a.txt\n+++ b/${dir}/a.txt\n@@ -1 +1 @@\n-one\n+zero\n`, dry_run: true }, context('applyPatch'));
+
+    const edits = store.getEdits();
+    check(edits.length === 3, 'One record per tool call, dry runs are skipped');
+    check(edits[1].files[0].before === null, 'New files are recorded as created');
+    check(edits[2].files.length === 2 && edits[2].turn === 2, 'A patch is one record with every file');
+    console.log();
+
+    // TEST 2: Undo last
+    console.log('TEST 2: Undo the last edit');
+    console.log('-'.repeat(60));
+    const last = await store.undoLast(1);
+    check(!last.blocked && last.restored.length === 2, 'The whole patch is undone');
+    check((await read('a.txt')) === 'one\nthree\n' && (await read('b.txt')) === 'new file\n', 'Files are back to their previous content');
+    let error: any = null;
+    await tools.editFile({ path: `${dir}/a.txt`, old_string: 'three', new_string: 'x' }).catch(e => { error = e; });
+    check(error?.name === 'FileNotReadError', 'Restored files must be read again before editing');
+    console.log();
+
+    // TEST 3: External changes
+    console.log('TEST 3: Files changed outside the agent');
+    console.log('-'.repeat(60));
+    await fs.writeFile(`${dir}/b.txt`, 'edited by hand\n', 'utf-8');
+    const blocked = await store.restoreToTurn(1);
+    check(blocked.blocked && blocked.externallyModified.length === 1, 'Undo is blocked and reports the changed file');
+    check((await read('a.txt')) === 'one\nthree\n', 'Nothing is restored when blocked');
+    console.log();
+
+    // TEST 4: Persistence and restore to turn
+    console.log('TEST 4: Restore to a turn from a reloaded store');
+    console.log('-'.repeat(60));
+    check((await listSnapshotSessions())[0]?.sessionId === 'test-session', 'Session is listed for the CLI');
+    const reloaded = await SnapshotStore.load('test-session');
+    check(reloaded.getEdits().length === 2 && reloaded.getCurrentTurn() === 2, 'Edits and turns survive a reload');
+    const message = await runUndoCommand(reloaded, ['turn', '1', 'force']);
+    check(message.includes('overwrote external changes'), 'Force reports the overwritten files');
+    check((await read('a.txt')) === 'one\ntwo\n' && (await read('b.txt')) === null, 'Turn 1 state is restored and created files removed');
+    check((await runUndoCommand(reloaded, [])) === 'Nothing to undo', 'Nothing left to undo');
+    console.log(`   ${message}`);
+    console.log();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.rm(home, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Snapshot Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testSnapshots()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,200 @@
+/**
+ * Test script for per-call tool records
+ *
+ * Two calls of the same tool in one turn must stay two records, each with
+ * its own id, arguments, duration and error: in the agent's ConversationTurn,
+ * in the persisted conversation, and from GET /api/conversations/:id/tool-calls.
+ * Turns saved with the old by-name `toolResults` object are upgraded on load.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Provider that calls `lookup` twice in its first turn, then answers
+ */
+function scriptedProvider() {
+  return {
+    name: 'scripted',
+    models: ['scripted'],
+    async *stream() {
+      yield { type: 'token', data: 'summary' };
+      yield { type: 'done' };
+    },
+    async chatWithTools(messages: any[]) {
+      if (messages.some(m => m.role === 'tool')) {
+        return { content: 'Found one of two.', toolCalls: [] };
+      }
+      return {
+        content: '',
+        toolCalls: [
+          { id: 'call_a', name: 'lookup', arguments: { key: 'alpha', delayMs: 20 } },
+          { id: 'call_b', name: 'lookup', arguments: { key: 'missing', delayMs: 120 } },
+        ],
+      };
+    },
+    async getModelInfo() {
+      return { id: 'scripted', name: 'scripted', contextWindow: 32768, provider: 'scripted', capabilities: [] };
+    },
+    async listModels() {
+      return ['scripted'];
+    },
+    async validateConfig() {
+      return true;
+    },
+    async healthCheck() {
+      return { healthy: true };
+    },
+  };
+}
+
+async function testToolCallRecords() {
+  console.log('='.repeat(60));
+  console.log('Testing per-call tool records');
+  console.log('='.repeat(60));
+  console.log();
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-tool-records-'));
+  process.env.AGENT_HOME = dir;
+
+  // Imported after AGENT_HOME is set
+  const { Agent } = await import('./src/lib/agent');
+  const { AgentServer } = await import('./src/server');
+  const { ConversationStore } = await import('./src/lib/persistence/conversation-store');
+
+  const server = new AgentServer(0);
+  const conversations = new ConversationStore();
+  await conversations.initialize();
+  const listener = server.getApp().listen(0, '127.0.0.1');
+  await new Promise<void>(resolve => listener.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+  try {
+    // TEST 1: Records in the turn
+    console.log('TEST 1: Same-name calls are two records in the turn');
+    console.log('-'.repeat(60));
+    const agent = new Agent({ name: 'records', role: 'sub-agent' }, scriptedProvider() as any, 3);
+    agent.registerTool('lookup', async params => {
+      await sleep(params.delayMs);
+      if (params.key === 'missing') {
+        throw new Error(`No entry for ${params.key}`);
+      }
+      return { key: params.key, value: 1 };
+    }, {
+      name: 'lookup',
+      description: 'Look up a key',
+      parameters: {
+        type: 'object',
+        properties: {
+          key: { type: 'string', description: 'Key' },
+          delayMs: { type: 'number', description: 'Delay' },
+        },
+        required: ['key'],
+      },
+    });
+
+    await agent.run('Look up alpha and missing');
+    const turn = agent.getHistory()[0];
+    const [first, second] = turn.toolResults;
+
+    check(turn.toolCalls.length === 2 && turn.toolResults.length === 2, 'Both calls are recorded');
+    check(first.id === 'call_a' && second.id === 'call_b', 'Each record keeps its call id');
+    check(first.name === 'lookup' && second.name === 'lookup', 'Both records name the same tool');
+    check(first.args.key === 'alpha' && second.args.key === 'missing', 'Each record keeps its own arguments');
+    check(first.result?.key === 'alpha' && first.error === undefined, 'The first call has a result');
+    check(second.result === undefined && second.error?.endsWith('No entry for missing') === true, 'The second call has its own error');
+    check(first.durationMs >= 15 && second.durationMs >= 100 && second.durationMs > first.durationMs, 'Each record has its own duration');
+    console.log();
+
+    // TEST 2: Persisted conversation
+    console.log('TEST 2: Records survive saving and loading the conversation');
+    console.log('-'.repeat(60));
+    const conversationId = await conversations.createConversation('records', 'sub-agent');
+    await conversations.appendTurn(conversationId, turn);
+    const loaded = await conversations.loadConversation(conversationId);
+
+    check(loaded.turns[0].toolResults.length === 2, 'Both records are saved');
+    check(
+      JSON.stringify(loaded.turns[0].toolResults) === JSON.stringify(turn.toolResults),
+      'Loaded records match the turn'
+    );
+    console.log();
+
+    // TEST 3: Tool call API
+    console.log('TEST 3: GET /api/conversations/:id/tool-calls');
+    console.log('-'.repeat(60));
+    const response = await fetch(`${baseUrl}/api/conversations/${conversationId}/tool-calls`);
+    const body: any = await response.json();
+    console.log(`  ${JSON.stringify(body.toolCalls.map((r: any) => [r.id, r.args.key, r.error ?? 'ok']))}`);
+
+    check(response.status === 200 && body.count === 2 && body.toolCalls.length === 2, 'The route returns both records');
+    check(body.toolCalls[0].id === 'call_a' && body.toolCalls[1].id === 'call_b', 'Records keep their ids and order');
+    check(body.toolCalls[0].args.key === 'alpha' && body.toolCalls[1].error === second.error, 'Records keep their own arguments and errors');
+    check(body.toolCalls[1].durationMs === second.durationMs && body.toolCalls.every((r: any) => r.turn === 0), 'Records keep their duration and turn index');
+    console.log();
+
+    // TEST 4: Legacy turns
+    console.log('TEST 4: Turns saved by tool name are upgraded');
+    console.log('-'.repeat(60));
+    const legacyId = await conversations.createConversation('records', 'sub-agent');
+    const legacyFile = path.join(dir, 'conversations', 'data', `${legacyId}.json`);
+    const legacy = JSON.parse(await fs.readFile(legacyFile, 'utf-8'));
+    legacy.turns.push({
+      messages: [{ role: 'user', content: 'old turn' }],
+      toolCalls: [
+        { id: 'old_1', name: 'readFile', arguments: { path: 'a.txt' } },
+        { id: 'old_2', name: 'gitStatus', arguments: {} },
+      ],
+      toolResults: {
+        readFile: { content: 'hello' },
+        gitStatus: { error: 'not a git repository' },
+        httpGet: { status: 200 },
+      },
+      timestamp: '2026-01-02T03:04:05.000Z',
+    });
+    await fs.writeFile(legacyFile, JSON.stringify(legacy), 'utf-8');
+
+    const upgraded = (await conversations.loadConversation(legacyId)).turns[0].toolResults;
+    check(Array.isArray(upgraded) && upgraded.length === 3, 'Legacy results become an array of records');
+    check(upgraded[0].id === 'old_1' && upgraded[1].id === 'old_2' && upgraded[0].args.path === 'a.txt', 'Records take the id and arguments of their call');
+    check(upgraded[2].id === 'legacy-2' && upgraded[2].name === 'httpGet', 'Results without a call get a generated id');
+    check(upgraded[0].name === 'readFile' && upgraded[0].result.content === 'hello' && upgraded[0].error === undefined, 'Results are kept');
+    check(upgraded[1].name === 'gitStatus' && upgraded[1].result === undefined && upgraded[1].error === 'not a git repository', 'Errors are kept');
+    check(upgraded.every(r => r.startedAt === '2026-01-02T03:04:05.000Z' && r.durationMs === 0), 'Upgraded records use the turn time');
+
+    const legacyBody: any = await (await fetch(`${baseUrl}/api/conversations/${legacyId}/tool-calls`)).json();
+    check(legacyBody.count === 3 && legacyBody.toolCalls[1].error === 'not a git repository', 'The route returns upgraded records');
+    console.log();
+  } finally {
+    await new Promise(resolve => listener.close(resolve));
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Tool Call Record Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testToolCallRecords()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,207 @@
+/**
+ * Test script for concurrent tool calls
+ *
+ * Runs an Agent against a scripted provider whose first turn asks for a mix
+ * of slow read-only and mutating calls: read-only calls overlap up to the
+ * concurrency limit, mutating calls run alone, and results go back to the
+ * model in call order.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Agent } from './src/lib/agent';
+import { Tool } from './src/lib/llm/ollama-client';
+import { loadAgentDefinition } from './src/lib/agents/agent-definition';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Provider that asks for `calls` on its first turn, answers once tool results
+ * arrive, and records the messages of every request
+ */
+function scriptedProvider(calls: Array<{ name: string; arguments: Record<string, any> }>) {
+  const requests: any[][] = [];
+  return {
+    requests,
+    name: 'scripted',
+    models: ['scripted'],
+    async *stream() {
+      yield { type: 'token', data: 'summary' };
+      yield { type: 'done' };
+    },
+    async chatWithTools(messages: any[]) {
+      requests.push(messages);
+      const answered = messages.some(m => m.role === 'tool');
+      return {
+        content: answered ? 'done' : '',
+        toolCalls: answered ? [] : calls.map((call, i) => ({ id: `call_${i}`, ...call })),
+      };
+    },
+    async getModelInfo() {
+      return { id: 'scripted', name: 'scripted', contextWindow: 32768, provider: 'scripted', capabilities: [] };
+    },
+    async listModels() {
+      return ['scripted'];
+    },
+    async validateConfig() {
+      return true;
+    },
+    async healthCheck() {
+      return { healthy: true };
+    },
+  };
+}
+
+function schema(name: string, readOnly: boolean): Tool {
+  return {
+    name,
+    description: `Fake ${name}`,
+    readOnly,
+    parameters: { type: 'object', properties: { path: { type: 'string', description: 'Path' } } },
+  };
+}
+
+/**
+ * Agent with slow fake tools that track how many calls are in flight
+ */
+function createAgent(provider: ReturnType<typeof scriptedProvider>, toolConcurrency?: number) {
+  const running = { total: 0, maxReadOnly: 0, mutatingOverlaps: 0, log: [] as string[] };
+
+  const slowTool = (name: string, readOnly: boolean) => async (params: Record<string, any>) => {
+    running.total++;
+    running.log.push(`start ${params.path}`);
+    if (readOnly) {
+      running.maxReadOnly = Math.max(running.maxReadOnly, running.total);
+    } else if (running.total > 1) {
+      running.mutatingOverlaps++;
+    }
+    // Later calls finish first, so call order is not completion order
+    await sleep(readOnly ? 120 - Number(params.path.replace(/\D/g, '')) * 10 : 60);
+    if (!readOnly && running.total > 1) {
+      running.mutatingOverlaps++;
+    }
+    running.total--;
+    running.log.push(`end ${params.path}`);
+    return { tool: name, path: params.path };
+  };
+
+  const agent = new Agent({ name: 'concurrency', role: 'sub-agent', toolConcurrency }, provider as any, 3);
+  for (const [name, readOnly] of [['readFile', true], ['grep', true], ['writeFile', false], ['bashExec', false]] as const) {
+    agent.registerTool(name, slowTool(name, readOnly), schema(name, readOnly));
+  }
+  return { agent, running };
+}
+
+async function testToolConcurrency() {
+  console.log('='.repeat(60));
+  console.log('Testing concurrent tool calls');
+  console.log('='.repeat(60));
+  console.log();
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-tool-concurrency-'));
+  const calls = [
+    { name: 'readFile', arguments: { path: 'r1' } },
+    { name: 'grep', arguments: { path: 'r2' } },
+    { name: 'readFile', arguments: { path: 'r3' } },
+    { name: 'readFile', arguments: { path: 'r4' } },
+    { name: 'writeFile', arguments: { path: 'w5' } },
+    { name: 'readFile', arguments: { path: 'r6' } },
+    { name: 'bashExec', arguments: { path: 'b7' } },
+    { name: 'writeFile', arguments: { path: 'w8' } },
+    { name: 'grep', arguments: { path: 'r9' } },
+  ];
+
+  try {
+    // TEST 1: Read-only calls overlap within the limit
+    console.log('TEST 1: Read-only calls overlap within the limit');
+    console.log('-'.repeat(60));
+    const provider = scriptedProvider(calls);
+    const { agent, running } = createAgent(provider, 2);
+    const answer = await agent.run('Look around and edit');
+    console.log(`  ${running.log.join(', ')}`);
+
+    check(answer === 'done', 'The run finishes after the tool calls');
+    check(running.maxReadOnly === 2, 'At most 2 read-only calls run at once');
+    check(running.log.indexOf('start r2') < running.log.indexOf('end r1'), 'Read-only calls overlap');
+    console.log();
+
+    // TEST 2: Mutating calls run alone
+    console.log('TEST 2: writeFile and bashExec never overlap with other calls');
+    console.log('-'.repeat(60));
+    check(running.mutatingOverlaps === 0, 'No call runs while a mutating call is running');
+    check(
+      running.log.indexOf('start w5') > Math.max(...['r1', 'r2', 'r3', 'r4'].map(p => running.log.indexOf(`end ${p}`))) &&
+        running.log.indexOf('start r6') > running.log.indexOf('end w5'),
+      'Mutating calls wait for earlier reads, later reads wait for them'
+    );
+    console.log();
+
+    // TEST 3: Results in call order
+    console.log('TEST 3: Results go back in call order');
+    console.log('-'.repeat(60));
+    const sent = provider.requests[1].filter((m: any) => m.role === 'tool');
+    check(sent.map((m: any) => m.tool_call_id).join(',') === calls.map((_, i) => `call_${i}`).join(','), 'Tool messages follow the call order');
+    check(sent.every((m: any, i: number) => JSON.parse(m.content).path === calls[i].arguments.path), 'Each tool message carries its own call result');
+    const records = agent.getHistory()[0].toolResults;
+    check(records.map(r => r.args.path).join(',') === calls.map(c => c.arguments.path).join(','), 'Recorded results follow the call order');
+    console.log();
+
+    // TEST 4: Settings
+    console.log('TEST 4: The limit comes from the agent, AGENT_TOOL_CONCURRENCY or the default');
+    console.log('-'.repeat(60));
+    const reads = Array.from({ length: 6 }, (_, i) => ({ name: 'readFile', arguments: { path: `r${i + 1}` } }));
+
+    const sequential = createAgent(scriptedProvider(reads), 1);
+    await sequential.agent.run('Read');
+    check(sequential.running.maxReadOnly === 1, 'toolConcurrency 1 runs calls one at a time');
+
+    process.env.AGENT_TOOL_CONCURRENCY = '3';
+    const fromEnv = createAgent(scriptedProvider(reads));
+    await fromEnv.agent.run('Read');
+    check(fromEnv.running.maxReadOnly === 3, 'AGENT_TOOL_CONCURRENCY sets the limit for agents without one');
+
+    process.env.AGENT_TOOL_CONCURRENCY = 'many';
+    const fallback = createAgent(scriptedProvider(reads));
+    await fallback.agent.run('Read');
+    check(fallback.running.maxReadOnly === 4, 'Invalid values fall back to 4');
+    delete process.env.AGENT_TOOL_CONCURRENCY;
+
+    await fs.mkdir(path.join(dir, 'reader'));
+    await fs.writeFile(
+      path.join(dir, 'reader', 'AGENT.md'),
+      '---\nid: reader\nname: Reader\ndescription: Reads\ntool_concurrency: 2\ntools: [readFile]\n---\n\nYou read.\n',
+      'utf-8'
+    );
+    const definition = await loadAgentDefinition(dir, 'reader');
+    check(definition?.metadata.tool_concurrency === 2, 'AGENT.md tool_concurrency is loaded');
+    console.log();
+  } finally {
+    delete process.env.AGENT_TOOL_CONCURRENCY;
+    await fs.rm(dir, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Tool Concurrency Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testToolConcurrency()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
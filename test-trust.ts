@@ -0,0 +1,152 @@
+/**
+ * Test script for trusted directory enforcement
+ *
+ * Covers the working directory needing trust, absolute paths, `..` escapes,
+ * symlinks (including dangling ones), search tools following symlinks, shell
+ * path arguments, git tool paths and the trusted.json list. Uses a temporary
+ * AGENT_HOME so the real trust list is not touched.
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+
+const dir = 'test-trust-tmp';
+
+function check(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(description);
+  }
+  console.log(`✅ PASS: ${description}`);
+}
+
+async function expectError(name: string, run: () => Promise<unknown>, description: string) {
+  try {
+    await run();
+  } catch (error: any) {
+    check(error.name === name, `${description} (${error.name})`);
+    console.log(`   Message: ${error.message}`);
+    return;
+  }
+  throw new Error(`${description} - no error thrown`);
+}
+
+async function testTrust() {
+  console.log('='.repeat(60));
+  console.log('Testing trusted directories');
+  console.log('='.repeat(60));
+  console.log();
+
+  const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'selek-trust-'));
+  process.env.AGENT_HOME = path.join(outside, 'home');
+
+  // Imported after AGENT_HOME is set
+  const trust = await import('./src/lib/trust');
+  const tools = await import('./src/lib/tools/toolFunctions');
+  const { CommandPolicy } = await import('./src/lib/tools/command-policy');
+  const { registerGitTools } = await import('./src/lib/tools/git-tools');
+
+  try {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir);
+    await fs.writeFile(`${dir}/inside.txt`, 'inside\n', 'utf-8');
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'needle secret\n', 'utf-8');
+    await fs.symlink(outside, `${dir}/escape`);
+    await fs.symlink(path.join(outside, 'secret.txt'), `${dir}/secret-link.txt`);
+    await fs.symlink(path.join(outside, 'created.txt'), `${dir}/dangling.txt`);
+
+    // TEST 1: File tools
+    console.log('TEST 1: File tools stay inside the trusted directories');
+    console.log('-'.repeat(60));
+    await expectError('UntrustedPathError', () => tools.readFile({ path: `${dir}/inside.txt` }), 'The working directory is not trusted implicitly');
+    await trust.addTrusted(dir);
+    const inside = await tools.readFile({ path: `${dir}/inside.txt` });
+    check(inside.content === 'inside\n', 'Files inside the project can be read');
+    await expectError('UntrustedPathError', () => tools.readFile({ path: path.join(outside, 'secret.txt') }), 'Absolute path outside is rejected');
+    await expectError('UntrustedPathError', () => tools.readFile({ path: path.relative(process.cwd(), path.join(outside, 'secret.txt')) }), '.. escape is rejected');
+    await expectError('UntrustedPathError', () => tools.readFile({ path: `${dir}/escape/secret.txt` }), 'Symlinked directory is resolved');
+    await expectError('UntrustedPathError', () => tools.writeFile({ path: `${dir}/escape/new.txt`, content: 'x' }), 'New file under a symlinked directory is rejected');
+    await expectError('UntrustedPathError', () => tools.writeFile({ path: `${dir}/dangling.txt`, content: 'x' }), 'Dangling symlink is followed');
+    check(!(await fs.access(path.join(outside, 'created.txt')).then(() => true, () => false)), 'Nothing was written outside');
+    await expectError('UntrustedPathError', () => tools.applyPatch({
+      patch: `--- /dev/null\n+++ b/${dir}/escape/patched.txt\n@@ -0,0 +1 @@\n+x\n`,
+    }), 'applyPatch checks every path');
+    await fs.symlink('inside.txt', `${dir}/inside-link.txt`);
+    check(await trust.assertTrustedPath(`${dir}/inside-link.txt`) === path.join(await fs.realpath(dir), 'inside.txt'), 'The checked real path is returned');
+    console.log();
+
+    // TEST 2: Search tools
+    console.log('TEST 2: Search tools');
+    console.log('-'.repeat(60));
+    await expectError('UntrustedPathError', () => tools.searchFiles({ dir: outside }), 'searchFiles outside is rejected');
+    const hits = await tools.blobSearch({ dir, q: 'needle' });
+    check(hits.count === 0, 'blobSearch does not read symlinked files outside');
+    console.log();
+
+    // TEST 3: Shell commands
+    console.log('TEST 3: Shell path arguments');
+    console.log('-'.repeat(60));
+    const policy = new CommandPolicy({ trustedRoots: trust.getTrustedRoots, auditLogPath: null });
+    const action = async (command: string) => (await policy.evaluate(command, path.resolve(dir))).action;
+    check((await action(`cat ${path.join(outside, 'secret.txt')}`)) === 'ask', 'Reading outside needs approval');
+    check((await action(`echo x > ${path.join(outside, 'out.txt')}`)) === 'deny', 'Writing outside is denied');
+    check((await action('cat escape/secret.txt')) === 'ask', 'Symlinks in arguments are resolved');
+    check((await action('grep -rn "/api/" .')) === 'allow', 'Words that only look like paths are ignored');
+    console.log();
+
+    // TEST 4: Trust list
+    console.log('TEST 4: Trust list');
+    console.log('-'.repeat(60));
+    check(!(await trust.isTrusted(outside)), 'Temporary folder starts untrusted');
+    let asked = '';
+    check(!(await trust.ensureFolderTrusted(outside, async d => { asked = d; return false; })), 'Declining keeps the folder untrusted');
+    check(asked === (await trust.realpathDeep(outside)), 'Prompt shows the resolved folder');
+    check(await trust.ensureFolderTrusted(outside, async () => true), 'Accepting trusts the folder');
+    check(await trust.isTrusted(path.join(outside, 'home')), 'Subfolders of a trusted folder are trusted');
+    check((await tools.readFile({ path: `${dir}/escape/secret.txt` })).content.includes('needle'), 'Tools can use the trusted folder');
+    check((await action(`cat ${path.join(outside, 'secret.txt')}`)) === 'allow', 'Shell can use the trusted folder');
+    await trust.removeTrusted(outside);
+    check(!(await trust.isTrusted(outside)), 'Removed folder is untrusted again');
+    console.log();
+
+    // TEST 5: Git tools
+    console.log('TEST 5: Git tool paths are arguments, not shell words');
+    console.log('-'.repeat(60));
+    const gitTools = new Map<string, (params: any, context?: any) => Promise<any>>();
+    registerGitTools({ registerTool: (name: string, run: any) => gitTools.set(name, run) } as any);
+    execFileSync('git', ['init', '-q'], { cwd: dir });
+    const pwned = path.join(outside, 'pwned');
+    const context = { callId: 'git', workDir: path.resolve(dir) };
+    const diff = await gitTools.get('gitDiff')!({ file: `x; touch ${pwned}` }, context).catch(error => error);
+    const add = await gitTools.get('gitAdd')!({ files: ['inside.txt', `$(touch ${pwned})`] }, context).catch(error => error);
+    check(!(await fs.access(pwned).then(() => true, () => false)), 'Shell syntax in file names is not run');
+    check(diff.diff === '' && add instanceof Error && /did not match any files/.test(add.message), 'The names reach git as one path each');
+    await expectError('UntrustedPathError', () => gitTools.get('gitDiff')!({ file: path.join(outside, 'secret.txt') }, context), 'gitDiff checks its file');
+    await expectError('UntrustedPathError', () => gitTools.get('gitAdd')!({ files: 'inside.txt escape/secret.txt' }, context), 'gitAdd checks every file');
+    const staged = await gitTools.get('gitAdd')!({ files: 'inside.txt' }, context);
+    const status = await gitTools.get('gitStatus')!({}, context);
+    check(staged.success && status.changes.some((c: any) => c.status === 'A' && c.file === 'inside.txt'), 'Paths resolve against the workDir');
+    console.log();
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.rm(outside, { recursive: true, force: true });
+    console.log('✓ Cleaned up test files');
+    console.log();
+  }
+
+  console.log('='.repeat(60));
+  console.log('Trusted Directory Tests Complete');
+  console.log('='.repeat(60));
+}
+
+// Run tests
+testTrust()
+  .then(() => {
+    console.log('\n✅ All tests completed successfully');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });